@@ -0,0 +1,66 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { CompanyNotFoundError, DataProvider, fetchFinancialHistoryCached, resolveProviders } from '../../../../lib/providers';
+import { shouldBypassCache } from '../../../../lib/cache';
+import { invalidSecuritiesCodeMessage, isSecuritiesCode } from '../../../../lib/securities-code';
+
+/**
+ * Financial History API Route Handler
+ * Returns per-fiscal-year series (revenue, operating income, net income, equity,
+ * total assets, operating CF, FCF) in million JPY, each point with its endDate
+ * Responses are cached; ?refresh=1 or Cache-Control: no-cache bypasses the cache
+ * ?source= selects providers the same way as GET /api/edinet/[code]
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: securitiesCode } = await params;
+  if (!isSecuritiesCode(securitiesCode)) {
+    return NextResponse.json({ error: invalidSecuritiesCodeMessage(securitiesCode) }, { status: 400 });
+  }
+
+  const source = request.nextUrl.searchParams.get('source');
+
+  let providers: DataProvider[];
+  try {
+    providers = resolveProviders(source);
+  } catch {
+    return NextResponse.json(
+      { error: `データソース ${source} は利用できません（yahoo / file / xbrl）` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    console.log('History API called with code:', securitiesCode, 'providers:', providers.map((p) => p.id));
+
+    const { entry, status, revalidate } = await fetchFinancialHistoryCached(securitiesCode, providers, {
+      bypass: shouldBypassCache(request),
+    });
+    if (revalidate) after(revalidate);
+
+    return NextResponse.json(
+      {
+        ...entry.value,
+        fetchedAt: new Date(entry.updatedAt.statement || Date.now()).toISOString(),
+        cache: { status },
+      },
+      { headers: { 'X-Cache': status.toUpperCase() } }
+    );
+  } catch (error) {
+    console.error('History provider error:', error);
+
+    if (error instanceof CompanyNotFoundError) {
+      return NextResponse.json(
+        { error: `証券コード ${securitiesCode} の過去データが見つかりませんでした` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'データ取得中にエラーが発生しました' },
+      { status: 500 }
+    );
+  }
+}
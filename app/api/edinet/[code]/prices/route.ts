@@ -0,0 +1,80 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { CompanyNotFoundError, DataProvider, fetchPriceHistoryCached, resolveProviders } from '../../../../lib/providers';
+import { shouldBypassCache } from '../../../../lib/cache';
+import { invalidSecuritiesCodeMessage, isSecuritiesCode } from '../../../../lib/securities-code';
+import { parsePriceInterval, parsePriceRange } from '../../../../lib/price-history';
+
+/**
+ * Price History API Route Handler
+ * Returns split-adjusted OHLCV bars in JPY, oldest first
+ * ?range=1M|3M|6M|1Y|3Y|5Y|10Y (default 1Y) and ?interval=1d|1wk|1mo (default per range)
+ * Responses are cached with the price TTL; ?refresh=1 or Cache-Control: no-cache bypasses the cache
+ * ?source= selects providers the same way as GET /api/edinet/[code]
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code: securitiesCode } = await params;
+  if (!isSecuritiesCode(securitiesCode)) {
+    return NextResponse.json({ error: invalidSecuritiesCodeMessage(securitiesCode) }, { status: 400 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const source = searchParams.get('source');
+
+  const range = parsePriceRange(searchParams.get('range'));
+  const interval = range && parsePriceInterval(searchParams.get('interval'), range);
+  if (!range || !interval) {
+    return NextResponse.json(
+      { error: '期間（1M / 3M / 6M / 1Y / 3Y / 5Y / 10Y）または足（1d / 1wk / 1mo）の指定が不正です' },
+      { status: 400 }
+    );
+  }
+
+  let providers: DataProvider[];
+  try {
+    providers = resolveProviders(source);
+  } catch {
+    return NextResponse.json(
+      { error: `データソース ${source} は利用できません（yahoo / file / xbrl）` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    console.log('Prices API called with code:', securitiesCode, range, interval, 'providers:', providers.map((p) => p.id));
+
+    const { entry, status, revalidate } = await fetchPriceHistoryCached(securitiesCode, providers, {
+      range,
+      interval,
+      bypass: shouldBypassCache(request),
+    });
+    if (revalidate) after(revalidate);
+
+    return NextResponse.json(
+      {
+        ...entry.value,
+        range,
+        fetchedAt: new Date(entry.updatedAt.price || Date.now()).toISOString(),
+        cache: { status },
+      },
+      { headers: { 'X-Cache': status.toUpperCase() } }
+    );
+  } catch (error) {
+    console.error('Price provider error:', error);
+
+    if (error instanceof CompanyNotFoundError) {
+      return NextResponse.json(
+        { error: `証券コード ${securitiesCode} の株価データが見つかりませんでした` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'データ取得中にエラーが発生しました' },
+      { status: 500 }
+    );
+  }
+}
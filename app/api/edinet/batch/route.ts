@@ -0,0 +1,118 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { DataProvider, fetchCompanyDataCached, resolveProviders } from '../../../lib/providers';
+import { shouldBypassCache } from '../../../lib/cache';
+import {
+  CompanyErrorResponse,
+  CompanyResponse,
+  toCompanyErrorResponse,
+  toCompanyResponse,
+} from '../../../lib/company-response';
+import { parseReportingPeriod } from '../../../lib/reporting-period';
+import { invalidSecuritiesCodeMessage, isSecuritiesCode } from '../../../lib/securities-code';
+
+/**
+ * Batch Company Data API Route Handler
+ * Body: { codes: string[], source?: string, period?: 'annual' | 'ttm', refresh?: boolean }
+ * Fetches up to MAX_BATCH_SIZE codes with BATCH_CONCURRENCY lookups at a time
+ * Each result carries the status and body GET /api/edinet/[code] would have returned,
+ * so one failing code does not fail the batch; malformed codes get a 400 result without a lookup
+ */
+
+const MAX_BATCH_SIZE = 100;
+const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 4;
+
+interface BatchRequest {
+  codes?: unknown;
+  source?: unknown;
+  period?: unknown;
+  refresh?: unknown;
+}
+
+interface BatchResult {
+  code: string;
+  status: number;
+  data: CompanyResponse | CompanyErrorResponse;
+}
+
+/**
+ * Map items with at most `limit` tasks running at once, keeping input order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export async function POST(request: NextRequest) {
+  let body: BatchRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'リクエスト本文をJSONで指定してください' }, { status: 400 });
+  }
+
+  if (!body || typeof body !== 'object' || !Array.isArray(body.codes) || body.codes.length === 0) {
+    return NextResponse.json({ error: '証券コードの配列（codes）を指定してください' }, { status: 400 });
+  }
+
+  const codes = [...new Set(body.codes.map((code) => String(code).trim()).filter(Boolean))];
+  if (codes.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `一度に取得できるのは${MAX_BATCH_SIZE}銘柄までです` },
+      { status: 400 }
+    );
+  }
+
+  const period = parseReportingPeriod(typeof body.period === 'string' ? body.period : null);
+  if (!period) {
+    return NextResponse.json(
+      { error: '集計期間の指定が不正です（annual / ttm）' },
+      { status: 400 }
+    );
+  }
+
+  const source = typeof body.source === 'string' ? body.source : null;
+  let providers: DataProvider[];
+  try {
+    providers = resolveProviders(source);
+  } catch {
+    return NextResponse.json(
+      { error: `データソース ${source} は利用できません（yahoo / file / xbrl）` },
+      { status: 400 }
+    );
+  }
+
+  const bypass = body.refresh === true || shouldBypassCache(request);
+  console.log('Batch API called with', codes.length, 'codes, period:', period, 'providers:', providers.map((p) => p.id));
+
+  const results = await mapWithConcurrency(codes, BATCH_CONCURRENCY, async (code): Promise<BatchResult> => {
+    if (!isSecuritiesCode(code)) {
+      return { code, status: 400, data: { error: invalidSecuritiesCodeMessage(code) } };
+    }
+
+    try {
+      const result = await fetchCompanyDataCached(code, providers, { bypass, period });
+      if (result.revalidate) after(result.revalidate);
+      return { code, status: 200, data: toCompanyResponse(result) };
+    } catch (error) {
+      console.error('Data provider error:', code, error);
+      const { status, body: errorBody } = toCompanyErrorResponse(error, code);
+      return { code, status, data: errorBody };
+    }
+  });
+
+  return NextResponse.json({
+    results,
+    succeeded: results.filter((result) => result.status === 200).length,
+    failed: results.filter((result) => result.status !== 200).length,
+  });
+}
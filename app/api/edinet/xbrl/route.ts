@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilingTooLargeError, loadFiling, MAX_FILING_BYTES } from '../../../lib/xbrl-filings';
+import { filingToCompanyData } from '../../../lib/providers/xbrl';
+
+/**
+ * EDINET XBRL API Route Handler
+ * Parses an uploaded filing package (zip) or XBRL document
+ * Filings stored locally are served by GET /api/edinet/[code]?source=xbrl
+ * Responses have the same shape as GET /api/edinet/[code], plus the filing's history
+ * Uploads over MAX_FILING_BYTES, or packages inflating past MAX_FILING_UNCOMPRESSED_BYTES, get 413
+ */
+
+const tooLargeResponse = () =>
+  NextResponse.json(
+    { error: `ファイルが大きすぎます（上限 ${MAX_FILING_BYTES / 1024 / 1024}MB、展開後の合計にも上限があります）` },
+    { status: 413 }
+  );
+
+export async function POST(request: NextRequest) {
+  // Refuse oversized bodies before they are buffered
+  if (Number(request.headers.get('content-length')) > MAX_FILING_BYTES + 64 * 1024) {
+    return tooLargeResponse();
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'XBRLファイル（zip / xbrl）を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    console.log('XBRL upload received:', file.name, file.size);
+    if (file.size > MAX_FILING_BYTES) {
+      return tooLargeResponse();
+    }
+
+    const filing = await loadFiling(new Uint8Array(await file.arrayBuffer()));
+
+    const companyData = filingToCompanyData(filing);
+
+    return NextResponse.json({
+      ...companyData,
+      provider: 'xbrl',
+      history: { symbol: companyData.symbol, dataSource: companyData.dataSource, series: filing.history },
+      fetchedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('XBRL parse error:', error);
+    if (error instanceof FilingTooLargeError) {
+      return tooLargeResponse();
+    }
+
+    return NextResponse.json(
+      { error: 'XBRLファイルを読み込めませんでした。EDINETの提出書類パッケージを指定してください。' },
+      { status: 400 }
+    );
+  }
+}
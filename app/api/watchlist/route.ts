@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isWatchlistEntry, MAX_WATCHLIST_BYTES, MAX_WATCHLIST_ENTRIES } from '../../lib/watchlist';
+import { readStoredWatchlist, WATCHLIST_FILE, writeStoredWatchlist } from '../../lib/watchlist-store';
+
+/**
+ * Watchlist API Route Handler
+ * GET returns the stored list, PUT { entries } replaces it
+ * Only available when WATCHLIST_FILE is set; otherwise the list stays in the browser
+ * There are no user accounts: anyone who can reach the server shares one list, so WATCHLIST_FILE
+ * is meant for personal deployments. PUT is refused from other sites' pages (Origin check)
+ */
+
+const DISABLED_RESPONSE = { error: 'サーバー側のウォッチリスト保存は無効です（WATCHLIST_FILE を設定してください）' };
+
+const tooLargeResponse = () =>
+  NextResponse.json(
+    { error: `リクエストが大きすぎます（上限 ${MAX_WATCHLIST_BYTES / 1024}KB）` },
+    { status: 413 }
+  );
+
+// Browsers send Origin with cross-site requests; a page on another host may not replace the list
+const isCrossOrigin = (request: NextRequest) => {
+  const origin = request.headers.get('origin');
+  if (!origin) return false;
+  try {
+    return new URL(origin).host !== request.headers.get('host');
+  } catch {
+    return true;
+  }
+};
+
+export async function GET() {
+  if (!WATCHLIST_FILE) {
+    return NextResponse.json(DISABLED_RESPONSE, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json({ entries: await readStoredWatchlist(WATCHLIST_FILE) });
+  } catch (error) {
+    console.error('Watchlist read error:', error);
+    return NextResponse.json({ error: 'ウォッチリストの読み込みに失敗しました' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  if (!WATCHLIST_FILE) {
+    return NextResponse.json(DISABLED_RESPONSE, { status: 404 });
+  }
+
+  if (isCrossOrigin(request)) {
+    return NextResponse.json({ error: '他のサイトからはウォッチリストを変更できません' }, { status: 403 });
+  }
+
+  // Refuse oversized bodies before they are buffered, and check the actual length after
+  if (Number(request.headers.get('content-length')) > MAX_WATCHLIST_BYTES) {
+    return tooLargeResponse();
+  }
+  const text = await request.text();
+  if (Buffer.byteLength(text) > MAX_WATCHLIST_BYTES) {
+    return tooLargeResponse();
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ error: 'リクエスト本文をJSONで指定してください' }, { status: 400 });
+  }
+
+  const entries = body && typeof body === 'object' ? (body as { entries?: unknown }).entries : undefined;
+  if (!Array.isArray(entries)) {
+    return NextResponse.json({ error: 'ウォッチリストの配列（entries）を指定してください' }, { status: 400 });
+  }
+  if (entries.length > MAX_WATCHLIST_ENTRIES) {
+    return NextResponse.json(
+      { error: `ウォッチリストに登録できるのは${MAX_WATCHLIST_ENTRIES}銘柄までです` },
+      { status: 400 }
+    );
+  }
+  const invalidIndex = entries.findIndex((entry) => !isWatchlistEntry(entry));
+  if (invalidIndex >= 0) {
+    return NextResponse.json(
+      { error: `${invalidIndex + 1}件目の銘柄が不正です（証券コード・財務データの項目と値を確認してください）` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await writeStoredWatchlist(WATCHLIST_FILE, entries);
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Watchlist write error:', error);
+    return NextResponse.json({ error: 'ウォッチリストの保存に失敗しました' }, { status: 500 });
+  }
+}
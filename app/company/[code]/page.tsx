@@ -0,0 +1,14 @@
+import { notFound } from 'next/navigation';
+import Dashboard from '../../components/dashboard';
+import { isSecuritiesCode } from '../../lib/securities-code';
+
+/**
+ * Company Analysis Page
+ * Opens the dashboard with the company loaded; options and edited inputs come from the query string
+ */
+export default async function CompanyPage({ params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params;
+  if (!isSecuritiesCode(code)) notFound();
+
+  return <Dashboard initialCode={code} />;
+}
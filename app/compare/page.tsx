@@ -0,0 +1,32 @@
+"use client";
+
+import Link from 'next/link';
+import PeerComparison from '../components/peer-comparison';
+
+export default function ComparePage() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
+              同業他社比較
+            </h1>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              複数企業の指標と判定を横並びで比較
+            </p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            分析ダッシュボード
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        <PeerComparison />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import InputField from "./input-field";
+import SectorJudgment from "./sector-judgment";
+import { useFinancialData } from "../contexts/financial-data-context";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
+import {
+  calculateOperatingCFMargin,
+  calculateFCFMargin,
+  calculateFCFYield,
+  calculateAccrualRatio,
+  getOperatingCFMarginJudgment,
+  getFCFMarginJudgment,
+  getFCFYieldJudgment,
+  getAccrualRatioJudgment,
+  getCashFlowPatternJudgment,
+  CashFlowJudgment
+} from "../utils/financial";
+
+const CASH_FLOW_LABELS = ['営業CF', '投資CF', '財務CF'];
+
+// Numeric value of a signed input, or null while it is empty or incomplete
+const toSigned = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const num = Number(value);
+  return Number.isNaN(num) ? null : num;
+};
+
+/**
+ * Cash Flow Calculator Component
+ * Analyzes operating CF margin, FCF margin, FCF yield, earnings quality and the CF pattern
+ */
+export default function CashFlowCalculator() {
+  const { data: financialData, provenanceFor, reportMetrics } = useFinancialData();
+  const { thresholds } = useThresholdProfile();
+
+  // Cash flow statement state (signed)
+  const [operatingCashflow, setOperatingCashflow] = useState('');
+  const [investingCashflow, setInvestingCashflow] = useState('');
+  const [financingCashflow, setFinancingCashflow] = useState('');
+  const [freeCashflow, setFreeCashflow] = useState('');
+
+  // Denominators
+  const [revenue, setRevenue] = useState('');
+  const [marketCap, setMarketCap] = useState('');
+  const [netIncome, setNetIncome] = useState('');
+
+  const [operatingCfMargin, setOperatingCfMargin] = useState<number | null>(null);
+  const [fcfMargin, setFcfMargin] = useState<number | null>(null);
+  const [fcfYield, setFcfYield] = useState<number | null>(null);
+  const [accrualRatio, setAccrualRatio] = useState<number | null>(null);
+
+  // Auto-fill from fetched data
+  useEffect(() => {
+    if (financialData) {
+      if (financialData.operatingCashflow) setOperatingCashflow(financialData.operatingCashflow);
+      if (financialData.investingCashflow) setInvestingCashflow(financialData.investingCashflow);
+      if (financialData.financingCashflow) setFinancingCashflow(financialData.financingCashflow);
+      if (financialData.freeCashflow) setFreeCashflow(financialData.freeCashflow);
+      if (financialData.revenue) setRevenue(financialData.revenue);
+      if (financialData.marketCap) setMarketCap(financialData.marketCap);
+      if (financialData.netIncome) setNetIncome(financialData.netIncome);
+    }
+  }, [financialData]);
+
+  // Auto-calculate Operating CF Margin
+  useEffect(() => {
+    const cfNum = toSigned(operatingCashflow);
+    const revenueNum = Number(revenue);
+
+    if (cfNum !== null && revenueNum > 0) {
+      const result = calculateOperatingCFMargin(cfNum, revenueNum);
+      setOperatingCfMargin(result);
+    } else {
+      setOperatingCfMargin(null);
+    }
+  }, [operatingCashflow, revenue]);
+
+  // Auto-calculate FCF Margin
+  useEffect(() => {
+    const fcfNum = toSigned(freeCashflow);
+    const revenueNum = Number(revenue);
+
+    if (fcfNum !== null && revenueNum > 0) {
+      const result = calculateFCFMargin(fcfNum, revenueNum);
+      setFcfMargin(result);
+    } else {
+      setFcfMargin(null);
+    }
+  }, [freeCashflow, revenue]);
+
+  // Auto-calculate FCF Yield
+  useEffect(() => {
+    const fcfNum = toSigned(freeCashflow);
+    const marketCapNum = Number(marketCap);
+
+    if (fcfNum !== null && marketCapNum > 0) {
+      const result = calculateFCFYield(fcfNum, marketCapNum);
+      setFcfYield(result);
+    } else {
+      setFcfYield(null);
+    }
+  }, [freeCashflow, marketCap]);
+
+  // Auto-calculate Accrual Ratio
+  useEffect(() => {
+    const cfNum = toSigned(operatingCashflow);
+    const incomeNum = Number(netIncome);
+
+    if (cfNum !== null && incomeNum > 0) {
+      const result = calculateAccrualRatio(cfNum, incomeNum);
+      setAccrualRatio(result);
+    } else {
+      setAccrualRatio(null);
+    }
+  }, [operatingCashflow, netIncome]);
+
+  // Share results with the investment score
+  useEffect(() => {
+    reportMetrics({ operatingCfMargin, fcfMargin, fcfYield, accrualRatio });
+  }, [operatingCfMargin, fcfMargin, fcfYield, accrualRatio, reportMetrics]);
+
+  const cashFlows = [operatingCashflow, investingCashflow, financingCashflow].map(toSigned);
+  const pattern = cashFlows.every((value) => value !== null && value !== 0)
+    ? getCashFlowPatternJudgment(cashFlows[0]!, cashFlows[1]!, cashFlows[2]!)
+    : null;
+
+  const renderJudgment = (judgment: CashFlowJudgment) => (
+    <div className={`border-l-4 ${judgment.borderColor} pl-4 py-2`}>
+      <p className={`font-semibold ${judgment.textColor} ${judgment.darkTextColor}`}>
+        {judgment.title}
+      </p>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {judgment.description}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+      <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-3">
+        <span className="text-blue-600 dark:text-blue-400 mr-2">5.</span>
+        キャッシュフロー分析
+      </h2>
+
+      {/* Cash Flow Pattern */}
+      <div>
+        <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+          キャッシュフローのパターン
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <InputField
+            name="cashflow.operatingCashflow"
+            label="営業CF（百万円）"
+            value={operatingCashflow}
+            onChange={setOperatingCashflow}
+            provenance={provenanceFor('operatingCashflow', operatingCashflow)}
+            allowNegative
+          />
+
+          <InputField
+            name="cashflow.investingCashflow"
+            label="投資CF（百万円）"
+            value={investingCashflow}
+            onChange={setInvestingCashflow}
+            provenance={provenanceFor('investingCashflow', investingCashflow)}
+            allowNegative
+          />
+
+          <InputField
+            name="cashflow.financingCashflow"
+            label="財務CF（百万円）"
+            value={financingCashflow}
+            onChange={setFinancingCashflow}
+            provenance={provenanceFor('financingCashflow', financingCashflow)}
+            allowNegative
+          />
+        </div>
+
+        {pattern && (
+          <div className="mt-4 flex flex-wrap items-center gap-4">
+            <div className="flex gap-2">
+              {CASH_FLOW_LABELS.map((label, index) => (
+                <div
+                  key={label}
+                  className={`px-3 py-1 rounded text-sm font-semibold ${
+                    pattern.signs[index] === '+'
+                      ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300'
+                      : 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300'
+                  }`}
+                >
+                  {label} {pattern.signs[index]}
+                </div>
+              ))}
+            </div>
+            <div className="flex-1">{renderJudgment(pattern)}</div>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-5 mt-6">
+        {/* Operating CF Margin */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+            営業CFマージン
+          </h3>
+
+          <InputField
+            name="cashflow.revenue"
+            label="売上高（百万円）"
+            value={revenue}
+            onChange={setRevenue}
+            provenance={provenanceFor('revenue', revenue)}
+          />
+
+          {operatingCfMargin !== null && (
+            <div className="mt-4">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                {operatingCfMargin.toFixed(1)}%
+              </div>
+              {renderJudgment(getOperatingCFMarginJudgment(operatingCfMargin, thresholds.operatingCfMargin))}
+              <SectorJudgment metric="operatingCfMargin" value={operatingCfMargin} />
+            </div>
+          )}
+        </div>
+
+        {/* FCF Margin */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+            FCFマージン
+          </h3>
+
+          <InputField
+            name="cashflow.freeCashflow"
+            label="フリーキャッシュフロー（百万円）"
+            value={freeCashflow}
+            onChange={setFreeCashflow}
+            provenance={provenanceFor('freeCashflow', freeCashflow)}
+            allowNegative
+          />
+
+          {fcfMargin !== null && (
+            <div className="mt-4">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                {fcfMargin.toFixed(1)}%
+              </div>
+              {renderJudgment(getFCFMarginJudgment(fcfMargin, thresholds.fcfMargin))}
+              <SectorJudgment metric="fcfMargin" value={fcfMargin} />
+            </div>
+          )}
+        </div>
+
+        {/* FCF Yield */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+            FCF利回り
+          </h3>
+
+          <InputField
+            name="cashflow.marketCap"
+            label="時価総額（百万円）"
+            value={marketCap}
+            onChange={setMarketCap}
+            provenance={provenanceFor('marketCap', marketCap)}
+          />
+
+          {fcfYield !== null && (
+            <div className="mt-4">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                {fcfYield.toFixed(1)}%
+              </div>
+              {renderJudgment(getFCFYieldJudgment(fcfYield, thresholds.fcfYield))}
+              <SectorJudgment metric="fcfYield" value={fcfYield} />
+            </div>
+          )}
+        </div>
+
+        {/* Accrual Ratio */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+            営業CF/純利益（利益の質）
+          </h3>
+
+          <InputField
+            name="cashflow.netIncome"
+            label="純利益（百万円）"
+            value={netIncome}
+            onChange={setNetIncome}
+            provenance={provenanceFor('netIncome', netIncome)}
+          />
+
+          {accrualRatio !== null && (
+            <div className="mt-4">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                {accrualRatio.toFixed(2)}倍
+              </div>
+              {renderJudgment(getAccrualRatioJudgment(accrualRatio, thresholds.accrualRatio))}
+              <SectorJudgment metric="accrualRatio" value={accrualRatio} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useFinancialData } from "../contexts/financial-data-context";
+import { findSector, TSE_SECTORS } from "../lib/sectors";
+import { parseReportingPeriod, REPORTING_PERIOD_LABELS, ReportingPeriod } from "../lib/reporting-period";
+import { toWatchlistEntry, WatchlistEntry } from "../lib/watchlist";
+import { isSecuritiesCode } from "../lib/securities-code";
+import { useWatchlist } from "../contexts/watchlist-context";
+import { useAnalysisLink, useLinkedInput } from "../contexts/analysis-link-context";
 
 export interface FinancialData {
   // 成長性
@@ -11,65 +17,270 @@ export interface FinancialData {
   depreciation?: string;
   revenueCurrentYear?: string;
   revenueFourYearsAgo?: string;
+  operatingIncomeCurrentYear?: string;
+  operatingIncomeFourYearsAgo?: string;
+  epsCurrentYear?: string; // 円
+  epsFourYearsAgo?: string; // 円
+  currentYearEnd?: string; // *CurrentYear の決算期末（YYYY-MM-DD）
+  pastYearEnd?: string; // *FourYearsAgo の決算期末（4年前とは限らない）
 
   // 収益性
   netIncome?: string;
   equity?: string;
   totalAssets?: string;
   operatingIncome?: string;
+  pretaxIncome?: string; // 税引前利益
+  ebit?: string; // 利払前・税引前利益
+  grossProfit?: string; // 売上総利益
 
   // 安全性
   currentAssets?: string;
   currentLiabilities?: string;
+  quickAssets?: string; // 当座資産
+  totalLiabilities?: string; // 負債合計
+  retainedEarnings?: string; // 利益剰余金
+  interestExpense?: string; // 支払利息
+  longTermDebt?: string; // 固定負債の有利子負債（社債・長期借入金）
 
   // 割安性
   stockPrice?: string;
   annualDividend?: string;
+  totalCash?: string; // 現金及び現金同等物
+  totalDebt?: string; // 有利子負債
+  ebitda?: string;
+  freeCashflow?: string;
+  sharesOutstanding?: string; // 株（百万単位ではない）
+
+  // キャッシュフロー
+  operatingCashflow?: string;
+  investingCashflow?: string;
+  financingCashflow?: string;
+  stockIssuance?: string; // 株式の発行による収入
+
+  // 今期の年次決算（Piotroski Fスコアの今期。直近12ヶ月の値は使わない）
+  grossProfitCurrentYear?: string;
+  netIncomeCurrentYear?: string;
+  operatingCashflowCurrentYear?: string;
+  totalAssetsCurrentYear?: string;
+  longTermDebtCurrentYear?: string;
+  currentAssetsCurrentYear?: string;
+  currentLiabilitiesCurrentYear?: string;
+
+  // 前期（Piotroski Fスコアの前期比較）
+  revenuePriorYear?: string;
+  grossProfitPriorYear?: string;
+  netIncomePriorYear?: string;
+  operatingCashflowPriorYear?: string;
+  totalAssetsPriorYear?: string;
+  longTermDebtPriorYear?: string;
+  currentAssetsPriorYear?: string;
+  currentLiabilitiesPriorYear?: string;
+}
+
+/**
+ * How a FinancialData value was obtained
+ * - reported: taken as-is from a statement or quote
+ * - derived: calculated from reported values (formula shows how)
+ * - proxy: a different item standing in for the one the calculator expects
+ */
+export type ProvenanceKind = 'reported' | 'derived' | 'proxy';
+
+export interface FieldProvenance {
+  kind: ProvenanceKind;
+  source: string;
+  formula?: string;
 }
 
+export type FinancialDataProvenance = Partial<Record<keyof FinancialData, FieldProvenance>>;
+
+// Labels for balance sheet fields the API may have to estimate
+const ESTIMATED_FIELD_LABELS: Record<string, string> = {
+  totalAssets: '総資産',
+  currentAssets: '流動資産',
+  currentLiabilities: '流動負債',
+  equity: '自己資本',
+};
+
+// Data sources selectable per request (empty = server default)
+export const DATA_SOURCE_OPTIONS = [
+  { value: '', label: '自動（サーバー設定）' },
+  { value: 'yahoo', label: 'Yahoo Finance' },
+  { value: 'xbrl', label: 'EDINET XBRL' },
+  { value: 'file', label: 'ローカルファイル' },
+];
+
 export default function CompanySearch() {
-  const { setData } = useFinancialData();
+  const { setData, setHistory, sector, setSector, setCompany } = useFinancialData();
+  const { addEntry, hasEntry } = useWatchlist();
+  const { ready, code: linkedCode, params: linkParams, setCode, setParam, clearCompanyParams } = useAnalysisLink();
   const [securitiesCode, setSecuritiesCode] = useState('');
+  const [source, setSource] = useState('');
+  const [period, setPeriod] = useState<ReportingPeriod>('annual');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [companyName, setCompanyName] = useState<string | null>(null);
   const [dataSource, setDataSource] = useState<string | null>(null);
   const [fetchedAt, setFetchedAt] = useState<string | null>(null);
   const [fiscalPeriodEnd, setFiscalPeriodEnd] = useState<string | null>(null);
+  const [periodLabel, setPeriodLabel] = useState<string | null>(null);
+  const [estimatedFields, setEstimatedFields] = useState<string[]>([]);
+  const [cacheStatus, setCacheStatus] = useState<string | null>(null);
+  const [watchlistEntry, setWatchlistEntry] = useState<WatchlistEntry | null>(null);
+  const [watchlistFull, setWatchlistFull] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const arrivalHandled = useRef(false);
+  // Incremented by every company load, so a history response for an earlier company is dropped
+  const historyRequest = useRef(0);
+
+  // A sector picked by hand overrides the fetched one and is kept in the link
+  const recordSector = useLinkedInput('sector', sector || '', (stored) => setSector(findSector(stored)?.code || null));
+
+  const requestCompany = async (code: string, nextSource: string, nextPeriod: ReportingPeriod, refresh = false) => {
+    const params = new URLSearchParams();
+    if (nextSource) params.set('source', nextSource);
+    if (nextPeriod !== 'annual') params.set('period', nextPeriod);
+    if (refresh) params.set('refresh', '1');
+    const query = params.toString() ? `?${params}` : '';
+    const loaded = await loadCompanyData(() => fetch(`/api/edinet/${code}${query}`));
+
+    if (loaded) {
+      setCode(code);
+      setParam('source', nextSource || null);
+      setParam('period', nextPeriod === 'annual' ? null : nextPeriod);
+    }
+  };
+
+  // The arrival effect runs once, so it calls the latest request through a ref
+  const requestCompanyRef = useRef(requestCompany);
+  requestCompanyRef.current = requestCompany;
+
+  // A /company/[code] link loads the company with the options it carries
+  useEffect(() => {
+    if (!ready || arrivalHandled.current) return;
+    arrivalHandled.current = true;
+    if (!linkedCode) return;
 
-  const handleFetchData = async () => {
-    if (!securitiesCode || securitiesCode.length !== 4) {
-      setError('4桁の証券コードを入力してください');
+    const linkedSource = DATA_SOURCE_OPTIONS.some((option) => option.value === linkParams.source) ? linkParams.source : '';
+    const linkedPeriod = parseReportingPeriod(linkParams.period ?? null) || 'annual';
+    setSecuritiesCode(linkedCode);
+    setSource(linkedSource);
+    setPeriod(linkedPeriod);
+    requestCompanyRef.current(linkedCode, linkedSource, linkedPeriod);
+  }, [ready, linkedCode, linkParams]);
+
+  const handleFetchData = async (refresh = false, nextPeriod = period) => {
+    if (!isSecuritiesCode(securitiesCode)) {
+      setError('4桁の証券コード（例：7203、130A）を入力してください');
       return;
     }
 
+    await requestCompany(securitiesCode, source, nextPeriod, refresh);
+  };
+
+  // A new search starts from the fetched values, so edits made for the previous company are dropped
+  const handleSearch = () => {
+    clearCompanyParams();
+    handleFetchData();
+  };
+
+  // Switching the period reloads a company that is already shown
+  const handlePeriodChange = (nextPeriod: ReportingPeriod) => {
+    setPeriod(nextPeriod);
+    if (companyName && isSecuritiesCode(securitiesCode)) handleFetchData(false, nextPeriod);
+  };
+
+  const handleUploadXbrl = async (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    clearCompanyParams();
+    const loaded = await loadCompanyData(() => fetch('/api/edinet/xbrl', { method: 'POST', body: formData }));
+
+    // An uploaded filing cannot be reloaded from a link
+    if (loaded) {
+      setCode(null);
+      setParam('source', null);
+      setParam('period', null);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+    } catch {
+      setError('リンクをコピーできませんでした');
+    }
+  };
+
+  // History is optional: calculators fall back to the snapshot when it is unavailable
+  const loadHistory = async (code: string, provider: string | undefined, request: number) => {
+    try {
+      const query = provider ? `?source=${provider}` : '';
+      const response = await fetch(`/api/edinet/${code}/history${query}`);
+      if (!response.ok) return;
+      const history = await response.json();
+      if (request === historyRequest.current) setHistory(history);
+    } catch (err) {
+      console.warn('History fetch failed:', err);
+    }
+  };
+
+  // Resolves to whether the company was loaded
+  const loadCompanyData = async (request: () => Promise<Response>): Promise<boolean> => {
+    const historyId = ++historyRequest.current;
     setLoading(true);
     setError(null);
     setCompanyName(null);
     setDataSource(null);
     setFetchedAt(null);
     setFiscalPeriodEnd(null);
+    setPeriodLabel(null);
+    setEstimatedFields([]);
+    setCacheStatus(null);
+    setWatchlistEntry(null);
+    setWatchlistFull(false);
+    setLinkCopied(false);
 
     try {
-      const response = await fetch(`/api/edinet/${securitiesCode}`);
-
-      if (!response.ok) {
-        throw new Error('データ取得に失敗しました');
-      }
-
-      const data = await response.json();
+      const response = await request();
+      const data = await response.json().catch(() => ({}));
 
-      if (data.error) {
-        throw new Error(data.error);
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'データ取得に失敗しました');
       }
 
       setCompanyName(data.companyName);
       setDataSource(data.dataSource);
       setFetchedAt(data.fetchedAt);
       setFiscalPeriodEnd(data.fiscalPeriodEnd);
-      setData(data.financialData);
+      setPeriodLabel(data.periodLabel || null);
+      setEstimatedFields(data.estimatedFields || []);
+      setCacheStatus(data.cache?.status || null);
+      setWatchlistEntry(toWatchlistEntry(data));
+      if (data.symbol) setSecuritiesCode(String(data.symbol).replace('.T', ''));
+      setData(data.financialData, data.provenance);
+      setSector(data.sector || null);
+      const code = String(data.symbol || '').replace('.T', '');
+      setCompany(code ? {
+        code,
+        companyName: data.companyName,
+        fiscalPeriodEnd: data.fiscalPeriodEnd || null,
+        provider: data.provider || null,
+      } : null);
+
+      // Skipped when another company was requested while this one loaded
+      if (historyId === historyRequest.current) {
+        if (data.history) {
+          setHistory(data.history);
+        } else if (data.symbol) {
+          loadHistory(String(data.symbol).replace('.T', ''), data.provider, historyId);
+        }
+      }
+      return true;
     } catch (err) {
       setError(err instanceof Error ? err.message : '不明なエラーが発生しました');
+      return false;
     } finally {
       setLoading(false);
     }
@@ -79,7 +290,7 @@ export default function CompanySearch() {
     <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-gray-800 dark:to-gray-700 rounded-lg border-2 border-blue-200 dark:border-blue-900 p-5 mb-6">
       <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white flex items-center">
         <span className="text-2xl mr-2">🔍</span>
-        企業データ自動取得（Yahoo Finance API）
+        企業データ自動取得
       </h2>
 
       <div className="flex gap-3 items-start">
@@ -90,10 +301,10 @@ export default function CompanySearch() {
           <input
             type="text"
             value={securitiesCode}
-            onChange={(e) => setSecuritiesCode(e.target.value.replace(/\D/g, '').slice(0, 4))}
+            onChange={(e) => setSecuritiesCode(e.target.value.toUpperCase().replace(/[^0-9A-Z]/g, '').slice(0, 4))}
             onKeyDown={(e) => {
-              if (e.key === 'Enter' && securitiesCode.length === 4 && !loading) {
-                handleFetchData();
+              if (e.key === 'Enter' && isSecuritiesCode(securitiesCode) && !loading) {
+                handleSearch();
               }
             }}
             placeholder="例：7203（トヨタ）"
@@ -102,15 +313,90 @@ export default function CompanySearch() {
           />
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            データソース
+          </label>
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            disabled={loading}
+          >
+            {DATA_SOURCE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            集計期間
+          </label>
+          <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden">
+            {(Object.keys(REPORTING_PERIOD_LABELS) as ReportingPeriod[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => handlePeriodChange(option)}
+                disabled={loading}
+                className={`px-3 py-2 text-sm transition-colors disabled:cursor-not-allowed ${
+                  period === option
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {option === 'annual' ? REPORTING_PERIOD_LABELS.annual : 'TTM'}
+              </button>
+            ))}
+          </div>
+        </div>
+
         <button
-          onClick={handleFetchData}
-          disabled={loading || securitiesCode.length !== 4}
+          onClick={handleSearch}
+          disabled={loading || !isSecuritiesCode(securitiesCode)}
           className="mt-7 px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors disabled:cursor-not-allowed"
         >
           {loading ? '取得中...' : 'データ取得'}
         </button>
       </div>
 
+      <div className="mt-3">
+        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+          またはEDINETのXBRLファイル（zip / xbrl）を読み込む
+        </label>
+        <input
+          type="file"
+          accept=".zip,.xbrl,.htm,.html,.xhtml"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleUploadXbrl(file);
+            e.target.value = '';
+          }}
+          disabled={loading}
+          className="block w-full text-xs text-gray-600 dark:text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-blue-100 file:text-blue-700 hover:file:bg-blue-200 dark:file:bg-blue-900 dark:file:text-blue-300"
+        />
+      </div>
+
+      <div className="mt-3 flex items-center gap-2">
+        <label className="text-xs font-medium text-gray-700 dark:text-gray-300">
+          業種（東証33業種）
+        </label>
+        <select
+          value={sector || ''}
+          onChange={(e) => {
+            const selected = findSector(e.target.value)?.code || null;
+            setSector(selected);
+            recordSector(selected || '');
+          }}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        >
+          <option value="">未設定（全市場基準のみ）</option>
+          {TSE_SECTORS.map((option) => (
+            <option key={option.code} value={option.code}>{option.name}</option>
+          ))}
+        </select>
+      </div>
+
       {error && (
         <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
           <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
@@ -119,13 +405,39 @@ export default function CompanySearch() {
 
       {companyName && (
         <div className="mt-4 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
-          <p className="text-sm text-green-700 dark:text-green-400">
-            ✓ {companyName} のデータを取得しました
-          </p>
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-green-700 dark:text-green-400">
+              ✓ {companyName} のデータを取得しました
+            </p>
+            <div className="flex flex-shrink-0 gap-2">
+              {linkedCode && (
+                <button
+                  onClick={handleCopyLink}
+                  className="text-xs px-2 py-1 rounded-md border border-green-300 dark:border-green-700 text-green-700 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/40"
+                >
+                  {linkCopied ? '✓ リンクをコピーしました' : '🔗 リンクをコピー'}
+                </button>
+              )}
+              {watchlistEntry && (
+                <button
+                  onClick={() => setWatchlistFull(!addEntry(watchlistEntry))}
+                  disabled={hasEntry(watchlistEntry.code)}
+                  className="flex-shrink-0 text-xs px-2 py-1 rounded-md border border-green-300 dark:border-green-700 text-green-700 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/40 disabled:opacity-60 disabled:cursor-default disabled:hover:bg-transparent"
+                >
+                  {hasEntry(watchlistEntry.code) ? '★ ウォッチリスト登録済み' : '☆ ウォッチリストに追加'}
+                </button>
+              )}
+            </div>
+          </div>
+          {watchlistFull && (
+            <p className="text-xs text-red-700 dark:text-red-400 mt-1">ウォッチリストが上限に達しています。不要な銘柄を削除してください</p>
+          )}
           {dataSource && fetchedAt && (
             <p className="text-xs text-green-600 dark:text-green-500 mt-1">
               データソース: {dataSource}
-              {fiscalPeriodEnd && (
+              {periodLabel ? (
+                <> | 集計期間: {periodLabel}</>
+              ) : fiscalPeriodEnd && (
                 <> | 決算期: {new Date(fiscalPeriodEnd).toLocaleString('ja-JP', {
                   year: 'numeric',
                   month: 'long',
@@ -137,13 +449,33 @@ export default function CompanySearch() {
                 hour: '2-digit',
                 minute: '2-digit',
               })}
+              {(cacheStatus === 'hit' || cacheStatus === 'stale') && (
+                <>
+                  {' '}（キャッシュ）
+                  <button
+                    onClick={() => handleFetchData(true)}
+                    disabled={loading}
+                    className="ml-1 underline hover:text-green-800 dark:hover:text-green-300 disabled:cursor-not-allowed"
+                  >
+                    最新データを再取得
+                  </button>
+                </>
+              )}
+            </p>
+          )}
+          {estimatedFields.length > 0 && (
+            <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">
+              ⚠ 貸借対照表に記載がないため推定値を使用: {estimatedFields.map((field) => ESTIMATED_FIELD_LABELS[field] || field).join('、')}
             </p>
           )}
         </div>
       )}
 
       <div className="mt-4 text-xs text-gray-500 dark:text-gray-400">
-        <p>※ Yahoo Finance APIから財務データを取得します</p>
+        <p>※ 選択したデータソース（既定はYahoo Finance API）から財務データを取得します</p>
+        <p>※ XBRLファイルには株価・時価総額が含まれないため、手動で入力してください</p>
+        <p>※ TTMは売上高・営業利益・純利益を直近4四半期の合計に置き換えます（Yahoo Financeのみ対応。成長率は通期のまま）</p>
+        <p>※ 取得後のURL（/company/証券コード）には選択した条件と手入力した値が含まれ、開くと同じ分析を再現できます</p>
         <p>※ データ取得には数秒かかる場合があります</p>
       </div>
 
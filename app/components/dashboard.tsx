@@ -0,0 +1,78 @@
+"use client";
+
+import Link from 'next/link';
+import GrowthCalculator from './growth-calculator';
+import ProfitabilityCalculator from './profitability-calculator';
+import SafetyCalculator from './safety-calculator';
+import ValuationCalculator from './valuation-calculator';
+import CashFlowCalculator from './cashflow-calculator';
+import DCFCalculator from './dcf-calculator';
+import PiotroskiScore from './piotroski-score';
+import CompanySearch from './company-search';
+import Watchlist from './watchlist';
+import PriceChart from './price-chart';
+import ValuationBands from './valuation-bands';
+import ThresholdSettings from './threshold-settings';
+import InvestmentScore from './investment-score';
+import { FinancialDataProvider } from '../contexts/financial-data-context';
+import { AnalysisLinkProvider } from '../contexts/analysis-link-context';
+
+/**
+ * Dashboard Component
+ * The analysis page: company search, every calculator and the combined score
+ * @param initialCode Company loaded on arrival (/company/[code])
+ */
+export default function Dashboard({ initialCode = null }: { initialCode?: string | null }) {
+  return (
+    <FinancialDataProvider>
+      <AnalysisLinkProvider initialCode={initialCode}>
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+          {/* Header */}
+          <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+            <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
+                  分析ダッシュボード
+                </h1>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  判断フロー：成長性 → 収益性 → 安全性 → 割安性
+                </p>
+              </div>
+              <nav className="flex gap-4">
+                <Link href="/compare" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                  同業他社比較
+                </Link>
+                <Link href="/screener" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                  スクリーニング
+                </Link>
+                <Link href="/portfolio" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                  ポートフォリオ
+                </Link>
+              </nav>
+            </div>
+          </header>
+
+          {/* Main Content */}
+          <main className="max-w-7xl mx-auto px-4 py-6">
+            <div className="space-y-6">
+              <InvestmentScore />
+              <CompanySearch />
+              <Watchlist />
+              <ThresholdSettings />
+              <PriceChart />
+
+              <GrowthCalculator />
+              <ProfitabilityCalculator />
+              <SafetyCalculator />
+              <ValuationCalculator />
+              <ValuationBands />
+              <CashFlowCalculator />
+              <PiotroskiScore />
+              <DCFCalculator />
+            </div>
+          </main>
+        </div>
+      </AnalysisLinkProvider>
+    </FinancialDataProvider>
+  );
+}
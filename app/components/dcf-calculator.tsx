@@ -0,0 +1,281 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import InputField from "./input-field";
+import { useFinancialData } from "../contexts/financial-data-context";
+import { useLinkedInput } from "../contexts/analysis-link-context";
+import {
+  calculateDCF,
+  calculateMarginOfSafety,
+  calculateUpside,
+  DCF_STAGE_YEARS,
+  DCFInputs,
+  DCFResult,
+  getMarginOfSafetyJudgment,
+} from "../utils/financial";
+
+// Offsets (percentage points) of the sensitivity grid around the chosen rates
+const DISCOUNT_RATE_STEPS = [-2, -1, 0, 1, 2];
+const TERMINAL_GROWTH_STEPS = [-1, -0.5, 0, 0.5, 1];
+
+interface RateInputProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  name: string;
+}
+
+// Percentage input; unlike InputField it accepts decimals and negative rates
+function RateInput({ label, value, onChange, name }: RateInputProps) {
+  const recordEdit = useLinkedInput(name, value, onChange);
+
+  return (
+    <div>
+      <label className="block text-left text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+        {label}
+      </label>
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          step={0.5}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            recordEdit(e.target.value);
+          }}
+          className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        />
+        <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
+      </div>
+    </div>
+  );
+}
+
+// DCF result, or null when the inputs do not define a valid model
+const tryDCF = (inputs: DCFInputs): DCFResult | null => {
+  if (!(inputs.freeCashflow > 0) || !(inputs.sharesOutstanding > 0) || inputs.discountRate <= inputs.terminalGrowth) {
+    return null;
+  }
+  return calculateDCF(inputs);
+};
+
+/**
+ * DCF Calculator Component
+ * Estimates intrinsic value per share from discounted free cash flow
+ */
+export default function DCFCalculator() {
+  const { data: financialData, provenanceFor } = useFinancialData();
+
+  const [freeCashflow, setFreeCashflow] = useState('');
+  const [stageGrowth1, setStageGrowth1] = useState('5');
+  const [stageGrowth2, setStageGrowth2] = useState('2');
+  const [discountRate, setDiscountRate] = useState('8');
+  const [terminalGrowth, setTerminalGrowth] = useState('1');
+  const [totalCash, setTotalCash] = useState('');
+  const [totalDebt, setTotalDebt] = useState('');
+  const [sharesOutstanding, setSharesOutstanding] = useState('');
+  const [stockPrice, setStockPrice] = useState('');
+
+  // Auto-fill from fetched data
+  useEffect(() => {
+    if (financialData) {
+      if (financialData.freeCashflow) setFreeCashflow(financialData.freeCashflow);
+      if (financialData.totalCash) setTotalCash(financialData.totalCash);
+      if (financialData.totalDebt) setTotalDebt(financialData.totalDebt);
+      if (financialData.sharesOutstanding) setSharesOutstanding(financialData.sharesOutstanding);
+      if (financialData.stockPrice) setStockPrice(financialData.stockPrice);
+    }
+  }, [financialData]);
+
+  const inputs: DCFInputs = useMemo(() => ({
+    freeCashflow: Number(freeCashflow),
+    stageGrowthRates: [Number(stageGrowth1), Number(stageGrowth2)],
+    discountRate: Number(discountRate),
+    terminalGrowth: Number(terminalGrowth),
+    netCash: Number(totalCash) - Number(totalDebt),
+    sharesOutstanding: Number(sharesOutstanding),
+  }), [freeCashflow, stageGrowth1, stageGrowth2, discountRate, terminalGrowth, totalCash, totalDebt, sharesOutstanding]);
+
+  const result = useMemo(() => tryDCF(inputs), [inputs]);
+
+  // Intrinsic value per share for each discount rate × terminal growth pair
+  const sensitivity = useMemo(
+    () =>
+      DISCOUNT_RATE_STEPS.map((rateStep) =>
+        TERMINAL_GROWTH_STEPS.map((growthStep) =>
+          tryDCF({
+            ...inputs,
+            discountRate: inputs.discountRate + rateStep,
+            terminalGrowth: inputs.terminalGrowth + growthStep,
+          })?.valuePerShare ?? null
+        )
+      ),
+    [inputs]
+  );
+
+  const priceNum = Number(stockPrice);
+  const hasPrice = priceNum > 0;
+  const marginOfSafety = result && hasPrice && result.valuePerShare > 0
+    ? calculateMarginOfSafety(result.valuePerShare, priceNum)
+    : null;
+  const judgment = marginOfSafety !== null ? getMarginOfSafetyJudgment(marginOfSafety) : null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+      <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-3">
+        DCF法による理論株価
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+        {/* Cash flow */}
+        <div className="space-y-3">
+          <InputField
+            name="dcf.freeCashflow"
+            label="フリーキャッシュフロー（百万円）"
+            value={freeCashflow}
+            onChange={setFreeCashflow}
+            provenance={provenanceFor('freeCashflow', freeCashflow)}
+          />
+          <RateInput
+            name="dcf.stageGrowth1"
+            label={`成長率（1〜${DCF_STAGE_YEARS[0]}年目）`}
+            value={stageGrowth1}
+            onChange={setStageGrowth1}
+          />
+          <RateInput
+            name="dcf.stageGrowth2"
+            label={`成長率（${DCF_STAGE_YEARS[0] + 1}〜${DCF_STAGE_YEARS[0] + DCF_STAGE_YEARS[1]}年目）`}
+            value={stageGrowth2}
+            onChange={setStageGrowth2}
+          />
+        </div>
+
+        {/* Discounting */}
+        <div className="space-y-3">
+          <RateInput name="dcf.discountRate" label="割引率（WACC）" value={discountRate} onChange={setDiscountRate} />
+          <RateInput name="dcf.terminalGrowth" label="永久成長率" value={terminalGrowth} onChange={setTerminalGrowth} />
+          {inputs.discountRate <= inputs.terminalGrowth && (
+            <p className="text-xs text-red-600 dark:text-red-400">割引率は永久成長率より大きくしてください</p>
+          )}
+        </div>
+
+        {/* Per-share conversion */}
+        <div className="space-y-3">
+          <InputField
+            name="dcf.totalCash"
+            label="現金及び現金同等物（百万円）"
+            value={totalCash}
+            onChange={setTotalCash}
+            provenance={provenanceFor('totalCash', totalCash)}
+          />
+          <InputField
+            name="dcf.totalDebt"
+            label="有利子負債（百万円）"
+            value={totalDebt}
+            onChange={setTotalDebt}
+            provenance={provenanceFor('totalDebt', totalDebt)}
+          />
+          <InputField
+            name="dcf.sharesOutstanding"
+            label="発行済株式数（株）"
+            value={sharesOutstanding}
+            onChange={setSharesOutstanding}
+            provenance={provenanceFor('sharesOutstanding', sharesOutstanding)}
+          />
+          <InputField
+            name="dcf.stockPrice"
+            label="株価（円）"
+            value={stockPrice}
+            onChange={setStockPrice}
+            provenance={provenanceFor('stockPrice', stockPrice)}
+            allowDecimal
+          />
+        </div>
+      </div>
+
+      {result ? (
+        <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <div className="text-xs text-gray-600 dark:text-gray-400">理論株価</div>
+            <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+              {Math.round(result.valuePerShare).toLocaleString()}円
+            </div>
+            {hasPrice && (
+              <div className="text-sm text-gray-700 dark:text-gray-300 space-y-0.5 mb-3">
+                <p>上昇余地: {calculateUpside(result.valuePerShare, priceNum).toFixed(1)}%</p>
+                {marginOfSafety !== null && <p>安全域: {marginOfSafety.toFixed(1)}%</p>}
+              </div>
+            )}
+            {judgment && (
+              <div className={`border-l-4 ${judgment.borderColor} pl-4 py-2`}>
+                <p className={`font-semibold ${judgment.textColor} ${judgment.darkTextColor}`}>
+                  {judgment.title}
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {judgment.description}
+                </p>
+              </div>
+            )}
+            <div className="mt-3 text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+              <p>予測期間FCFの現在価値: {Math.round(result.enterpriseValue - result.presentTerminalValue).toLocaleString()}百万円</p>
+              <p>
+                継続価値の現在価値: {Math.round(result.presentTerminalValue).toLocaleString()}百万円
+                （事業価値の{((result.presentTerminalValue / result.enterpriseValue) * 100).toFixed(0)}%）
+              </p>
+              <p>株主価値: {Math.round(result.equityValue).toLocaleString()}百万円（事業価値 + ネットキャッシュ）</p>
+            </div>
+          </div>
+
+          {/* Sensitivity grid */}
+          <div className="overflow-x-auto">
+            <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+              感応度分析（理論株価・円）: 割引率 × 永久成長率
+            </div>
+            <table className="text-xs text-right">
+              <thead>
+                <tr className="text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-2 font-medium text-left">割引率＼成長率</th>
+                  {TERMINAL_GROWTH_STEPS.map((step) => (
+                    <th key={step} className="py-1 px-2 font-medium">{(inputs.terminalGrowth + step).toFixed(1)}%</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {DISCOUNT_RATE_STEPS.map((rateStep, row) => (
+                  <tr key={rateStep}>
+                    <th className="py-1 pr-2 font-medium text-left text-gray-500 dark:text-gray-400">
+                      {(inputs.discountRate + rateStep).toFixed(1)}%
+                    </th>
+                    {TERMINAL_GROWTH_STEPS.map((growthStep, col) => {
+                      const value = sensitivity[row][col];
+                      const base = rateStep === 0 && growthStep === 0;
+                      const color = value === null || !hasPrice
+                        ? 'text-gray-700 dark:text-gray-300'
+                        : value >= priceNum
+                          ? 'text-green-700 dark:text-green-400'
+                          : 'text-red-700 dark:text-red-400';
+                      return (
+                        <td key={growthStep} className={`py-1 px-2 ${color} ${base ? 'font-bold bg-gray-100 dark:bg-gray-700' : ''}`}>
+                          {value === null ? '—' : Math.round(value).toLocaleString()}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {hasPrice && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                緑: 現在の株価（{priceNum.toLocaleString()}円）以上、赤: 株価未満
+              </p>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+          プラスのフリーキャッシュフローと発行済株式数を入力すると、理論株価と感応度分析を表示します
+        </p>
+      )}
+    </div>
+  );
+}
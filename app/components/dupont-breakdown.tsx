@@ -0,0 +1,99 @@
+/**
+ * Component to display the DuPont breakdown of ROE
+ * Shows each factor with a bar of its contribution against DUPONT_REFERENCE
+ */
+
+import {
+  DuPontAnalysis,
+  DuPontFactor,
+  DuPontJudgment,
+  DUPONT_REFERENCE,
+  getDuPontContributions,
+} from '../utils/financial';
+
+interface DuPontBreakdownProps {
+  dupont: DuPontAnalysis;
+  judgment: DuPontJudgment;
+}
+
+// Contribution (log ratio) that fills half of the bar: 4x or 1/4 of the reference
+const FULL_SCALE = Math.log(4);
+
+const FACTORS: { factor: DuPontFactor; label: string; format: (value: number) => string }[] = [
+  { factor: 'netMargin', label: '純利益率', format: (v) => `${v.toFixed(1)}%` },
+  { factor: 'assetTurnover', label: '総資産回転率', format: (v) => `${v.toFixed(2)}回` },
+  { factor: 'financialLeverage', label: '財務レバレッジ', format: (v) => `${v.toFixed(2)}倍` },
+];
+
+function Operator({ children }: { children: string }) {
+  return <span className="self-center text-lg text-gray-400">{children}</span>;
+}
+
+export default function DuPontBreakdown({ dupont, judgment }: DuPontBreakdownProps) {
+  const contributions = getDuPontContributions(dupont);
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600">
+      <div className="flex flex-wrap items-stretch gap-2">
+        {FACTORS.map(({ factor, label, format }, index) => {
+          const contribution = Math.max(-1, Math.min(1, contributions[factor] / FULL_SCALE));
+          const highlighted = factor === judgment.driver;
+          return (
+            <div key={factor} className="contents">
+              {index > 0 && <Operator>×</Operator>}
+              <div
+                className={`flex-1 min-w-28 p-2 rounded border bg-white dark:bg-gray-800 ${
+                  highlighted ? judgment.borderColor : 'border-gray-200 dark:border-gray-600'
+                }`}
+              >
+                <div className="text-xs text-gray-600 dark:text-gray-400">{label}</div>
+                <div className="text-lg font-semibold text-gray-900 dark:text-white">{format(dupont[factor])}</div>
+                {/* Contribution bar: right of center lifts ROE, left of center drags it */}
+                <div className="relative w-full bg-gray-200 dark:bg-gray-600 rounded-sm h-2 mt-1">
+                  <div className="absolute left-1/2 top-0 h-2 w-px bg-gray-400"></div>
+                  <div
+                    className={`absolute top-0 h-2 rounded-sm ${contribution >= 0 ? 'bg-green-500' : 'bg-red-500'}`}
+                    style={{
+                      left: contribution >= 0 ? '50%' : `${50 + contribution * 50}%`,
+                      width: `${Math.abs(contribution) * 50}%`,
+                    }}
+                  ></div>
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                  基準 {format(DUPONT_REFERENCE[factor])}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        <Operator>=</Operator>
+        <div className="flex-1 min-w-28 p-2 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800">
+          <div className="text-xs text-gray-600 dark:text-gray-400">ROE</div>
+          <div className="text-lg font-bold text-blue-600 dark:text-blue-400">{dupont.roe.toFixed(1)}%</div>
+        </div>
+      </div>
+
+      {dupont.fiveStep ? (
+        <div className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+          <span className="text-xs text-gray-500 dark:text-gray-400 mr-2">5段階分解</span>
+          純利益率 {dupont.netMargin.toFixed(1)}% = 税負担率 {dupont.fiveStep.taxBurden.toFixed(2)}
+          {' '}× 金利負担率 {dupont.fiveStep.interestBurden.toFixed(2)}
+          {' '}× EBITマージン {dupont.fiveStep.ebitMargin.toFixed(1)}%
+        </div>
+      ) : (
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          税引前利益とEBITを入力すると、純利益率を税負担率・金利負担率・EBITマージンに分けた5段階分解を表示します
+        </p>
+      )}
+
+      <div className={`mt-3 border-l-4 ${judgment.borderColor} pl-3 py-1.5`}>
+        <p className={`text-sm font-semibold ${judgment.textColor} ${judgment.darkTextColor}`}>
+          {judgment.title}
+        </p>
+        <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">
+          {judgment.description}
+        </p>
+      </div>
+    </div>
+  );
+}
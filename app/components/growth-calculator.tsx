@@ -1,25 +1,95 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import InputField from "./input-field";
+import SectorJudgment from "./sector-judgment";
 import ResultDisplay from "./result-display";
 import { useFinancialData } from "../contexts/financial-data-context";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
+import { useLinkedInput } from "../contexts/analysis-link-context";
+import type { FinancialData } from "./company-search";
 import {
   calculatePSR,
   getPSRJudgment,
   calculateCapExRatio,
-  calculateRevenueGrowth,
+  calculateCAGR,
   getCapExRatioJudgment,
   getRevenueGrowthJudgment,
-  GrowthJudgment
+  getOperatingIncomeGrowthJudgment,
+  getEPSGrowthJudgment,
+  GROWTH_PERIODS,
+  GrowthJudgment,
+  JudgmentMetric,
+  JudgmentThresholds
 } from "../utils/financial";
+import { findHistoryValue, yearsBetween } from "../lib/history";
+import { snapshotGrowthYears } from "../lib/metrics";
+
+type GrowthSeries = 'revenue' | 'operatingIncome' | 'eps';
+
+interface GrowthInputs {
+  current: string;
+  past: string;
+}
+
+interface ComparedYears {
+  latest: string | null;
+  past: string | null;
+}
+
+const GROWTH_ROWS: {
+  id: GrowthSeries;
+  metric: JudgmentMetric;
+  label: string;
+  unit: string;
+  currentField: keyof FinancialData;
+  pastField: keyof FinancialData;
+  allowDecimal?: boolean;
+  judge: (growthRate: number, thresholds?: JudgmentThresholds) => GrowthJudgment;
+}[] = [
+  {
+    id: 'revenue',
+    metric: 'revenueGrowth',
+    label: '売上高',
+    unit: '百万円',
+    currentField: 'revenueCurrentYear',
+    pastField: 'revenueFourYearsAgo',
+    judge: getRevenueGrowthJudgment,
+  },
+  {
+    id: 'operatingIncome',
+    metric: 'operatingIncomeGrowth',
+    label: '営業利益',
+    unit: '百万円',
+    currentField: 'operatingIncomeCurrentYear',
+    pastField: 'operatingIncomeFourYearsAgo',
+    judge: getOperatingIncomeGrowthJudgment,
+  },
+  {
+    id: 'eps',
+    metric: 'epsGrowth',
+    label: 'EPS',
+    unit: '円',
+    currentField: 'epsCurrentYear',
+    pastField: 'epsFourYearsAgo',
+    allowDecimal: true,
+    judge: getEPSGrowthJudgment,
+  },
+];
+
+const EMPTY_GROWTH_VALUES: Record<GrowthSeries, GrowthInputs> = {
+  revenue: { current: '', past: '' },
+  operatingIncome: { current: '', past: '' },
+  eps: { current: '', past: '' },
+};
 
 /**
  * Growth Metrics Calculator Component
- * Analyzes PSR, capital expenditure ratio, and revenue growth
+ * Analyzes PSR, capital expenditure ratio, and the CAGR of revenue, operating income and EPS
  */
 export default function GrowthCalculator() {
-  const { data: financialData } = useFinancialData();
+  const { data: financialData, history, provenanceFor, reportMetrics } = useFinancialData();
+  const { thresholds } = useThresholdProfile();
 
   // PSR state
   const [revenue, setRevenue] = useState('');
@@ -31,10 +101,39 @@ export default function GrowthCalculator() {
   const [depreciation, setDepreciation] = useState('');
   const [capexRatio, setCapexRatio] = useState<number | null>(null);
 
-  // Revenue Growth state
-  const [currentRevenue, setCurrentRevenue] = useState('');
-  const [pastRevenue, setPastRevenue] = useState('');
-  const [revenueGrowth, setRevenueGrowth] = useState<number | null>(null);
+  // Years between the fiscal years of the fetched snapshot (four when they are not known)
+  const snapshotYears = financialData ? snapshotGrowthYears(financialData) : 4;
+
+  // Growth period and the start/end values of each growth series
+  const [period, setPeriod] = useState(snapshotYears);
+  const [growthValues, setGrowthValues] = useState<Record<GrowthSeries, GrowthInputs>>(EMPTY_GROWTH_VALUES);
+
+  // Fiscal years compared for each series: latest year and the one `period` years earlier
+  const comparedYears = useMemo(() => {
+    const pick = (series: GrowthSeries) => {
+      const points = history ? history.series[series] : [];
+      const latest = points[points.length - 1]?.endDate || null;
+      const past = latest ? points.find((point) => yearsBetween(point.endDate, latest) === period)?.endDate || null : null;
+      return { latest, past };
+    };
+    return Object.fromEntries(GROWTH_ROWS.map((row) => [row.id, pick(row.id)])) as Record<GrowthSeries, ComparedYears>;
+  }, [history, period]);
+
+  // Periods the revenue history covers (all periods are selectable without history)
+  const revenuePoints = history ? history.series.revenue : [];
+  const latestYear = revenuePoints[revenuePoints.length - 1]?.endDate || null;
+  const isCovered = (years: number) =>
+    !latestYear || revenuePoints.some((point) => yearsBetween(point.endDate, latestYear) === years);
+  const periodOptions = GROWTH_PERIODS.includes(period) ? GROWTH_PERIODS : [...GROWTH_PERIODS, period].sort((a, b) => a - b);
+
+  // A period picked by hand survives auto-fill and is kept in the link
+  const recordPeriod = useLinkedInput('growth.years', String(period), (stored) => {
+    const years = Number(stored);
+    if (Number.isInteger(years) && years > 0) setPeriod(years);
+  });
+
+  const setGrowthValue = (series: GrowthSeries, key: keyof GrowthInputs, value: string) =>
+    setGrowthValues((prev) => ({ ...prev, [series]: { ...prev[series], [key]: value } }));
 
   // Auto-fill from fetched data
   useEffect(() => {
@@ -43,11 +142,74 @@ export default function GrowthCalculator() {
       if (financialData.marketCap) setMarketCap(financialData.marketCap);
       if (financialData.capex) setCapex(financialData.capex);
       if (financialData.depreciation) setDepreciation(financialData.depreciation);
-      if (financialData.revenueCurrentYear) setCurrentRevenue(financialData.revenueCurrentYear);
-      if (financialData.revenueFourYearsAgo) setPastRevenue(financialData.revenueFourYearsAgo);
+
+      // The snapshot compares the latest year with the oldest year the provider returned
+      setPeriod(snapshotGrowthYears(financialData));
+      setGrowthValues((prev) => {
+        const next = { ...prev };
+        for (const row of GROWTH_ROWS) {
+          const current = financialData[row.currentField];
+          const past = financialData[row.pastField];
+          next[row.id] = { current: current || prev[row.id].current, past: past || prev[row.id].past };
+        }
+        return next;
+      });
     }
   }, [financialData]);
 
+  // Default to the longest selectable period the history covers
+  useEffect(() => {
+    const points = history ? history.series.revenue : [];
+    const latest = points[points.length - 1]?.endDate;
+    if (!latest) return;
+    const covered = GROWTH_PERIODS.filter((years) => points.some((point) => yearsBetween(point.endDate, latest) === years));
+    if (covered.length > 0) setPeriod(covered[covered.length - 1]);
+  }, [history]);
+
+  // Fill growth inputs from the compared fiscal years
+  useEffect(() => {
+    if (!history) return;
+    setGrowthValues((prev) => {
+      const next = { ...prev };
+      for (const row of GROWTH_ROWS) {
+        const { latest, past } = comparedYears[row.id];
+        if (!latest) {
+          // No history for this series: snapshot values only fit the snapshot window
+          if (period !== snapshotYears) next[row.id] = { ...prev[row.id], past: '' };
+          continue;
+        }
+        const latestValue = findHistoryValue(history.series, row.id, latest);
+        const pastValue = past ? findHistoryValue(history.series, row.id, past) : null;
+        next[row.id] = {
+          current: latestValue != null ? String(latestValue) : prev[row.id].current,
+          past: pastValue != null ? String(pastValue) : '',
+        };
+      }
+      return next;
+    });
+  }, [history, comparedYears, period, snapshotYears]);
+
+  // Values picked from the history series are reported for that fiscal year
+  const historyProvenance = (series: GrowthSeries, year: string | null, value: string) => {
+    if (!history || !year) return undefined;
+    const reported = findHistoryValue(history.series, series, year);
+    if (reported == null || String(reported) !== value) return undefined;
+    return { kind: 'reported' as const, source: `${history.dataSource}（${year}期）` };
+  };
+
+  const formatFiscalYear = (endDate: string) =>
+    new Date(endDate).toLocaleString('ja-JP', { year: 'numeric', month: 'long' }) + '期';
+
+  // CAGR of each series over the selected period
+  const growthRates = useMemo(() => {
+    const cagr = (series: GrowthSeries) => {
+      const currentNum = Number(growthValues[series].current);
+      const pastNum = Number(growthValues[series].past);
+      return currentNum > 0 && pastNum > 0 && period > 0 ? calculateCAGR(currentNum, pastNum, period) : null;
+    };
+    return Object.fromEntries(GROWTH_ROWS.map((row) => [row.id, cagr(row.id)])) as Record<GrowthSeries, number | null>;
+  }, [growthValues, period]);
+
   // Auto-calculate PSR
   useEffect(() => {
     const revenueNum = Number(revenue);
@@ -74,18 +236,16 @@ export default function GrowthCalculator() {
     }
   }, [capex, depreciation]);
 
-  // Auto-calculate Revenue Growth
+  // Share results with the investment score
   useEffect(() => {
-    const currentNum = Number(currentRevenue);
-    const pastNum = Number(pastRevenue);
-
-    if (currentNum > 0 && pastNum > 0) {
-      const result = calculateRevenueGrowth(currentNum, pastNum);
-      setRevenueGrowth(result);
-    } else {
-      setRevenueGrowth(null);
-    }
-  }, [currentRevenue, pastRevenue]);
+    reportMetrics({
+      psr,
+      capexRatio,
+      revenueGrowth: growthRates.revenue,
+      operatingIncomeGrowth: growthRates.operatingIncome,
+      epsGrowth: growthRates.eps,
+    });
+  }, [psr, capexRatio, growthRates, reportMetrics]);
 
   const renderJudgment = (judgment: GrowthJudgment) => (
     <div className={`border-l-4 ${judgment.borderColor} pl-4 py-2`}>
@@ -114,88 +274,140 @@ export default function GrowthCalculator() {
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
             <InputField
+              name="growth.revenue"
               label="売上高（百万円）"
               value={revenue}
               onChange={setRevenue}
+              provenance={provenanceFor('revenue', revenue)}
             />
 
             <InputField
+              name="growth.marketCap"
               label="時価総額（百万円）"
               value={marketCap}
               onChange={setMarketCap}
+              provenance={provenanceFor('marketCap', marketCap)}
             />
           </div>
 
           {psr !== null && (
-            <ResultDisplay
-              psr={psr}
-              judgment={getPSRJudgment(psr)}
-              marketCap={marketCap}
-              revenue={revenue}
-            />
+            <>
+              <ResultDisplay
+                psr={psr}
+                judgment={getPSRJudgment(psr, thresholds.psr)}
+                marketCap={marketCap}
+                revenue={revenue}
+              />
+              <SectorJudgment metric="psr" value={psr} />
+            </>
           )}
         </div>
 
-        {/* CapEx Ratio and Revenue Growth */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
-          {/* CapEx Ratio Calculator */}
-          <div>
-            <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
-              設備投資比率
-            </h3>
+        {/* CapEx Ratio Calculator */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+            設備投資比率
+          </h3>
 
-            <div className="space-y-3">
-              <InputField
-                label="設備投資額（百万円）"
-                value={capex}
-                onChange={setCapex}
-              />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <InputField
+              name="growth.capex"
+              label="設備投資額（百万円）"
+              value={capex}
+              onChange={setCapex}
+              provenance={provenanceFor('capex', capex)}
+            />
 
-              <InputField
-                label="減価償却費（百万円）"
-                value={depreciation}
-                onChange={setDepreciation}
-              />
-            </div>
+            <InputField
+              name="growth.depreciation"
+              label="減価償却費（百万円）"
+              value={depreciation}
+              onChange={setDepreciation}
+              provenance={provenanceFor('depreciation', depreciation)}
+            />
+          </div>
 
-            {capexRatio !== null && (
-              <div className="mt-4">
-                <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
-                  {capexRatio.toFixed(2)}x
-                </div>
-                {renderJudgment(getCapExRatioJudgment(capexRatio))}
+          {capexRatio !== null && (
+            <div className="mt-4">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                {capexRatio.toFixed(2)}x
               </div>
+              {renderJudgment(getCapExRatioJudgment(capexRatio, thresholds.capexRatio))}
+              <SectorJudgment metric="capexRatio" value={capexRatio} />
+            </div>
+          )}
+        </div>
+
+        {/* Growth Rates (CAGR) */}
+        <div>
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+              成長率（年平均成長率 CAGR）
+            </h3>
+            <select
+              value={period}
+              onChange={(e) => {
+                setPeriod(Number(e.target.value));
+                recordPeriod(e.target.value);
+              }}
+              className="px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              {periodOptions.map((years) => (
+                <option key={years} value={years} disabled={!isCovered(years)}>
+                  {years}年間{isCovered(years) ? '' : '（データなし）'}
+                </option>
+              ))}
+            </select>
+            {latestYear && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">最新: {formatFiscalYear(latestYear)}</span>
             )}
           </div>
 
-          {/* Revenue Growth Calculator */}
-          <div>
-            <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
-              売上高成長率（4年間）
-            </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+            {GROWTH_ROWS.map((row) => {
+              const { latest, past: historyPast } = comparedYears[row.id];
+              // Without history, the snapshot's own past year applies to the snapshot window
+              const past = historyPast || (!latest && period === snapshotYears ? financialData?.pastYearEnd || null : null);
+              const values = growthValues[row.id];
+              const growthRate = growthRates[row.id];
+              return (
+                <div key={row.id}>
+                  <h4 className="text-xs font-semibold mb-2 text-gray-600 dark:text-gray-400">
+                    {row.label}成長率
+                  </h4>
 
-            <div className="space-y-3">
-              <InputField
-                label="今期売上高（百万円）"
-                value={currentRevenue}
-                onChange={setCurrentRevenue}
-              />
+                  <div className="space-y-3">
+                    <InputField
+                      name={`growth.${row.id}.current`}
+                      label={`今期${row.label}（${row.unit}）`}
+                      value={values.current}
+                      onChange={(value) => setGrowthValue(row.id, 'current', value)}
+                      allowDecimal={row.allowDecimal}
+                      provenance={historyProvenance(row.id, latest, values.current) || provenanceFor(row.currentField, values.current)}
+                    />
 
-              <InputField
-                label="4期前売上高（百万円）"
-                value={pastRevenue}
-                onChange={setPastRevenue}
-              />
-            </div>
+                    <InputField
+                      name={`growth.${row.id}.past`}
+                      label={past ? `${formatFiscalYear(past)}${row.label}（${row.unit}）` : `${period}年前の${row.label}（${row.unit}）`}
+                      value={values.past}
+                      onChange={(value) => setGrowthValue(row.id, 'past', value)}
+                      allowDecimal={row.allowDecimal}
+                      provenance={historyProvenance(row.id, past, values.past) || provenanceFor(row.pastField, values.past)}
+                    />
+                  </div>
 
-            {revenueGrowth !== null && (
-              <div className="mt-4">
-                <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
-                  {revenueGrowth > 0 ? '+' : ''}{revenueGrowth.toFixed(1)}%
+                  {growthRate !== null && (
+                    <div className="mt-4">
+                      <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                        {growthRate > 0 ? '+' : ''}{growthRate.toFixed(1)}%<span className="text-sm font-normal">/年</span>
+                      </div>
+                      {renderJudgment(row.judge(growthRate, thresholds[row.metric]))}
+                      <SectorJudgment metric={row.metric} value={growthRate} />
+                    </div>
+                  )}
                 </div>
-                {renderJudgment(getRevenueGrowthJudgment(revenueGrowth))}
-              </div>
-            )}
+              );
+            })}
           </div>
         </div>
       </div>
@@ -2,21 +2,34 @@
  * Reusable input field component for financial data entry
  */
 
+import ProvenanceBadge from './provenance-badge';
+import { FieldProvenance } from './company-search';
+import { useLinkedInput } from '../contexts/analysis-link-context';
+
 interface InputFieldProps {
   label: string;
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  provenance?: FieldProvenance;
+  allowNegative?: boolean; // Keep a leading minus sign (e.g. investing cash flow)
+  allowDecimal?: boolean; // Keep a decimal point and its digits (per-share values such as EPS)
+  name?: string; // Link parameter ("<calculator>.<field>") that keeps manual edits in the URL
 }
 
 // Format number with thousand separators
-const formatNumber = (value: string): string => {
+const formatNumber = (value: string, allowNegative = false, allowDecimal = false): string => {
   if (!value) return '';
+  const sign = allowNegative && value.trim().startsWith('-') ? '-' : '';
+  // Only the first decimal point counts; the digits after it are kept as typed
+  const pointIndex = allowDecimal ? value.indexOf('.') : -1;
+  const integerPart = pointIndex >= 0 ? value.slice(0, pointIndex) : value;
+  const fraction = pointIndex >= 0 ? `.${value.slice(pointIndex + 1).replace(/\D/g, '')}` : '';
   // Remove all non-digit characters
-  const numericValue = value.replace(/\D/g, '');
-  if (!numericValue) return '';
+  const numericValue = integerPart.replace(/\D/g, '');
+  if (!numericValue && !fraction) return sign;
   // Add thousand separators
-  return Number(numericValue).toLocaleString('ja-JP');
+  return sign + Number(numericValue).toLocaleString('ja-JP') + fraction;
 };
 
 // Remove thousand separators to get raw number
@@ -24,23 +37,27 @@ const unformatNumber = (value: string): string => {
   return value.replace(/,/g, '');
 };
 
-export default function InputField({ label, value, onChange, placeholder }: InputFieldProps) {
+export default function InputField({ label, value, onChange, placeholder, provenance, allowNegative, allowDecimal, name }: InputFieldProps) {
+  const recordEdit = useLinkedInput(name, value, onChange);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const inputValue = e.target.value;
     // Remove commas and pass raw number to parent
     const rawValue = unformatNumber(inputValue);
     onChange(rawValue);
+    recordEdit(rawValue);
   };
 
   return (
     <div>
       <label className="block text-left text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
         {label}
+        {provenance && <ProvenanceBadge provenance={provenance} />}
       </label>
       <input
         type="text"
-        inputMode="numeric"
-        value={formatNumber(value)}
+        inputMode={allowDecimal ? 'decimal' : 'numeric'}
+        value={formatNumber(value, allowNegative, allowDecimal)}
         onChange={handleChange}
         placeholder={placeholder}
         className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useFinancialData } from "../contexts/financial-data-context";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
+import { useLinkedOption } from "../contexts/analysis-link-context";
+import { formatMetricValue, MetricStage } from "../lib/metrics";
+import {
+  DEFAULT_STAGE_WEIGHTS,
+  formatStageWeights,
+  Grade,
+  loadStageWeights,
+  parseStageWeights,
+  PASS_SCORE,
+  scoreInvestment,
+  StageWeights,
+  storeStageWeights,
+} from "../lib/scoring";
+
+const GRADE_STYLES: Record<Grade, string> = {
+  S: 'text-green-600 dark:text-green-400',
+  A: 'text-blue-600 dark:text-blue-400',
+  B: 'text-yellow-600 dark:text-yellow-400',
+  C: 'text-orange-600 dark:text-orange-400',
+  D: 'text-red-600 dark:text-red-400',
+};
+
+/**
+ * Investment Score Component
+ * Summarizes the judgments of all calculators into one grade
+ */
+export default function InvestmentScore() {
+  const { metricValues } = useFinancialData();
+  const { thresholds, activeProfile } = useThresholdProfile();
+  const [weights, setWeights] = useState<StageWeights>(DEFAULT_STAGE_WEIGHTS);
+  const [showWeights, setShowWeights] = useState(false);
+
+  useEffect(() => {
+    setWeights(loadStageWeights());
+  }, []);
+
+  // Weights from a link apply to this page only; the saved weights are left untouched
+  useLinkedOption('weights', formatStageWeights(weights), (stored) => {
+    const linked = parseStageWeights(stored);
+    if (linked) setWeights(linked);
+    return linked !== null;
+  }, formatStageWeights(DEFAULT_STAGE_WEIGHTS));
+
+  const result = useMemo(
+    () => scoreInvestment(metricValues, weights, thresholds),
+    [metricValues, weights, thresholds]
+  );
+
+  const handleWeightChange = (stage: MetricStage, value: string) => {
+    const next = { ...weights, [stage]: Math.max(0, Number(value) || 0) };
+    setWeights(next);
+    storeStageWeights(next);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+      <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-3 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">総合評価</h2>
+        <button
+          onClick={() => setShowWeights(!showWeights)}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {showWeights ? '閉じる' : '配点の設定'}
+        </button>
+      </div>
+
+      {result.grade === null || result.score === null ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          企業データを取得するか各分析に数値を入力すると、判定を総合した評価を表示します
+        </p>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="text-center md:w-32 flex-shrink-0">
+            <div className={`text-5xl font-bold ${GRADE_STYLES[result.grade]}`}>{result.grade}</div>
+            <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">{Math.round(result.score)}点 / 100</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">判定基準: {activeProfile.name}</div>
+            {result.unscoredStages.length > 0 && (
+              <div className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                暫定（{result.unscoredStages.map((stage) => stage.label).join('・')}は未評価）
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 space-y-2">
+            {result.stages.map((stage, index) => (
+              <div key={stage.stage}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700 dark:text-gray-300">
+                    <span className="text-blue-600 dark:text-blue-400 mr-1">{index + 1}.</span>
+                    {stage.label}
+                    {stage.weight !== 1 && (
+                      <span className="ml-1 text-xs text-gray-400">×{stage.weight}</span>
+                    )}
+                  </span>
+                  <span
+                    className={
+                      stage.passed === null
+                        ? 'text-gray-400'
+                        : stage.passed
+                          ? 'font-semibold text-green-700 dark:text-green-400'
+                          : 'font-semibold text-red-700 dark:text-red-400'
+                    }
+                  >
+                    {stage.score === null ? '未評価' : `${stage.passed ? '合格' : '不合格'} ${Math.round(stage.score)}点`}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-sm h-2 mt-1">
+                  <div
+                    className={`h-2 rounded-sm ${stage.passed ? 'bg-green-500' : 'bg-red-500'}`}
+                    style={{ width: `${stage.score ?? 0}%` }}
+                  ></div>
+                </div>
+                {stage.metrics.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {stage.metrics.map((m) => (
+                      <span key={m.metric.id} className="mr-3">
+                        {m.metric.label} {formatMetricValue(m.metric, m.value)}{' '}
+                        <span className={`${m.judgment.textColor} ${m.judgment.darkTextColor}`}>{m.judgment.title}</span>
+                      </span>
+                    ))}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {result.grade !== null && (
+        <ul className="mt-4 text-xs text-gray-600 dark:text-gray-400 space-y-0.5">
+          {result.rationale.map((line) => (
+            <li key={line}>・{line}</li>
+          ))}
+        </ul>
+      )}
+
+      {showWeights && (
+        <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex flex-wrap gap-4">
+            {result.stages.map((stage) => (
+              <label key={stage.stage} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                {stage.label}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={weights[stage.stage]}
+                  onChange={(e) => handleWeightChange(stage.stage, e.target.value)}
+                  className="w-16 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            各段階の点数（判定ごとの点数の平均）に重みを掛けて総合点を算出します。{PASS_SCORE}点以上で合格、重み0の段階は総合点に含めません。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { DATA_SOURCE_OPTIONS, FinancialData } from "./company-search";
+import {
+  findBestAndWorst,
+  formatMetricValue,
+  MetricDefinition,
+  METRIC_STAGE_LABELS,
+  MetricStage,
+  METRICS,
+} from "../lib/metrics";
+import { parseCodeList } from "../lib/screener";
+import { fetchCompanyBatch, isCompanyResult } from "../lib/company-client";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
+import type { ThresholdTable } from "../lib/threshold-profiles";
+
+// The company plus up to five peers
+const MAX_COMPANIES = 6;
+
+interface ComparedCompany {
+  code: string;
+  companyName: string;
+  dataSource: string;
+  fiscalPeriodEnd: string | null;
+  financialData: FinancialData;
+}
+
+const inputClassName =
+  "px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+/**
+ * Peer Comparison Component
+ * Loads several companies at once and shows every calculator metric side by side
+ */
+export default function PeerComparison() {
+  const { thresholds } = useThresholdProfile();
+  const [codesText, setCodesText] = useState('');
+  const [source, setSource] = useState('');
+  const [companies, setCompanies] = useState<ComparedCompany[]>([]);
+  const [failures, setFailures] = useState<{ code: string; error: string }[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const codes = useMemo(() => parseCodeList(codesText), [codesText]);
+
+  // One row per metric: values and judgments per company, plus best/worst columns
+  const rows = useMemo(
+    () =>
+      METRICS.map((metric) => {
+        const values = companies.map((company) => metric.compute(company.financialData));
+        return { metric, values, ranking: findBestAndWorst(metric, values) };
+      }),
+    [companies]
+  );
+
+  const handleCompare = async () => {
+    if (codes.length > MAX_COMPANIES) {
+      setError(`比較できるのは${MAX_COMPANIES}社までです`);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const results = await fetchCompanyBatch(codes, { source });
+      setCompanies(
+        results.filter(isCompanyResult).map((result) => ({
+          code: result.code,
+          companyName: result.data.companyName,
+          dataSource: result.data.dataSource,
+          fiscalPeriodEnd: result.data.fiscalPeriodEnd,
+          financialData: result.data.financialData,
+        }))
+      );
+      setFailures(
+        results.flatMap((result) => ('error' in result.data ? [{ code: result.code, error: result.data.error }] : []))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '予期しないエラーが発生しました');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = (code: string) => {
+    setCompanies((prev) => prev.filter((company) => company.code !== code));
+    setCodesText(codes.filter((c) => c !== code).join(' '));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+        <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-3">
+          比較する企業
+        </h2>
+
+        <div className="flex gap-3 items-start">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              証券コード（空白区切り、{MAX_COMPANIES}社まで）
+            </label>
+            <input
+              type="text"
+              value={codesText}
+              onChange={(e) => setCodesText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && codes.length > 0 && !loading) {
+                  handleCompare();
+                }
+              }}
+              placeholder="例：7203 7267 7201 7269"
+              className={`w-full ${inputClassName}`}
+              disabled={loading}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              データソース
+            </label>
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className={inputClassName}
+              disabled={loading}
+            >
+              {DATA_SOURCE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={handleCompare}
+            disabled={loading || codes.length === 0}
+            className="mt-7 px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors disabled:cursor-not-allowed"
+          >
+            {loading ? '取得中...' : '比較'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {failures.length > 0 && (
+          <div className="mt-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+            <ul className="text-xs text-yellow-700 dark:text-yellow-400 space-y-0.5">
+              {failures.map((failure) => (
+                <li key={failure.code}>{failure.code}: {failure.error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {companies.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4 text-left font-medium text-gray-600 dark:text-gray-400">指標</th>
+                  {companies.map((company) => (
+                    <th key={company.code} className="py-2 px-3 text-right align-top">
+                      <div className="font-semibold text-gray-900 dark:text-white">{company.companyName}</div>
+                      <div className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                        {company.code} | {company.dataSource}
+                        {company.fiscalPeriodEnd && (
+                          <> | {new Date(company.fiscalPeriodEnd).toLocaleString('ja-JP', {
+                            year: 'numeric',
+                            month: 'short',
+                          })}期</>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleRemove(company.code)}
+                        className="text-xs font-normal text-gray-400 hover:text-red-600"
+                      >
+                        除外
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(METRIC_STAGE_LABELS) as MetricStage[]).map((stage) => (
+                  <StageRows
+                    key={stage}
+                    stage={stage}
+                    companyCount={companies.length}
+                    thresholds={thresholds}
+                    rows={rows.filter((row) => row.metric.stage === stage)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            <span className="inline-block w-3 h-3 align-middle mr-1 bg-green-100 dark:bg-green-900/40 border border-green-400" />最良
+            <span className="inline-block w-3 h-3 align-middle ml-3 mr-1 bg-red-100 dark:bg-red-900/40 border border-red-400" />最低
+            <span className="ml-3">文字色は各指標の判定</span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Rows of one analysis stage with a heading row
+ */
+function StageRows({ stage, companyCount, thresholds, rows }: {
+  stage: MetricStage;
+  companyCount: number;
+  thresholds: ThresholdTable;
+  rows: {
+    metric: MetricDefinition;
+    values: (number | null)[];
+    ranking: { best: number; worst: number } | null;
+  }[];
+}) {
+  return (
+    <>
+      <tr>
+        <td colSpan={companyCount + 1} className="pt-4 pb-1 text-xs font-semibold text-blue-600 dark:text-blue-400">
+          {METRIC_STAGE_LABELS[stage]}
+        </td>
+      </tr>
+      {rows.map(({ metric, values, ranking }) => (
+        <tr key={metric.id} className="border-b border-gray-100 dark:border-gray-700/50">
+          <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{metric.label}</td>
+          {values.map((value, index) => {
+            const judgment = value !== null ? metric.judge(value, thresholds[metric.id]) : null;
+            const highlight =
+              ranking?.best === index
+                ? 'bg-green-100 dark:bg-green-900/40'
+                : ranking?.worst === index
+                  ? 'bg-red-100 dark:bg-red-900/40'
+                  : '';
+            return (
+              <td key={index} className={`py-2 px-3 text-right ${highlight}`}>
+                {judgment && value !== null ? (
+                  <span className={`${judgment.textColor} ${judgment.darkTextColor}`} title={judgment.description}>
+                    <span className="font-semibold">{formatMetricValue(metric, value)}</span>
+                    <span className="ml-1 text-xs">{judgment.title}</span>
+                  </span>
+                ) : (
+                  <span className="text-gray-400">-</span>
+                )}
+              </td>
+            );
+          })}
+        </tr>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import InputField from "./input-field";
+import SectorJudgment from "./sector-judgment";
+import type { FinancialData } from "./company-search";
+import { useFinancialData } from "../contexts/financial-data-context";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
+import {
+  calculatePiotroskiFScore,
+  getPiotroskiJudgment,
+  PiotroskiSignal,
+  PiotroskiSignalId,
+  PiotroskiYear,
+} from "../utils/financial";
+
+type YearInputs = Record<keyof PiotroskiYear, string>;
+
+// Inputs of one fiscal year; signed items can be negative
+const YEAR_ITEMS: { item: keyof PiotroskiYear; label: string; signed?: boolean }[] = [
+  { item: 'revenue', label: '売上高' },
+  { item: 'grossProfit', label: '売上総利益', signed: true },
+  { item: 'netIncome', label: '純利益', signed: true },
+  { item: 'operatingCashflow', label: '営業CF', signed: true },
+  { item: 'totalAssets', label: '総資産' },
+  { item: 'longTermDebt', label: '長期有利子負債' },
+  { item: 'currentAssets', label: '流動資産' },
+  { item: 'currentLiabilities', label: '流動負債' },
+];
+
+const EMPTY_YEAR = Object.fromEntries(YEAR_ITEMS.map(({ item }) => [item, ''])) as YearInputs;
+
+const percent = (value: number) => `${value.toFixed(1)}%`;
+const millions = (value: number) => `${Math.round(value).toLocaleString()}百万円`;
+
+// Label and the numbers behind each signal, grouped as in Piotroski's paper
+const SIGNALS: { id: PiotroskiSignalId; group: string; label: string; detail: (signal: PiotroskiSignal) => string }[] = [
+  { id: 'roa', group: '収益性', label: 'ROAがプラス', detail: (s) => `ROA ${percent(s.current)}` },
+  { id: 'cfo', group: '収益性', label: '営業CFがプラス', detail: (s) => `営業CF ${millions(s.current)}` },
+  { id: 'deltaRoa', group: '収益性', label: 'ROAが改善', detail: (s) => `前期 ${percent(s.reference)} → 今期 ${percent(s.current)}` },
+  { id: 'accrual', group: '収益性', label: '営業CFが純利益を上回る', detail: (s) => `営業CF/総資産 ${percent(s.current)}、ROA ${percent(s.reference)}` },
+  { id: 'deltaLeverage', group: '財務の健全性', label: '長期負債比率が低下（横ばい含む）', detail: (s) => `前期 ${percent(s.reference)} → 今期 ${percent(s.current)}` },
+  { id: 'deltaLiquidity', group: '財務の健全性', label: '流動比率が改善', detail: (s) => `前期 ${percent(s.reference)} → 今期 ${percent(s.current)}` },
+  { id: 'noDilution', group: '財務の健全性', label: '新株発行なし', detail: (s) => `株式の発行による収入 ${millions(s.current)}` },
+  { id: 'deltaGrossMargin', group: '効率性', label: '売上総利益率が改善', detail: (s) => `前期 ${percent(s.reference)} → 今期 ${percent(s.current)}` },
+  { id: 'deltaAssetTurnover', group: '効率性', label: '総資産回転率が改善', detail: (s) => `前期 ${s.reference.toFixed(2)}回 → 今期 ${s.current.toFixed(2)}回` },
+];
+
+// Numeric value of a signed input, or null while it is empty or incomplete
+const toSigned = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const num = Number(value);
+  return Number.isNaN(num) ? null : num;
+};
+
+// Numeric year, or null until every item is entered and the denominators are positive
+const toYear = (inputs: YearInputs): PiotroskiYear | null => {
+  const values = YEAR_ITEMS.map(({ item }) => [item, toSigned(inputs[item])] as const);
+  if (values.some(([, value]) => value === null)) return null;
+  const year = Object.fromEntries(values) as unknown as PiotroskiYear;
+  return year.revenue > 0 && year.totalAssets > 0 && year.currentLiabilities > 0 ? year : null;
+};
+
+// FinancialData field of an item: both years come from annual statements, never trailing figures
+const yearField = (item: keyof PiotroskiYear, prior: boolean) =>
+  `${item}${prior ? 'PriorYear' : 'CurrentYear'}` as keyof FinancialData;
+
+// Year inputs from fetched data, keeping entries the data does not cover
+const fillYear = (inputs: YearInputs, data: FinancialData, prior: boolean): YearInputs => {
+  const next = { ...inputs };
+  for (const { item } of YEAR_ITEMS) {
+    const value = data[yearField(item, prior)];
+    if (value) next[item] = value;
+  }
+  return next;
+};
+
+/**
+ * Piotroski F-Score Component
+ * Scores nine pass/fail signals comparing the latest fiscal year with the one before
+ */
+export default function PiotroskiScore() {
+  const { data: financialData, provenanceFor, reportMetrics } = useFinancialData();
+  const { thresholds } = useThresholdProfile();
+
+  const [current, setCurrent] = useState<YearInputs>(EMPTY_YEAR);
+  const [prior, setPrior] = useState<YearInputs>(EMPTY_YEAR);
+  const [stockIssuance, setStockIssuance] = useState('');
+
+  // Auto-fill from fetched data
+  useEffect(() => {
+    if (financialData) {
+      setCurrent((inputs) => fillYear(inputs, financialData, false));
+      setPrior((inputs) => fillYear(inputs, financialData, true));
+      if (financialData.stockIssuance) setStockIssuance(financialData.stockIssuance);
+    }
+  }, [financialData]);
+
+  const result = useMemo(() => {
+    const currentYear = toYear(current);
+    const priorYear = toYear(prior);
+    const issuance = toSigned(stockIssuance);
+    return currentYear && priorYear && issuance !== null
+      ? calculatePiotroskiFScore(currentYear, priorYear, issuance)
+      : null;
+  }, [current, prior, stockIssuance]);
+
+  const score = result?.score ?? null;
+
+  // Share results with the investment score
+  useEffect(() => {
+    reportMetrics({ piotroskiScore: score });
+  }, [score, reportMetrics]);
+
+  const judgment = score !== null ? getPiotroskiJudgment(score, thresholds.piotroskiScore) : null;
+
+  const renderYear = (title: string, inputs: YearInputs, setInputs: typeof setCurrent, isPrior: boolean) => (
+    <div>
+      <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">{title}</h3>
+      <div className="grid grid-cols-2 gap-3">
+        {YEAR_ITEMS.map(({ item, label, signed }) => {
+          const field = yearField(item, isPrior);
+          return (
+            <InputField
+              key={item}
+              name={`piotroski.${field}`}
+              label={`${label}（百万円）`}
+              value={inputs[item]}
+              onChange={(value) => setInputs((previous) => ({ ...previous, [item]: value }))}
+              provenance={provenanceFor(field, inputs[item])}
+              allowNegative={signed}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+      <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-3">
+        Piotroski Fスコア
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        {renderYear('今期', current, setCurrent, false)}
+        {renderYear('前期', prior, setPrior, true)}
+      </div>
+
+      <div className="mt-3 md:w-1/4">
+        <InputField
+          name="piotroski.stockIssuance"
+          label="今期の株式の発行による収入（百万円）"
+          value={stockIssuance}
+          onChange={setStockIssuance}
+          provenance={provenanceFor('stockIssuance', stockIssuance)}
+        />
+      </div>
+
+      {result && judgment ? (
+        <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+              {result.score} / {SIGNALS.length}点
+            </div>
+            <div className={`border-l-4 ${judgment.borderColor} pl-4 py-2`}>
+              <p className={`font-semibold ${judgment.textColor} ${judgment.darkTextColor}`}>
+                {judgment.title}
+              </p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {judgment.description}
+              </p>
+            </div>
+            <SectorJudgment metric="piotroskiScore" value={result.score} />
+          </div>
+
+          <ul className="md:col-span-2 space-y-1.5 text-sm">
+            {SIGNALS.map(({ id, group, label, detail }) => {
+              const signal = result.signals.find((s) => s.id === id)!;
+              return (
+                <li key={id} className="flex items-start gap-2">
+                  <span
+                    className={`flex-shrink-0 w-10 text-center rounded text-xs font-semibold py-0.5 ${
+                      signal.passed
+                        ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300'
+                        : 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300'
+                    }`}
+                  >
+                    {signal.passed ? '合格' : '不合格'}
+                  </span>
+                  <span className="text-gray-900 dark:text-white">
+                    <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">{group}</span>
+                    {label}
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{detail(signal)}</span>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : (
+        <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+          今期と前期の全項目を入力すると、9つのシグナルの合否と合計スコアを表示します
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import type { FinancialData } from "./company-search";
+import { formatMetricValue, getMetric } from "../lib/metrics";
+import { BATCH_SIZE, fetchCompanyBatch, isCompanyResult } from "../lib/company-client";
+import {
+  ACCOUNT_TYPE_LABELS,
+  AccountType,
+  Holding,
+  loadHoldings,
+  SHARE_UNIT,
+  splitShareUnits,
+  storeHoldings,
+  summarizePortfolio,
+  TAXABLE_ACCOUNT_TAX_RATE,
+  valueHolding,
+} from "../lib/portfolio";
+import { isSecuritiesCode } from "../lib/securities-code";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
+
+interface HeldCompany {
+  companyName: string;
+  financialData: FinancialData;
+}
+
+const inputClassName =
+  "px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+const yen = (value: number) => `${Math.round(value).toLocaleString()}円`;
+const signedYen = (value: number) => `${value >= 0 ? '+' : ''}${yen(value)}`;
+const gainColor = (value: number) =>
+  value >= 0 ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400';
+
+/**
+ * Portfolio Tracker Component
+ * Keeps holdings in the browser and values them with the latest fetched prices and dividends
+ */
+export default function PortfolioTracker() {
+  const { thresholds } = useThresholdProfile();
+  const [holdings, setHoldings] = useState<Holding[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [companies, setCompanies] = useState<Record<string, HeldCompany>>({});
+  const [failures, setFailures] = useState<{ code: string; error: string }[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // New holding form
+  const [code, setCode] = useState('');
+  const [shares, setShares] = useState(String(SHARE_UNIT));
+  const [acquisitionPrice, setAcquisitionPrice] = useState('');
+  const [account, setAccount] = useState<AccountType>('tokutei');
+
+  const fetchCompanies = async (codes: string[]) => {
+    if (codes.length === 0) return;
+    setLoading(true);
+    setError('');
+
+    try {
+      // The batch route takes at most BATCH_SIZE codes per request
+      for (let start = 0; start < codes.length; start += BATCH_SIZE) {
+        const batchCodes = codes.slice(start, start + BATCH_SIZE);
+        const results = await fetchCompanyBatch(batchCodes);
+        setCompanies((prev) => {
+          const next = { ...prev };
+          for (const result of results.filter(isCompanyResult)) {
+            next[result.code] = { companyName: result.data.companyName, financialData: result.data.financialData };
+          }
+          return next;
+        });
+        setFailures((prev) => [
+          ...prev.filter((failure) => !batchCodes.includes(failure.code)),
+          ...results.flatMap((result) => ('error' in result.data ? [{ code: result.code, error: result.data.error }] : [])),
+        ]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '予期しないエラーが発生しました');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const heldCodes = useMemo(() => [...new Set(holdings.map((holding) => holding.code))], [holdings]);
+
+  // localStorage is only available after mount; prices are fetched once on arrival
+  useEffect(() => {
+    const stored = loadHoldings();
+    setHoldings(stored);
+    setLoaded(true);
+    fetchCompanies([...new Set(stored.map((holding) => holding.code))]);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) storeHoldings(holdings);
+  }, [holdings, loaded]);
+
+  const valuations = useMemo(
+    () => holdings.map((holding) => valueHolding(holding, companies[holding.code]?.financialData ?? null)),
+    [holdings, companies]
+  );
+  const summary = useMemo(() => summarizePortfolio(valuations), [valuations]);
+
+  const sharesNum = Number(shares);
+  const priceNum = Number(acquisitionPrice);
+  const canAdd = isSecuritiesCode(code) && Number.isInteger(sharesNum) && sharesNum > 0 && priceNum > 0;
+  const oddLot = Number.isInteger(sharesNum) && sharesNum > 0 ? splitShareUnits(sharesNum).oddLot : 0;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    setHoldings((prev) => [
+      ...prev,
+      { id: Math.max(0, ...prev.map((h) => h.id)) + 1, code, shares: sharesNum, acquisitionPrice: priceNum, account },
+    ]);
+    if (!companies[code]) fetchCompanies([code]);
+    setCode('');
+    setShares(String(SHARE_UNIT));
+    setAcquisitionPrice('');
+  };
+
+  const handleRemove = (id: number) => {
+    setHoldings((prev) => prev.filter((holding) => holding.id !== id));
+  };
+
+  const renderAverage = (metricId: 'per' | 'pbr' | 'dividendYield', value: number | null) => {
+    const metric = getMetric(metricId);
+    const judgment = value !== null ? metric.judge(value, thresholds[metricId]) : null;
+    return (
+      <div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">加重平均{metric.label}</div>
+        {judgment && value !== null ? (
+          <div className={`text-xl font-bold ${judgment.textColor} ${judgment.darkTextColor}`} title={judgment.description}>
+            {formatMetricValue(metric, value)}
+            <span className="ml-1 text-xs font-normal">{judgment.title}</span>
+          </div>
+        ) : (
+          <div className="text-xl font-bold text-gray-400">-</div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+        <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-3">
+          保有銘柄の追加
+        </h2>
+
+        <div className="flex flex-wrap gap-3 items-start">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">証券コード</label>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^0-9A-Z]/g, '').slice(0, 4))}
+              placeholder="例：7203"
+              className={`w-28 ${inputClassName}`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">株数</label>
+            <input
+              type="number"
+              min={1}
+              step={SHARE_UNIT}
+              value={shares}
+              onChange={(e) => setShares(e.target.value)}
+              className={`w-32 ${inputClassName}`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">取得単価（円）</label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={acquisitionPrice}
+              onChange={(e) => setAcquisitionPrice(e.target.value)}
+              className={`w-36 ${inputClassName}`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">口座</label>
+            <select
+              value={account}
+              onChange={(e) => setAccount(e.target.value as AccountType)}
+              className={inputClassName}
+            >
+              {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map((type) => (
+                <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="mt-7 px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors disabled:cursor-not-allowed"
+          >
+            追加
+          </button>
+        </div>
+
+        {oddLot > 0 && (
+          <p className="mt-2 text-xs text-yellow-700 dark:text-yellow-400">
+            ⚠ {SHARE_UNIT}株単位ではありません（{oddLot}株は単元未満株として扱います）
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {failures.length > 0 && (
+        <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+          <ul className="text-xs text-yellow-700 dark:text-yellow-400 space-y-0.5">
+            {failures.map((failure) => (
+              <li key={failure.code}>{failure.code}: {failure.error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {holdings.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+          <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-3 mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">ポートフォリオ</h2>
+            <button
+              onClick={() => fetchCompanies(heldCodes)}
+              disabled={loading}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              {loading ? '取得中...' : '株価・配当を更新'}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4 mb-6">
+            <div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">評価額</div>
+              <div className="text-xl font-bold text-gray-900 dark:text-white">{yen(summary.marketValue)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">取得額</div>
+              <div className="text-xl font-bold text-gray-900 dark:text-white">{yen(summary.costBasis)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">含み損益</div>
+              <div className={`text-xl font-bold ${gainColor(summary.unrealizedGain)}`}>
+                {signedYen(summary.unrealizedGain)}
+                {summary.unrealizedGainPercent !== null && (
+                  <span className="ml-1 text-xs font-normal">({summary.unrealizedGainPercent.toFixed(1)}%)</span>
+                )}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">年間配当（税引前 / 税引後）</div>
+              <div className="text-xl font-bold text-gray-900 dark:text-white">{yen(summary.annualDividend)}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{yen(summary.annualDividendAfterTax)}</div>
+            </div>
+            {renderAverage('per', summary.per)}
+            {renderAverage('pbr', summary.pbr)}
+            {renderAverage('dividendYield', summary.dividendYield)}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                  <th className="py-2 pr-4 text-left font-medium">銘柄</th>
+                  <th className="py-2 px-3 text-left font-medium">口座</th>
+                  <th className="py-2 px-3 text-right font-medium">株数</th>
+                  <th className="py-2 px-3 text-right font-medium">取得単価</th>
+                  <th className="py-2 px-3 text-right font-medium">株価</th>
+                  <th className="py-2 px-3 text-right font-medium">評価額</th>
+                  <th className="py-2 px-3 text-right font-medium">含み損益</th>
+                  <th className="py-2 px-3 text-right font-medium">年間配当（税引後）</th>
+                  <th className="py-2 pl-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {valuations.map((valuation) => {
+                  const { holding } = valuation;
+                  const company = companies[holding.code];
+                  const { units, oddLot: holdingOddLot } = splitShareUnits(holding.shares);
+                  return (
+                    <tr key={holding.id} className="border-b border-gray-100 dark:border-gray-700/50">
+                      <td className="py-2 pr-4">
+                        <div className="font-semibold text-gray-900 dark:text-white">{company?.companyName || holding.code}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{holding.code}</div>
+                      </td>
+                      <td className="py-2 px-3 text-gray-700 dark:text-gray-300">{ACCOUNT_TYPE_LABELS[holding.account]}</td>
+                      <td className="py-2 px-3 text-right text-gray-900 dark:text-white whitespace-nowrap">
+                        {holding.shares.toLocaleString()}株
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {units}単元{holdingOddLot > 0 && ` + 単元未満${holdingOddLot}株`}
+                        </div>
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-900 dark:text-white">{holding.acquisitionPrice.toLocaleString()}円</td>
+                      <td className="py-2 px-3 text-right text-gray-900 dark:text-white">
+                        {company?.financialData.stockPrice ? `${Number(company.financialData.stockPrice).toLocaleString()}円` : '-'}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-900 dark:text-white">
+                        {valuation.marketValue !== null ? yen(valuation.marketValue) : '-'}
+                      </td>
+                      <td className="py-2 px-3 text-right whitespace-nowrap">
+                        {valuation.unrealizedGain !== null ? (
+                          <span className={gainColor(valuation.unrealizedGain)}>
+                            {signedYen(valuation.unrealizedGain)}
+                            {valuation.unrealizedGainPercent !== null && (
+                              <span className="block text-xs">{valuation.unrealizedGainPercent.toFixed(1)}%</span>
+                            )}
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-900 dark:text-white">
+                        {valuation.annualDividendAfterTax !== null ? yen(valuation.annualDividendAfterTax) : '-'}
+                      </td>
+                      <td className="py-2 pl-3 text-right">
+                        <button
+                          onClick={() => handleRemove(holding.id)}
+                          className="text-xs text-gray-400 hover:text-red-600"
+                        >
+                          削除
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-3 text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+            <p>※ 加重平均PER・PBR・配当利回りは評価額で加重（算出できない銘柄は除外）</p>
+            <p>※ 税引後の配当は特定口座で{(TAXABLE_ACCOUNT_TAX_RATE * 100).toFixed(3)}%を源泉徴収、NISAは非課税として計算</p>
+            {summary.unpricedCount > 0 && (
+              <p>※ 株価を取得できない{summary.unpricedCount}件は評価額・含み損益に含めていません</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
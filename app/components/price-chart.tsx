@@ -0,0 +1,366 @@
+"use client";
+
+import { useState, useEffect, useMemo, MouseEvent } from "react";
+import { useFinancialData } from "../contexts/financial-data-context";
+import { useAnalysisLink, useLinkedOption } from "../contexts/analysis-link-context";
+import { fetchPriceHistory } from "../lib/company-client";
+import {
+  fiscalYearEnds,
+  MOVING_AVERAGE_WINDOWS,
+  movingAverage,
+  parsePriceInterval,
+  parsePriceRange,
+  PRICE_INTERVAL_LABELS,
+  PRICE_RANGES,
+  PriceHistory,
+  PriceInterval,
+  PriceRange,
+} from "../lib/price-history";
+
+// Chart geometry in viewBox units
+const WIDTH = 800;
+const PRICE_HEIGHT = 260;
+const VOLUME_HEIGHT = 60;
+const GAP = 12;
+const PADDING = { top: 10, right: 64, bottom: 20, left: 8 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const HEIGHT = PADDING.top + PRICE_HEIGHT + GAP + VOLUME_HEIGHT + PADDING.bottom;
+
+const MA_COLORS = ['#f59e0b', '#10b981', '#8b5cf6'];
+const Y_TICKS = 4;
+
+// Unit of a moving-average window, e.g. 25日 / 13週 / 12ヶ月
+const AVERAGE_UNITS: Record<PriceInterval, string> = { '1d': '日', '1wk': '週', '1mo': 'ヶ月' };
+
+const formatDate = (date: string) => date.replace(/-/g, '/');
+
+/**
+ * Price Chart Component
+ * Split-adjusted price history of the fetched company with moving averages and fiscal year-ends
+ */
+export default function PriceChart() {
+  const { company } = useFinancialData();
+  const { params } = useAnalysisLink();
+  const [range, setRange] = useState<PriceRange>('1Y');
+  const [barInterval, setBarInterval] = useState<PriceInterval>(PRICE_RANGES['1Y'].interval);
+  const [hiddenAverages, setHiddenAverages] = useState<number[]>([]);
+  const [prices, setPrices] = useState<PriceHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  // The interval in a link is restored with its range, since changing the range resets it
+  useLinkedOption('range', range, (stored) => {
+    const linkedRange = parsePriceRange(stored);
+    if (!linkedRange) return false;
+    setRange(linkedRange);
+    setBarInterval(parsePriceInterval(params.interval ?? null, linkedRange) ?? PRICE_RANGES[linkedRange].interval);
+    return true;
+  }, '1Y');
+  useLinkedOption('interval', barInterval, (stored) => {
+    const linkedInterval = parsePriceInterval(stored, range);
+    if (linkedInterval) setBarInterval(linkedInterval);
+    return linkedInterval !== null;
+  }, PRICE_RANGES[range].interval);
+
+  // XBRL filings carry no prices, so those companies use the server default source
+  const source = company?.provider && company.provider !== 'xbrl' ? company.provider : '';
+
+  useEffect(() => {
+    if (!company) {
+      setPrices(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchPriceHistory(company.code, { range, interval: barInterval, source })
+      .then((data) => {
+        if (!cancelled) setPrices(data);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setPrices(null);
+          setError(err instanceof Error ? err.message : '不明なエラーが発生しました');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [company, source, range, barInterval]);
+
+  const bars = useMemo(() => prices?.bars ?? [], [prices]);
+  const shownInterval = prices?.interval ?? barInterval;
+  const windows = MOVING_AVERAGE_WINDOWS[shownInterval];
+  const averages = useMemo(
+    () => windows.map((window) => ({ window, values: movingAverage(bars, window) })),
+    [bars, windows]
+  );
+
+  const chart = useMemo(() => {
+    if (bars.length < 2) return null;
+
+    const visible = averages.filter((average) => !hiddenAverages.includes(average.window));
+    const values = [
+      ...bars.flatMap((bar) => [bar.high, bar.low]),
+      ...visible.flatMap((average) => average.values.filter((value): value is number => value !== null)),
+    ];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const span = max - min || max || 1;
+    const low = min - span * 0.05;
+    const high = max + span * 0.05;
+    const maxVolume = Math.max(...bars.map((bar) => bar.volume), 1);
+
+    const x = (index: number) => PADDING.left + (index / (bars.length - 1)) * PLOT_WIDTH;
+    const y = (price: number) => PADDING.top + ((high - price) / (high - low)) * PRICE_HEIGHT;
+    const volumeTop = PADDING.top + PRICE_HEIGHT + GAP;
+    const path = (series: (number | null)[]) =>
+      series
+        .map((value, index) => (value === null ? null : `${x(index).toFixed(1)},${y(value).toFixed(1)}`))
+        .reduce<string>((d, point, index, points) => {
+          if (point === null) return d;
+          return `${d}${index === 0 || points[index - 1] === null ? 'M' : 'L'}${point}`;
+        }, '');
+
+    // Fiscal year-ends are placed on the bar that contains the date (the last one starting on or before it)
+    const yearEnds = company?.fiscalPeriodEnd
+      ? fiscalYearEnds(company.fiscalPeriodEnd, bars[0].date, bars[bars.length - 1].date).map((date) => {
+          const index = bars.reduce((found, bar, i) => (bar.date <= date ? i : found), 0);
+          return { date, x: x(index) };
+        })
+      : [];
+
+    return {
+      x,
+      y,
+      closePath: path(bars.map((bar) => bar.close)),
+      averagePaths: visible.map((average) => ({
+        window: average.window,
+        color: MA_COLORS[windows.indexOf(average.window)],
+        d: path(average.values),
+      })),
+      yTicks: Array.from({ length: Y_TICKS + 1 }, (_, i) => low + ((high - low) * i) / Y_TICKS),
+      volumes: bars.map((bar, index) => ({
+        x: x(index),
+        height: (bar.volume / maxVolume) * VOLUME_HEIGHT,
+        up: bar.close >= bar.open,
+      })),
+      volumeTop,
+      barWidth: Math.max(1, (PLOT_WIDTH / bars.length) * 0.7),
+      yearEnds,
+    };
+  }, [bars, averages, hiddenAverages, windows, company]);
+
+  const handleRangeChange = (nextRange: PriceRange) => {
+    setRange(nextRange);
+    setBarInterval(PRICE_RANGES[nextRange].interval);
+    setHiddenAverages([]);
+  };
+
+  const handleMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const viewX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.round(((viewX - PADDING.left) / PLOT_WIDTH) * (bars.length - 1));
+    setHoverIndex(index >= 0 && index < bars.length ? index : null);
+  };
+
+  const latest = bars[bars.length - 1];
+  const change = bars.length > 1 ? ((latest.close - bars[0].close) / bars[0].close) * 100 : null;
+  const hovered = hoverIndex !== null ? bars[hoverIndex] : null;
+  const splitsInRange = (prices?.splits ?? []).filter((split) => bars.length > 0 && split.date >= bars[0].date);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-gray-200 dark:border-gray-700 pb-3 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          株価チャート
+          {company && <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{company.companyName}</span>}
+        </h2>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden">
+            {(Object.keys(PRICE_RANGES) as PriceRange[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => handleRangeChange(option)}
+                className={`px-2.5 py-1 text-xs transition-colors ${
+                  range === option
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {PRICE_RANGES[option].label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={barInterval}
+            onChange={(e) => {
+              setBarInterval(e.target.value as PriceInterval);
+              setHiddenAverages([]);
+            }}
+            className="px-2 py-1 text-xs border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            {(Object.keys(PRICE_INTERVAL_LABELS) as PriceInterval[]).map((option) => (
+              <option key={option} value={option}>{PRICE_INTERVAL_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!company ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          企業データを取得すると、株価の推移を表示します
+        </p>
+      ) : error ? (
+        <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+      ) : loading && !chart ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">株価データを取得中...</p>
+      ) : chart && latest ? (
+        <>
+          <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 mb-2 text-sm">
+            {hovered ? (
+              <span className="text-gray-700 dark:text-gray-300">
+                {formatDate(hovered.date)}　始値 {hovered.open.toLocaleString()}　高値 {hovered.high.toLocaleString()}　安値 {hovered.low.toLocaleString()}　終値 <span className="font-semibold">{hovered.close.toLocaleString()}</span>　出来高 {hovered.volume.toLocaleString()}
+              </span>
+            ) : (
+              <>
+                <span className="text-2xl font-bold text-gray-900 dark:text-white">{latest.close.toLocaleString()}円</span>
+                {change !== null && (
+                  <span className={change >= 0 ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}>
+                    {change >= 0 ? '+' : ''}{change.toFixed(1)}%（{PRICE_RANGES[range].label}）
+                  </span>
+                )}
+                <span className="text-xs text-gray-500 dark:text-gray-400">{formatDate(latest.date)}時点</span>
+              </>
+            )}
+          </div>
+
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className={`w-full h-auto ${loading ? 'opacity-50' : ''}`}
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHoverIndex(null)}
+          >
+            {chart.yTicks.map((tick) => (
+              <g key={tick}>
+                <line
+                  x1={PADDING.left}
+                  x2={PADDING.left + PLOT_WIDTH}
+                  y1={chart.y(tick)}
+                  y2={chart.y(tick)}
+                  className="stroke-gray-200 dark:stroke-gray-700"
+                  strokeWidth={1}
+                />
+                <text
+                  x={PADDING.left + PLOT_WIDTH + 6}
+                  y={chart.y(tick) + 4}
+                  className="fill-gray-500 dark:fill-gray-400"
+                  fontSize={11}
+                >
+                  {Math.round(tick).toLocaleString()}
+                </text>
+              </g>
+            ))}
+
+            {chart.yearEnds.map((yearEnd) => (
+              <g key={yearEnd.date}>
+                <line
+                  x1={yearEnd.x}
+                  x2={yearEnd.x}
+                  y1={PADDING.top}
+                  y2={chart.volumeTop + VOLUME_HEIGHT}
+                  className="stroke-blue-400"
+                  strokeWidth={1}
+                  strokeDasharray="4 3"
+                />
+                <text x={yearEnd.x + 3} y={PADDING.top + 10} className="fill-blue-500" fontSize={10}>
+                  {yearEnd.date.slice(0, 7).replace('-', '/')}期末
+                </text>
+              </g>
+            ))}
+
+            {chart.volumes.map((volume, index) => (
+              <rect
+                key={index}
+                x={volume.x - chart.barWidth / 2}
+                y={chart.volumeTop + VOLUME_HEIGHT - volume.height}
+                width={chart.barWidth}
+                height={volume.height}
+                className={volume.up ? 'fill-green-300 dark:fill-green-800' : 'fill-red-300 dark:fill-red-800'}
+              />
+            ))}
+
+            <path d={chart.closePath} fill="none" className="stroke-blue-600 dark:stroke-blue-400" strokeWidth={1.5} />
+            {chart.averagePaths.map((average) => (
+              <path key={average.window} d={average.d} fill="none" stroke={average.color} strokeWidth={1.2} />
+            ))}
+
+            {hovered && hoverIndex !== null && (
+              <g>
+                <line
+                  x1={chart.x(hoverIndex)}
+                  x2={chart.x(hoverIndex)}
+                  y1={PADDING.top}
+                  y2={chart.volumeTop + VOLUME_HEIGHT}
+                  className="stroke-gray-400"
+                  strokeWidth={1}
+                />
+                <circle cx={chart.x(hoverIndex)} cy={chart.y(hovered.close)} r={3} className="fill-blue-600" />
+              </g>
+            )}
+
+            {[0, Math.floor((bars.length - 1) / 2), bars.length - 1].map((index, i) => (
+              <text
+                key={index}
+                x={chart.x(index)}
+                y={HEIGHT - 4}
+                textAnchor={i === 0 ? 'start' : i === 2 ? 'end' : 'middle'}
+                className="fill-gray-500 dark:fill-gray-400"
+                fontSize={11}
+              >
+                {formatDate(bars[index].date)}
+              </text>
+            ))}
+          </svg>
+
+          <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-gray-600 dark:text-gray-400">
+            {windows.map((window, index) => (
+              <label key={window} className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!hiddenAverages.includes(window)}
+                  onChange={(e) =>
+                    setHiddenAverages((prev) =>
+                      e.target.checked ? prev.filter((w) => w !== window) : [...prev, window]
+                    )
+                  }
+                />
+                <span className="inline-block w-4 h-0.5" style={{ backgroundColor: MA_COLORS[index] }} />
+                {window}{AVERAGE_UNITS[shownInterval]}移動平均
+              </label>
+            ))}
+            <span>
+              <span className="inline-block w-4 align-middle border-t border-dashed border-blue-400 mr-1" />決算期末
+            </span>
+          </div>
+
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            ※ 株式分割を調整済みの株価（データソース: {prices?.dataSource}）
+            {splitsInRange.length > 0 && (
+              <>。期間内の分割: {splitsInRange.map((split) => `${formatDate(split.date)}（1:${split.ratio}）`).join('、')}</>
+            )}
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-400">この期間の株価データがありません</p>
+      )}
+    </div>
+  );
+}
@@ -2,23 +2,37 @@
 
 import { useState, useEffect } from "react";
 import InputField from "./input-field";
+import SectorJudgment from "./sector-judgment";
+import DuPontBreakdown from "./dupont-breakdown";
 import { useFinancialData } from "../contexts/financial-data-context";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
 import {
   calculateROE,
   calculateROA,
   calculateOperatingMargin,
+  calculateDuPont,
+  DuPontAnalysis,
   getROEJudgment,
   getROAJudgment,
   getOperatingMarginJudgment,
+  getDuPontJudgment,
   ProfitabilityJudgment
 } from "../utils/financial";
 
+// Numeric value of a signed input, or null while it is empty or incomplete
+const toSigned = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const num = Number(value);
+  return Number.isNaN(num) ? null : num;
+};
+
 /**
  * Profitability Metrics Calculator Component
- * Analyzes ROE, ROA, and Operating Margin
+ * Analyzes ROE, ROA, and Operating Margin, with a DuPont breakdown of ROE
  */
 export default function ProfitabilityCalculator() {
-  const { data: financialData } = useFinancialData();
+  const { data: financialData, provenanceFor, reportMetrics } = useFinancialData();
+  const { thresholds } = useThresholdProfile();
 
   // ROE state
   const [netIncome, setNetIncome] = useState('');
@@ -34,6 +48,11 @@ export default function ProfitabilityCalculator() {
   const [revenue, setRevenue] = useState('');
   const [operatingMargin, setOperatingMargin] = useState<number | null>(null);
 
+  // DuPont state (pretax income and EBIT enable the five-step variant)
+  const [pretaxIncome, setPretaxIncome] = useState('');
+  const [ebit, setEbit] = useState('');
+  const [dupont, setDupont] = useState<DuPontAnalysis | null>(null);
+
   // Auto-fill from fetched data
   useEffect(() => {
     if (financialData) {
@@ -42,15 +61,17 @@ export default function ProfitabilityCalculator() {
       if (financialData.totalAssets) setTotalAssets(financialData.totalAssets);
       if (financialData.operatingIncome) setOperatingIncome(financialData.operatingIncome);
       if (financialData.revenue) setRevenue(financialData.revenue);
+      if (financialData.pretaxIncome) setPretaxIncome(financialData.pretaxIncome);
+      if (financialData.ebit) setEbit(financialData.ebit);
     }
   }, [financialData]);
 
-  // Auto-calculate ROE
+  // Auto-calculate ROE (a loss gives a negative ROE, judged in the lowest band)
   useEffect(() => {
-    const incomeNum = Number(netIncome);
+    const incomeNum = toSigned(netIncome);
     const equityNum = Number(equity);
 
-    if (incomeNum > 0 && equityNum > 0) {
+    if (incomeNum !== null && equityNum > 0) {
       const result = calculateROE(incomeNum, equityNum);
       setRoe(result);
     } else {
@@ -60,10 +81,10 @@ export default function ProfitabilityCalculator() {
 
   // Auto-calculate ROA
   useEffect(() => {
-    const incomeNum = Number(netIncome);
+    const incomeNum = toSigned(netIncome);
     const assetsNum = Number(totalAssets);
 
-    if (incomeNum > 0 && assetsNum > 0) {
+    if (incomeNum !== null && assetsNum > 0) {
       const result = calculateROA(incomeNum, assetsNum);
       setRoa(result);
     } else {
@@ -73,10 +94,10 @@ export default function ProfitabilityCalculator() {
 
   // Auto-calculate Operating Margin
   useEffect(() => {
-    const opIncomeNum = Number(operatingIncome);
+    const opIncomeNum = toSigned(operatingIncome);
     const revenueNum = Number(revenue);
 
-    if (opIncomeNum > 0 && revenueNum > 0) {
+    if (opIncomeNum !== null && revenueNum > 0) {
       const result = calculateOperatingMargin(opIncomeNum, revenueNum);
       setOperatingMargin(result);
     } else {
@@ -84,6 +105,26 @@ export default function ProfitabilityCalculator() {
     }
   }, [operatingIncome, revenue]);
 
+  // Auto-calculate DuPont breakdown (losses included, so low ROE can be traced)
+  useEffect(() => {
+    const incomeNum = toSigned(netIncome);
+    const revenueNum = Number(revenue);
+    const assetsNum = Number(totalAssets);
+    const equityNum = Number(equity);
+
+    if (incomeNum !== null && revenueNum > 0 && assetsNum > 0 && equityNum > 0) {
+      const result = calculateDuPont(incomeNum, revenueNum, assetsNum, equityNum, Number(pretaxIncome), Number(ebit));
+      setDupont(result);
+    } else {
+      setDupont(null);
+    }
+  }, [netIncome, revenue, totalAssets, equity, pretaxIncome, ebit]);
+
+  // Share results with the investment score
+  useEffect(() => {
+    reportMetrics({ roe, roa, operatingMargin });
+  }, [roe, roa, operatingMargin, reportMetrics]);
+
   const renderJudgment = (judgment: ProfitabilityJudgment) => (
     <div className={`border-l-4 ${judgment.borderColor} pl-4 py-2`}>
       <p className={`font-semibold ${judgment.textColor} ${judgment.darkTextColor}`}>
@@ -111,15 +152,20 @@ export default function ProfitabilityCalculator() {
 
           <div className="space-y-3">
             <InputField
+              name="profitability.netIncome"
               label="純利益（百万円）"
+              allowNegative
               value={netIncome}
               onChange={setNetIncome}
+              provenance={provenanceFor('netIncome', netIncome)}
             />
 
             <InputField
+              name="profitability.equity"
               label="自己資本（百万円）"
               value={equity}
               onChange={setEquity}
+              provenance={provenanceFor('equity', equity)}
             />
           </div>
 
@@ -128,7 +174,8 @@ export default function ProfitabilityCalculator() {
               <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
                 {roe.toFixed(1)}%
               </div>
-              {renderJudgment(getROEJudgment(roe))}
+              {renderJudgment(getROEJudgment(roe, thresholds.roe))}
+              <SectorJudgment metric="roe" value={roe} />
             </div>
           )}
         </div>
@@ -141,15 +188,20 @@ export default function ProfitabilityCalculator() {
 
           <div className="space-y-3">
             <InputField
+              name="profitability.netIncome"
               label="純利益（百万円）"
+              allowNegative
               value={netIncome}
               onChange={setNetIncome}
+              provenance={provenanceFor('netIncome', netIncome)}
             />
 
             <InputField
+              name="profitability.totalAssets"
               label="総資産（百万円）"
               value={totalAssets}
               onChange={setTotalAssets}
+              provenance={provenanceFor('totalAssets', totalAssets)}
             />
           </div>
 
@@ -158,7 +210,8 @@ export default function ProfitabilityCalculator() {
               <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
                 {roa.toFixed(1)}%
               </div>
-              {renderJudgment(getROAJudgment(roa))}
+              {renderJudgment(getROAJudgment(roa, thresholds.roa))}
+              <SectorJudgment metric="roa" value={roa} />
             </div>
           )}
         </div>
@@ -171,15 +224,20 @@ export default function ProfitabilityCalculator() {
 
           <div className="space-y-3">
             <InputField
+              name="profitability.operatingIncome"
               label="営業利益（百万円）"
+              allowNegative
               value={operatingIncome}
               onChange={setOperatingIncome}
+              provenance={provenanceFor('operatingIncome', operatingIncome)}
             />
 
             <InputField
+              name="profitability.revenue"
               label="売上高（百万円）"
               value={revenue}
               onChange={setRevenue}
+              provenance={provenanceFor('revenue', revenue)}
             />
           </div>
 
@@ -188,11 +246,47 @@ export default function ProfitabilityCalculator() {
               <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
                 {operatingMargin.toFixed(1)}%
               </div>
-              {renderJudgment(getOperatingMarginJudgment(operatingMargin))}
+              {renderJudgment(getOperatingMarginJudgment(operatingMargin, thresholds.operatingMargin))}
+              <SectorJudgment metric="operatingMargin" value={operatingMargin} />
             </div>
           )}
         </div>
       </div>
+
+      {/* DuPont Analysis */}
+      <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+          デュポン分析（ROEの分解）
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+          <InputField
+            name="profitability.pretaxIncome"
+            label="税引前利益（百万円）"
+            allowNegative
+            value={pretaxIncome}
+            onChange={setPretaxIncome}
+            provenance={provenanceFor('pretaxIncome', pretaxIncome)}
+          />
+
+          <InputField
+            name="profitability.ebit"
+            label="EBIT（百万円）"
+            allowNegative
+            value={ebit}
+            onChange={setEbit}
+            provenance={provenanceFor('ebit', ebit)}
+          />
+        </div>
+
+        {dupont !== null ? (
+          <DuPontBreakdown dupont={dupont} judgment={getDuPontJudgment(dupont, thresholds.roe)} />
+        ) : (
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            純利益・自己資本・総資産・売上高を入力すると、ROEを純利益率 × 総資産回転率 × 財務レバレッジに分解します
+          </p>
+        )}
+      </div>
     </div>
   );
 }
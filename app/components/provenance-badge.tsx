@@ -0,0 +1,39 @@
+/**
+ * Badge showing how an auto-filled value was obtained
+ * Hover (title) shows the source module and, for derived values, the formula
+ */
+
+import { FieldProvenance } from './company-search';
+
+const BADGE_STYLES: Record<FieldProvenance['kind'], { label: string; className: string }> = {
+  reported: {
+    label: '実績',
+    className: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-400',
+  },
+  derived: {
+    label: '算出',
+    className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-400',
+  },
+  proxy: {
+    label: '代替値',
+    className: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-400',
+  },
+};
+
+export default function ProvenanceBadge({ provenance }: { provenance: FieldProvenance }) {
+  const style = BADGE_STYLES[provenance.kind];
+  const tooltip = [
+    `出典: ${provenance.source}`,
+    provenance.formula ? `算出方法: ${provenance.formula}` : null,
+    provenance.kind === 'reported' ? null : '※ 必要に応じて手動で確認してください',
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span
+      title={tooltip}
+      className={`ml-1.5 inline-block px-1.5 py-px rounded text-[10px] font-medium cursor-help ${style.className}`}
+    >
+      {style.label}
+    </span>
+  );
+}
@@ -1,22 +1,56 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import InputField from "./input-field";
+import SectorJudgment from "./sector-judgment";
 import { useFinancialData } from "../contexts/financial-data-context";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
 import {
+  ALTMAN_Z_COEFFICIENTS,
+  AltmanZTerm,
+  calculateAltmanZ,
   calculateCurrentRatio,
+  calculateDERatio,
   calculateEquityRatio,
+  calculateInterestCoverage,
+  calculateNetDERatio,
+  calculateQuickRatio,
+  getAltmanZJudgment,
   getCurrentRatioJudgment,
+  getDERatioJudgment,
   getEquityRatioJudgment,
+  getInterestCoverageJudgment,
+  getNetDERatioJudgment,
+  getQuickRatioJudgment,
   SafetyJudgment
 } from "../utils/financial";
 
+const ALTMAN_Z_TERM_LABELS: Record<AltmanZTerm, string> = {
+  workingCapital: '運転資本/総資産',
+  retainedEarnings: '利益剰余金/総資産',
+  ebit: 'EBIT/総資産',
+  marketValue: '時価総額/負債合計',
+  sales: '売上高/総資産',
+};
+
+// Upper end of the Z-score zone bar
+const ALTMAN_Z_SCALE = 5;
+
+// Numeric value of a signed input, or null while it is empty or incomplete
+const toSigned = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const num = Number(value);
+  return Number.isNaN(num) ? null : num;
+};
+
 /**
  * Safety Metrics Calculator Component
- * Analyzes current ratio and equity ratio
+ * Analyzes liquidity (current and quick ratio), leverage (equity ratio, D/E and net D/E),
+ * interest coverage and the Altman Z-score
  */
 export default function SafetyCalculator() {
-  const { data: financialData } = useFinancialData();
+  const { data: financialData, provenanceFor, reportMetrics } = useFinancialData();
+  const { thresholds } = useThresholdProfile();
 
   // Current Ratio state
   const [currentAssets, setCurrentAssets] = useState('');
@@ -28,6 +62,27 @@ export default function SafetyCalculator() {
   const [totalAssets, setTotalAssets] = useState('');
   const [equityRatio, setEquityRatio] = useState<number | null>(null);
 
+  // Quick Ratio state (shares current liabilities)
+  const [quickAssets, setQuickAssets] = useState('');
+  const [quickRatio, setQuickRatio] = useState<number | null>(null);
+
+  // D/E and Net D/E state (share equity)
+  const [totalDebt, setTotalDebt] = useState('');
+  const [totalCash, setTotalCash] = useState('');
+  const [debtToEquity, setDebtToEquity] = useState<number | null>(null);
+  const [netDebtToEquity, setNetDebtToEquity] = useState<number | null>(null);
+
+  // Interest Coverage state
+  const [ebit, setEbit] = useState('');
+  const [interestExpense, setInterestExpense] = useState('');
+  const [interestCoverage, setInterestCoverage] = useState<number | null>(null);
+
+  // Altman Z-score state (also uses current assets/liabilities, total assets and EBIT)
+  const [retainedEarnings, setRetainedEarnings] = useState('');
+  const [totalLiabilities, setTotalLiabilities] = useState('');
+  const [marketCap, setMarketCap] = useState('');
+  const [revenue, setRevenue] = useState('');
+
   // Auto-fill from fetched data
   useEffect(() => {
     if (financialData) {
@@ -35,6 +90,15 @@ export default function SafetyCalculator() {
       if (financialData.currentLiabilities) setCurrentLiabilities(financialData.currentLiabilities);
       if (financialData.equity) setEquity(financialData.equity);
       if (financialData.totalAssets) setTotalAssets(financialData.totalAssets);
+      if (financialData.quickAssets) setQuickAssets(financialData.quickAssets);
+      if (financialData.totalDebt) setTotalDebt(financialData.totalDebt);
+      if (financialData.totalCash) setTotalCash(financialData.totalCash);
+      if (financialData.ebit) setEbit(financialData.ebit);
+      if (financialData.interestExpense) setInterestExpense(financialData.interestExpense);
+      if (financialData.retainedEarnings) setRetainedEarnings(financialData.retainedEarnings);
+      if (financialData.totalLiabilities) setTotalLiabilities(financialData.totalLiabilities);
+      if (financialData.marketCap) setMarketCap(financialData.marketCap);
+      if (financialData.revenue) setRevenue(financialData.revenue);
     }
   }, [financialData]);
 
@@ -64,6 +128,80 @@ export default function SafetyCalculator() {
     }
   }, [equity, totalAssets]);
 
+  // Auto-calculate Quick Ratio
+  useEffect(() => {
+    const assetsNum = Number(quickAssets);
+    const liabilitiesNum = Number(currentLiabilities);
+
+    if (assetsNum > 0 && liabilitiesNum > 0) {
+      const result = calculateQuickRatio(assetsNum, liabilitiesNum);
+      setQuickRatio(result);
+    } else {
+      setQuickRatio(null);
+    }
+  }, [quickAssets, currentLiabilities]);
+
+  // Auto-calculate D/E and Net D/E
+  useEffect(() => {
+    const debtNum = Number(totalDebt);
+    const cashNum = Number(totalCash);
+    const equityNum = Number(equity);
+
+    if (totalDebt !== '' && debtNum >= 0 && equityNum > 0) {
+      setDebtToEquity(calculateDERatio(debtNum, equityNum));
+      setNetDebtToEquity(
+        totalCash !== '' && cashNum >= 0 ? calculateNetDERatio(debtNum, cashNum, equityNum) : null
+      );
+    } else {
+      setDebtToEquity(null);
+      setNetDebtToEquity(null);
+    }
+  }, [totalDebt, totalCash, equity]);
+
+  // Auto-calculate Interest Coverage
+  useEffect(() => {
+    const ebitNum = toSigned(ebit);
+    const interestNum = Number(interestExpense);
+
+    if (ebitNum !== null && interestNum > 0) {
+      const result = calculateInterestCoverage(ebitNum, interestNum);
+      setInterestCoverage(result);
+    } else {
+      setInterestCoverage(null);
+    }
+  }, [ebit, interestExpense]);
+
+  // Altman Z-score, null until every input is present
+  const altmanZ = useMemo(() => {
+    const values = [currentAssets, currentLiabilities, retainedEarnings, ebit].map(toSigned);
+    const liabilitiesNum = Number(totalLiabilities);
+    const assetsNum = Number(totalAssets);
+    const marketCapNum = Number(marketCap);
+    const revenueNum = Number(revenue);
+
+    const positive = [liabilitiesNum, assetsNum, marketCapNum, revenueNum].every((value) => value > 0);
+    if (values.some((value) => value === null) || !positive) {
+      return null;
+    }
+    const [assets, liabilities, earnings, ebitNum] = values as number[];
+    return calculateAltmanZ({
+      workingCapital: assets - liabilities,
+      retainedEarnings: earnings,
+      ebit: ebitNum,
+      marketCap: marketCapNum,
+      totalLiabilities: liabilitiesNum,
+      revenue: revenueNum,
+      totalAssets: assetsNum,
+    });
+  }, [currentAssets, currentLiabilities, retainedEarnings, ebit, totalLiabilities, totalAssets, marketCap, revenue]);
+
+  const altmanZScore = altmanZ?.score ?? null;
+
+  // Share results with the investment score
+  useEffect(() => {
+    reportMetrics({ currentRatio, equityRatio, quickRatio, debtToEquity, netDebtToEquity, interestCoverage, altmanZ: altmanZScore });
+  }, [currentRatio, equityRatio, quickRatio, debtToEquity, netDebtToEquity, interestCoverage, altmanZScore, reportMetrics]);
+
   const renderJudgment = (judgment: SafetyJudgment) => (
     <div className={`border-l-4 ${judgment.borderColor} pl-4 py-2`}>
       <p className={`font-semibold ${judgment.textColor} ${judgment.darkTextColor}`}>
@@ -75,6 +213,8 @@ export default function SafetyCalculator() {
     </div>
   );
 
+  const altmanJudgment = altmanZ ? getAltmanZJudgment(altmanZ.score, thresholds.altmanZ) : null;
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
       <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-3">
@@ -82,7 +222,7 @@ export default function SafetyCalculator() {
         安全性分析
       </h2>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
         {/* Current Ratio Calculator */}
         <div>
           <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
@@ -91,15 +231,19 @@ export default function SafetyCalculator() {
 
           <div className="space-y-3">
             <InputField
+              name="safety.currentAssets"
               label="流動資産（百万円）"
               value={currentAssets}
               onChange={setCurrentAssets}
+              provenance={provenanceFor('currentAssets', currentAssets)}
             />
 
             <InputField
+              name="safety.currentLiabilities"
               label="流動負債（百万円）"
               value={currentLiabilities}
               onChange={setCurrentLiabilities}
+              provenance={provenanceFor('currentLiabilities', currentLiabilities)}
             />
           </div>
 
@@ -108,7 +252,36 @@ export default function SafetyCalculator() {
               <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
                 {currentRatio.toFixed(1)}%
               </div>
-              {renderJudgment(getCurrentRatioJudgment(currentRatio))}
+              {renderJudgment(getCurrentRatioJudgment(currentRatio, thresholds.currentRatio))}
+              <SectorJudgment metric="currentRatio" value={currentRatio} />
+            </div>
+          )}
+        </div>
+
+        {/* Quick Ratio Calculator */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+            当座比率
+          </h3>
+
+          <InputField
+            name="safety.quickAssets"
+            label="当座資産（百万円）"
+            value={quickAssets}
+            onChange={setQuickAssets}
+            provenance={provenanceFor('quickAssets', quickAssets)}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            現金・売上債権・有価証券の合計。流動負債は左の値を使用
+          </p>
+
+          {quickRatio !== null && (
+            <div className="mt-4">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                {quickRatio.toFixed(1)}%
+              </div>
+              {renderJudgment(getQuickRatioJudgment(quickRatio, thresholds.quickRatio))}
+              <SectorJudgment metric="quickRatio" value={quickRatio} />
             </div>
           )}
         </div>
@@ -121,15 +294,19 @@ export default function SafetyCalculator() {
 
           <div className="space-y-3">
             <InputField
+              name="safety.equity"
               label="自己資本（百万円）"
               value={equity}
               onChange={setEquity}
+              provenance={provenanceFor('equity', equity)}
             />
 
             <InputField
+              name="safety.totalAssets"
               label="総資産（百万円）"
               value={totalAssets}
               onChange={setTotalAssets}
+              provenance={provenanceFor('totalAssets', totalAssets)}
             />
           </div>
 
@@ -138,10 +315,197 @@ export default function SafetyCalculator() {
               <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
                 {equityRatio.toFixed(1)}%
               </div>
-              {renderJudgment(getEquityRatioJudgment(equityRatio))}
+              {renderJudgment(getEquityRatioJudgment(equityRatio, thresholds.equityRatio))}
+              <SectorJudgment metric="equityRatio" value={equityRatio} />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-5 mt-6">
+        {/* D/E Ratio Calculator */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+            D/Eレシオ
+          </h3>
+
+          <InputField
+            name="safety.totalDebt"
+            label="有利子負債（百万円）"
+            value={totalDebt}
+            onChange={setTotalDebt}
+            provenance={provenanceFor('totalDebt', totalDebt)}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            自己資本は自己資本比率の値を使用
+          </p>
+
+          {debtToEquity !== null && (
+            <div className="mt-4">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                {debtToEquity.toFixed(2)}倍
+              </div>
+              {renderJudgment(getDERatioJudgment(debtToEquity, thresholds.debtToEquity))}
+              <SectorJudgment metric="debtToEquity" value={debtToEquity} />
+            </div>
+          )}
+        </div>
+
+        {/* Net D/E Ratio Calculator */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+            ネットD/Eレシオ
+          </h3>
+
+          <InputField
+            name="safety.totalCash"
+            label="現金及び現金同等物（百万円）"
+            value={totalCash}
+            onChange={setTotalCash}
+            provenance={provenanceFor('totalCash', totalCash)}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            （有利子負債 − 現金）÷ 自己資本。マイナスは実質無借金
+          </p>
+
+          {netDebtToEquity !== null && (
+            <div className="mt-4">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                {netDebtToEquity.toFixed(2)}倍
+              </div>
+              {renderJudgment(getNetDERatioJudgment(netDebtToEquity, thresholds.netDebtToEquity))}
+              <SectorJudgment metric="netDebtToEquity" value={netDebtToEquity} />
             </div>
           )}
         </div>
+
+        {/* Interest Coverage Calculator */}
+        <div>
+          <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+            インタレスト・カバレッジ・レシオ
+          </h3>
+
+          <div className="space-y-3">
+            <InputField
+              name="safety.ebit"
+              label="EBIT（百万円）"
+              value={ebit}
+              onChange={setEbit}
+              provenance={provenanceFor('ebit', ebit)}
+              allowNegative
+            />
+
+            <InputField
+              name="safety.interestExpense"
+              label="支払利息（百万円）"
+              value={interestExpense}
+              onChange={setInterestExpense}
+              provenance={provenanceFor('interestExpense', interestExpense)}
+            />
+          </div>
+
+          {interestCoverage !== null && (
+            <div className="mt-4">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                {interestCoverage.toFixed(1)}倍
+              </div>
+              {renderJudgment(getInterestCoverageJudgment(interestCoverage, thresholds.interestCoverage))}
+              <SectorJudgment metric="interestCoverage" value={interestCoverage} />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Altman Z-score */}
+      <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+          Altman Zスコア
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <InputField
+            name="safety.retainedEarnings"
+            label="利益剰余金（百万円）"
+            value={retainedEarnings}
+            onChange={setRetainedEarnings}
+            provenance={provenanceFor('retainedEarnings', retainedEarnings)}
+            allowNegative
+          />
+          <InputField
+            name="safety.totalLiabilities"
+            label="負債合計（百万円）"
+            value={totalLiabilities}
+            onChange={setTotalLiabilities}
+            provenance={provenanceFor('totalLiabilities', totalLiabilities)}
+          />
+          <InputField
+            name="safety.marketCap"
+            label="時価総額（百万円）"
+            value={marketCap}
+            onChange={setMarketCap}
+            provenance={provenanceFor('marketCap', marketCap)}
+          />
+          <InputField
+            name="safety.revenue"
+            label="売上高（百万円）"
+            value={revenue}
+            onChange={setRevenue}
+            provenance={provenanceFor('revenue', revenue)}
+          />
+        </div>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          運転資本（流動資産 − 流動負債）、総資産、EBITは上の値を使用
+        </p>
+
+        {altmanZ && altmanJudgment ? (
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                {altmanZ.score.toFixed(2)}
+              </div>
+              {/* Zone bar: distress below the last cut-off, safe above the first */}
+              <div className="relative flex w-full h-2 rounded-sm mb-1 overflow-visible">
+                <div className="h-2 rounded-l-sm bg-red-400" style={{ width: `${(thresholds.altmanZ[2] / ALTMAN_Z_SCALE) * 100}%` }}></div>
+                <div
+                  className="h-2 bg-yellow-300"
+                  style={{ width: `${((thresholds.altmanZ[0] - thresholds.altmanZ[2]) / ALTMAN_Z_SCALE) * 100}%` }}
+                ></div>
+                <div className="h-2 flex-1 rounded-r-sm bg-green-400"></div>
+                <div
+                  className="absolute -top-1 h-4 w-1 rounded-sm bg-gray-900 dark:bg-white"
+                  style={{ left: `${(Math.max(0, Math.min(ALTMAN_Z_SCALE, altmanZ.score)) / ALTMAN_Z_SCALE) * 100}%` }}
+                ></div>
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-3">
+                <span>危険圏 &lt; {thresholds.altmanZ[2]}</span>
+                <span>グレーゾーン</span>
+                <span>{thresholds.altmanZ[0]} ≦ 安全圏</span>
+              </div>
+              {renderJudgment(altmanJudgment)}
+              <SectorJudgment metric="altmanZ" value={altmanZ.score} />
+            </div>
+
+            <div className="text-sm text-gray-700 dark:text-gray-300 space-y-0.5">
+              {(Object.keys(ALTMAN_Z_TERM_LABELS) as AltmanZTerm[]).map((term) => (
+                <div key={term} className="flex justify-between">
+                  <span>
+                    {ALTMAN_Z_COEFFICIENTS[term]} × {ALTMAN_Z_TERM_LABELS[term]}
+                  </span>
+                  <span className={altmanZ.terms[term] < 0 ? 'text-red-600 dark:text-red-400' : ''}>
+                    {altmanZ.terms[term].toFixed(2)}
+                  </span>
+                </div>
+              ))}
+              <p className="pt-1 text-xs text-gray-500 dark:text-gray-400">
+                製造業の上場企業向けの原型モデル。金融業などには当てはまりにくい
+              </p>
+            </div>
+          </div>
+        ) : (
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            流動資産・流動負債・総資産・EBITと上の4項目を入力すると、Zスコアと財務危険度のゾーンを表示します
+          </p>
+        )}
       </div>
     </div>
   );
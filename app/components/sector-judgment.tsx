@@ -0,0 +1,31 @@
+"use client";
+
+/**
+ * Sector-relative verdict shown under a calculator's market-wide judgment
+ * Names the benchmark that was used and its band boundaries
+ */
+
+import { useFinancialData } from '../contexts/financial-data-context';
+import { useThresholdProfile } from '../contexts/threshold-profile-context';
+import { getMetric, judgeWithBenchmark, MetricId } from '../lib/metrics';
+
+export default function SectorJudgment({ metric, value }: { metric: MetricId; value: number }) {
+  const { sector } = useFinancialData();
+  const { thresholds } = useThresholdProfile();
+  const definition = getMetric(metric);
+  const { relative, benchmark } = judgeWithBenchmark(definition, value, sector, thresholds[metric]);
+  const boundaries = benchmark.thresholds.map((threshold) => `${threshold}${definition.unit}`).join(' / ');
+
+  return (
+    <div className="mt-2 text-xs">
+      {benchmark.kind === 'sector' && (
+        <p className={`border-l-4 ${relative.borderColor} pl-4 font-semibold ${relative.textColor} ${relative.darkTextColor}`}>
+          業種内評価: {relative.title}
+        </p>
+      )}
+      <p className="text-gray-500 dark:text-gray-400 mt-1">
+        基準: {benchmark.label}（{boundaries}）
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,452 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { DATA_SOURCE_OPTIONS } from "./company-search";
+import { formatMetricValue, getMetric, listJudgmentOptions, MetricId, METRICS } from "../lib/metrics";
+import {
+  computeMetrics,
+  CONDITION_OPERATORS,
+  ConditionOperator,
+  loadSavedUniverses,
+  parseCodeList,
+  SavedUniverse,
+  ScreenedCompany,
+  ScreenerCondition,
+  screenCompanies,
+  storeSavedUniverses,
+} from "../lib/screener";
+import { BATCH_SIZE, fetchCompanyBatch, isCompanyResult } from "../lib/company-client";
+import { REPORTING_PERIOD_LABELS, ReportingPeriod } from "../lib/reporting-period";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
+import type { FinancialData } from "./company-search";
+
+const inputClassName =
+  "px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white text-sm";
+
+/**
+ * Stock Screener Component
+ * Fetches a universe of codes in batches and filters them by calculator metrics
+ */
+export default function StockScreener() {
+  const { thresholds } = useThresholdProfile();
+
+  // Universe state
+  const [codesText, setCodesText] = useState('');
+  const [source, setSource] = useState('');
+  const [period, setPeriod] = useState<ReportingPeriod>('annual');
+  const [savedUniverses, setSavedUniverses] = useState<SavedUniverse[]>([]);
+  const [universeName, setUniverseName] = useState('');
+
+  // Fetch state
+  const [fetched, setFetched] = useState<{ code: string; companyName: string; financialData: FinancialData }[]>([]);
+  const [failures, setFailures] = useState<{ code: string; error: string }[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+
+  // Filter state
+  const [conditions, setConditions] = useState<ScreenerCondition[]>([
+    { id: 1, metric: 'per', operator: 'lt', value: '15' },
+    { id: 2, metric: 'equityRatio', operator: 'gte', value: '40' },
+  ]);
+  const [sortMetric, setSortMetric] = useState<MetricId>('per');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+
+  const codes = useMemo(() => parseCodeList(codesText), [codesText]);
+  const loading = progress !== null;
+
+  useEffect(() => {
+    setSavedUniverses(loadSavedUniverses());
+  }, []);
+
+  // Judged with the active profile, so switching profiles re-judges without refetching
+  const companies = useMemo<ScreenedCompany[]>(
+    () => fetched.map(({ code, companyName, financialData }) => ({
+      code,
+      companyName,
+      metrics: computeMetrics(financialData, thresholds),
+    })),
+    [fetched, thresholds]
+  );
+
+  const results = useMemo(
+    () => screenCompanies(companies, conditions, { metric: sortMetric, direction: sortDirection }),
+    [companies, conditions, sortMetric, sortDirection]
+  );
+
+  // Metrics shown as columns: the sort metric plus every metric used in a condition
+  const columns = useMemo(
+    () => METRICS.filter((metric) => metric.id === sortMetric || conditions.some((c) => c.metric === metric.id)),
+    [conditions, sortMetric]
+  );
+
+  const handleScreen = async () => {
+    setError('');
+    setFetched([]);
+    setFailures([]);
+    setProgress({ done: 0, total: codes.length });
+
+    try {
+      for (let start = 0; start < codes.length; start += BATCH_SIZE) {
+        const batch = await fetchCompanyBatch(codes.slice(start, start + BATCH_SIZE), { source, period });
+        setFetched((prev) => [
+          ...prev,
+          ...batch.filter(isCompanyResult).map((result) => ({
+            code: result.code,
+            companyName: result.data.companyName,
+            financialData: result.data.financialData,
+          })),
+        ]);
+        setFailures((prev) => [
+          ...prev,
+          ...batch.flatMap((result) => ('error' in result.data ? [{ code: result.code, error: result.data.error }] : [])),
+        ]);
+        setProgress({ done: Math.min(start + BATCH_SIZE, codes.length), total: codes.length });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '予期しないエラーが発生しました');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleUploadList = async (file: File) => {
+    const text = await file.text();
+    setCodesText(parseCodeList(text).join('\n'));
+    setUniverseName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleSaveUniverse = () => {
+    const name = universeName.trim();
+    if (!name || codes.length === 0) return;
+    const next = [...savedUniverses.filter((u) => u.name !== name), { name, codes }];
+    setSavedUniverses(next);
+    storeSavedUniverses(next);
+  };
+
+  const handleDeleteUniverse = (name: string) => {
+    const next = savedUniverses.filter((u) => u.name !== name);
+    setSavedUniverses(next);
+    storeSavedUniverses(next);
+  };
+
+  const updateCondition = (id: number, changes: Partial<ScreenerCondition>) => {
+    setConditions((prev) => prev.map((condition) => {
+      if (condition.id !== id) return condition;
+      const next = { ...condition, ...changes };
+      // Judgment conditions need a level of the selected metric
+      if (next.operator === 'judgment' && (changes.metric || changes.operator)) {
+        next.value = listJudgmentOptions(getMetric(next.metric))[0].level;
+      } else if (changes.operator && condition.operator === 'judgment') {
+        next.value = '';
+      }
+      return next;
+    }));
+  };
+
+  const addCondition = () => {
+    setConditions((prev) => [
+      ...prev,
+      { id: Math.max(0, ...prev.map((c) => c.id)) + 1, metric: 'roe', operator: 'gte', value: '' },
+    ]);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Universe */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+        <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-3">
+          対象銘柄
+        </h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              証券コード（改行・空白区切り）
+            </label>
+            <textarea
+              value={codesText}
+              onChange={(e) => setCodesText(e.target.value)}
+              rows={6}
+              placeholder={"7203\n6758\n9984"}
+              className={`w-full ${inputClassName}`}
+              disabled={loading}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{codes.length}銘柄</p>
+
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mt-3 mb-1">
+              銘柄リスト（CSV / テキスト）を読み込む
+            </label>
+            <input
+              type="file"
+              accept=".csv,.txt"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleUploadList(file);
+                e.target.value = '';
+              }}
+              disabled={loading}
+              className="block w-full text-xs text-gray-600 dark:text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-blue-100 file:text-blue-700 hover:file:bg-blue-200 dark:file:bg-blue-900 dark:file:text-blue-300"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              保存済みリスト
+            </label>
+            {savedUniverses.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">保存済みのリストはありません</p>
+            ) : (
+              <ul className="space-y-1">
+                {savedUniverses.map((universe) => (
+                  <li key={universe.name} className="flex items-center gap-2 text-sm">
+                    <button
+                      onClick={() => {
+                        setCodesText(universe.codes.join('\n'));
+                        setUniverseName(universe.name);
+                      }}
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                      disabled={loading}
+                    >
+                      {universe.name}
+                    </button>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{universe.codes.length}銘柄</span>
+                    <button
+                      onClick={() => handleDeleteUniverse(universe.name)}
+                      className="text-xs text-gray-400 hover:text-red-600"
+                    >
+                      削除
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-2 mt-3">
+              <input
+                type="text"
+                value={universeName}
+                onChange={(e) => setUniverseName(e.target.value)}
+                placeholder="リスト名"
+                className={`flex-1 ${inputClassName}`}
+              />
+              <button
+                onClick={handleSaveUniverse}
+                disabled={!universeName.trim() || codes.length === 0}
+                className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-3 items-end mt-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              データソース
+            </label>
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className={inputClassName}
+              disabled={loading}
+            >
+              {DATA_SOURCE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              集計期間
+            </label>
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as ReportingPeriod)}
+              className={inputClassName}
+              disabled={loading}
+            >
+              {(Object.keys(REPORTING_PERIOD_LABELS) as ReportingPeriod[]).map((option) => (
+                <option key={option} value={option}>{REPORTING_PERIOD_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={handleScreen}
+            disabled={loading || codes.length === 0}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors disabled:cursor-not-allowed"
+          >
+            {progress ? `取得中... ${progress.done}/${progress.total}` : 'データ取得'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Conditions */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+        <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-3">
+          抽出条件（すべて満たす銘柄）
+        </h2>
+
+        <div className="space-y-2">
+          {conditions.map((condition) => {
+            const metric = getMetric(condition.metric);
+            return (
+              <div key={condition.id} className="flex flex-wrap gap-2 items-center">
+                <select
+                  value={condition.metric}
+                  onChange={(e) => updateCondition(condition.id, { metric: e.target.value as MetricId })}
+                  className={inputClassName}
+                >
+                  {METRICS.map((m) => (
+                    <option key={m.id} value={m.id}>{m.label}</option>
+                  ))}
+                </select>
+
+                <select
+                  value={condition.operator}
+                  onChange={(e) => updateCondition(condition.id, { operator: e.target.value as ConditionOperator })}
+                  className={inputClassName}
+                >
+                  {CONDITION_OPERATORS.map((op) => (
+                    <option key={op.value} value={op.value}>{op.label}</option>
+                  ))}
+                </select>
+
+                {condition.operator === 'judgment' ? (
+                  <select
+                    value={condition.value}
+                    onChange={(e) => updateCondition(condition.id, { value: e.target.value })}
+                    className={inputClassName}
+                  >
+                    {listJudgmentOptions(metric).map((option) => (
+                      <option key={option.level} value={option.level}>{option.title}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      value={condition.value}
+                      onChange={(e) => updateCondition(condition.id, { value: e.target.value })}
+                      className={`w-28 ${inputClassName}`}
+                    />
+                    <span className="text-sm text-gray-600 dark:text-gray-400">{metric.unit}</span>
+                  </div>
+                )}
+
+                <button
+                  onClick={() => setConditions((prev) => prev.filter((c) => c.id !== condition.id))}
+                  className="text-xs text-gray-400 hover:text-red-600"
+                >
+                  削除
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={addCondition}
+          className="mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          ＋ 条件を追加
+        </button>
+
+        <div className="flex gap-2 items-center mt-4">
+          <span className="text-sm text-gray-700 dark:text-gray-300">並び替え</span>
+          <select
+            value={sortMetric}
+            onChange={(e) => setSortMetric(e.target.value as MetricId)}
+            className={inputClassName}
+          >
+            {METRICS.map((m) => (
+              <option key={m.id} value={m.id}>{m.label}</option>
+            ))}
+          </select>
+          <select
+            value={sortDirection}
+            onChange={(e) => setSortDirection(e.target.value as 'asc' | 'desc')}
+            className={inputClassName}
+          >
+            <option value="asc">昇順</option>
+            <option value="desc">降順</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Results */}
+      {(companies.length > 0 || failures.length > 0) && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+          <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-3">
+            抽出結果
+            <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+              {results.length} / {companies.length}銘柄
+            </span>
+          </h2>
+
+          {results.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">条件に一致する銘柄はありません</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">コード</th>
+                    <th className="py-2 pr-4 font-medium">企業名</th>
+                    {columns.map((metric) => (
+                      <th key={metric.id} className="py-2 pr-4 font-medium text-right">{metric.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((company) => (
+                    <tr key={company.code} className="border-b border-gray-100 dark:border-gray-700/50">
+                      <td className="py-2 pr-4 text-gray-900 dark:text-white">{company.code}</td>
+                      <td className="py-2 pr-4 text-gray-900 dark:text-white">{company.companyName}</td>
+                      {columns.map((metric) => {
+                        const result = company.metrics[metric.id];
+                        return (
+                          <td key={metric.id} className="py-2 pr-4 text-right">
+                            {result ? (
+                              <span className={`${result.judgment.textColor} ${result.judgment.darkTextColor}`} title={result.judgment.title}>
+                                {formatMetricValue(metric, result.value)}
+                                <span className="ml-1 text-xs">{result.judgment.title}</span>
+                              </span>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {failures.length > 0 && (
+            <div className="mt-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+              <p className="text-sm font-semibold text-yellow-800 dark:text-yellow-300 mb-1">
+                取得できなかった銘柄（{failures.length}）
+              </p>
+              <ul className="text-xs text-yellow-700 dark:text-yellow-400 space-y-0.5">
+                {failures.map((failure) => (
+                  <li key={failure.code}>{failure.code}: {failure.error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
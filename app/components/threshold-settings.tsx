@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
+import { useLinkedOption } from "../contexts/analysis-link-context";
+import { METRIC_STAGE_LABELS, MetricId, METRICS } from "../lib/metrics";
+import { DEFAULT_PROFILE_ID, isValidThresholds, ThresholdProfile } from "../lib/threshold-profiles";
+import { JudgmentThresholds } from "../utils/financial";
+
+type Draft = Record<MetricId, [string, string, string]>;
+
+const inputClassName =
+  "px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+/**
+ * Threshold Settings Component
+ * Selects the active judgment profile and edits custom profiles
+ */
+export default function ThresholdSettings() {
+  const { profiles, activeProfile, thresholds, setActiveProfile, saveProfile, deleteProfile } = useThresholdProfile();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  // Custom profiles are stored per browser, so a link can only select one saved here
+  useLinkedOption('profile', activeProfile.id, (stored) => {
+    if (!profiles.some((p) => p.id === stored)) return false;
+    setActiveProfile(stored);
+    return true;
+  }, DEFAULT_PROFILE_ID);
+
+  const toDraft = (): Draft =>
+    Object.fromEntries(
+      METRICS.map((metric) => [metric.id, thresholds[metric.id].map(String)])
+    ) as Draft;
+
+  const handleDuplicate = () => {
+    const profile: ThresholdProfile = {
+      id: `custom-${Date.now()}`,
+      name: `${activeProfile.name}（カスタム）`,
+      description: `${activeProfile.name}を元に作成`,
+      builtIn: false,
+      thresholds: { ...thresholds },
+    };
+    saveProfile(profile);
+    setDraft(toDraft());
+    setOpen(true);
+  };
+
+  // Apply a boundary edit as soon as the row is valid, so calculators re-judge immediately
+  const handleChange = (metricId: MetricId, index: number, value: string) => {
+    const current = draft || toDraft();
+    const row = [...current[metricId]] as [string, string, string];
+    row[index] = value;
+    setDraft({ ...current, [metricId]: row });
+
+    const metric = METRICS.find((m) => m.id === metricId)!;
+    const parsed = row.map((cell) => (cell.trim() === '' ? NaN : Number(cell))) as JudgmentThresholds;
+    if (isValidThresholds(parsed, metric.lowerIsBetter)) {
+      saveProfile({ ...activeProfile, thresholds: { ...activeProfile.thresholds, [metricId]: parsed } });
+    }
+  };
+
+  const editing = open && !activeProfile.builtIn;
+  const rows = editing && draft ? draft : toDraft();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300">判定基準</h2>
+        <select
+          value={activeProfile.id}
+          onChange={(e) => {
+            setActiveProfile(e.target.value);
+            setDraft(null);
+          }}
+          className={inputClassName}
+        >
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}{profile.builtIn ? '' : '（カスタム）'}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{activeProfile.description}</span>
+
+        <div className="ml-auto flex gap-3">
+          <button
+            onClick={handleDuplicate}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            複製して編集
+          </button>
+          <button
+            onClick={() => {
+              setOpen(!open);
+              setDraft(open ? null : toDraft());
+            }}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {open ? '閉じる' : '基準を表示'}
+          </button>
+        </div>
+      </div>
+
+      {open && (
+        <div className="mt-4">
+          {editing ? (
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <input
+                type="text"
+                value={activeProfile.name}
+                onChange={(e) => saveProfile({ ...activeProfile, name: e.target.value })}
+                className={inputClassName}
+                placeholder="プロファイル名"
+              />
+              <button
+                onClick={() => {
+                  deleteProfile(activeProfile.id);
+                  setDraft(null);
+                }}
+                className="text-xs text-gray-400 hover:text-red-600"
+              >
+                このプロファイルを削除
+              </button>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              組み込みのプロファイルは編集できません。「複製して編集」でカスタムプロファイルを作成してください。
+            </p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-4 font-medium">指標</th>
+                  <th className="py-1 pr-2 font-medium">最良の判定</th>
+                  <th className="py-1 pr-2 font-medium">2番目</th>
+                  <th className="py-1 pr-2 font-medium">3番目</th>
+                </tr>
+              </thead>
+              <tbody>
+                {METRICS.map((metric) => {
+                  const row = rows[metric.id];
+                  const valid = isValidThresholds(
+                    row.map((cell) => (cell.trim() === '' ? NaN : Number(cell))) as JudgmentThresholds,
+                    metric.lowerIsBetter
+                  );
+                  return (
+                    <tr key={metric.id}>
+                      <td className="py-1 pr-4 text-gray-700 dark:text-gray-300">
+                        <span className="text-xs text-gray-400 mr-1">{METRIC_STAGE_LABELS[metric.stage]}</span>
+                        {metric.label}
+                        <span className="ml-1 text-xs text-gray-400">
+                          （{metric.lowerIsBetter ? '未満' : '以上'}）
+                        </span>
+                      </td>
+                      {row.map((cell, index) => (
+                        <td key={index} className="py-1 pr-2">
+                          {editing ? (
+                            <input
+                              type="number"
+                              value={cell}
+                              onChange={(e) => handleChange(metric.id, index, e.target.value)}
+                              className={`w-20 ${inputClassName} ${valid ? '' : 'border-red-500 dark:border-red-500'}`}
+                            />
+                          ) : (
+                            <span className="text-gray-900 dark:text-white">{cell}</span>
+                          )}
+                          <span className="ml-0.5 text-xs text-gray-500 dark:text-gray-400">{metric.unit}</span>
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {editing && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              変更はすぐに各分析の判定へ反映され、ブラウザに保存されます。境界値の順序が正しくない行（赤枠）は反映されません。
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useFinancialData } from "../contexts/financial-data-context";
+import { fetchPriceHistory } from "../lib/company-client";
+import { getMetric } from "../lib/metrics";
+import type { PriceBar, StockSplit } from "../lib/price-history";
+import {
+  ANNOUNCEMENT_LAG_DAYS,
+  BAND_MULTIPLES,
+  BandMetric,
+  buildValuationSeries,
+  PERCENTILE_WINDOWS,
+  rankInRange,
+  ValuationPoint,
+} from "../lib/valuation-bands";
+
+// Chart geometry in viewBox units
+const WIDTH = 400;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 48, bottom: 20, left: 6 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+const BAND_COLORS = ['#10b981', '#f59e0b', '#ef4444'];
+
+const BAND_TITLES: Record<BandMetric, string> = { per: 'PERバンド', pbr: 'PBRバンド' };
+
+const formatMultiple = (metric: BandMetric, value: number) =>
+  `${value.toFixed(metric === 'per' ? 1 : 2)}倍`;
+
+// Low percentiles mean the stock is cheap against its own history
+const percentileStyle = (percentile: number) =>
+  percentile <= 25
+    ? { color: 'text-green-700 dark:text-green-400', label: '過去比で割安' }
+    : percentile >= 75
+      ? { color: 'text-red-700 dark:text-red-400', label: '過去比で割高' }
+      : { color: 'text-gray-700 dark:text-gray-300', label: '過去の中位' };
+
+/**
+ * Valuation Bands Component
+ * Price against the prices implied by fixed PER / PBR multiples, and today's multiples ranked in the company's own history
+ */
+export default function ValuationBands() {
+  const { data, company, history, metricValues } = useFinancialData();
+  const [bars, setBars] = useState<PriceBar[]>([]);
+  const [splits, setSplits] = useState<StockSplit[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // XBRL filings carry no prices, so those companies use the server default source
+  const source = company?.provider && company.provider !== 'xbrl' ? company.provider : '';
+
+  useEffect(() => {
+    if (!company) {
+      setBars([]);
+      setSplits([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchPriceHistory(company.code, { range: '10Y', interval: '1mo', source })
+      .then((prices) => {
+        if (!cancelled) {
+          setBars(prices.bars);
+          setSplits(prices.splits);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setBars([]);
+          setSplits([]);
+          setError(err instanceof Error ? err.message : '不明なエラーが発生しました');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [company, source]);
+
+  // Today's share count; derived from market cap when the provider does not report it
+  const sharesOutstanding = useMemo(() => {
+    if (!data) return NaN;
+    const reported = Number(data.sharesOutstanding);
+    if (reported > 0) return reported;
+    return (Number(data.marketCap) * 1000000) / Number(data.stockPrice);
+  }, [data]);
+
+  const points = useMemo(
+    () => (history ? buildValuationSeries(bars, history.series, sharesOutstanding, splits) : []),
+    [bars, history, sharesOutstanding, splits]
+  );
+
+  // The values the valuation calculator shows, or the fetched data when it has not reported yet
+  const current: Record<BandMetric, number | null> = {
+    per: metricValues.per ?? (data ? getMetric('per').compute(data) : null),
+    pbr: metricValues.pbr ?? (data ? getMetric('pbr').compute(data) : null),
+  };
+
+  const hasBands = points.some((point) => point.bands.per || point.bands.pbr);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+      <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700 pb-3">
+        PER・PBRバンド（過去との比較）
+      </h2>
+
+      {!company ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          企業データを取得すると、過去の株価と決算からPER・PBRの推移を表示します
+        </p>
+      ) : error ? (
+        <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+      ) : loading ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">株価データを取得中...</p>
+      ) : !history ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          年度別の過去データがないため、バンドを計算できません
+        </p>
+      ) : !hasBands ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          過去の純利益・自己資本または発行済株式数がないため、バンドを計算できません
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {(['per', 'pbr'] as BandMetric[]).map((metric) => (
+              <div key={metric}>
+                <h3 className="text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">{BAND_TITLES[metric]}</h3>
+                <BandChart points={points} metric={metric} />
+                <RangeTable points={points} metric={metric} current={current[metric]} />
+              </div>
+            ))}
+          </div>
+
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            ※ 月足の終値と、各月時点で発表済みの最新の決算期（期末の{ANNOUNCEMENT_LAG_DAYS}日後から使用）の1株利益・1株純資産から算出（株数は各年度の純利益とEPSから求め、分割調整済み）。パーセンタイルは過去の値のうち現在値以下の割合
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Price line with the band lines of each multiple
+ */
+function BandChart({ points, metric }: { points: ValuationPoint[]; metric: BandMetric }) {
+  const values = points.flatMap((point) => [point.price, ...(point.bands[metric] ?? [])]);
+  const low = Math.min(...values) * 0.95;
+  const high = Math.max(...values) * 1.05;
+
+  const x = (index: number) => PADDING.left + (index / Math.max(1, points.length - 1)) * PLOT_WIDTH;
+  const y = (price: number) => PADDING.top + ((high - price) / (high - low)) * PLOT_HEIGHT;
+
+  // Break the line wherever the value is missing
+  const path = (series: (number | null)[]) =>
+    series.reduce<string>((d, value, index) => {
+      if (value === null) return d;
+      const command = index === 0 || series[index - 1] === null ? 'M' : 'L';
+      return `${d}${command}${x(index).toFixed(1)},${y(value).toFixed(1)}`;
+    }, '');
+
+  const lastBands = [...points].reverse().find((point) => point.bands[metric])?.bands[metric];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      {BAND_MULTIPLES[metric].map((multiple, i) => (
+        <path
+          key={multiple}
+          d={path(points.map((point) => point.bands[metric]?.[i] ?? null))}
+          fill="none"
+          stroke={BAND_COLORS[i]}
+          strokeWidth={1}
+          strokeDasharray="4 2"
+        />
+      ))}
+      <path d={path(points.map((point) => point.price))} fill="none" className="stroke-blue-600 dark:stroke-blue-400" strokeWidth={1.5} />
+
+      {lastBands?.map((price, i) => (
+        <text
+          key={i}
+          x={PADDING.left + PLOT_WIDTH + 4}
+          y={Math.min(Math.max(y(price) + 4, PADDING.top + 8), PADDING.top + PLOT_HEIGHT)}
+          fill={BAND_COLORS[i]}
+          fontSize={10}
+        >
+          {BAND_MULTIPLES[metric][i]}倍
+        </text>
+      ))}
+
+      {[0, points.length - 1].map((index, i) => (
+        <text
+          key={index}
+          x={x(index)}
+          y={HEIGHT - 4}
+          textAnchor={i === 0 ? 'start' : 'end'}
+          className="fill-gray-500 dark:fill-gray-400"
+          fontSize={10}
+        >
+          {points[index].date.slice(0, 7).replace('-', '/')}
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Current value ranked within each window of the company's own history
+ */
+function RangeTable({ points, metric, current }: { points: ValuationPoint[]; metric: BandMetric; current: number | null }) {
+  const label = metric === 'per' ? 'PER' : 'PBR';
+
+  if (current === null) {
+    return <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">現在の{label}を計算できません</p>;
+  }
+
+  return (
+    <table className="mt-2 w-full text-xs">
+      <thead>
+        <tr className="text-gray-500 dark:text-gray-400">
+          <th className="py-1 text-left font-medium">現在 {formatMultiple(metric, current)}</th>
+          <th className="py-1 text-right font-medium">最小</th>
+          <th className="py-1 text-right font-medium">中央値</th>
+          <th className="py-1 text-right font-medium">最大</th>
+          <th className="py-1 text-right font-medium">パーセンタイル</th>
+        </tr>
+      </thead>
+      <tbody>
+        {PERCENTILE_WINDOWS.map((years) => {
+          const range = rankInRange(points, metric, current, years);
+          if (!range) {
+            return (
+              <tr key={years} className="border-t border-gray-100 dark:border-gray-700/50">
+                <td className="py-1 text-gray-700 dark:text-gray-300">過去{years}年</td>
+                <td colSpan={4} className="py-1 text-right text-gray-400">データなし</td>
+              </tr>
+            );
+          }
+          const style = percentileStyle(range.percentile);
+          const shortened = range.coveredYears < years - 0.5;
+          return (
+            <tr key={years} className="border-t border-gray-100 dark:border-gray-700/50">
+              <td className="py-1 text-gray-700 dark:text-gray-300">
+                過去{years}年
+                {shortened && <span className="ml-1 text-gray-400">（{range.coveredYears.toFixed(1)}年分）</span>}
+              </td>
+              <td className="py-1 text-right text-gray-700 dark:text-gray-300">{formatMultiple(metric, range.min)}</td>
+              <td className="py-1 text-right text-gray-700 dark:text-gray-300">{formatMultiple(metric, range.median)}</td>
+              <td className="py-1 text-right text-gray-700 dark:text-gray-300">{formatMultiple(metric, range.max)}</td>
+              <td className={`py-1 text-right font-semibold ${style.color}`} title={style.label}>
+                {Math.round(range.percentile)}%
+                <span className="ml-1 font-normal">{style.label}</span>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -2,23 +2,33 @@
 
 import { useState, useEffect } from "react";
 import InputField from "./input-field";
+import SectorJudgment from "./sector-judgment";
 import { useFinancialData } from "../contexts/financial-data-context";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
 import {
   calculatePER,
   calculatePBR,
   calculateDividendYield,
+  calculateEnterpriseValue,
+  calculateEVEBITDA,
+  calculateEVSales,
+  calculateNetCashRatio,
   getPERJudgment,
   getPBRJudgment,
   getDividendYieldJudgment,
+  getEVEBITDAJudgment,
+  getEVSalesJudgment,
+  getNetCashRatioJudgment,
   ValuationJudgment
 } from "../utils/financial";
 
 /**
  * Valuation Metrics Calculator Component
- * Analyzes PER, PBR, and Dividend Yield
+ * Analyzes PER, PBR, and Dividend Yield, plus enterprise-value based multiples
  */
 export default function ValuationCalculator() {
-  const { data: financialData } = useFinancialData();
+  const { data: financialData, provenanceFor, reportMetrics } = useFinancialData();
+  const { thresholds } = useThresholdProfile();
 
   // PER state
   const [marketCapPER, setMarketCapPER] = useState('');
@@ -35,17 +45,33 @@ export default function ValuationCalculator() {
   const [stockPrice, setStockPrice] = useState('');
   const [dividendYield, setDividendYield] = useState<number | null>(null);
 
+  // Enterprise value state
+  const [marketCapEV, setMarketCapEV] = useState('');
+  const [totalDebt, setTotalDebt] = useState('');
+  const [totalCash, setTotalCash] = useState('');
+  const [ebitda, setEbitda] = useState('');
+  const [revenue, setRevenue] = useState('');
+  const [enterpriseValue, setEnterpriseValue] = useState<number | null>(null);
+  const [evEbitda, setEvEbitda] = useState<number | null>(null);
+  const [evSales, setEvSales] = useState<number | null>(null);
+  const [netCashRatio, setNetCashRatio] = useState<number | null>(null);
+
   // Auto-fill from fetched data
   useEffect(() => {
     if (financialData) {
       if (financialData.marketCap) {
         setMarketCapPER(financialData.marketCap);
         setMarketCapPBR(financialData.marketCap);
+        setMarketCapEV(financialData.marketCap);
       }
       if (financialData.netIncome) setNetIncome(financialData.netIncome);
       if (financialData.equity) setEquity(financialData.equity);
       if (financialData.stockPrice) setStockPrice(financialData.stockPrice);
       if (financialData.annualDividend) setAnnualDividend(financialData.annualDividend);
+      if (financialData.totalDebt) setTotalDebt(financialData.totalDebt);
+      if (financialData.totalCash) setTotalCash(financialData.totalCash);
+      if (financialData.ebitda) setEbitda(financialData.ebitda);
+      if (financialData.revenue) setRevenue(financialData.revenue);
     }
   }, [financialData]);
 
@@ -88,6 +114,50 @@ export default function ValuationCalculator() {
     }
   }, [annualDividend, stockPrice]);
 
+  // Auto-calculate EV and net cash ratio
+  useEffect(() => {
+    const marketCapNum = Number(marketCapEV);
+    const debtNum = Number(totalDebt);
+    const cashNum = Number(totalCash);
+
+    if (marketCapNum > 0 && totalDebt !== '' && debtNum >= 0 && totalCash !== '' && cashNum >= 0) {
+      setEnterpriseValue(calculateEnterpriseValue(marketCapNum, debtNum, cashNum));
+      setNetCashRatio(calculateNetCashRatio(cashNum, debtNum, marketCapNum));
+    } else {
+      setEnterpriseValue(null);
+      setNetCashRatio(null);
+    }
+  }, [marketCapEV, totalDebt, totalCash]);
+
+  // Auto-calculate EV/EBITDA
+  useEffect(() => {
+    const ebitdaNum = Number(ebitda);
+
+    if (enterpriseValue !== null && ebitdaNum > 0) {
+      const result = calculateEVEBITDA(enterpriseValue, ebitdaNum);
+      setEvEbitda(result);
+    } else {
+      setEvEbitda(null);
+    }
+  }, [enterpriseValue, ebitda]);
+
+  // Auto-calculate EV/Sales
+  useEffect(() => {
+    const revenueNum = Number(revenue);
+
+    if (enterpriseValue !== null && revenueNum > 0) {
+      const result = calculateEVSales(enterpriseValue, revenueNum);
+      setEvSales(result);
+    } else {
+      setEvSales(null);
+    }
+  }, [enterpriseValue, revenue]);
+
+  // Share results with the investment score
+  useEffect(() => {
+    reportMetrics({ per, pbr, dividendYield, evEbitda, evSales, netCashRatio });
+  }, [per, pbr, dividendYield, evEbitda, evSales, netCashRatio, reportMetrics]);
+
   const renderJudgment = (judgment: ValuationJudgment) => (
     <div className={`border-l-4 ${judgment.borderColor} pl-4 py-2`}>
       <p className={`font-semibold ${judgment.textColor} ${judgment.darkTextColor}`}>
@@ -115,15 +185,19 @@ export default function ValuationCalculator() {
 
           <div className="space-y-3">
             <InputField
+              name="valuation.marketCapPER"
               label="時価総額（百万円）"
               value={marketCapPER}
               onChange={setMarketCapPER}
+              provenance={provenanceFor('marketCap', marketCapPER)}
             />
 
             <InputField
+              name="valuation.netIncome"
               label="純利益（百万円）"
               value={netIncome}
               onChange={setNetIncome}
+              provenance={provenanceFor('netIncome', netIncome)}
             />
           </div>
 
@@ -132,7 +206,8 @@ export default function ValuationCalculator() {
               <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
                 {per.toFixed(1)}倍
               </div>
-              {renderJudgment(getPERJudgment(per))}
+              {renderJudgment(getPERJudgment(per, thresholds.per))}
+              <SectorJudgment metric="per" value={per} />
             </div>
           )}
         </div>
@@ -145,15 +220,19 @@ export default function ValuationCalculator() {
 
           <div className="space-y-3">
             <InputField
+              name="valuation.marketCapPBR"
               label="時価総額（百万円）"
               value={marketCapPBR}
               onChange={setMarketCapPBR}
+              provenance={provenanceFor('marketCap', marketCapPBR)}
             />
 
             <InputField
+              name="valuation.equity"
               label="純資産（百万円）"
               value={equity}
               onChange={setEquity}
+              provenance={provenanceFor('equity', equity)}
             />
           </div>
 
@@ -162,7 +241,8 @@ export default function ValuationCalculator() {
               <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
                 {pbr.toFixed(2)}倍
               </div>
-              {renderJudgment(getPBRJudgment(pbr))}
+              {renderJudgment(getPBRJudgment(pbr, thresholds.pbr))}
+              <SectorJudgment metric="pbr" value={pbr} />
             </div>
           )}
         </div>
@@ -175,15 +255,21 @@ export default function ValuationCalculator() {
 
           <div className="space-y-3">
             <InputField
+              name="valuation.annualDividend"
               label="年間配当（円）"
               value={annualDividend}
               onChange={setAnnualDividend}
+              provenance={provenanceFor('annualDividend', annualDividend)}
+              allowDecimal
             />
 
             <InputField
+              name="valuation.stockPrice"
               label="株価（円）"
               value={stockPrice}
               onChange={setStockPrice}
+              provenance={provenanceFor('stockPrice', stockPrice)}
+              allowDecimal
             />
           </div>
 
@@ -192,11 +278,124 @@ export default function ValuationCalculator() {
               <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
                 {dividendYield.toFixed(2)}%
               </div>
-              {renderJudgment(getDividendYieldJudgment(dividendYield))}
+              {renderJudgment(getDividendYieldJudgment(dividendYield, thresholds.dividendYield))}
+              <SectorJudgment metric="dividendYield" value={dividendYield} />
             </div>
           )}
         </div>
       </div>
+
+      {/* Enterprise Value */}
+      <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+          企業価値（EV = 時価総額 + 有利子負債 − 現金）
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+          <InputField
+            name="valuation.marketCapEV"
+            label="時価総額（百万円）"
+            value={marketCapEV}
+            onChange={setMarketCapEV}
+            provenance={provenanceFor('marketCap', marketCapEV)}
+          />
+
+          <InputField
+            name="valuation.totalDebt"
+            label="有利子負債（百万円）"
+            value={totalDebt}
+            onChange={setTotalDebt}
+            provenance={provenanceFor('totalDebt', totalDebt)}
+          />
+
+          <InputField
+            name="valuation.totalCash"
+            label="現金及び現金同等物（百万円）"
+            value={totalCash}
+            onChange={setTotalCash}
+            provenance={provenanceFor('totalCash', totalCash)}
+          />
+        </div>
+
+        {enterpriseValue !== null && (
+          <p className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+            EV: <span className="font-semibold">{Math.round(enterpriseValue).toLocaleString()}百万円</span>
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-5 mt-4">
+          {/* EV/EBITDA Calculator */}
+          <div>
+            <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+              EV/EBITDA
+            </h3>
+
+            <InputField
+              name="valuation.ebitda"
+              label="EBITDA（百万円）"
+              value={ebitda}
+              onChange={setEbitda}
+              provenance={provenanceFor('ebitda', ebitda)}
+            />
+
+            {evEbitda !== null && (
+              <div className="mt-4">
+                <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                  {evEbitda.toFixed(1)}倍
+                </div>
+                {renderJudgment(getEVEBITDAJudgment(evEbitda, thresholds.evEbitda))}
+                <SectorJudgment metric="evEbitda" value={evEbitda} />
+              </div>
+            )}
+          </div>
+
+          {/* EV/Sales Calculator */}
+          <div>
+            <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+              EV/売上高
+            </h3>
+
+            <InputField
+              name="valuation.revenue"
+              label="売上高（百万円）"
+              value={revenue}
+              onChange={setRevenue}
+              provenance={provenanceFor('revenue', revenue)}
+            />
+
+            {evSales !== null && (
+              <div className="mt-4">
+                <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                  {evSales.toFixed(2)}倍
+                </div>
+                {renderJudgment(getEVSalesJudgment(evSales, thresholds.evSales))}
+                <SectorJudgment metric="evSales" value={evSales} />
+              </div>
+            )}
+          </div>
+
+          {/* Net Cash Ratio */}
+          <div>
+            <h3 className="text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+              ネットキャッシュ比率
+            </h3>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              （現金 − 有利子負債）÷ 時価総額
+            </p>
+
+            {netCashRatio !== null && (
+              <div className="mt-4">
+                <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
+                  {netCashRatio.toFixed(1)}%
+                </div>
+                {renderJudgment(getNetCashRatioJudgment(netCashRatio, thresholds.netCashRatio))}
+                <SectorJudgment metric="netCashRatio" value={netCashRatio} />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,129 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { formatMetricValue, getMetric } from "../lib/metrics";
+import { WATCHLIST_METRICS } from "../lib/watchlist";
+import { useWatchlist } from "../contexts/watchlist-context";
+import { useThresholdProfile } from "../contexts/threshold-profile-context";
+
+const formatFetchedAt = (fetchedAt: string) =>
+  new Date(fetchedAt).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Watchlist Component
+ * Lists saved companies with their key metrics and judgments, refreshed together on demand
+ */
+export default function Watchlist() {
+  const { entries, serverSync, syncError, refreshing, removeEntry, refreshAll } = useWatchlist();
+  const { thresholds } = useThresholdProfile();
+  const [failures, setFailures] = useState<{ code: string; error: string }[]>([]);
+
+  const metrics = useMemo(() => WATCHLIST_METRICS.map(getMetric), []);
+
+  const handleRefresh = async () => {
+    setFailures(await refreshAll());
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+      <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-3 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          ウォッチリスト
+          <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+            {entries.length}銘柄（{serverSync ? 'ブラウザとサーバーに保存' : 'ブラウザに保存'}）
+          </span>
+        </h2>
+        <button
+          onClick={handleRefresh}
+          disabled={refreshing || entries.length === 0}
+          className="px-4 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors disabled:cursor-not-allowed"
+        >
+          {refreshing ? '更新中...' : 'すべて更新'}
+        </button>
+      </div>
+
+      {syncError && (
+        <p className="mb-3 text-xs text-red-700 dark:text-red-400">⚠ {syncError}</p>
+      )}
+
+      {failures.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+          <p className="text-xs text-yellow-700 dark:text-yellow-400 mb-1">更新できなかった銘柄（前回のデータを表示）</p>
+          <ul className="text-xs text-yellow-700 dark:text-yellow-400 space-y-0.5">
+            {failures.map((failure) => (
+              <li key={failure.code}>{failure.code}: {failure.error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          企業データを取得して「ウォッチリストに追加」を押すと、ここに登録されます
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                <th className="py-2 pr-4 text-left font-medium">銘柄</th>
+                <th className="py-2 px-3 text-right font-medium">株価</th>
+                {metrics.map((metric) => (
+                  <th key={metric.id} className="py-2 px-3 text-right font-medium whitespace-nowrap">{metric.label}</th>
+                ))}
+                <th className="py-2 px-3 text-right font-medium">取得日時</th>
+                <th className="py-2 pl-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.code} className="border-b border-gray-100 dark:border-gray-700/50">
+                  <td className="py-2 pr-4">
+                    <div className="font-semibold text-gray-900 dark:text-white">{entry.companyName}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{entry.code} | {entry.dataSource}</div>
+                  </td>
+                  <td className="py-2 px-3 text-right text-gray-900 dark:text-white whitespace-nowrap">
+                    {entry.financialData.stockPrice ? `${Number(entry.financialData.stockPrice).toLocaleString()}円` : '-'}
+                  </td>
+                  {metrics.map((metric) => {
+                    const value = metric.compute(entry.financialData);
+                    const judgment = value !== null ? metric.judge(value, thresholds[metric.id]) : null;
+                    return (
+                      <td key={metric.id} className="py-2 px-3 text-right whitespace-nowrap">
+                        {judgment && value !== null ? (
+                          <span className={`${judgment.textColor} ${judgment.darkTextColor}`} title={judgment.description}>
+                            <span className="font-semibold">{formatMetricValue(metric, value)}</span>
+                            <span className="ml-1 text-xs">{judgment.title}</span>
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="py-2 px-3 text-right text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {formatFetchedAt(entry.fetchedAt)}
+                  </td>
+                  <td className="py-2 pl-3 text-right">
+                    <button
+                      onClick={() => removeEntry(entry.code)}
+                      className="text-xs text-gray-400 hover:text-red-600"
+                    >
+                      削除
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { analysisPath, AnalysisParams, isCompanyParam, parseAnalysisParams } from '../lib/analysis-link';
+
+interface AnalysisLinkContextType {
+  /**
+   * False until the parameters of the opened URL have been read
+   */
+  ready: boolean;
+  /**
+   * Company in the path (/company/[code]), null on the dashboard without a company
+   */
+  code: string | null;
+  params: AnalysisParams;
+  setCode: (code: string | null) => void;
+  /**
+   * Set a parameter (null removes it)
+   */
+  setParam: (name: string, value: string | null) => void;
+  /**
+   * Drop the inputs and options that belong to the loaded company
+   */
+  clearCompanyParams: () => void;
+}
+
+const AnalysisLinkContext = createContext<AnalysisLinkContextType | undefined>(undefined);
+
+export function AnalysisLinkProvider({ initialCode = null, children }: { initialCode?: string | null; children: ReactNode }) {
+  const [ready, setReady] = useState(false);
+  const [code, setCodeState] = useState<string | null>(initialCode);
+  const [params, setParams] = useState<AnalysisParams>({});
+
+  // The query string is only available after mount
+  useEffect(() => {
+    setParams(parseAnalysisParams(window.location.search));
+    setReady(true);
+  }, []);
+
+  // Keep the address bar in sync so it can be copied or reloaded at any time
+  useEffect(() => {
+    if (!ready) return;
+    const path = analysisPath(code, params);
+    if (path !== `${window.location.pathname}${window.location.search}`) {
+      window.history.replaceState(null, '', path);
+    }
+  }, [ready, code, params]);
+
+  const setCode = (newCode: string | null) => {
+    setCodeState(newCode);
+  };
+
+  // Stable so inputs can call it from effects
+  const setParam = useCallback((name: string, value: string | null) => {
+    setParams((prev) => {
+      if (value === null ? !(name in prev) : prev[name] === value) return prev;
+      const next = { ...prev };
+      if (value === null) {
+        delete next[name];
+      } else {
+        next[name] = value;
+      }
+      return next;
+    });
+  }, []);
+
+  const clearCompanyParams = () => {
+    setParams((prev) => Object.fromEntries(Object.entries(prev).filter(([name]) => !isCompanyParam(name))));
+  };
+
+  return (
+    <AnalysisLinkContext.Provider value={{
+      ready,
+      code,
+      params,
+      setCode,
+      setParam,
+      clearCompanyParams,
+    }}>
+      {children}
+    </AnalysisLinkContext.Provider>
+  );
+}
+
+export function useAnalysisLink() {
+  const context = useContext(AnalysisLinkContext);
+  if (context === undefined) {
+    throw new Error('useAnalysisLink must be used within an AnalysisLinkProvider');
+  }
+  return context;
+}
+
+/**
+ * Keep a selected option in the link
+ * The value in the opened link is restored once; afterwards every change is written back
+ * @param restore Applies a value read from the link, returning false when it is not valid
+ * @param defaultValue Value left out of the link
+ */
+export function useLinkedOption(
+  name: string,
+  value: string,
+  restore: (stored: string) => boolean,
+  defaultValue = ''
+) {
+  const { ready, params, setParam } = useAnalysisLink();
+  const restored = useRef(false);
+
+  useEffect(() => {
+    if (!ready) return;
+    if (!restored.current) {
+      restored.current = true;
+      const stored = params[name];
+      if (stored !== undefined && stored !== value && restore(stored)) return;
+    }
+    setParam(name, value === defaultValue ? null : value);
+  }, [ready, name, value, defaultValue, params, restore, setParam]);
+}
+
+/**
+ * Keep a manually edited input in the link
+ * The edited value is re-applied whenever auto-fill replaces it, until another company is fetched
+ * @param name Parameter name ("<calculator>.<field>"); inputs without a name are not linked
+ * @param apply Sets the input to a value from the link; must not change it to anything else
+ * @returns Records a manual edit
+ */
+export function useLinkedInput(name: string | undefined, value: string, apply: (stored: string) => void) {
+  const { params, setParam } = useAnalysisLink();
+  const stored = name !== undefined ? params[name] : undefined;
+
+  useEffect(() => {
+    if (stored !== undefined && stored !== value) apply(stored);
+  }, [stored, value, apply]);
+
+  return useCallback((edited: string) => {
+    if (name !== undefined) setParam(name, edited);
+  }, [name, setParam]);
+}
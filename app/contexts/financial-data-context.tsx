@@ -1,11 +1,53 @@
 "use client";
 
-import { createContext, useContext, useState, ReactNode } from 'react';
-import { FinancialData } from '../components/company-search';
+import { createContext, useCallback, useContext, useState, ReactNode } from 'react';
+import { FieldProvenance, FinancialData, FinancialDataProvenance } from '../components/company-search';
+import { FinancialHistory } from '../lib/history';
+import { SectorCode } from '../lib/sectors';
+import { MetricId } from '../lib/metrics';
+import type { ProviderId } from '../lib/providers/types';
+
+/**
+ * Company the data was fetched for
+ */
+export interface LoadedCompany {
+  code: string;
+  companyName: string;
+  fiscalPeriodEnd: string | null;
+  /**
+   * Provider that answered, reused for related requests (prices, history)
+   */
+  provider: ProviderId | null;
+}
 
 interface FinancialDataContextType {
   data: FinancialData | null;
-  setData: (data: FinancialData) => void;
+  /**
+   * Company of the fetched data, null until one is fetched (manual input only)
+   */
+  company: LoadedCompany | null;
+  history: FinancialHistory | null;
+  provenance: FinancialDataProvenance;
+  /**
+   * TSE sector used for sector-relative judgments (null = market-wide only)
+   */
+  sector: SectorCode | null;
+  /**
+   * Provenance of a field, only while the input still holds the fetched value
+   */
+  provenanceFor: (field: keyof FinancialData, currentValue: string) => FieldProvenance | undefined;
+  /**
+   * Results currently shown by the calculators, including manual edits
+   */
+  metricValues: Partial<Record<MetricId, number>>;
+  /**
+   * Publish calculator results (null clears a metric)
+   */
+  reportMetrics: (values: Partial<Record<MetricId, number | null>>) => void;
+  setData: (data: FinancialData, provenance?: FinancialDataProvenance) => void;
+  setHistory: (history: FinancialHistory | null) => void;
+  setSector: (sector: SectorCode | null) => void;
+  setCompany: (company: LoadedCompany | null) => void;
   clearData: () => void;
 }
 
@@ -13,17 +55,75 @@ const FinancialDataContext = createContext<FinancialDataContextType | undefined>
 
 export function FinancialDataProvider({ children }: { children: ReactNode }) {
   const [data, setDataState] = useState<FinancialData | null>(null);
+  const [history, setHistoryState] = useState<FinancialHistory | null>(null);
+  const [provenance, setProvenance] = useState<FinancialDataProvenance>({});
+  const [sector, setSectorState] = useState<SectorCode | null>(null);
+  const [metricValues, setMetricValues] = useState<Partial<Record<MetricId, number>>>({});
+  const [company, setCompanyState] = useState<LoadedCompany | null>(null);
 
-  const setData = (newData: FinancialData) => {
+  const setData = (newData: FinancialData, newProvenance: FinancialDataProvenance = {}) => {
     setDataState(newData);
+    setProvenance(newProvenance);
+    // History belongs to the previous company until it is loaded again
+    setHistoryState(null);
+  };
+
+  const setHistory = (newHistory: FinancialHistory | null) => {
+    setHistoryState(newHistory);
+  };
+
+  // Stable so calculators can call it from effects
+  const reportMetrics = useCallback((values: Partial<Record<MetricId, number | null>>) => {
+    setMetricValues((prev) => {
+      const next = { ...prev };
+      for (const [metric, value] of Object.entries(values) as [MetricId, number | null][]) {
+        if (value === null) {
+          delete next[metric];
+        } else {
+          next[metric] = value;
+        }
+      }
+      return next;
+    });
+  }, []);
+
+  const setSector = (newSector: SectorCode | null) => {
+    setSectorState(newSector);
+  };
+
+  const setCompany = (newCompany: LoadedCompany | null) => {
+    setCompanyState(newCompany);
   };
 
   const clearData = () => {
     setDataState(null);
+    setHistoryState(null);
+    setProvenance({});
+    setSectorState(null);
+    setCompanyState(null);
+  };
+
+  const provenanceFor = (field: keyof FinancialData, currentValue: string) => {
+    if (!data || data[field] !== currentValue) return undefined;
+    return provenance[field];
   };
 
   return (
-    <FinancialDataContext.Provider value={{ data, setData, clearData }}>
+    <FinancialDataContext.Provider value={{
+      data,
+      company,
+      history,
+      provenance,
+      provenanceFor,
+      sector,
+      metricValues,
+      reportMetrics,
+      setData,
+      setHistory,
+      setSector,
+      setCompany,
+      clearData,
+    }}>
       {children}
     </FinancialDataContext.Provider>
   );
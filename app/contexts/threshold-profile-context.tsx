@@ -0,0 +1,88 @@
+"use client";
+
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import {
+  DEFAULT_PROFILE_ID,
+  loadStoredProfiles,
+  PRESET_PROFILES,
+  resolveThresholds,
+  storeProfiles,
+  ThresholdProfile,
+  ThresholdTable,
+} from '../lib/threshold-profiles';
+
+interface ThresholdProfileContextType {
+  /**
+   * Presets followed by custom profiles
+   */
+  profiles: ThresholdProfile[];
+  activeProfile: ThresholdProfile;
+  /**
+   * Thresholds of the active profile for every metric
+   */
+  thresholds: ThresholdTable;
+  setActiveProfile: (id: string) => void;
+  /**
+   * Create or update a custom profile and make it active
+   */
+  saveProfile: (profile: ThresholdProfile) => void;
+  deleteProfile: (id: string) => void;
+}
+
+const ThresholdProfileContext = createContext<ThresholdProfileContextType | undefined>(undefined);
+
+export function ThresholdProfileProvider({ children }: { children: ReactNode }) {
+  const [customProfiles, setCustomProfiles] = useState<ThresholdProfile[]>([]);
+  const [activeId, setActiveId] = useState(DEFAULT_PROFILE_ID);
+  const [loaded, setLoaded] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const stored = loadStoredProfiles();
+    setCustomProfiles(stored.profiles);
+    setActiveId(stored.activeId);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) storeProfiles(customProfiles, activeId);
+  }, [customProfiles, activeId, loaded]);
+
+  const profiles = [...PRESET_PROFILES, ...customProfiles];
+  const activeProfile = profiles.find((p) => p.id === activeId) || PRESET_PROFILES[0];
+  const thresholds = useMemo(() => resolveThresholds(activeProfile), [activeProfile]);
+
+  const saveProfile = (profile: ThresholdProfile) => {
+    const custom = { ...profile, builtIn: false };
+    setCustomProfiles((prev) =>
+      prev.some((p) => p.id === custom.id) ? prev.map((p) => (p.id === custom.id ? custom : p)) : [...prev, custom]
+    );
+    setActiveId(custom.id);
+  };
+
+  const deleteProfile = (id: string) => {
+    setCustomProfiles((prev) => prev.filter((p) => p.id !== id));
+    if (activeId === id) setActiveId(DEFAULT_PROFILE_ID);
+  };
+
+  return (
+    <ThresholdProfileContext.Provider value={{
+      profiles,
+      activeProfile,
+      thresholds,
+      setActiveProfile: setActiveId,
+      saveProfile,
+      deleteProfile,
+    }}>
+      {children}
+    </ThresholdProfileContext.Provider>
+  );
+}
+
+export function useThresholdProfile() {
+  const context = useContext(ThresholdProfileContext);
+  if (context === undefined) {
+    throw new Error('useThresholdProfile must be used within a ThresholdProfileProvider');
+  }
+  return context;
+}
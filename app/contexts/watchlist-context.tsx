@@ -0,0 +1,159 @@
+"use client";
+
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { fetchCompanyBatch, isCompanyResult } from '../lib/company-client';
+import {
+  fetchServerWatchlist,
+  loadWatchlist,
+  MAX_WATCHLIST_ENTRIES,
+  mergeWatchlists,
+  saveServerWatchlist,
+  storeWatchlist,
+  toWatchlistEntry,
+  WatchlistEntry,
+} from '../lib/watchlist';
+
+interface WatchlistContextType {
+  entries: WatchlistEntry[];
+  /**
+   * Whether the list is also saved on the server (WATCHLIST_FILE)
+   */
+  serverSync: boolean;
+  /**
+   * Last server save error, null while saves succeed
+   */
+  syncError: string | null;
+  refreshing: boolean;
+  hasEntry: (code: string) => boolean;
+  /**
+   * Add an entry, or replace the one with the same code
+   * @returns false when the list is full
+   */
+  addEntry: (entry: WatchlistEntry) => boolean;
+  removeEntry: (code: string) => void;
+  /**
+   * Refetch every entry from the provider it was loaded from
+   * @returns Codes that could not be refreshed with the reason; they keep their previous snapshot
+   */
+  refreshAll: () => Promise<{ code: string; error: string }[]>;
+}
+
+const WatchlistContext = createContext<WatchlistContextType | undefined>(undefined);
+
+export function WatchlistProvider({ children }: { children: ReactNode }) {
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+  const [serverSync, setServerSync] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  // Server saves run one at a time, so a slow earlier PUT cannot overwrite a later list
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const latestSave = useRef(0);
+
+  // localStorage is only available after mount; the server copy wins for codes both have
+  useEffect(() => {
+    const local = loadWatchlist();
+    setEntries(local);
+
+    fetchServerWatchlist().then((server) => {
+      if (server) {
+        setServerSync(true);
+        setEntries((current) => mergeWatchlists(server, current));
+      }
+      setLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    storeWatchlist(entries);
+    if (serverSync) {
+      const save = ++latestSave.current;
+      saveQueue.current = saveQueue.current.then(async () => {
+        // A newer list is waiting behind this one, so only that one is sent
+        if (save !== latestSave.current) return;
+        try {
+          await saveServerWatchlist(entries);
+          setSyncError(null);
+        } catch (error) {
+          setSyncError(error instanceof Error ? error.message : 'ウォッチリストの保存に失敗しました');
+        }
+      });
+    }
+  }, [entries, loaded, serverSync]);
+
+  const hasEntry = (code: string) => entries.some((entry) => entry.code === code);
+
+  const addEntry = (entry: WatchlistEntry) => {
+    if (!hasEntry(entry.code) && entries.length >= MAX_WATCHLIST_ENTRIES) return false;
+    setEntries((prev) =>
+      prev.some((e) => e.code === entry.code) ? prev.map((e) => (e.code === entry.code ? entry : e)) : [...prev, entry]
+    );
+    return true;
+  };
+
+  const removeEntry = (code: string) => {
+    setEntries((prev) => prev.filter((entry) => entry.code !== code));
+  };
+
+  const refreshAll = async () => {
+    setRefreshing(true);
+    const failures: { code: string; error: string }[] = [];
+
+    try {
+      // One batch per provider so each entry is refetched from the same source
+      const groups = new Map<string, string[]>();
+      for (const entry of entries) {
+        const source = entry.provider || '';
+        groups.set(source, [...(groups.get(source) || []), entry.code]);
+      }
+
+      const refreshed = new Map<string, WatchlistEntry>();
+      for (const [source, codes] of groups) {
+        try {
+          const results = await fetchCompanyBatch(codes, { source, refresh: true });
+          for (const result of results) {
+            const entry = isCompanyResult(result) ? toWatchlistEntry(result.data) : null;
+            if (entry) {
+              refreshed.set(result.code, entry);
+            } else {
+              failures.push({ code: result.code, error: 'error' in result.data ? result.data.error : 'データ取得に失敗しました' });
+            }
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'データ取得に失敗しました';
+          failures.push(...codes.map((code) => ({ code, error: message })));
+        }
+      }
+
+      setEntries((prev) => prev.map((entry) => refreshed.get(entry.code) || entry));
+    } finally {
+      setRefreshing(false);
+    }
+
+    return failures;
+  };
+
+  return (
+    <WatchlistContext.Provider value={{
+      entries,
+      serverSync,
+      syncError,
+      refreshing,
+      hasEntry,
+      addEntry,
+      removeEntry,
+      refreshAll,
+    }}>
+      {children}
+    </WatchlistContext.Provider>
+  );
+}
+
+export function useWatchlist() {
+  const context = useContext(WatchlistContext);
+  if (context === undefined) {
+    throw new Error('useWatchlist must be used within a WatchlistProvider');
+  }
+  return context;
+}
@@ -0,0 +1,33 @@
+/**
+ * Shareable analysis links
+ * /company/[code] loads the company on arrival; the query string carries the selected
+ * options and every manually edited calculator input, so opening the link reproduces the analysis
+ */
+
+/**
+ * Query parameters of a link, by name
+ * Options use plain names (source, period, range, ...); calculator inputs are named
+ * "<calculator>.<field>" and hold the raw value the user typed
+ */
+export type AnalysisParams = Record<string, string>;
+
+/**
+ * Whether a parameter belongs to the loaded company and is dropped when another company is fetched
+ */
+export const isCompanyParam = (name: string) => name.includes('.') || name === 'sector';
+
+/**
+ * Read the parameters of a query string (later duplicates win)
+ */
+export function parseAnalysisParams(search: string): AnalysisParams {
+  return Object.fromEntries(new URLSearchParams(search));
+}
+
+/**
+ * Path and query of the link for an analysis
+ * @param code Company in the path, or null for the dashboard without a company
+ */
+export function analysisPath(code: string | null, params: AnalysisParams): string {
+  const query = new URLSearchParams(params).toString();
+  return `${code ? `/company/${code}` : '/'}${query ? `?${query}` : ''}`;
+}
@@ -0,0 +1,212 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Server-side response cache with stale-while-revalidate
+ * Entries are split into segments with their own TTL so price-sensitive
+ * values (market cap, stock price) can expire sooner than statement values
+ */
+
+/**
+ * Parts of a cached value that are refreshed independently
+ */
+export type CacheSegment = 'statement' | 'price';
+
+export interface CacheEntry<T> {
+  value: T;
+  updatedAt: Partial<Record<CacheSegment, number>>; // epoch ms per segment
+}
+
+/**
+ * Storage backend for cache entries
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+}
+
+/**
+ * hit: served fresh from cache
+ * stale: served from cache while revalidating in the background
+ * miss: fetched because nothing usable was cached
+ * bypass: fetched because the caller asked to skip the cache
+ */
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
+const seconds = (value: string | undefined, fallback: number) => (Number(value) || fallback) * 1000;
+
+/**
+ * Time each segment stays fresh (CACHE_PRICE_TTL_SECONDS / CACHE_STATEMENT_TTL_SECONDS)
+ */
+export const CACHE_TTL: Record<CacheSegment, number> = {
+  price: seconds(process.env.CACHE_PRICE_TTL_SECONDS, 5 * 60),
+  statement: seconds(process.env.CACHE_STATEMENT_TTL_SECONDS, 24 * 60 * 60),
+};
+
+/**
+ * How long past its TTL a segment may still be served while revalidating (CACHE_MAX_STALE_SECONDS)
+ */
+export const CACHE_MAX_STALE = seconds(process.env.CACHE_MAX_STALE_SECONDS, 7 * 24 * 60 * 60);
+
+const MAX_MEMORY_ENTRIES = 500;
+
+/**
+ * In-memory store; the oldest entry is evicted once the limit is reached
+ */
+export function createMemoryStore(maxEntries: number = MAX_MEMORY_ENTRIES): CacheStore {
+  const entries = new Map<string, CacheEntry<unknown>>();
+
+  return {
+    async get<T>(key: string) {
+      return entries.get(key) as CacheEntry<T> | undefined;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+  };
+}
+
+/**
+ * File-backed store so warm caches survive restarts
+ * Keeps a memory layer in front of one JSON file per key
+ */
+export function createFileStore(directory: string): CacheStore {
+  const memory = createMemoryStore();
+  const fileFor = (key: string) => path.join(directory, `${key.replace(/[^\w.-]/g, '_')}.json`);
+
+  return {
+    async get<T>(key: string) {
+      const cached = await memory.get<T>(key);
+      if (cached) return cached;
+
+      try {
+        const entry = JSON.parse(await fs.readFile(fileFor(key), 'utf-8')) as CacheEntry<T>;
+        await memory.set(key, entry);
+        return entry;
+      } catch {
+        return undefined;
+      }
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      await memory.set(key, entry);
+      try {
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(fileFor(key), JSON.stringify(entry));
+      } catch (error) {
+        console.warn('Cache file write failed:', key, error);
+      }
+    },
+  };
+}
+
+/**
+ * Shared store: file-backed when CACHE_DIR is set, otherwise in-memory only
+ */
+export const cacheStore: CacheStore = process.env.CACHE_DIR
+  ? createFileStore(process.env.CACHE_DIR)
+  : createMemoryStore();
+
+// Requests in flight per key, so concurrent lookups share one upstream call
+const inFlight = new Map<string, Promise<unknown>>();
+
+function dedupe<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+
+  const promise = task().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
+
+interface ReadThroughOptions<T> {
+  bypass?: boolean;
+  store?: CacheStore;
+  /**
+   * Fetch the whole value, with every segment it contains marked as updated
+   */
+  load: () => Promise<CacheEntry<T>>;
+  /**
+   * Refresh only the stale segments of an entry (defaults to a full load)
+   */
+  refresh?: (entry: CacheEntry<T>, staleSegments: CacheSegment[]) => Promise<CacheEntry<T>>;
+}
+
+export interface ReadThroughResult<T> {
+  entry: CacheEntry<T>;
+  status: CacheStatus;
+  /**
+   * Background revalidation to schedule after responding (set when status is stale)
+   */
+  revalidate?: () => Promise<void>;
+}
+
+/**
+ * Read a value through the cache with stale-while-revalidate
+ * @param key Cache key (e.g. company:7203:yahoo)
+ * @param options Loader, optional partial refresher and bypass flag
+ * @returns Entry, cache status and a revalidation task when the entry was stale
+ */
+export async function readThrough<T>(key: string, options: ReadThroughOptions<T>): Promise<ReadThroughResult<T>> {
+  const store = options.store || cacheStore;
+
+  const loadAndStore = () =>
+    dedupe(`load:${key}`, async () => {
+      const entry = await options.load();
+      await store.set(key, entry);
+      return entry;
+    });
+
+  if (options.bypass) {
+    return { entry: await loadAndStore(), status: 'bypass' };
+  }
+
+  const cached = await store.get<T>(key);
+  if (!cached) {
+    return { entry: await loadAndStore(), status: 'miss' };
+  }
+
+  const now = Date.now();
+  const segments = Object.entries(cached.updatedAt) as [CacheSegment, number][];
+  const staleSegments = segments.filter(([segment, updatedAt]) => now - updatedAt > CACHE_TTL[segment]);
+  const expired = segments.some(([segment, updatedAt]) => now - updatedAt > CACHE_TTL[segment] + CACHE_MAX_STALE);
+
+  if (expired) {
+    return { entry: await loadAndStore(), status: 'miss' };
+  }
+
+  if (staleSegments.length === 0) {
+    return { entry: cached, status: 'hit' };
+  }
+
+  const stale = staleSegments.map(([segment]) => segment);
+  const revalidate = async () => {
+    try {
+      if (options.refresh) {
+        await dedupe(`refresh:${key}`, async () => {
+          const refreshed = await options.refresh!(cached, stale);
+          await store.set(key, refreshed);
+          return refreshed;
+        });
+      } else {
+        await loadAndStore();
+      }
+    } catch (error) {
+      console.warn('Background revalidation failed:', key, error);
+    }
+  };
+
+  return { entry: cached, status: 'stale', revalidate };
+}
+
+/**
+ * Whether a request asks to skip the cache (?refresh=1 or Cache-Control: no-cache)
+ */
+export function shouldBypassCache(request: Request): boolean {
+  const refresh = new URL(request.url).searchParams.get('refresh');
+  const cacheControl = request.headers.get('cache-control') || '';
+  return refresh === '1' || refresh === 'true' || /no-cache|no-store/.test(cacheControl);
+}
@@ -0,0 +1,76 @@
+import type { CompanyErrorResponse, CompanyResponse } from './company-response';
+import type { PriceHistory, PriceInterval, PriceRange } from './price-history';
+import type { ReportingPeriod } from './reporting-period';
+
+/**
+ * Browser helpers for the company data API
+ */
+
+/**
+ * Codes per POST /api/edinet/batch request (the endpoint's limit)
+ */
+export const BATCH_SIZE = 100;
+
+/**
+ * Result for one code, with the status and body the single-code route would return
+ */
+export interface BatchResult {
+  code: string;
+  status: number;
+  data: CompanyResponse | CompanyErrorResponse;
+}
+
+/**
+ * Whether a batch result holds company data
+ */
+export function isCompanyResult(result: BatchResult): result is BatchResult & { data: CompanyResponse } {
+  return !('error' in result.data);
+}
+
+/**
+ * Fetch up to BATCH_SIZE companies in one request
+ * @param codes Securities codes
+ * @param options source selects providers (empty = server default); period defaults to annual;
+ * refresh bypasses the cache
+ * @throws Error with the API message when the whole request fails
+ */
+export async function fetchCompanyBatch(
+  codes: string[],
+  options: { source?: string; period?: ReportingPeriod; refresh?: boolean } = {}
+): Promise<BatchResult[]> {
+  const response = await fetch('/api/edinet/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ codes, source: options.source || undefined, period: options.period, refresh: options.refresh }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'データ取得に失敗しました');
+  }
+
+  return data.results as BatchResult[];
+}
+
+/**
+ * Fetch split-adjusted price history
+ * @param code Securities code
+ * @param options Chart range and bar interval; source selects providers (empty = server default)
+ * @throws Error with the API message when the request fails
+ */
+export async function fetchPriceHistory(
+  code: string,
+  options: { range: PriceRange; interval: PriceInterval; source?: string }
+): Promise<PriceHistory> {
+  const params = new URLSearchParams({ range: options.range, interval: options.interval });
+  if (options.source) params.set('source', options.source);
+
+  const response = await fetch(`/api/edinet/${code}/prices?${params}`);
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || '株価データの取得に失敗しました');
+  }
+
+  return data as PriceHistory;
+}
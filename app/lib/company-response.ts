@@ -0,0 +1,60 @@
+import { CompanyNotFoundError, ResolvedCompanyData } from './providers';
+import type { CacheStatus, ReadThroughResult } from './cache';
+
+/**
+ * Response bodies shared by GET /api/edinet/[code] and POST /api/edinet/batch
+ */
+
+/**
+ * Successful company lookup
+ */
+export type CompanyResponse = ResolvedCompanyData & {
+  fetchedAt: string;
+  cache: {
+    status: CacheStatus;
+    priceUpdatedAt: string | null;
+  };
+};
+
+/**
+ * Failed company lookup
+ */
+export interface CompanyErrorResponse {
+  error: string;
+}
+
+/**
+ * Build the response body for a cached company lookup
+ */
+export function toCompanyResponse({ entry, status }: ReadThroughResult<ResolvedCompanyData>): CompanyResponse {
+  return {
+    ...entry.value,
+    fetchedAt: new Date(entry.updatedAt.statement || Date.now()).toISOString(),
+    cache: {
+      status,
+      priceUpdatedAt: entry.updatedAt.price ? new Date(entry.updatedAt.price).toISOString() : null,
+    },
+  };
+}
+
+/**
+ * Map a lookup error to an HTTP status and error body
+ * @param error Error thrown by the providers
+ * @param securitiesCode Code that was looked up
+ */
+export function toCompanyErrorResponse(
+  error: unknown,
+  securitiesCode: string
+): { status: number; body: CompanyErrorResponse } {
+  if (error instanceof CompanyNotFoundError) {
+    return {
+      status: 404,
+      body: { error: `証券コード ${securitiesCode} が見つかりませんでした。東証上場企業のコードを入力してください。` },
+    };
+  }
+
+  return {
+    status: 500,
+    body: { error: 'データ取得中にエラーが発生しました' },
+  };
+}
@@ -0,0 +1,80 @@
+import type { FinancialData } from '../components/company-search';
+
+/**
+ * Fields of FinancialData, for reading and checking data that comes from outside
+ * (local data files, watchlists saved through the API)
+ */
+export const FINANCIAL_DATA_FIELDS: (keyof FinancialData)[] = [
+  'revenue',
+  'marketCap',
+  'capex',
+  'depreciation',
+  'revenueCurrentYear',
+  'revenueFourYearsAgo',
+  'operatingIncomeCurrentYear',
+  'operatingIncomeFourYearsAgo',
+  'epsCurrentYear',
+  'epsFourYearsAgo',
+  'currentYearEnd',
+  'pastYearEnd',
+  'netIncome',
+  'equity',
+  'totalAssets',
+  'operatingIncome',
+  'pretaxIncome',
+  'ebit',
+  'grossProfit',
+  'currentAssets',
+  'currentLiabilities',
+  'quickAssets',
+  'totalLiabilities',
+  'retainedEarnings',
+  'interestExpense',
+  'longTermDebt',
+  'stockPrice',
+  'annualDividend',
+  'totalCash',
+  'totalDebt',
+  'ebitda',
+  'freeCashflow',
+  'sharesOutstanding',
+  'operatingCashflow',
+  'investingCashflow',
+  'financingCashflow',
+  'stockIssuance',
+  'grossProfitCurrentYear',
+  'netIncomeCurrentYear',
+  'operatingCashflowCurrentYear',
+  'totalAssetsCurrentYear',
+  'longTermDebtCurrentYear',
+  'currentAssetsCurrentYear',
+  'currentLiabilitiesCurrentYear',
+  'revenuePriorYear',
+  'grossProfitPriorYear',
+  'netIncomePriorYear',
+  'operatingCashflowPriorYear',
+  'totalAssetsPriorYear',
+  'longTermDebtPriorYear',
+  'currentAssetsPriorYear',
+  'currentLiabilitiesPriorYear',
+];
+
+const FIELD_SET = new Set<string>(FINANCIAL_DATA_FIELDS);
+
+// Longest string a field holds (amounts, per-share values and YYYY-MM-DD dates are far shorter)
+const MAX_VALUE_LENGTH = 32;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isFieldValue = (value: unknown) =>
+  value === undefined ||
+  (typeof value === 'string' &&
+    value.length <= MAX_VALUE_LENGTH &&
+    ((value.trim() !== '' && Number.isFinite(Number(value))) || DATE_PATTERN.test(value)));
+
+/**
+ * Whether a value is FinancialData: an object of known fields holding numbers or dates as strings
+ */
+export function isFinancialData(value: unknown): value is FinancialData {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(([field, fieldValue]) => FIELD_SET.has(field) && isFieldValue(fieldValue));
+}
@@ -0,0 +1,112 @@
+/**
+ * Multi-year financial history model
+ * Per-fiscal-year series returned by GET /api/edinet/[code]/history
+ */
+
+/**
+ * Metrics tracked per fiscal year
+ */
+export type HistoryMetric =
+  | 'revenue'
+  | 'operatingIncome'
+  | 'netIncome'
+  | 'equity'
+  | 'totalAssets'
+  | 'operatingCashflow'
+  | 'freeCashflow'
+  | 'eps';
+
+export const HISTORY_METRICS: HistoryMetric[] = [
+  'revenue',
+  'operatingIncome',
+  'netIncome',
+  'equity',
+  'totalAssets',
+  'operatingCashflow',
+  'freeCashflow',
+  'eps',
+];
+
+/**
+ * Metrics kept per share in JPY instead of being scaled to million JPY
+ */
+export const PER_SHARE_METRICS: HistoryMetric[] = ['eps'];
+
+/**
+ * Value for one fiscal year
+ */
+export interface HistoryPoint {
+  endDate: string;
+  value: number; // million JPY (JPY for PER_SHARE_METRICS)
+}
+
+/**
+ * Series per metric, each sorted from oldest to newest fiscal year
+ */
+export type HistorySeries = Record<HistoryMetric, HistoryPoint[]>;
+
+/**
+ * Financial history of one company
+ */
+export interface FinancialHistory {
+  symbol: string;
+  dataSource: string;
+  series: HistorySeries;
+}
+
+/**
+ * Create a series map with no data points
+ */
+export function emptyHistorySeries(): HistorySeries {
+  return Object.fromEntries(HISTORY_METRICS.map((metric) => [metric, []])) as unknown as HistorySeries;
+}
+
+/**
+ * Build a series map from per-year records
+ * @param records One record per fiscal year with values in raw units (JPY)
+ * @returns Series in million JPY (per-share metrics in JPY) sorted from oldest to newest, skipping missing values
+ */
+export function buildHistorySeries(
+  records: { endDate: string; values: Partial<Record<HistoryMetric, number | null | undefined>> }[]
+): HistorySeries {
+  const series = emptyHistorySeries();
+  const sorted = [...records].sort((a, b) => a.endDate.localeCompare(b.endDate));
+
+  for (const record of sorted) {
+    for (const metric of HISTORY_METRICS) {
+      const value = record.values[metric];
+      if (value != null && !Number.isNaN(value)) {
+        series[metric].push({
+          endDate: record.endDate,
+          value: PER_SHARE_METRICS.includes(metric) ? value : Math.round(value / 1000000),
+        });
+      }
+    }
+  }
+
+  return series;
+}
+
+/**
+ * List fiscal year end dates found in any series, newest first
+ */
+export function listFiscalYears(series: HistorySeries): string[] {
+  const dates = new Set(HISTORY_METRICS.flatMap((metric) => series[metric].map((point) => point.endDate)));
+  return [...dates].sort((a, b) => b.localeCompare(a));
+}
+
+/**
+ * Find the value of a metric for a fiscal year
+ * @returns Value in million JPY (JPY for per-share metrics), or null when the year is not reported
+ */
+export function findHistoryValue(series: HistorySeries, metric: HistoryMetric, endDate: string): number | null {
+  return series[metric].find((point) => point.endDate === endDate)?.value ?? null;
+}
+
+/**
+ * Number of whole years between two fiscal year end dates
+ */
+export function yearsBetween(fromEndDate: string, toEndDate: string): number {
+  const days = (new Date(toEndDate).getTime() - new Date(fromEndDate).getTime()) / (1000 * 60 * 60 * 24);
+  return Math.round(days / 365.25);
+}
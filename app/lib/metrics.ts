@@ -0,0 +1,645 @@
+import type { FinancialData } from '../components/company-search';
+import {
+  calculateAccrualRatio,
+  calculateAltmanZ,
+  calculateCAGR,
+  calculateCapExRatio,
+  calculateCurrentRatio,
+  calculateDERatio,
+  calculateDividendYield,
+  calculateEnterpriseValue,
+  calculateEquityRatio,
+  calculateEVEBITDA,
+  calculateEVSales,
+  calculateFCFMargin,
+  calculateFCFYield,
+  calculateInterestCoverage,
+  calculateNetCashRatio,
+  calculateNetDERatio,
+  calculateOperatingCFMargin,
+  calculateOperatingMargin,
+  calculatePBR,
+  calculatePER,
+  calculatePiotroskiFScore,
+  calculatePSR,
+  calculateQuickRatio,
+  calculateROA,
+  calculateROE,
+  getAccrualRatioJudgment,
+  getAltmanZJudgment,
+  getCapExRatioJudgment,
+  getCurrentRatioJudgment,
+  getDERatioJudgment,
+  getDividendYieldJudgment,
+  getEPSGrowthJudgment,
+  getEquityRatioJudgment,
+  getEVEBITDAJudgment,
+  getEVSalesJudgment,
+  getFCFMarginJudgment,
+  getFCFYieldJudgment,
+  getInterestCoverageJudgment,
+  getNetCashRatioJudgment,
+  getNetDERatioJudgment,
+  getOperatingCFMarginJudgment,
+  getOperatingIncomeGrowthJudgment,
+  getOperatingMarginJudgment,
+  getPBRJudgment,
+  getPERJudgment,
+  getPiotroskiJudgment,
+  getPSRJudgment,
+  getQuickRatioJudgment,
+  getRevenueGrowthJudgment,
+  getROAJudgment,
+  getROEJudgment,
+  JudgmentMetric,
+  JudgmentThresholds,
+  PiotroskiYear,
+} from '../utils/financial';
+import { Benchmark, getSectorBenchmark, SectorCode } from './sectors';
+import { yearsBetween } from './history';
+
+/**
+ * Metric registry
+ * Computes each calculator metric straight from FinancialData so pages that
+ * handle many companies (screener, comparisons) judge them the same way
+ */
+
+/**
+ * Analysis stages in the order of the dashboard flow
+ */
+export type MetricStage = 'growth' | 'profitability' | 'safety' | 'valuation' | 'cashflow';
+
+export const METRIC_STAGE_LABELS: Record<MetricStage, string> = {
+  growth: '成長性',
+  profitability: '収益性',
+  safety: '安全性',
+  valuation: '割安性',
+  cashflow: 'キャッシュフロー',
+};
+
+export type MetricId = JudgmentMetric;
+
+/**
+ * Fields shared by every get*Judgment result
+ */
+export interface MetricJudgment {
+  level: string;
+  borderColor: string;
+  textColor: string;
+  darkTextColor: string;
+  title: string;
+  description: string;
+}
+
+export interface MetricDefinition {
+  id: MetricId;
+  label: string;
+  stage: MetricStage;
+  unit: '倍' | '%' | '点' | '';
+  digits: number;
+  /**
+   * Whether a lower value is the better one (used for best/worst ranking)
+   */
+  lowerIsBetter: boolean;
+  /**
+   * Values spanning every judgment band, used to list the judgment options
+   */
+  sampleValues: number[];
+  /**
+   * Compute the metric with the same input guards as the calculator
+   * @returns Metric value, or null when the inputs are missing or out of range
+   */
+  compute: (data: FinancialData) => number | null;
+  judge: (value: number, thresholds?: JudgmentThresholds) => MetricJudgment;
+}
+
+// Parse a FinancialData field; empty or missing values become NaN
+const num = (value: string | undefined) => (value ? Number(value) : NaN);
+
+// Years assumed between the *CurrentYear and *FourYearsAgo fields when their fiscal years are not given
+const SNAPSHOT_GROWTH_YEARS = 4;
+
+/**
+ * Years between the fiscal years the snapshot growth fields compare
+ * Providers often hold fewer than four older years, so the dates are used when known
+ */
+export function snapshotGrowthYears(data: FinancialData): number {
+  if (!data.currentYearEnd || !data.pastYearEnd) return SNAPSHOT_GROWTH_YEARS;
+  const years = yearsBetween(data.pastYearEnd, data.currentYearEnd);
+  return years > 0 ? years : SNAPSHOT_GROWTH_YEARS;
+}
+
+// CAGR over the snapshot window, null unless both ends are positive
+const snapshotCAGR = (data: FinancialData, current: string | undefined, past: string | undefined) =>
+  num(current) > 0 && num(past) > 0 ? calculateCAGR(num(current), num(past), snapshotGrowthYears(data)) : null;
+
+// EV needs market cap, debt and cash; NaN when any of them is missing
+const enterpriseValue = (data: FinancialData) =>
+  calculateEnterpriseValue(num(data.marketCap), num(data.totalDebt), num(data.totalCash));
+
+const PIOTROSKI_ITEMS: (keyof PiotroskiYear)[] = [
+  'revenue',
+  'grossProfit',
+  'netIncome',
+  'operatingCashflow',
+  'totalAssets',
+  'longTermDebt',
+  'currentAssets',
+  'currentLiabilities',
+];
+
+// One fiscal year of Piotroski inputs from the *CurrentYear or *PriorYear fields; null when any is missing
+const piotroskiYear = (data: FinancialData, prior: boolean): PiotroskiYear | null => {
+  const entries = PIOTROSKI_ITEMS.map((item) => {
+    const field = `${item}${prior ? 'PriorYear' : 'CurrentYear'}` as keyof FinancialData;
+    return [item, num(data[field])] as const;
+  });
+  return entries.some(([, value]) => isNaN(value)) ? null : (Object.fromEntries(entries) as unknown as PiotroskiYear);
+};
+
+export const METRICS: MetricDefinition[] = [
+  {
+    id: 'psr',
+    label: 'PSR',
+    stage: 'growth',
+    unit: '倍',
+    digits: 2,
+    lowerIsBetter: true,
+    sampleValues: [0.5, 1.5, 3, 6],
+    compute: (data) => {
+      const marketCap = num(data.marketCap);
+      const revenue = num(data.revenue);
+      return marketCap > 0 && revenue > 0 ? calculatePSR(marketCap, revenue) : null;
+    },
+    judge: getPSRJudgment,
+  },
+  {
+    id: 'capexRatio',
+    label: '設備投資比率',
+    stage: 'growth',
+    unit: '倍',
+    digits: 2,
+    lowerIsBetter: false,
+    sampleValues: [2, 1.2, 0.8, 0.5],
+    compute: (data) => {
+      const capex = num(data.capex);
+      const depreciation = num(data.depreciation);
+      return capex > 0 && depreciation > 0 ? calculateCapExRatio(capex, depreciation) : null;
+    },
+    judge: getCapExRatioJudgment,
+  },
+  {
+    id: 'revenueGrowth',
+    label: '売上高成長率（CAGR）',
+    stage: 'growth',
+    unit: '%',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [15, 7, 2, -5],
+    compute: (data) => snapshotCAGR(data, data.revenueCurrentYear, data.revenueFourYearsAgo),
+    judge: getRevenueGrowthJudgment,
+  },
+  {
+    id: 'operatingIncomeGrowth',
+    label: '営業利益成長率（CAGR）',
+    stage: 'growth',
+    unit: '%',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [20, 10, 3, -5],
+    compute: (data) => snapshotCAGR(data, data.operatingIncomeCurrentYear, data.operatingIncomeFourYearsAgo),
+    judge: getOperatingIncomeGrowthJudgment,
+  },
+  {
+    id: 'epsGrowth',
+    label: 'EPS成長率（CAGR）',
+    stage: 'growth',
+    unit: '%',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [20, 10, 3, -5],
+    compute: (data) => snapshotCAGR(data, data.epsCurrentYear, data.epsFourYearsAgo),
+    judge: getEPSGrowthJudgment,
+  },
+  {
+    id: 'roe',
+    label: 'ROE',
+    stage: 'profitability',
+    unit: '%',
+    digits: 2,
+    lowerIsBetter: false,
+    sampleValues: [20, 12, 7, 2],
+    compute: (data) => {
+      const netIncome = num(data.netIncome);
+      const equity = num(data.equity);
+      // Losses give a negative ROE so they are judged, not skipped
+      return !Number.isNaN(netIncome) && equity > 0 ? calculateROE(netIncome, equity) : null;
+    },
+    judge: getROEJudgment,
+  },
+  {
+    id: 'roa',
+    label: 'ROA',
+    stage: 'profitability',
+    unit: '%',
+    digits: 2,
+    lowerIsBetter: false,
+    sampleValues: [12, 7, 3, 1],
+    compute: (data) => {
+      const netIncome = num(data.netIncome);
+      const totalAssets = num(data.totalAssets);
+      return !Number.isNaN(netIncome) && totalAssets > 0 ? calculateROA(netIncome, totalAssets) : null;
+    },
+    judge: getROAJudgment,
+  },
+  {
+    id: 'operatingMargin',
+    label: '営業利益率',
+    stage: 'profitability',
+    unit: '%',
+    digits: 2,
+    lowerIsBetter: false,
+    sampleValues: [25, 15, 7, 2],
+    compute: (data) => {
+      const operatingIncome = num(data.operatingIncome);
+      const revenue = num(data.revenue);
+      return !Number.isNaN(operatingIncome) && revenue > 0 ? calculateOperatingMargin(operatingIncome, revenue) : null;
+    },
+    judge: getOperatingMarginJudgment,
+  },
+  {
+    id: 'piotroskiScore',
+    label: 'Piotroski Fスコア',
+    stage: 'profitability',
+    unit: '点',
+    digits: 0,
+    lowerIsBetter: false,
+    sampleValues: [9, 7, 4, 1],
+    compute: (data) => {
+      const current = piotroskiYear(data, false);
+      const prior = piotroskiYear(data, true);
+      const stockIssuance = num(data.stockIssuance);
+      const valid = (year: PiotroskiYear | null): year is PiotroskiYear =>
+        year !== null && year.totalAssets > 0 && year.currentLiabilities > 0 && year.revenue > 0;
+      return valid(current) && valid(prior) && !isNaN(stockIssuance)
+        ? calculatePiotroskiFScore(current, prior, stockIssuance).score
+        : null;
+    },
+    judge: getPiotroskiJudgment,
+  },
+  {
+    id: 'currentRatio',
+    label: '流動比率',
+    stage: 'safety',
+    unit: '%',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [250, 170, 120, 80],
+    compute: (data) => {
+      const currentAssets = num(data.currentAssets);
+      const currentLiabilities = num(data.currentLiabilities);
+      return currentAssets > 0 && currentLiabilities > 0
+        ? calculateCurrentRatio(currentAssets, currentLiabilities)
+        : null;
+    },
+    judge: getCurrentRatioJudgment,
+  },
+  {
+    id: 'equityRatio',
+    label: '自己資本比率',
+    stage: 'safety',
+    unit: '%',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [60, 45, 30, 10],
+    compute: (data) => {
+      const equity = num(data.equity);
+      const totalAssets = num(data.totalAssets);
+      return equity > 0 && totalAssets > 0 ? calculateEquityRatio(equity, totalAssets) : null;
+    },
+    judge: getEquityRatioJudgment,
+  },
+  {
+    id: 'quickRatio',
+    label: '当座比率',
+    stage: 'safety',
+    unit: '%',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [200, 120, 80, 50],
+    compute: (data) => {
+      const quickAssets = num(data.quickAssets);
+      const currentLiabilities = num(data.currentLiabilities);
+      return quickAssets > 0 && currentLiabilities > 0 ? calculateQuickRatio(quickAssets, currentLiabilities) : null;
+    },
+    judge: getQuickRatioJudgment,
+  },
+  {
+    id: 'debtToEquity',
+    label: 'D/Eレシオ',
+    stage: 'safety',
+    unit: '倍',
+    digits: 2,
+    lowerIsBetter: true,
+    sampleValues: [0.2, 0.7, 1.5, 3],
+    compute: (data) => {
+      const totalDebt = num(data.totalDebt);
+      const equity = num(data.equity);
+      return totalDebt >= 0 && equity > 0 ? calculateDERatio(totalDebt, equity) : null;
+    },
+    judge: getDERatioJudgment,
+  },
+  {
+    id: 'netDebtToEquity',
+    label: 'ネットD/Eレシオ',
+    stage: 'safety',
+    unit: '倍',
+    digits: 2,
+    lowerIsBetter: true,
+    sampleValues: [-0.3, 0.3, 0.8, 1.5],
+    compute: (data) => {
+      const totalDebt = num(data.totalDebt);
+      const totalCash = num(data.totalCash);
+      const equity = num(data.equity);
+      return totalDebt >= 0 && totalCash >= 0 && equity > 0 ? calculateNetDERatio(totalDebt, totalCash, equity) : null;
+    },
+    judge: getNetDERatioJudgment,
+  },
+  {
+    id: 'interestCoverage',
+    label: 'インタレスト・カバレッジ',
+    stage: 'safety',
+    unit: '倍',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [20, 7, 3, 1],
+    compute: (data) => {
+      const ebit = num(data.ebit);
+      const interestExpense = num(data.interestExpense);
+      return !isNaN(ebit) && interestExpense > 0 ? calculateInterestCoverage(ebit, interestExpense) : null;
+    },
+    judge: getInterestCoverageJudgment,
+  },
+  {
+    id: 'altmanZ',
+    label: 'Altman Zスコア',
+    stage: 'safety',
+    unit: '',
+    digits: 2,
+    lowerIsBetter: false,
+    sampleValues: [3.5, 2.8, 2, 1],
+    compute: (data) => {
+      const currentAssets = num(data.currentAssets);
+      const currentLiabilities = num(data.currentLiabilities);
+      const retainedEarnings = num(data.retainedEarnings);
+      const ebit = num(data.ebit);
+      const marketCap = num(data.marketCap);
+      const totalLiabilities = num(data.totalLiabilities);
+      const revenue = num(data.revenue);
+      const totalAssets = num(data.totalAssets);
+      const complete = [currentAssets, currentLiabilities, retainedEarnings, ebit].every((value) => !isNaN(value));
+      return complete && marketCap > 0 && totalLiabilities > 0 && revenue > 0 && totalAssets > 0
+        ? calculateAltmanZ({
+            workingCapital: currentAssets - currentLiabilities,
+            retainedEarnings,
+            ebit,
+            marketCap,
+            totalLiabilities,
+            revenue,
+            totalAssets,
+          }).score
+        : null;
+    },
+    judge: getAltmanZJudgment,
+  },
+  {
+    id: 'per',
+    label: 'PER',
+    stage: 'valuation',
+    unit: '倍',
+    digits: 1,
+    lowerIsBetter: true,
+    sampleValues: [5, 15, 25, 40],
+    compute: (data) => {
+      const marketCap = num(data.marketCap);
+      const netIncome = num(data.netIncome);
+      return marketCap > 0 && netIncome > 0 ? calculatePER(marketCap, netIncome) : null;
+    },
+    judge: getPERJudgment,
+  },
+  {
+    id: 'pbr',
+    label: 'PBR',
+    stage: 'valuation',
+    unit: '倍',
+    digits: 2,
+    lowerIsBetter: true,
+    sampleValues: [0.7, 1.5, 2.5, 4],
+    compute: (data) => {
+      const marketCap = num(data.marketCap);
+      const equity = num(data.equity);
+      return marketCap > 0 && equity > 0 ? calculatePBR(marketCap, equity) : null;
+    },
+    judge: getPBRJudgment,
+  },
+  {
+    id: 'dividendYield',
+    label: '配当利回り',
+    stage: 'valuation',
+    unit: '%',
+    digits: 2,
+    lowerIsBetter: false,
+    sampleValues: [5, 3, 1.5, 0.5],
+    compute: (data) => {
+      const annualDividend = num(data.annualDividend);
+      const stockPrice = num(data.stockPrice);
+      return annualDividend >= 0 && stockPrice > 0 ? calculateDividendYield(annualDividend, stockPrice) : null;
+    },
+    judge: getDividendYieldJudgment,
+  },
+  {
+    id: 'evEbitda',
+    label: 'EV/EBITDA',
+    stage: 'valuation',
+    unit: '倍',
+    digits: 1,
+    lowerIsBetter: true,
+    sampleValues: [4, 8, 12, 20],
+    compute: (data) => {
+      const ev = enterpriseValue(data);
+      const ebitda = num(data.ebitda);
+      return num(data.marketCap) > 0 && !isNaN(ev) && ebitda > 0 ? calculateEVEBITDA(ev, ebitda) : null;
+    },
+    judge: getEVEBITDAJudgment,
+  },
+  {
+    id: 'evSales',
+    label: 'EV/売上高',
+    stage: 'valuation',
+    unit: '倍',
+    digits: 2,
+    lowerIsBetter: true,
+    sampleValues: [0.5, 1.5, 3, 6],
+    compute: (data) => {
+      const ev = enterpriseValue(data);
+      const revenue = num(data.revenue);
+      return num(data.marketCap) > 0 && !isNaN(ev) && revenue > 0 ? calculateEVSales(ev, revenue) : null;
+    },
+    judge: getEVSalesJudgment,
+  },
+  {
+    id: 'netCashRatio',
+    label: 'ネットキャッシュ比率',
+    stage: 'valuation',
+    unit: '%',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [80, 30, 10, -20],
+    compute: (data) => {
+      const marketCap = num(data.marketCap);
+      const totalCash = num(data.totalCash);
+      const totalDebt = num(data.totalDebt);
+      return marketCap > 0 && totalCash >= 0 && totalDebt >= 0
+        ? calculateNetCashRatio(totalCash, totalDebt, marketCap)
+        : null;
+    },
+    judge: getNetCashRatioJudgment,
+  },
+  {
+    id: 'operatingCfMargin',
+    label: '営業CFマージン',
+    stage: 'cashflow',
+    unit: '%',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [20, 12, 7, 0],
+    compute: (data) => {
+      const operatingCashflow = num(data.operatingCashflow);
+      const revenue = num(data.revenue);
+      return !isNaN(operatingCashflow) && revenue > 0 ? calculateOperatingCFMargin(operatingCashflow, revenue) : null;
+    },
+    judge: getOperatingCFMarginJudgment,
+  },
+  {
+    id: 'fcfMargin',
+    label: 'FCFマージン',
+    stage: 'cashflow',
+    unit: '%',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [15, 7, 2, -5],
+    compute: (data) => {
+      const freeCashflow = num(data.freeCashflow);
+      const revenue = num(data.revenue);
+      return !isNaN(freeCashflow) && revenue > 0 ? calculateFCFMargin(freeCashflow, revenue) : null;
+    },
+    judge: getFCFMarginJudgment,
+  },
+  {
+    id: 'fcfYield',
+    label: 'FCF利回り',
+    stage: 'cashflow',
+    unit: '%',
+    digits: 1,
+    lowerIsBetter: false,
+    sampleValues: [10, 6, 3, 0],
+    compute: (data) => {
+      const freeCashflow = num(data.freeCashflow);
+      const marketCap = num(data.marketCap);
+      return !isNaN(freeCashflow) && marketCap > 0 ? calculateFCFYield(freeCashflow, marketCap) : null;
+    },
+    judge: getFCFYieldJudgment,
+  },
+  {
+    id: 'accrualRatio',
+    label: '営業CF/純利益',
+    stage: 'cashflow',
+    unit: '倍',
+    digits: 2,
+    lowerIsBetter: false,
+    sampleValues: [1.5, 1.1, 0.9, 0.5],
+    compute: (data) => {
+      const operatingCashflow = num(data.operatingCashflow);
+      const netIncome = num(data.netIncome);
+      return !isNaN(operatingCashflow) && netIncome > 0 ? calculateAccrualRatio(operatingCashflow, netIncome) : null;
+    },
+    judge: getAccrualRatioJudgment,
+  },
+];
+
+/**
+ * Look up a metric definition by id
+ */
+export function getMetric(id: MetricId): MetricDefinition {
+  const metric = METRICS.find((m) => m.id === id);
+  if (!metric) {
+    throw new Error(`Unknown metric: ${id}`);
+  }
+  return metric;
+}
+
+/**
+ * Absolute (market-wide) verdict together with the sector-relative verdict
+ */
+export interface BenchmarkedJudgment {
+  absolute: MetricJudgment;
+  relative: MetricJudgment;
+  benchmark: Benchmark;
+}
+
+/**
+ * Judge a value against both the market-wide and the sector cut-offs
+ * @param sector TSE sector of the company, or null when unknown
+ * @param thresholds Market-wide cut-offs (the active profile's, by default the standard ones)
+ */
+export function judgeWithBenchmark(
+  metric: MetricDefinition,
+  value: number,
+  sector: SectorCode | null,
+  thresholds?: JudgmentThresholds
+): BenchmarkedJudgment {
+  const benchmark = getSectorBenchmark(metric.id, sector, thresholds);
+  return {
+    absolute: metric.judge(value, thresholds),
+    relative: metric.judge(value, benchmark.thresholds),
+    benchmark,
+  };
+}
+
+/**
+ * Format a metric value with its unit (e.g. 12.3倍, 8.50%)
+ */
+export function formatMetricValue(metric: MetricDefinition, value: number): string {
+  return `${value.toFixed(metric.digits)}${metric.unit}`;
+}
+
+/**
+ * Judgment options of a metric, one per level, from best band to worst
+ */
+export function listJudgmentOptions(metric: MetricDefinition): { level: string; title: string }[] {
+  const options = new Map<string, string>();
+  for (const value of metric.sampleValues) {
+    const judgment = metric.judge(value);
+    if (!options.has(judgment.level)) options.set(judgment.level, judgment.title);
+  }
+  return [...options].map(([level, title]) => ({ level, title }));
+}
+
+/**
+ * Positions of the best and worst values of a metric across companies
+ * @param values One value per company (null when not computable)
+ * @returns Indexes of the best and worst values, or null with fewer than two values
+ */
+export function findBestAndWorst(
+  metric: MetricDefinition,
+  values: (number | null)[]
+): { best: number; worst: number } | null {
+  const present = values
+    .map((value, index) => ({ value, index }))
+    .filter((entry): entry is { value: number; index: number } => entry.value !== null);
+  if (present.length < 2) return null;
+
+  const sorted = [...present].sort((a, b) => (metric.lowerIsBetter ? a.value - b.value : b.value - a.value));
+  if (sorted[0].value === sorted[sorted.length - 1].value) return null;
+  return { best: sorted[0].index, worst: sorted[sorted.length - 1].index };
+}
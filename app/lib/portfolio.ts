@@ -0,0 +1,189 @@
+import type { FinancialData } from '../components/company-search';
+import { getMetric } from './metrics';
+
+/**
+ * Portfolio model
+ * Holdings are valued with the fetched stock price, and the portfolio PER / PBR /
+ * dividend yield are averages of each holding's metric weighted by market value
+ */
+
+export type AccountType = 'tokutei' | 'nisa';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  tokutei: '特定口座',
+  nisa: 'NISA',
+};
+
+/**
+ * Tax withheld on dividends in a 特定口座 (所得税・復興特別所得税 15.315% + 住民税 5%); NISA is tax-free
+ */
+export const TAXABLE_ACCOUNT_TAX_RATE = 0.20315;
+
+/**
+ * Shares per trading unit (単元株), 100 for every TSE stock
+ */
+export const SHARE_UNIT = 100;
+
+export interface Holding {
+  id: number;
+  code: string;
+  shares: number;
+  /**
+   * Average acquisition price per share in JPY
+   */
+  acquisitionPrice: number;
+  account: AccountType;
+}
+
+/**
+ * Split a share count into trading units and odd-lot shares (単元未満株)
+ */
+export function splitShareUnits(shares: number): { units: number; oddLot: number } {
+  return { units: Math.floor(shares / SHARE_UNIT), oddLot: shares % SHARE_UNIT };
+}
+
+/**
+ * One holding valued with its company data; amounts in JPY
+ * Values that need company data are null until it is fetched
+ */
+export interface HoldingValuation {
+  holding: Holding;
+  costBasis: number;
+  marketValue: number | null;
+  unrealizedGain: number | null;
+  unrealizedGainPercent: number | null;
+  /**
+   * Projected annual dividends before tax
+   */
+  annualDividend: number | null;
+  /**
+   * Projected annual dividends after the account's tax
+   */
+  annualDividendAfterTax: number | null;
+  per: number | null;
+  pbr: number | null;
+  dividendYield: number | null;
+}
+
+// Parse a FinancialData field; empty or missing values become NaN
+const num = (value: string | undefined) => (value ? Number(value) : NaN);
+
+/**
+ * Value a holding
+ * @param data Company data of the holding, null while it is not fetched
+ */
+export function valueHolding(holding: Holding, data: FinancialData | null): HoldingValuation {
+  const costBasis = holding.shares * holding.acquisitionPrice;
+  const stockPrice = data ? num(data.stockPrice) : NaN;
+  const dividendPerShare = data ? num(data.annualDividend) : NaN;
+
+  const marketValue = stockPrice > 0 ? holding.shares * stockPrice : null;
+  const unrealizedGain = marketValue !== null ? marketValue - costBasis : null;
+  const annualDividend = dividendPerShare >= 0 ? holding.shares * dividendPerShare : null;
+  const taxRate = holding.account === 'nisa' ? 0 : TAXABLE_ACCOUNT_TAX_RATE;
+
+  return {
+    holding,
+    costBasis,
+    marketValue,
+    unrealizedGain,
+    unrealizedGainPercent: unrealizedGain !== null && costBasis > 0 ? (unrealizedGain / costBasis) * 100 : null,
+    annualDividend,
+    annualDividendAfterTax: annualDividend !== null ? annualDividend * (1 - taxRate) : null,
+    per: data ? getMetric('per').compute(data) : null,
+    pbr: data ? getMetric('pbr').compute(data) : null,
+    dividendYield: data ? getMetric('dividendYield').compute(data) : null,
+  };
+}
+
+/**
+ * Average of values weighted by market value, over the holdings that have both
+ * @returns The average, or null when no holding has the value
+ */
+export function weightedAverage(items: { value: number | null; weight: number | null }[]): number | null {
+  const usable = items.filter(
+    (item): item is { value: number; weight: number } => item.value !== null && item.weight !== null && item.weight > 0
+  );
+  const totalWeight = usable.reduce((sum, item) => sum + item.weight, 0);
+  return totalWeight > 0 ? usable.reduce((sum, item) => sum + item.value * item.weight, 0) / totalWeight : null;
+}
+
+export interface PortfolioSummary {
+  costBasis: number;
+  /**
+   * Market value of the priced holdings
+   */
+  marketValue: number;
+  /**
+   * Gain of the priced holdings against their own cost basis
+   */
+  unrealizedGain: number;
+  unrealizedGainPercent: number | null;
+  annualDividend: number;
+  annualDividendAfterTax: number;
+  per: number | null;
+  pbr: number | null;
+  dividendYield: number | null;
+  /**
+   * Holdings without a stock price, left out of the market value and averages
+   */
+  unpricedCount: number;
+}
+
+/**
+ * Combine holding valuations into portfolio totals and weighted averages
+ */
+export function summarizePortfolio(valuations: HoldingValuation[]): PortfolioSummary {
+  const priced = valuations.filter((v) => v.marketValue !== null);
+  const pricedCost = priced.reduce((sum, v) => sum + v.costBasis, 0);
+  const unrealizedGain = priced.reduce((sum, v) => sum + v.unrealizedGain!, 0);
+  const weighted = (metric: 'per' | 'pbr' | 'dividendYield') =>
+    weightedAverage(valuations.map((v) => ({ value: v[metric], weight: v.marketValue })));
+
+  return {
+    costBasis: valuations.reduce((sum, v) => sum + v.costBasis, 0),
+    marketValue: priced.reduce((sum, v) => sum + v.marketValue!, 0),
+    unrealizedGain,
+    unrealizedGainPercent: pricedCost > 0 ? (unrealizedGain / pricedCost) * 100 : null,
+    annualDividend: valuations.reduce((sum, v) => sum + (v.annualDividend ?? 0), 0),
+    annualDividendAfterTax: valuations.reduce((sum, v) => sum + (v.annualDividendAfterTax ?? 0), 0),
+    per: weighted('per'),
+    pbr: weighted('pbr'),
+    dividendYield: weighted('dividendYield'),
+    unpricedCount: valuations.length - priced.length,
+  };
+}
+
+const HOLDINGS_STORAGE_KEY = 'portfolio-holdings';
+
+const isHolding = (value: unknown): value is Holding => {
+  if (!value || typeof value !== 'object') return false;
+  const holding = value as Partial<Holding>;
+  return (
+    typeof holding.id === 'number' &&
+    typeof holding.code === 'string' &&
+    typeof holding.shares === 'number' &&
+    typeof holding.acquisitionPrice === 'number' &&
+    (holding.account === 'tokutei' || holding.account === 'nisa')
+  );
+};
+
+/**
+ * Load holdings from localStorage
+ */
+export function loadHoldings(): Holding[] {
+  try {
+    const stored = window.localStorage.getItem(HOLDINGS_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isHolding) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persist holdings to localStorage
+ */
+export function storeHoldings(holdings: Holding[]): void {
+  window.localStorage.setItem(HOLDINGS_STORAGE_KEY, JSON.stringify(holdings));
+}
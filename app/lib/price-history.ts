@@ -0,0 +1,186 @@
+/**
+ * Stock price history model
+ * OHLCV bars returned by GET /api/edinet/[code]/prices, adjusted for stock splits
+ * so prices before and after a split are comparable
+ */
+
+export type PriceInterval = '1d' | '1wk' | '1mo';
+
+export const PRICE_INTERVAL_LABELS: Record<PriceInterval, string> = {
+  '1d': '日足',
+  '1wk': '週足',
+  '1mo': '月足',
+};
+
+export type PriceRange = '1M' | '3M' | '6M' | '1Y' | '3Y' | '5Y' | '10Y';
+
+/**
+ * Selectable chart ranges with the bar interval used by default
+ */
+export const PRICE_RANGES: Record<PriceRange, { label: string; months: number; interval: PriceInterval }> = {
+  '1M': { label: '1ヶ月', months: 1, interval: '1d' },
+  '3M': { label: '3ヶ月', months: 3, interval: '1d' },
+  '6M': { label: '6ヶ月', months: 6, interval: '1d' },
+  '1Y': { label: '1年', months: 12, interval: '1d' },
+  '3Y': { label: '3年', months: 36, interval: '1wk' },
+  '5Y': { label: '5年', months: 60, interval: '1wk' },
+  '10Y': { label: '10年', months: 120, interval: '1mo' },
+};
+
+/**
+ * Moving-average windows (in bars) offered per interval, following the usual
+ * Japanese chart settings (25/75-day, 13/26-week, 12/24-month)
+ */
+export const MOVING_AVERAGE_WINDOWS: Record<PriceInterval, number[]> = {
+  '1d': [5, 25, 75],
+  '1wk': [13, 26, 52],
+  '1mo': [12, 24, 60],
+};
+
+/**
+ * One bar; prices in JPY, adjusted for splits
+ */
+export interface PriceBar {
+  date: string; // YYYY-MM-DD, first trading day of the bar
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Stock split; ratio is new shares per old share (2 for a 1:2 split)
+ */
+export interface StockSplit {
+  date: string;
+  ratio: number;
+}
+
+/**
+ * Price history of one company
+ */
+export interface PriceHistory {
+  symbol: string;
+  dataSource: string;
+  interval: PriceInterval;
+  bars: PriceBar[];
+  splits: StockSplit[];
+}
+
+/**
+ * Parse ?range= into a chart range
+ * @returns The range (1Y when empty), or null for an unknown value
+ */
+export function parsePriceRange(value: string | null): PriceRange | null {
+  if (!value) return '1Y';
+  return value in PRICE_RANGES ? (value as PriceRange) : null;
+}
+
+/**
+ * Parse ?interval= into a bar interval
+ * @returns The interval (the range's default when empty), or null for an unknown value
+ */
+export function parsePriceInterval(value: string | null, range: PriceRange): PriceInterval | null {
+  if (!value) return PRICE_RANGES[range].interval;
+  return value in PRICE_INTERVAL_LABELS ? (value as PriceInterval) : null;
+}
+
+/**
+ * First date covered by a range
+ */
+export function rangeStart(range: PriceRange, now: Date = new Date()): Date {
+  const start = new Date(now);
+  start.setMonth(start.getMonth() - PRICE_RANGES[range].months);
+  return start;
+}
+
+/**
+ * Adjust raw prices for splits: bars before a split are divided by its ratio
+ * (volumes multiplied) so the whole series is in post-split shares
+ * @param bars Unadjusted bars sorted from oldest to newest
+ */
+export function adjustForSplits(bars: PriceBar[], splits: StockSplit[]): PriceBar[] {
+  return bars.map((bar) => {
+    const factor = splits
+      .filter((split) => split.ratio > 0 && bar.date < split.date)
+      .reduce((product, split) => product * split.ratio, 1);
+    if (factor === 1) return bar;
+
+    return {
+      ...bar,
+      open: bar.open / factor,
+      high: bar.high / factor,
+      low: bar.low / factor,
+      close: bar.close / factor,
+      volume: bar.volume * factor,
+    };
+  });
+}
+
+// Key of the week (its Monday) or month a date falls in
+const periodKey = (date: string, interval: PriceInterval) => {
+  if (interval === '1mo') return date.slice(0, 7);
+  if (interval === '1d') return date;
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+};
+
+/**
+ * Combine daily bars into weekly or monthly bars
+ * @param bars Daily bars sorted from oldest to newest
+ */
+export function resampleBars(bars: PriceBar[], interval: PriceInterval): PriceBar[] {
+  if (interval === '1d') return bars;
+
+  const resampled: PriceBar[] = [];
+  let currentKey: string | null = null;
+  for (const bar of bars) {
+    const key = periodKey(bar.date, interval);
+    const last = resampled[resampled.length - 1];
+    if (key === currentKey && last) {
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+      last.volume += bar.volume;
+    } else {
+      resampled.push({ ...bar });
+      currentKey = key;
+    }
+  }
+  return resampled;
+}
+
+/**
+ * Simple moving average of closing prices
+ * @returns One value per bar, null until `window` bars are available
+ */
+export function movingAverage(bars: PriceBar[], window: number): (number | null)[] {
+  let sum = 0;
+  return bars.map((bar, index) => {
+    sum += bar.close;
+    if (index >= window) sum -= bars[index - window].close;
+    return index >= window - 1 ? sum / window : null;
+  });
+}
+
+/**
+ * Fiscal year-end dates between two dates, one a year apart from the latest known one
+ * @param fiscalPeriodEnd Latest fiscal year-end (YYYY-MM-DD)
+ */
+export function fiscalYearEnds(fiscalPeriodEnd: string, from: string, to: string): string[] {
+  const latest = new Date(`${fiscalPeriodEnd.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(latest.getTime())) return [];
+
+  const ends: string[] = [];
+  const firstYear = Number(from.slice(0, 4)) - 1;
+  const lastYear = Number(to.slice(0, 4)) + 1;
+  for (let year = firstYear; year <= lastYear; year++) {
+    const end = new Date(latest);
+    end.setUTCFullYear(year);
+    const date = end.toISOString().slice(0, 10);
+    if (date >= from && date <= to) ends.push(date);
+  }
+  return ends;
+}
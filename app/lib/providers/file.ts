@@ -0,0 +1,250 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FinancialData, FinancialDataProvenance } from '../../components/company-search';
+import { CompanyData, CompanyNotFoundError, DataProvider, FetchPriceHistoryOptions } from './types';
+import { emptyHistorySeries, FinancialHistory, HISTORY_METRICS, HistoryPoint, HistorySeries } from '../history';
+import { adjustForSplits, PriceBar, PriceHistory, resampleBars, StockSplit } from '../price-history';
+import { FINANCIAL_DATA_FIELDS } from '../financial-data-fields';
+import { findSector } from '../sectors';
+import { annualPeriodLabel } from '../reporting-period';
+import { isSecuritiesCode } from '../securities-code';
+
+/**
+ * Local file data provider
+ * Reads hand-maintained company data from JSON or CSV files:
+ * - <code>.json: { companyName, fiscalPeriodEnd, sector, financialData: { revenue, ... }, history? }
+ *   history: { revenue: [{ endDate, value }], ... } in the /history response format
+ *   prices: [{ date, open, high, low, close, volume }] daily and unadjusted, splits: [{ date, ratio }]
+ * - companies.csv: header row with a "code" column plus FinancialData field names
+ * sector is a TSE 33-sector code or name (e.g. 3700 or 輸送用機器)
+ * Amounts use the same units as the API response (million JPY, price in JPY)
+ */
+
+/**
+ * Directory holding the data files
+ */
+export const FILE_DATA_DIRECTORY = process.env.COMPANY_DATA_DIR || path.join(process.cwd(), 'data', 'companies');
+
+interface CompanyFileRecord {
+  fileName: string;
+  companyName?: string;
+  fiscalPeriodEnd?: string;
+  sector?: string;
+  financialData: FinancialData;
+  history?: HistorySeries;
+  prices?: PriceBar[];
+  splits?: StockSplit[];
+}
+
+// Keep only known fields and normalize numbers to the string form used by the calculators
+// A file holds one fiscal year, so its plain fields stand in for the *CurrentYear ones it leaves out
+const CURRENT_YEAR_FIELDS: [keyof FinancialData, keyof FinancialData][] = [
+  ['revenueCurrentYear', 'revenue'],
+  ['grossProfitCurrentYear', 'grossProfit'],
+  ['netIncomeCurrentYear', 'netIncome'],
+  ['operatingCashflowCurrentYear', 'operatingCashflow'],
+  ['totalAssetsCurrentYear', 'totalAssets'],
+  ['longTermDebtCurrentYear', 'longTermDebt'],
+  ['currentAssetsCurrentYear', 'currentAssets'],
+  ['currentLiabilitiesCurrentYear', 'currentLiabilities'],
+];
+
+const pickFinancialData = (source: Record<string, unknown>): FinancialData => {
+  const data: FinancialData = {};
+  for (const field of FINANCIAL_DATA_FIELDS) {
+    const value = source[field];
+    if (value != null && String(value).trim() !== '') {
+      data[field] = String(value).replace(/,/g, '').trim();
+    }
+  }
+  for (const [field, fallback] of CURRENT_YEAR_FIELDS) {
+    if (data[field] === undefined && data[fallback] !== undefined) data[field] = data[fallback];
+  }
+  return data;
+};
+
+// Read history series given in million JPY (EPS in JPY), dropping malformed points
+const pickHistory = (source: Record<string, unknown>): HistorySeries => {
+  const series = emptyHistorySeries();
+  for (const metric of HISTORY_METRICS) {
+    const points = Array.isArray(source[metric]) ? (source[metric] as Partial<HistoryPoint>[]) : [];
+    series[metric] = points
+      .filter((point) => point.endDate && point.value != null && !Number.isNaN(Number(point.value)))
+      .map((point) => ({ endDate: String(point.endDate), value: Number(point.value) }))
+      .sort((a, b) => a.endDate.localeCompare(b.endDate));
+  }
+  return series;
+};
+
+// Read daily bars and splits, dropping malformed entries
+const pickPrices = (source: unknown): PriceBar[] =>
+  (Array.isArray(source) ? (source as Partial<Record<keyof PriceBar, unknown>>[]) : [])
+    .filter((bar) => bar.date && ['open', 'high', 'low', 'close'].every((key) => !Number.isNaN(Number(bar[key as keyof PriceBar]))))
+    .map((bar) => ({
+      date: String(bar.date).slice(0, 10),
+      open: Number(bar.open),
+      high: Number(bar.high),
+      low: Number(bar.low),
+      close: Number(bar.close),
+      volume: Number(bar.volume) || 0,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+const pickSplits = (source: unknown): StockSplit[] =>
+  (Array.isArray(source) ? (source as Partial<Record<keyof StockSplit, unknown>>[]) : [])
+    .filter((split) => split.date && Number(split.ratio) > 0)
+    .map((split) => ({ date: String(split.date).slice(0, 10), ratio: Number(split.ratio) }));
+
+// Split one CSV line, honoring double-quoted cells
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells.map((cell) => cell.trim());
+};
+
+// Path of a data file, refusing names that would resolve outside FILE_DATA_DIRECTORY
+const dataFilePath = (fileName: string): string => {
+  const directory = path.resolve(FILE_DATA_DIRECTORY);
+  const filePath = path.resolve(directory, fileName);
+  if (path.dirname(filePath) !== directory) {
+    throw new Error(`Data file outside ${directory}: ${fileName}`);
+  }
+  return filePath;
+};
+
+async function readJsonRecord(securitiesCode: string): Promise<CompanyFileRecord | null> {
+  // The code names the file, so anything but a well-formed code is simply not found
+  if (!isSecuritiesCode(securitiesCode)) return null;
+
+  try {
+    const fileName = `${securitiesCode}.json`;
+    const content = await fs.readFile(dataFilePath(fileName), 'utf-8');
+    const json = JSON.parse(content);
+    return {
+      fileName,
+      companyName: json.companyName,
+      fiscalPeriodEnd: json.fiscalPeriodEnd,
+      sector: json.sector,
+      financialData: pickFinancialData(json.financialData || json),
+      history: json.history ? pickHistory(json.history) : undefined,
+      prices: json.prices ? pickPrices(json.prices) : undefined,
+      splits: json.splits ? pickSplits(json.splits) : undefined,
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function readCsvRecord(securitiesCode: string): Promise<CompanyFileRecord | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(dataFilePath('companies.csv'), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  const [headerLine, ...lines] = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim());
+  if (!headerLine) return null;
+
+  const headers = parseCsvLine(headerLine);
+  for (const line of lines) {
+    const cells = parseCsvLine(line);
+    const row = Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']));
+    if (row.code === securitiesCode) {
+      return {
+        fileName: 'companies.csv',
+        companyName: row.companyName || undefined,
+        fiscalPeriodEnd: row.fiscalPeriodEnd || undefined,
+        sector: row.sector || undefined,
+        financialData: pickFinancialData(row),
+      };
+    }
+  }
+
+  return null;
+}
+
+export const fileProvider: DataProvider = {
+  id: 'file',
+  name: 'ローカルファイル',
+
+  async fetchCompany(securitiesCode: string): Promise<CompanyData> {
+    const record = (await readJsonRecord(securitiesCode)) || (await readCsvRecord(securitiesCode));
+
+    if (!record) {
+      throw new CompanyNotFoundError(securitiesCode, fileProvider.name);
+    }
+
+    // Values are entered by hand, so they are treated as reported figures from the file
+    const provenance: FinancialDataProvenance = Object.fromEntries(
+      Object.keys(record.financialData).map((field) => [field, { kind: 'reported', source: record.fileName }])
+    );
+
+    return {
+      companyName: record.companyName || `証券コード ${securitiesCode}`,
+      symbol: `${securitiesCode}.T`,
+      financialData: record.financialData,
+      estimatedFields: [],
+      provenance,
+      dataSource: fileProvider.name,
+      lastMarketUpdate: null,
+      fiscalPeriodEnd: record.fiscalPeriodEnd || null,
+      sector: findSector(record.sector)?.code || null,
+      period: 'annual',
+      periodLabel: annualPeriodLabel(record.fiscalPeriodEnd || null),
+    };
+  },
+
+  async fetchHistory(securitiesCode: string): Promise<FinancialHistory> {
+    const record = await readJsonRecord(securitiesCode);
+
+    if (!record?.history) {
+      throw new CompanyNotFoundError(securitiesCode, fileProvider.name);
+    }
+
+    return { symbol: `${securitiesCode}.T`, dataSource: fileProvider.name, series: record.history };
+  },
+
+  async fetchPriceHistory(securitiesCode: string, options: FetchPriceHistoryOptions): Promise<PriceHistory> {
+    const record = await readJsonRecord(securitiesCode);
+
+    if (!record?.prices?.length) {
+      throw new CompanyNotFoundError(securitiesCode, fileProvider.name);
+    }
+
+    // Prices in the file are as traded, so earlier bars are restated in post-split shares
+    const splits = record.splits || [];
+    const from = options.from.toISOString().slice(0, 10);
+    const daily = adjustForSplits(record.prices, splits).filter((bar) => bar.date >= from);
+
+    return {
+      symbol: `${securitiesCode}.T`,
+      dataSource: fileProvider.name,
+      interval: options.interval,
+      bars: resampleBars(daily, options.interval),
+      splits,
+    };
+  },
+};
@@ -0,0 +1,242 @@
+import { fileProvider } from './file';
+import { xbrlProvider } from './xbrl';
+import { yahooProvider } from './yahoo';
+import {
+  CompanyData,
+  CompanyNotFoundError,
+  DataProvider,
+  FetchCompanyOptions,
+  FetchPriceHistoryOptions,
+  ProviderId,
+} from './types';
+import type { FinancialHistory } from '../history';
+import { PriceHistory, PriceInterval, PriceRange, rangeStart } from '../price-history';
+import type { FinancialData } from '../../components/company-search';
+import { CacheEntry, readThrough, ReadThroughResult } from '../cache';
+
+export type {
+  CompanyData,
+  DataProvider,
+  FetchCompanyOptions,
+  FetchPriceHistoryOptions,
+  MarketData,
+  ProviderId,
+} from './types';
+export { CompanyNotFoundError } from './types';
+
+/**
+ * Registered data providers
+ */
+export const PROVIDERS: Record<ProviderId, DataProvider> = {
+  yahoo: yahooProvider,
+  file: fileProvider,
+  xbrl: xbrlProvider,
+};
+
+/**
+ * Provider order used when the request does not choose one
+ * Set DATA_PROVIDER to a comma-separated list (e.g. "xbrl,yahoo") to change it
+ */
+export const DEFAULT_PROVIDER_CHAIN = process.env.DATA_PROVIDER || 'yahoo';
+
+/**
+ * Resolve a comma-separated source list into providers
+ * @param source Value of ?source= or null for the server default
+ * @returns Providers in the order they should be tried
+ * @throws Error when the list names an unknown provider
+ */
+export function resolveProviders(source: string | null): DataProvider[] {
+  const ids = (source || DEFAULT_PROVIDER_CHAIN)
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  return ids.map((id) => {
+    const provider = PROVIDERS[id as ProviderId];
+    if (!provider) {
+      throw new Error(`Unknown data provider: ${id}`);
+    }
+    return provider;
+  });
+}
+
+/**
+ * Run a request against providers in order until one has data for the code
+ * Providers without data for the code are skipped; other errors stop the chain
+ */
+async function fromFirstProvider<T>(
+  securitiesCode: string,
+  providers: DataProvider[],
+  request: (provider: DataProvider) => Promise<T> | null
+): Promise<{ result: T; provider: DataProvider }> {
+  for (const provider of providers) {
+    const pending = request(provider);
+    if (!pending) continue;
+
+    try {
+      const result = await pending;
+      console.log(`${provider.name} answered for ${securitiesCode}`);
+      return { result, provider };
+    } catch (error) {
+      if (!(error instanceof CompanyNotFoundError)) throw error;
+      console.log(`${provider.name} has no data for ${securitiesCode}`);
+    }
+  }
+
+  throw new CompanyNotFoundError(securitiesCode, providers.map((p) => p.name).join(', '));
+}
+
+/**
+ * Company data together with the provider that answered
+ */
+export type ResolvedCompanyData = CompanyData & { provider: ProviderId };
+
+/**
+ * Fetch company data from the first provider that has it
+ * @param securitiesCode 4-digit securities code
+ * @param providers Providers in order of preference
+ * @param options period requests TTM figures from providers that have quarterly data
+ * @returns Company data from the provider that answered, with its id
+ */
+export async function fetchCompanyData(
+  securitiesCode: string,
+  providers: DataProvider[],
+  options: FetchCompanyOptions = {}
+): Promise<ResolvedCompanyData> {
+  const { result, provider } = await fromFirstProvider(securitiesCode, providers, (p) =>
+    p.fetchCompany(securitiesCode, options)
+  );
+  return { ...result, provider: provider.id };
+}
+
+/**
+ * Fetch financial history from the first provider that supports and has it
+ * @param securitiesCode 4-digit securities code
+ * @param providers Providers in order of preference
+ * @returns History from the provider that answered, with its id
+ */
+export async function fetchFinancialHistory(
+  securitiesCode: string,
+  providers: DataProvider[]
+): Promise<FinancialHistory & { provider: ProviderId }> {
+  const { result, provider } = await fromFirstProvider(securitiesCode, providers, (p) =>
+    p.fetchHistory ? p.fetchHistory(securitiesCode) : null
+  );
+  return { ...result, provider: provider.id };
+}
+
+/**
+ * Fetch price history from the first provider that supports and has it
+ * @param securitiesCode 4-digit securities code
+ * @param providers Providers in order of preference
+ * @param options Bar interval and first date
+ * @returns Price history from the provider that answered, with its id
+ */
+export async function fetchPriceHistory(
+  securitiesCode: string,
+  providers: DataProvider[],
+  options: FetchPriceHistoryOptions
+): Promise<PriceHistory & { provider: ProviderId }> {
+  const { result, provider } = await fromFirstProvider(securitiesCode, providers, (p) =>
+    p.fetchPriceHistory ? p.fetchPriceHistory(securitiesCode, options) : null
+  );
+  return { ...result, provider: provider.id };
+}
+
+// Price segment only applies when the provider returned market data
+const hasMarketData = (financialData: FinancialData) =>
+  [financialData.marketCap, financialData.stockPrice].some((value) => value && value !== '0');
+
+const cacheKey = (kind: string, securitiesCode: string, providers: DataProvider[]) =>
+  `${kind}:${securitiesCode}:${providers.map((p) => p.id).join(',')}`;
+
+// Annual lookups keep the original key so existing cache entries stay valid
+const companyCacheKind = (options: FetchCompanyOptions) =>
+  options.period && options.period !== 'annual' ? `company-${options.period}` : 'company';
+
+/**
+ * Fetch company data through the response cache
+ * Stale prices are refreshed on their own when the answering provider supports it
+ * @param securitiesCode 4-digit securities code
+ * @param providers Providers in order of preference
+ * @param options bypass skips the cache and stores a fresh result; period selects 通期 or TTM figures
+ */
+export async function fetchCompanyDataCached(
+  securitiesCode: string,
+  providers: DataProvider[],
+  options: { bypass?: boolean } & FetchCompanyOptions = {}
+): Promise<ReadThroughResult<ResolvedCompanyData>> {
+  const load = async (): Promise<CacheEntry<ResolvedCompanyData>> => {
+    const value = await fetchCompanyData(securitiesCode, providers, { period: options.period });
+    const now = Date.now();
+    return {
+      value,
+      updatedAt: hasMarketData(value.financialData) ? { statement: now, price: now } : { statement: now },
+    };
+  };
+
+  return readThrough(cacheKey(companyCacheKind(options), securitiesCode, providers), {
+    bypass: options.bypass,
+    load,
+    async refresh(entry, staleSegments) {
+      const provider = PROVIDERS[entry.value.provider];
+      if (staleSegments.includes('statement') || !provider.fetchMarketData) {
+        return load();
+      }
+
+      const market = await provider.fetchMarketData(securitiesCode);
+      const prices = Object.fromEntries(Object.entries(market.financialData).filter(([, value]) => value));
+      return {
+        value: {
+          ...entry.value,
+          financialData: { ...entry.value.financialData, ...prices },
+          lastMarketUpdate: market.lastMarketUpdate,
+        },
+        updatedAt: { ...entry.updatedAt, price: Date.now() },
+      };
+    },
+  });
+}
+
+/**
+ * Fetch financial history through the response cache (statement TTL)
+ * @param securitiesCode 4-digit securities code
+ * @param providers Providers in order of preference
+ * @param options bypass skips the cache and stores a fresh result
+ */
+export async function fetchFinancialHistoryCached(
+  securitiesCode: string,
+  providers: DataProvider[],
+  options: { bypass?: boolean } = {}
+): Promise<ReadThroughResult<FinancialHistory & { provider: ProviderId }>> {
+  return readThrough(cacheKey('history', securitiesCode, providers), {
+    bypass: options.bypass,
+    load: async () => ({
+      value: await fetchFinancialHistory(securitiesCode, providers),
+      updatedAt: { statement: Date.now() },
+    }),
+  });
+}
+
+/**
+ * Fetch price history through the response cache (price TTL)
+ * @param securitiesCode 4-digit securities code
+ * @param providers Providers in order of preference
+ * @param options Chart range and bar interval; bypass skips the cache and stores a fresh result
+ */
+export async function fetchPriceHistoryCached(
+  securitiesCode: string,
+  providers: DataProvider[],
+  options: { range: PriceRange; interval: PriceInterval; bypass?: boolean }
+): Promise<ReadThroughResult<PriceHistory & { provider: ProviderId }>> {
+  return readThrough(cacheKey(`prices-${options.range}-${options.interval}`, securitiesCode, providers), {
+    bypass: options.bypass,
+    load: async () => ({
+      value: await fetchPriceHistory(securitiesCode, providers, {
+        interval: options.interval,
+        from: rangeStart(options.range),
+      }),
+      updatedAt: { price: Date.now() },
+    }),
+  });
+}
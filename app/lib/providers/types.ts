@@ -0,0 +1,97 @@
+import type { FinancialData, FinancialDataProvenance } from '../../components/company-search';
+import type { FinancialHistory } from '../history';
+import type { PriceHistory, PriceInterval } from '../price-history';
+import type { ReportingPeriod } from '../reporting-period';
+import type { SectorCode } from '../sectors';
+
+/**
+ * Data provider interface
+ * Every source of company data (Yahoo Finance, local files, XBRL filings)
+ * normalizes its result into the same CompanyData shape
+ */
+
+export type ProviderId = 'yahoo' | 'file' | 'xbrl';
+
+/**
+ * Normalized company data returned by a provider
+ */
+export interface CompanyData {
+  companyName: string;
+  symbol: string;
+  financialData: FinancialData;
+  estimatedFields: string[];
+  provenance: FinancialDataProvenance;
+  dataSource: string;
+  lastMarketUpdate: string | null;
+  fiscalPeriodEnd: string | null;
+  sector: SectorCode | null; // TSE 33-sector, null when the provider does not know it
+  period: ReportingPeriod; // Period the income statement figures actually cover
+  periodLabel: string;
+}
+
+/**
+ * Options of a company lookup
+ */
+export interface FetchCompanyOptions {
+  /**
+   * Requested period; providers without quarterly data answer with annual figures
+   */
+  period?: ReportingPeriod;
+}
+
+/**
+ * Options of a price history lookup
+ */
+export interface FetchPriceHistoryOptions {
+  interval: PriceInterval;
+  /**
+   * First date to include
+   */
+  from: Date;
+}
+
+/**
+ * Price-sensitive values that can be refreshed without refetching statements
+ */
+export interface MarketData {
+  financialData: Pick<FinancialData, 'marketCap' | 'stockPrice'>;
+  lastMarketUpdate: string | null;
+}
+
+/**
+ * Source of company data
+ */
+export interface DataProvider {
+  id: ProviderId;
+  name: string;
+  /**
+   * Fetch company data for a securities code
+   * @param securitiesCode 4-digit securities code
+   * @throws CompanyNotFoundError when the provider has no data for the code
+   */
+  fetchCompany(securitiesCode: string, options?: FetchCompanyOptions): Promise<CompanyData>;
+  /**
+   * Fetch per-fiscal-year history for a securities code (optional)
+   * @throws CompanyNotFoundError when the provider has no data for the code
+   */
+  fetchHistory?(securitiesCode: string): Promise<FinancialHistory>;
+  /**
+   * Fetch only market cap and stock price (optional, used to refresh cached data cheaply)
+   */
+  fetchMarketData?(securitiesCode: string): Promise<MarketData>;
+  /**
+   * Fetch split-adjusted OHLCV bars (optional)
+   * @throws CompanyNotFoundError when the provider has no prices for the code
+   */
+  fetchPriceHistory?(securitiesCode: string, options: FetchPriceHistoryOptions): Promise<PriceHistory>;
+}
+
+/**
+ * Thrown when a provider has no data for the requested securities code
+ */
+export class CompanyNotFoundError extends Error {
+  constructor(securitiesCode: string, providerName: string) {
+    super(`${providerName}: ${securitiesCode} Not Found`);
+    this.name = 'CompanyNotFoundError';
+  }
+}
@@ -0,0 +1,56 @@
+import { findLocalFiling } from '../xbrl-filings';
+import { XbrlFiling } from '../xbrl';
+import { FinancialHistory } from '../history';
+import { annualPeriodLabel } from '../reporting-period';
+import { CompanyData, CompanyNotFoundError, DataProvider } from './types';
+
+/**
+ * EDINET XBRL data provider
+ * Reads the latest filing for the code from the local filing directory
+ */
+
+/**
+ * Convert a parsed filing into normalized company data
+ */
+export function filingToCompanyData(filing: XbrlFiling): CompanyData {
+  const code = filing.securitiesCode;
+
+  return {
+    companyName: filing.companyName || (code ? `証券コード ${code}` : '不明な企業'),
+    symbol: code ? `${code}.T` : '',
+    financialData: filing.financialData,
+    estimatedFields: [],
+    provenance: filing.provenance,
+    dataSource: filing.documentType ? `EDINET XBRL（${filing.documentType}）` : 'EDINET XBRL',
+    lastMarketUpdate: null,
+    fiscalPeriodEnd: filing.fiscalPeriodEnd,
+    sector: null,
+    period: 'annual',
+    periodLabel: annualPeriodLabel(filing.fiscalPeriodEnd),
+  };
+}
+
+export const xbrlProvider: DataProvider = {
+  id: 'xbrl',
+  name: 'EDINET XBRL',
+
+  async fetchCompany(securitiesCode: string): Promise<CompanyData> {
+    const filing = await findLocalFiling(securitiesCode);
+
+    if (!filing) {
+      throw new CompanyNotFoundError(securitiesCode, xbrlProvider.name);
+    }
+
+    return filingToCompanyData(filing);
+  },
+
+  async fetchHistory(securitiesCode: string): Promise<FinancialHistory> {
+    const filing = await findLocalFiling(securitiesCode);
+
+    if (!filing) {
+      throw new CompanyNotFoundError(securitiesCode, xbrlProvider.name);
+    }
+
+    return { symbol: `${securitiesCode}.T`, dataSource: xbrlProvider.name, series: filing.history };
+  },
+};
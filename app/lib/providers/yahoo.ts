@@ -0,0 +1,791 @@
+import YahooFinance from 'yahoo-finance2';
+import type { FieldProvenance, FinancialData, FinancialDataProvenance } from '../../components/company-search';
+import {
+  CompanyData,
+  CompanyNotFoundError,
+  DataProvider,
+  FetchCompanyOptions,
+  FetchPriceHistoryOptions,
+  MarketData,
+} from './types';
+import { buildHistorySeries, FinancialHistory } from '../history';
+import type { PriceBar, PriceHistory } from '../price-history';
+import {
+  annualPeriodLabel,
+  fiscalYearLabel,
+  sumTrailingQuarters,
+  TrailingTwelveMonths,
+  TTM_METRICS,
+  ttmPeriodLabel,
+} from '../reporting-period';
+import { sectorFromYahooIndustry } from '../sectors';
+
+/**
+ * Yahoo Finance data provider
+ * Fetches financial data from Yahoo Finance for Japanese stocks
+ */
+
+// Type definitions for Yahoo Finance response
+// These are minimal interfaces for the data we actually use
+interface YFPrice {
+  longName?: string;
+  shortName?: string;
+  regularMarketPrice?: number;
+  currentPrice?: number;
+  marketCap?: number;
+  regularMarketTime?: string;
+}
+
+interface YFFinancialData {
+  totalRevenue?: number;
+  ebitda?: number;
+  operatingMargins?: number;
+  freeCashflow?: number;
+  totalCash?: number;
+  totalDebt?: number;
+  operatingCashflow?: number;
+  currentRatio?: number;
+  quickRatio?: number;
+  debtToEquity?: number;
+}
+
+interface YFSummaryDetail {
+  marketCap?: number;
+  regularMarketPrice?: number;
+  dividendRate?: number;
+  trailingAnnualDividendRate?: number;
+}
+
+interface YFDefaultKeyStats {
+  netIncomeToCommon?: number;
+  bookValue?: number;
+  sharesOutstanding?: number;
+  lastFiscalYearEnd?: string;
+  mostRecentQuarter?: string;
+}
+
+interface YFIncomeStatement {
+  endDate?: string;
+  totalRevenue?: number;
+  netIncome?: number;
+  operatingIncome?: number;
+  incomeBeforeTax?: number;
+  ebit?: number;
+  interestExpense?: number;
+  grossProfit?: number;
+  costOfRevenue?: number;
+}
+
+interface YFIncomeStatementHistory {
+  incomeStatementHistory?: YFIncomeStatement[];
+}
+
+interface YFBalanceSheet {
+  endDate?: string;
+  totalAssets?: number;
+  totalCurrentAssets?: number;
+  totalCurrentLiabilities?: number;
+  totalStockholderEquity?: number;
+  totalLiab?: number;
+  retainedEarnings?: number;
+  cash?: number;
+  shortTermInvestments?: number;
+  netReceivables?: number;
+  longTermDebt?: number;
+}
+
+interface YFBalanceSheetHistory {
+  balanceSheetStatements?: YFBalanceSheet[];
+}
+
+interface YFCashflowStatement {
+  netIncome?: number;
+  totalCashFromOperatingActivities?: number;
+  totalCashflowsFromInvestingActivities?: number;
+  totalCashFromFinancingActivities?: number;
+  issuanceOfStock?: number;
+}
+
+interface YFCashflowStatementHistory {
+  cashflowStatements?: YFCashflowStatement[];
+}
+
+interface YFAssetProfile {
+  industry?: string;
+}
+
+interface YFQuoteSummary {
+  price?: YFPrice;
+  assetProfile?: YFAssetProfile;
+  financialData?: YFFinancialData;
+  summaryDetail?: YFSummaryDetail;
+  defaultKeyStatistics?: YFDefaultKeyStats;
+  incomeStatementHistory?: YFIncomeStatementHistory;
+  balanceSheetHistory?: YFBalanceSheetHistory;
+  cashflowStatementHistory?: YFCashflowStatementHistory;
+}
+
+interface YFTimeSeriesEntry {
+  date?: string | Date;
+  totalRevenue?: number;
+  operatingIncome?: number;
+  netIncome?: number;
+  stockholdersEquity?: number;
+  totalAssets?: number;
+  operatingCashFlow?: number;
+  freeCashFlow?: number;
+  dilutedEPS?: number;
+  basicEPS?: number;
+}
+
+interface YFChartQuote {
+  date?: string | Date;
+  open?: number | null;
+  high?: number | null;
+  low?: number | null;
+  close?: number | null;
+  volume?: number | null;
+}
+
+interface YFChartSplit {
+  date?: string | Date;
+  numerator?: number;
+  denominator?: number;
+}
+
+interface YFChart {
+  quotes?: YFChartQuote[];
+  events?: { splits?: YFChartSplit[] };
+}
+
+// Initialize YahooFinance instance
+const yahooFinance = new YahooFinance();
+
+export const yahooProvider: DataProvider = {
+  id: 'yahoo',
+  name: 'Yahoo Finance',
+
+  async fetchCompany(securitiesCode: string, options: FetchCompanyOptions = {}): Promise<CompanyData> {
+    // Add .T suffix for Tokyo Stock Exchange
+    const symbol = `${securitiesCode}.T`;
+
+    // Fetch company data - use single quoteSummary call
+    let quoteSummaryRaw: unknown;
+    try {
+      quoteSummaryRaw = await yahooFinance.quoteSummary(symbol, {
+        modules: [
+          'price',
+          'assetProfile',
+          'summaryDetail',
+          'financialData',
+          'defaultKeyStatistics',
+          'incomeStatementHistory',
+          'balanceSheetHistory',
+          'cashflowStatementHistory'
+        ]
+      });
+    } catch (error) {
+      // Check if it's a symbol not found error
+      if (error instanceof Error && error.message.includes('Not Found')) {
+        throw new CompanyNotFoundError(securitiesCode, yahooProvider.name);
+      }
+      throw error;
+    }
+
+    // Type-safe assertion for Yahoo Finance response
+    const quoteData = quoteSummaryRaw as YFQuoteSummary;
+    const priceInfo = quoteData?.price || {};
+
+    console.log('Found company:', priceInfo.longName || priceInfo.shortName);
+    console.log('Raw quoteSummary data:', JSON.stringify(quoteData, null, 2));
+
+    // Extract financial data
+    const { financialData, estimatedFields, provenance } = extractFinancialData(quoteData);
+    console.log('Extracted financial data:', financialData);
+    if (estimatedFields.length > 0) {
+      console.log('Estimated balance sheet fields:', estimatedFields);
+    }
+
+    // EPS growth compares the same fiscal years as revenue growth
+    await fillAnnualEPS(symbol, financialData, provenance);
+
+    // Get fiscal period information
+    const lastFiscalYearEnd = quoteData?.defaultKeyStatistics?.lastFiscalYearEnd || null;
+    const mostRecentQuarter = quoteData?.defaultKeyStatistics?.mostRecentQuarter || null;
+    const latestIncomeStatement = quoteData?.incomeStatementHistory?.incomeStatementHistory?.[0];
+    const fiscalPeriodEnd = latestIncomeStatement?.endDate || lastFiscalYearEnd || mostRecentQuarter;
+
+    // TTM mode: replace the income statement figures with the sum of the latest four quarters
+    let period: CompanyData['period'] = 'annual';
+    let periodLabel = annualPeriodLabel(fiscalPeriodEnd);
+    if (options.period === 'ttm') {
+      const ttm = await fetchTrailingTwelveMonths(symbol);
+      if (ttm && Object.keys(ttm.values).length > 0) {
+        applyTrailingTwelveMonths(ttm, financialData, provenance);
+        period = 'ttm';
+        periodLabel = ttmPeriodLabel(ttm);
+      } else {
+        periodLabel = `${periodLabel}（四半期データを取得できないため通期で表示）`;
+      }
+    }
+
+    return {
+      companyName: priceInfo.longName || priceInfo.shortName || `証券コード ${securitiesCode}`,
+      symbol,
+      financialData,
+      estimatedFields,
+      provenance,
+      dataSource: yahooProvider.name,
+      lastMarketUpdate: priceInfo.regularMarketTime || null,
+      fiscalPeriodEnd,
+      sector: sectorFromYahooIndustry(quoteData?.assetProfile?.industry),
+      period,
+      periodLabel,
+    };
+  },
+
+  async fetchMarketData(securitiesCode: string): Promise<MarketData> {
+    const symbol = `${securitiesCode}.T`;
+
+    // Price module only: a much lighter call than the full quoteSummary
+    const quoteSummaryRaw = await yahooFinance.quoteSummary(symbol, { modules: ['price'] });
+    const priceInfo = (quoteSummaryRaw as unknown as YFQuoteSummary)?.price || {};
+    const currentPrice = priceInfo.regularMarketPrice || priceInfo.currentPrice;
+
+    return {
+      financialData: {
+        marketCap: priceInfo.marketCap ? String(Math.round(priceInfo.marketCap / 1000000)) : undefined,
+        stockPrice: currentPrice ? String(currentPrice) : undefined,
+      },
+      lastMarketUpdate: priceInfo.regularMarketTime || null,
+    };
+  },
+
+  async fetchHistory(securitiesCode: string): Promise<FinancialHistory> {
+    const symbol = `${securitiesCode}.T`;
+
+    // Annual statements from the fundamentals time series (quoteSummary history is limited since Nov 2024)
+    const period1 = new Date();
+    period1.setFullYear(period1.getFullYear() - 10);
+
+    let timeSeriesRaw: unknown;
+    try {
+      timeSeriesRaw = await yahooFinance.fundamentalsTimeSeries(
+        symbol,
+        { period1, type: 'annual', module: 'all' },
+        { validateResult: false }
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Not Found')) {
+        throw new CompanyNotFoundError(securitiesCode, yahooProvider.name);
+      }
+      throw error;
+    }
+
+    const entries = (timeSeriesRaw as YFTimeSeriesEntry[] | null) || [];
+    console.log('Annual time series entries:', entries.length);
+
+    if (entries.length === 0) {
+      throw new CompanyNotFoundError(securitiesCode, yahooProvider.name);
+    }
+
+    const series = buildHistorySeries(
+      entries
+        .filter((entry) => entry.date)
+        .map((entry) => ({
+          endDate: new Date(entry.date as string).toISOString().slice(0, 10),
+          values: {
+            revenue: entry.totalRevenue,
+            operatingIncome: entry.operatingIncome,
+            netIncome: entry.netIncome,
+            equity: entry.stockholdersEquity,
+            totalAssets: entry.totalAssets,
+            operatingCashflow: entry.operatingCashFlow,
+            freeCashflow: entry.freeCashFlow,
+            eps: entry.dilutedEPS ?? entry.basicEPS,
+          },
+        }))
+    );
+
+    return { symbol, dataSource: yahooProvider.name, series };
+  },
+
+  async fetchPriceHistory(securitiesCode: string, options: FetchPriceHistoryOptions): Promise<PriceHistory> {
+    const symbol = `${securitiesCode}.T`;
+
+    // Chart OHLC from Yahoo Finance is already split-adjusted; splits are returned for reference
+    let chartRaw: unknown;
+    try {
+      chartRaw = await yahooFinance.chart(
+        symbol,
+        { period1: options.from, interval: options.interval, events: 'split' },
+        { validateResult: false }
+      );
+    } catch (error) {
+      if (error instanceof Error && /Not Found|No data found/.test(error.message)) {
+        throw new CompanyNotFoundError(securitiesCode, yahooProvider.name);
+      }
+      throw error;
+    }
+
+    const chart = (chartRaw as YFChart | null) || {};
+    const bars = (chart.quotes || [])
+      .filter((quote) => quote.date && quote.open != null && quote.high != null && quote.low != null && quote.close != null)
+      .map((quote): PriceBar => ({
+        date: new Date(quote.date as string).toISOString().slice(0, 10),
+        open: quote.open!,
+        high: quote.high!,
+        low: quote.low!,
+        close: quote.close!,
+        volume: quote.volume ?? 0,
+      }));
+    console.log('Chart bars:', bars.length, options.interval);
+
+    if (bars.length === 0) {
+      throw new CompanyNotFoundError(securitiesCode, yahooProvider.name);
+    }
+
+    const splits = (chart.events?.splits || [])
+      .filter((split) => split.date && split.numerator && split.denominator)
+      .map((split) => ({
+        date: new Date(split.date as string).toISOString().slice(0, 10),
+        ratio: split.numerator! / split.denominator!,
+      }));
+
+    return { symbol, dataSource: yahooProvider.name, interval: options.interval, bars, splits };
+  },
+};
+
+/**
+ * Fetch the latest four quarters and sum them into TTM figures
+ * @returns TTM sums, or null when Yahoo Finance has no usable quarterly statements
+ */
+async function fetchTrailingTwelveMonths(symbol: string): Promise<TrailingTwelveMonths | null> {
+  // Six quarters back leaves room for a late filing
+  const period1 = new Date();
+  period1.setMonth(period1.getMonth() - 18);
+
+  let timeSeriesRaw: unknown;
+  try {
+    timeSeriesRaw = await yahooFinance.fundamentalsTimeSeries(
+      symbol,
+      { period1, type: 'quarterly', module: 'all' },
+      { validateResult: false }
+    );
+  } catch (error) {
+    console.warn('Quarterly time series fetch failed:', error);
+    return null;
+  }
+
+  const entries = ((timeSeriesRaw as YFTimeSeriesEntry[] | null) || []).filter((entry) => entry.date);
+  console.log('Quarterly time series entries:', entries.length);
+
+  return sumTrailingQuarters(
+    entries.map((entry) => ({
+      endDate: new Date(entry.date as string).toISOString().slice(0, 10),
+      values: {
+        revenue: entry.totalRevenue,
+        operatingIncome: entry.operatingIncome,
+        netIncome: entry.netIncome,
+      },
+    }))
+  );
+}
+
+/**
+ * Fill epsCurrentYear and epsFourYearsAgo from the annual diluted EPS of the compared fiscal years
+ * quoteSummary statements carry no EPS, so both come from the annual fundamentals time series;
+ * a year without an entry is left empty
+ */
+async function fillAnnualEPS(symbol: string, financialData: FinancialData, provenance: FinancialDataProvenance) {
+  const { currentYearEnd, pastYearEnd } = financialData;
+  if (!currentYearEnd) return;
+
+  // One year before the compared past year leaves room for a shifted period end
+  const period1 = new Date(pastYearEnd || currentYearEnd);
+  period1.setFullYear(period1.getFullYear() - 1);
+
+  let timeSeriesRaw: unknown;
+  try {
+    timeSeriesRaw = await yahooFinance.fundamentalsTimeSeries(
+      symbol,
+      { period1, type: 'annual', module: 'all' },
+      { validateResult: false }
+    );
+  } catch (error) {
+    console.warn('Annual time series fetch failed:', error);
+    return;
+  }
+
+  const entries = ((timeSeriesRaw as YFTimeSeriesEntry[] | null) || []).filter((entry) => entry.date);
+
+  // Fiscal years are matched by the month of their period end
+  const epsOf = (yearEnd: string | undefined) => {
+    if (!yearEnd) return undefined;
+    const entry = entries.find(
+      (candidate) => new Date(candidate.date as string).toISOString().slice(0, 7) === yearEnd.slice(0, 7)
+    );
+    return entry?.dilutedEPS ?? entry?.basicEPS ?? undefined;
+  };
+
+  for (const [field, yearEnd] of [['epsCurrentYear', currentYearEnd], ['epsFourYearsAgo', pastYearEnd]] as const) {
+    const eps = epsOf(yearEnd);
+    if (eps == null || !yearEnd) continue;
+    financialData[field] = String(eps);
+    provenance[field] = { kind: 'reported', source: `fundamentalsTimeSeries（年次・${fiscalYearLabel(yearEnd)}）` };
+  }
+}
+
+/**
+ * Overwrite the income statement items of FinancialData with TTM sums
+ * Growth inputs (revenueCurrentYear etc.) stay on fiscal years so CAGR periods remain whole years
+ */
+function applyTrailingTwelveMonths(
+  ttm: TrailingTwelveMonths,
+  financialData: FinancialData,
+  provenance: FinancialDataProvenance
+) {
+  for (const metric of TTM_METRICS) {
+    const value = ttm.values[metric];
+    if (value == null) continue;
+    financialData[metric] = String(Math.round(value / 1000000));
+    provenance[metric] = {
+      kind: 'derived',
+      source: 'fundamentalsTimeSeries（四半期）',
+      formula: `直近4四半期の合計（${ttm.firstQuarterEnd}〜${ttm.lastQuarterEnd}）`,
+    };
+  }
+}
+
+/**
+ * Balance sheet fields that fall back to estimates when the latest
+ * annual balance sheet does not report them
+ */
+type BalanceSheetField = 'totalAssets' | 'currentAssets' | 'currentLiabilities' | 'equity';
+
+/**
+ * Extract and format financial data from Yahoo Finance response
+ * Balance sheet items come from the latest annual balance sheet; any item
+ * missing there is estimated and listed in estimatedFields
+ * Provenance records which module each value came from and how it was derived
+ */
+function extractFinancialData(quoteSummary: YFQuoteSummary) {
+  const financialData = quoteSummary?.financialData || {};
+  const summaryDetail = quoteSummary?.summaryDetail || {};
+  const defaultKeyStats = quoteSummary?.defaultKeyStatistics || {};
+  const price = quoteSummary?.price || {};
+
+  // Get latest financial statements (limited data since Nov 2024)
+  const incomeStatement = quoteSummary?.incomeStatementHistory?.incomeStatementHistory?.[0];
+  const incomeStatements = quoteSummary?.incomeStatementHistory?.incomeStatementHistory || [];
+  const cashflow = quoteSummary?.cashflowStatementHistory?.cashflowStatements?.[0];
+  const balanceSheet = quoteSummary?.balanceSheetHistory?.balanceSheetStatements?.[0];
+
+  // Prior fiscal year, for the Piotroski F-score comparison
+  const priorIncomeStatement = incomeStatements[1];
+  const priorCashflow = quoteSummary?.cashflowStatementHistory?.cashflowStatements?.[1];
+  const priorBalanceSheet = quoteSummary?.balanceSheetHistory?.balanceSheetStatements?.[1];
+
+  // Helper function to safely convert to string
+  const toStr = (value: number | undefined | null) => value != null && value !== 0 ? String(value) : '0';
+
+  // Helper function to convert to millions (百万円)
+  // Items Yahoo Finance does not report are left empty so they are not read as 0
+  const toMillions = (value: number | undefined | null) => {
+    if (value == null) return undefined;
+    return String(Math.round(value / 1000000));
+  };
+
+  // Statement dates arrive as Date objects or ISO strings; keep the YYYY-MM-DD part
+  const toDate = (value: string | undefined) => {
+    const date = value ? new Date(value) : null;
+    return date && !Number.isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : undefined;
+  };
+
+  // Name of the first module that supplies a value
+  const sourceOf = (candidates: [string, number | undefined | null][]) =>
+    candidates.find(([, value]) => value != null && value !== 0)?.[0] || 'N/A';
+
+  const provenance: FinancialDataProvenance = {};
+
+  // Get current stock price
+  const currentPrice = price?.regularMarketPrice || price?.currentPrice || summaryDetail?.regularMarketPrice || 0;
+
+  // Use reported balance sheet items, falling back to estimates only when missing
+  const estimatedFields: BalanceSheetField[] = [];
+  const reportedOrEstimate = (
+    field: BalanceSheetField,
+    reported: number | undefined,
+    estimate: () => number,
+    estimateProvenance: FieldProvenance
+  ) => {
+    if (reported != null && reported > 0) {
+      provenance[field] = { kind: 'reported', source: 'balanceSheetHistory' };
+      return reported;
+    }
+    estimatedFields.push(field);
+    provenance[field] = estimateProvenance;
+    return estimate();
+  };
+
+  console.log('Balance sheet:', balanceSheet?.endDate, balanceSheet);
+
+  // Equity estimate: bookValue * sharesOutstanding
+  const equity = reportedOrEstimate('equity', balanceSheet?.totalStockholderEquity, () =>
+    (defaultKeyStats?.bookValue || 0) * (defaultKeyStats?.sharesOutstanding || 0),
+    { kind: 'derived', source: 'defaultKeyStatistics', formula: '1株純資産 × 発行済株式数' }
+  );
+
+  // Total assets estimate: back-solved from the D/E ratio
+  const totalAssets = reportedOrEstimate('totalAssets', balanceSheet?.totalAssets, () =>
+    equity * ((financialData.debtToEquity || 0) / 100 + 1),
+    { kind: 'derived', source: 'financialData', formula: '自己資本 × (D/Eレシオ + 1)' }
+  );
+
+  // Current assets estimate: cash scaled by the current ratio
+  const currentAssets = reportedOrEstimate('currentAssets', balanceSheet?.totalCurrentAssets, () =>
+    (financialData.totalCash || 0) * (financialData.currentRatio || 0),
+    { kind: 'derived', source: 'financialData', formula: '現金同等物 × 流動比率' }
+  );
+
+  // Current liabilities estimate: current assets divided by the current ratio, or cash as a last resort
+  const currentLiabilities = reportedOrEstimate('currentLiabilities', balanceSheet?.totalCurrentLiabilities, () =>
+    financialData.currentRatio ? currentAssets / financialData.currentRatio : financialData.totalCash || 0,
+    financialData.currentRatio
+      ? { kind: 'derived', source: 'financialData', formula: '流動資産 ÷ 流動比率' }
+      : { kind: 'proxy', source: 'financialData', formula: '現金同等物で代用' }
+  );
+
+  // Quick assets: cash, short-term investments and receivables, or back-solved from the quick ratio
+  const reportedQuickAssets = balanceSheet?.cash != null
+    ? balanceSheet.cash + (balanceSheet.shortTermInvestments || 0) + (balanceSheet.netReceivables || 0)
+    : null;
+  const quickAssets = reportedQuickAssets ?? currentLiabilities * (financialData.quickRatio || 0);
+
+  // Total liabilities estimate: whatever of total assets is not equity
+  const totalLiabilities = balanceSheet?.totalLiab || totalAssets - equity;
+
+  // Interest-bearing debt, back-solved from the D/E ratio when not reported
+  const totalDebt = financialData.totalDebt || equity * ((financialData.debtToEquity || 0) / 100);
+
+  // Gross profit, or revenue less cost of revenue when only those are reported
+  const grossProfitOf = (stmt: YFIncomeStatement | undefined) =>
+    stmt?.grossProfit ?? (stmt?.totalRevenue && stmt?.costOfRevenue ? stmt.totalRevenue - stmt.costOfRevenue : undefined);
+
+  // Get historical revenue data
+  console.log('Income statements count:', incomeStatements.length);
+  incomeStatements.forEach((stmt, idx) => {
+    console.log(`Statement ${idx}:`, stmt.endDate, 'Revenue:', stmt.totalRevenue);
+  });
+
+  // Filter out quarterly data (identify by comparing with current year)
+  // Quarterly data is typically much smaller than annual data
+  const currentRevenue = financialData.totalRevenue || incomeStatement?.totalRevenue || 0;
+  const annualStatements = incomeStatements.filter((stmt) => {
+    // Consider it annual data if revenue is at least 50% of current annual revenue
+    return stmt.totalRevenue && stmt.totalRevenue > currentRevenue * 0.5;
+  });
+
+  console.log('Annual statements found:', annualStatements.length);
+
+  // Get 4 years ago revenue (use oldest available annual data other than the latest)
+  // Left empty when no older year exists instead of silently reusing current revenue;
+  // GrowthCalculator can pick the comparison year explicitly from the history endpoint
+  const pastStatement = annualStatements.length > 1
+    ? annualStatements[annualStatements.length - 1]
+    : incomeStatements[2]?.totalRevenue // Try 3 years ago
+      ? incomeStatements[2]
+      : incomeStatements[1]; // Try 2 years ago
+  const revenueFourYearsAgo = pastStatement?.totalRevenue;
+
+  console.log('Revenue 4 years ago (filtered):', pastStatement?.endDate, revenueFourYearsAgo);
+
+  // The compared year depends on how many annual statements Yahoo Finance returns, so name it
+  const pastYearProvenance = (item: string): FieldProvenance => ({
+    kind: 'derived',
+    source: 'incomeStatementHistory',
+    formula: pastStatement?.endDate
+      ? `${fiscalYearLabel(pastStatement.endDate)}の${item}（取得できる最も古い年次決算）`
+      : `取得できる最も古い年次決算の${item}`,
+  });
+
+  // Calculate depreciation from EBITDA
+  // EBITDA = Operating Income + Depreciation & Amortization
+  // Therefore: Depreciation ≈ EBITDA - Operating Income
+  const totalRev = financialData.totalRevenue || incomeStatement?.totalRevenue || 0;
+  const operatingIncome = totalRev * (financialData.operatingMargins || 0);
+  const ebitda = financialData.ebitda || 0;
+  const depreciation = Math.max(0, ebitda - operatingIncome); // D&A approximation
+
+  // The period is labelled as the fiscal year, so statement items come from the latest annual
+  // statement; the trailing figures of financialData and defaultKeyStatistics only fill gaps
+  const annualOrTrailing = (
+    annual: [string, number | undefined | null],
+    trailing: [string, number | undefined | null],
+    item: string
+  ): FieldProvenance => annual[1] != null
+    ? { kind: 'reported', source: annual[0] }
+    : { kind: 'proxy', source: trailing[1] != null ? trailing[0] : 'N/A', formula: `直近12ヶ月の${item}で代用` };
+
+  Object.assign(provenance, {
+    revenue: annualOrTrailing(['incomeStatementHistory', incomeStatement?.totalRevenue], ['financialData', financialData.totalRevenue], '売上高'),
+    marketCap: {
+      kind: 'reported',
+      source: sourceOf([['price', price?.marketCap], ['summaryDetail', summaryDetail?.marketCap]]),
+    },
+    capex: { kind: 'proxy', source: 'financialData', formula: '直近12ヶ月の |フリーキャッシュフロー| で代用' },
+    depreciation: { kind: 'derived', source: 'financialData', formula: '直近12ヶ月の EBITDA − 売上高 × 営業利益率' },
+    revenueCurrentYear: incomeStatement?.totalRevenue
+      ? { kind: 'reported', source: 'incomeStatementHistory' }
+      : { kind: 'proxy', source: 'financialData', formula: '直近12ヶ月の売上高で代用' },
+    revenueFourYearsAgo: pastYearProvenance('売上高'),
+    operatingIncomeCurrentYear: { kind: 'reported', source: 'incomeStatementHistory' },
+    operatingIncomeFourYearsAgo: pastYearProvenance('営業利益'),
+    netIncome: incomeStatement?.netIncome == null && cashflow?.netIncome != null
+      ? { kind: 'reported', source: 'cashflowStatementHistory' }
+      : annualOrTrailing(['incomeStatementHistory', incomeStatement?.netIncome], ['defaultKeyStatistics', defaultKeyStats?.netIncomeToCommon], '純利益'),
+    operatingIncome: incomeStatement?.operatingIncome != null
+      ? { kind: 'reported', source: 'incomeStatementHistory' }
+      : { kind: 'proxy', source: 'financialData', formula: '直近12ヶ月のEBITDAで代用（減価償却費を含む）' },
+    pretaxIncome: { kind: 'reported', source: 'incomeStatementHistory' },
+    ebit: incomeStatement?.ebit
+      ? { kind: 'reported', source: 'incomeStatementHistory' }
+      : { kind: 'derived', source: 'financialData', formula: '直近12ヶ月の売上高 × 営業利益率' },
+    quickAssets: reportedQuickAssets != null
+      ? { kind: 'derived', source: 'balanceSheetHistory', formula: '現金 + 短期投資 + 売上債権' }
+      : { kind: 'derived', source: 'financialData', formula: '流動負債 × 当座比率' },
+    totalLiabilities: balanceSheet?.totalLiab
+      ? { kind: 'reported', source: 'balanceSheetHistory' }
+      : { kind: 'derived', source: provenance.totalAssets?.source || 'N/A', formula: '総資産 − 自己資本' },
+    retainedEarnings: { kind: 'reported', source: 'balanceSheetHistory' },
+    interestExpense: { kind: 'reported', source: 'incomeStatementHistory' },
+    grossProfit: incomeStatement?.grossProfit
+      ? { kind: 'reported', source: 'incomeStatementHistory' }
+      : { kind: 'derived', source: 'incomeStatementHistory', formula: '売上高 − 売上原価' },
+    longTermDebt: { kind: 'reported', source: 'balanceSheetHistory' },
+    stockIssuance: { kind: 'reported', source: 'cashflowStatementHistory' },
+    grossProfitCurrentYear: incomeStatement?.grossProfit
+      ? { kind: 'reported', source: 'incomeStatementHistory' }
+      : { kind: 'derived', source: 'incomeStatementHistory', formula: '売上高 − 売上原価' },
+    netIncomeCurrentYear: { kind: 'reported', source: 'incomeStatementHistory' },
+    operatingCashflowCurrentYear: { kind: 'reported', source: 'cashflowStatementHistory' },
+    totalAssetsCurrentYear: { kind: 'reported', source: 'balanceSheetHistory' },
+    longTermDebtCurrentYear: { kind: 'reported', source: 'balanceSheetHistory' },
+    currentAssetsCurrentYear: { kind: 'reported', source: 'balanceSheetHistory' },
+    currentLiabilitiesCurrentYear: { kind: 'reported', source: 'balanceSheetHistory' },
+    revenuePriorYear: { kind: 'reported', source: 'incomeStatementHistory' },
+    grossProfitPriorYear: priorIncomeStatement?.grossProfit
+      ? { kind: 'reported', source: 'incomeStatementHistory' }
+      : { kind: 'derived', source: 'incomeStatementHistory', formula: '売上高 − 売上原価' },
+    netIncomePriorYear: { kind: 'reported', source: 'incomeStatementHistory' },
+    operatingCashflowPriorYear: { kind: 'reported', source: 'cashflowStatementHistory' },
+    totalAssetsPriorYear: { kind: 'reported', source: 'balanceSheetHistory' },
+    longTermDebtPriorYear: { kind: 'reported', source: 'balanceSheetHistory' },
+    currentAssetsPriorYear: { kind: 'reported', source: 'balanceSheetHistory' },
+    currentLiabilitiesPriorYear: { kind: 'reported', source: 'balanceSheetHistory' },
+    stockPrice: {
+      kind: 'reported',
+      source: sourceOf([
+        ['price', price?.regularMarketPrice || price?.currentPrice],
+        ['summaryDetail', summaryDetail?.regularMarketPrice],
+      ]),
+    },
+    annualDividend: summaryDetail?.dividendRate
+      ? { kind: 'reported', source: 'summaryDetail' }
+      : { kind: 'proxy', source: 'summaryDetail', formula: '過去12ヶ月の配当実績で代用' },
+    totalCash: { kind: 'reported', source: 'financialData' },
+    totalDebt: financialData.totalDebt
+      ? { kind: 'reported', source: 'financialData' }
+      : { kind: 'derived', source: 'financialData', formula: '自己資本 × D/Eレシオ' },
+    // financialData has no fiscal-year variant of these, so they cover the trailing twelve months
+    ebitda: { kind: 'reported', source: 'financialData（直近12ヶ月）' },
+    freeCashflow: { kind: 'reported', source: 'financialData（直近12ヶ月）' },
+    sharesOutstanding: { kind: 'reported', source: 'defaultKeyStatistics' },
+    operatingCashflow: annualOrTrailing(
+      ['cashflowStatementHistory', cashflow?.totalCashFromOperatingActivities],
+      ['financialData', financialData.operatingCashflow],
+      '営業CF'
+    ),
+    investingCashflow: { kind: 'reported', source: 'cashflowStatementHistory' },
+    financingCashflow: { kind: 'reported', source: 'cashflowStatementHistory' },
+  } satisfies FinancialDataProvenance);
+
+  const extracted = {
+    // Growth metrics (in millions JPY)
+    revenue: toMillions(incomeStatement?.totalRevenue ?? financialData.totalRevenue),
+    marketCap: toMillions(price?.marketCap || summaryDetail?.marketCap),
+    capex: toMillions(financialData.freeCashflow == null ? null : Math.abs(financialData.freeCashflow)), // Using free cash flow as proxy
+    depreciation: toMillions(depreciation),
+    // Growth compares fiscal-year statements, so the current year is the latest annual statement
+    revenueCurrentYear: toMillions(incomeStatement?.totalRevenue || financialData.totalRevenue),
+    // Left empty rather than '0' when no older year is available
+    revenueFourYearsAgo: revenueFourYearsAgo ? toMillions(revenueFourYearsAgo) : undefined,
+    operatingIncomeCurrentYear: toMillions(incomeStatement?.operatingIncome),
+    operatingIncomeFourYearsAgo: toMillions(pastStatement?.operatingIncome),
+    currentYearEnd: toDate(incomeStatement?.endDate),
+    pastYearEnd: toDate(pastStatement?.endDate),
+
+    // Profitability metrics (in millions JPY)
+    netIncome: toMillions(incomeStatement?.netIncome ?? cashflow?.netIncome ?? defaultKeyStats?.netIncomeToCommon),
+    equity: toMillions(equity),
+    totalAssets: toMillions(totalAssets),
+    operatingIncome: toMillions(incomeStatement?.operatingIncome ?? financialData.ebitda),
+    pretaxIncome: toMillions(incomeStatement?.incomeBeforeTax),
+    ebit: toMillions(incomeStatement?.ebit || operatingIncome),
+    grossProfit: toMillions(grossProfitOf(incomeStatement)),
+
+    // Safety metrics (in millions JPY)
+    currentAssets: toMillions(currentAssets),
+    currentLiabilities: toMillions(currentLiabilities),
+    quickAssets: toMillions(quickAssets),
+    totalLiabilities: toMillions(totalLiabilities),
+    retainedEarnings: toMillions(balanceSheet?.retainedEarnings),
+    interestExpense: toMillions(incomeStatement?.interestExpense == null ? null : Math.abs(incomeStatement.interestExpense)), // Reported as a negative amount
+    longTermDebt: toMillions(balanceSheet?.longTermDebt),
+
+    // Valuation metrics (stock price and dividend are in JPY, not millions)
+    stockPrice: toStr(currentPrice),
+    annualDividend: toStr(summaryDetail?.dividendRate || summaryDetail?.trailingAnnualDividendRate || 0),
+
+    // Enterprise value inputs (in millions JPY)
+    totalCash: toMillions(financialData.totalCash),
+    totalDebt: toMillions(totalDebt),
+    ebitda: toMillions(financialData.ebitda),
+
+    // DCF inputs (FCF in millions JPY, shares as a count)
+    freeCashflow: toMillions(financialData.freeCashflow),
+    sharesOutstanding: toStr(defaultKeyStats?.sharesOutstanding),
+
+    // Cash flow metrics (in millions JPY, signed)
+    operatingCashflow: toMillions(cashflow?.totalCashFromOperatingActivities ?? financialData.operatingCashflow),
+    investingCashflow: toMillions(cashflow?.totalCashflowsFromInvestingActivities),
+    financingCashflow: toMillions(cashflow?.totalCashFromFinancingActivities),
+    stockIssuance: toMillions(cashflow?.issuanceOfStock),
+
+    // Latest fiscal year from the annual statements, unlike the trailing figures above (in millions JPY)
+    grossProfitCurrentYear: toMillions(grossProfitOf(incomeStatement)),
+    netIncomeCurrentYear: toMillions(incomeStatement?.netIncome),
+    operatingCashflowCurrentYear: toMillions(cashflow?.totalCashFromOperatingActivities),
+    totalAssetsCurrentYear: toMillions(balanceSheet?.totalAssets),
+    longTermDebtCurrentYear: toMillions(balanceSheet?.longTermDebt),
+    currentAssetsCurrentYear: toMillions(balanceSheet?.totalCurrentAssets),
+    currentLiabilitiesCurrentYear: toMillions(balanceSheet?.totalCurrentLiabilities),
+
+    // Prior fiscal year (in millions JPY)
+    revenuePriorYear: toMillions(priorIncomeStatement?.totalRevenue),
+    grossProfitPriorYear: toMillions(grossProfitOf(priorIncomeStatement)),
+    netIncomePriorYear: toMillions(priorIncomeStatement?.netIncome),
+    operatingCashflowPriorYear: toMillions(priorCashflow?.totalCashFromOperatingActivities),
+    totalAssetsPriorYear: toMillions(priorBalanceSheet?.totalAssets),
+    longTermDebtPriorYear: toMillions(priorBalanceSheet?.longTermDebt),
+    currentAssetsPriorYear: toMillions(priorBalanceSheet?.totalCurrentAssets),
+    currentLiabilitiesPriorYear: toMillions(priorBalanceSheet?.totalCurrentLiabilities),
+  };
+
+  // No provenance for values that were left empty
+  for (const field of Object.keys(provenance) as (keyof FinancialData)[]) {
+    if ((extracted as FinancialData)[field] === undefined) delete provenance[field];
+  }
+
+  return { financialData: extracted, estimatedFields, provenance };
+}
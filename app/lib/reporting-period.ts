@@ -0,0 +1,103 @@
+/**
+ * Reporting period of the income statement figures
+ * Calculators work on either the latest fiscal year (通期) or the sum of the
+ * latest four quarters (TTM, trailing twelve months)
+ */
+
+export type ReportingPeriod = 'annual' | 'ttm';
+
+export const REPORTING_PERIOD_LABELS: Record<ReportingPeriod, string> = {
+  annual: '通期',
+  ttm: 'TTM（直近12ヶ月）',
+};
+
+/**
+ * Income statement items replaced by their trailing-twelve-month sums
+ */
+export type TtmMetric = 'revenue' | 'operatingIncome' | 'netIncome';
+
+export const TTM_METRICS: TtmMetric[] = ['revenue', 'operatingIncome', 'netIncome'];
+
+/**
+ * Number of quarters summed into a TTM figure
+ */
+export const TTM_QUARTERS = 4;
+
+// Four consecutive quarter ends span about nine months
+const MIN_TTM_SPAN_DAYS = 250;
+const MAX_TTM_SPAN_DAYS = 300;
+
+/**
+ * Trailing-twelve-month sums of the latest four quarters
+ */
+export interface TrailingTwelveMonths {
+  firstQuarterEnd: string;
+  lastQuarterEnd: string;
+  /**
+   * Sums in raw units (JPY); items missing from any of the quarters are left out
+   */
+  values: Partial<Record<TtmMetric, number>>;
+}
+
+/**
+ * Parse ?period= into a reporting period
+ * @returns The period, or null for an unknown value
+ */
+export function parseReportingPeriod(value: string | null): ReportingPeriod | null {
+  if (!value) return 'annual';
+  return value === 'annual' || value === 'ttm' ? value : null;
+}
+
+/**
+ * Sum the latest four quarters into TTM figures
+ * @param quarters One record per quarter with values in raw units (JPY), in any order
+ * @returns TTM sums, or null without four consecutive quarters
+ */
+export function sumTrailingQuarters(
+  quarters: { endDate: string; values: Partial<Record<TtmMetric, number | null | undefined>> }[]
+): TrailingTwelveMonths | null {
+  const latest = [...quarters].sort((a, b) => a.endDate.localeCompare(b.endDate)).slice(-TTM_QUARTERS);
+  if (latest.length < TTM_QUARTERS) return null;
+
+  const firstQuarterEnd = latest[0].endDate;
+  const lastQuarterEnd = latest[latest.length - 1].endDate;
+  const spanDays = (new Date(lastQuarterEnd).getTime() - new Date(firstQuarterEnd).getTime()) / (1000 * 60 * 60 * 24);
+  if (spanDays < MIN_TTM_SPAN_DAYS || spanDays > MAX_TTM_SPAN_DAYS) return null;
+
+  const values: Partial<Record<TtmMetric, number>> = {};
+  for (const metric of TTM_METRICS) {
+    const reported = latest.map((quarter) => quarter.values[metric]);
+    if (reported.every((value) => value != null && !Number.isNaN(value))) {
+      values[metric] = (reported as number[]).reduce((sum, value) => sum + value, 0);
+    }
+  }
+
+  return { firstQuarterEnd, lastQuarterEnd, values };
+}
+
+// e.g. 2025年3月
+const formatMonth = (date: string) =>
+  new Date(date).toLocaleString('ja-JP', { year: 'numeric', month: 'long' });
+
+/**
+ * Name of a fiscal year, e.g. 2025年3月期
+ */
+export function fiscalYearLabel(fiscalPeriodEnd: string): string {
+  return `${formatMonth(fiscalPeriodEnd)}期`;
+}
+
+/**
+ * Label of a fiscal-year period, e.g. 通期（2025年3月期）
+ */
+export function annualPeriodLabel(fiscalPeriodEnd: string | null): string {
+  return fiscalPeriodEnd
+    ? `${REPORTING_PERIOD_LABELS.annual}（${fiscalYearLabel(fiscalPeriodEnd)}）`
+    : REPORTING_PERIOD_LABELS.annual;
+}
+
+/**
+ * Label of a TTM period, e.g. TTM（2024年12月〜2025年9月に終わる4四半期）
+ */
+export function ttmPeriodLabel(ttm: TrailingTwelveMonths): string {
+  return `TTM（${formatMonth(ttm.firstQuarterEnd)}〜${formatMonth(ttm.lastQuarterEnd)}に終わる${TTM_QUARTERS}四半期）`;
+}
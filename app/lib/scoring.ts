@@ -0,0 +1,181 @@
+import {
+  listJudgmentOptions,
+  METRIC_STAGE_LABELS,
+  MetricDefinition,
+  MetricId,
+  MetricJudgment,
+  METRICS,
+  MetricStage,
+} from './metrics';
+import type { ThresholdTable } from './threshold-profiles';
+
+/**
+ * Composite investment score
+ * Each judgment level earns points by its band (excellent / strong / undervalued
+ * score highest, warning / declining / very-overvalued lowest). Points are averaged
+ * per stage of the 成長性 → 収益性 → 安全性 → 割安性 → キャッシュフロー flow and the stage scores are
+ * combined with per-stage weights into an overall grade
+ * Losses are judged like any other value (a negative ROE lands in the lowest band);
+ * stages without data are left out and the grade is marked incomplete
+ */
+
+/**
+ * Points per judgment band, from the best band to the worst
+ */
+export const BAND_POINTS = [100, 70, 40, 0];
+
+/**
+ * Stage score needed for the stage to pass
+ */
+export const PASS_SCORE = 50;
+
+export type StageWeights = Record<MetricStage, number>;
+
+export const DEFAULT_STAGE_WEIGHTS: StageWeights = {
+  growth: 1,
+  profitability: 1,
+  safety: 1,
+  valuation: 1,
+  cashflow: 1,
+};
+
+export type Grade = 'S' | 'A' | 'B' | 'C' | 'D';
+
+// Minimum overall score for each grade, best first
+const GRADE_CUTOFFS: [Grade, number][] = [
+  ['S', 85],
+  ['A', 70],
+  ['B', 55],
+  ['C', 40],
+  ['D', 0],
+];
+
+export interface MetricScore {
+  metric: MetricDefinition;
+  value: number;
+  judgment: MetricJudgment;
+  points: number;
+}
+
+export interface StageScore {
+  stage: MetricStage;
+  label: string;
+  weight: number;
+  /**
+   * Average points of the judged metrics (0-100), null when none were judged
+   */
+  score: number | null;
+  passed: boolean | null;
+  metrics: MetricScore[];
+}
+
+export interface InvestmentScore {
+  score: number | null;
+  grade: Grade | null;
+  /**
+   * Weighted stages left out of the score for lack of data; the grade is incomplete when any are
+   */
+  unscoredStages: StageScore[];
+  stages: StageScore[];
+  rationale: string[];
+}
+
+/**
+ * Points for a judgment level of a metric
+ */
+export function levelPoints(metric: MetricDefinition, level: string): number {
+  const band = listJudgmentOptions(metric).findIndex((option) => option.level === level);
+  return BAND_POINTS[band] ?? 0;
+}
+
+/**
+ * Combine metric values into a composite score
+ * @param values Metric values shown by the calculators
+ * @param weights Weight of each stage (0 excludes the stage)
+ * @param thresholds Cut-offs of the active profile
+ */
+export function scoreInvestment(
+  values: Partial<Record<MetricId, number>>,
+  weights: StageWeights,
+  thresholds?: Partial<ThresholdTable>
+): InvestmentScore {
+  const stages = (Object.keys(METRIC_STAGE_LABELS) as MetricStage[]).map((stage): StageScore => {
+    const metrics = METRICS.filter((metric) => metric.stage === stage).flatMap((metric): MetricScore[] => {
+      const value = values[metric.id];
+      if (value === undefined) return [];
+      const judgment = metric.judge(value, thresholds?.[metric.id]);
+      return [{ metric, value, judgment, points: levelPoints(metric, judgment.level) }];
+    });
+
+    const score = metrics.length > 0 ? metrics.reduce((sum, m) => sum + m.points, 0) / metrics.length : null;
+    return {
+      stage,
+      label: METRIC_STAGE_LABELS[stage],
+      weight: weights[stage],
+      score,
+      passed: score === null ? null : score >= PASS_SCORE,
+      metrics,
+    };
+  });
+
+  const weighted = stages.filter((s) => s.score !== null && s.weight > 0);
+  const unscoredStages = stages.filter((s) => s.score === null && s.weight > 0);
+  const totalWeight = weighted.reduce((sum, s) => sum + s.weight, 0);
+  const score = totalWeight > 0 ? weighted.reduce((sum, s) => sum + s.score! * s.weight, 0) / totalWeight : null;
+  const grade = score === null ? null : GRADE_CUTOFFS.find(([, cutoff]) => score >= cutoff)![0];
+
+  return { score, grade, unscoredStages, stages, rationale: buildRationale(stages) };
+}
+
+// One line per stage: verdict plus the judgments behind it
+function buildRationale(stages: StageScore[]): string[] {
+  return stages.map((stage) => {
+    if (stage.score === null) {
+      return `${stage.label}: 未評価（データ不足）`;
+    }
+    const verdict = stage.passed ? '合格' : '不合格';
+    const details = stage.metrics.map((m) => `${m.metric.label} ${m.judgment.title}`).join('、');
+    const excluded = stage.weight > 0 ? '' : '（配点対象外）';
+    return `${stage.label}: ${verdict}（${Math.round(stage.score)}点）${excluded} - ${details}`;
+  });
+}
+
+const STAGE_ORDER = Object.keys(DEFAULT_STAGE_WEIGHTS) as MetricStage[];
+
+/**
+ * Encode stage weights for a link ("1,1,2,1,0.5" in the order of DEFAULT_STAGE_WEIGHTS)
+ */
+export function formatStageWeights(weights: StageWeights): string {
+  return STAGE_ORDER.map((stage) => weights[stage]).join(',');
+}
+
+/**
+ * Decode stage weights from a link
+ * @returns The weights, or null when the value is malformed
+ */
+export function parseStageWeights(value: string): StageWeights | null {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== STAGE_ORDER.length || parts.some((weight) => !(weight >= 0))) return null;
+  return Object.fromEntries(STAGE_ORDER.map((stage, index) => [stage, parts[index]])) as StageWeights;
+}
+
+const WEIGHTS_STORAGE_KEY = 'score-stage-weights';
+
+/**
+ * Load stage weights from localStorage
+ */
+export function loadStageWeights(): StageWeights {
+  try {
+    const stored = window.localStorage.getItem(WEIGHTS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_STAGE_WEIGHTS, ...(JSON.parse(stored) as Partial<StageWeights>) } : DEFAULT_STAGE_WEIGHTS;
+  } catch {
+    return DEFAULT_STAGE_WEIGHTS;
+  }
+}
+
+/**
+ * Persist stage weights to localStorage
+ */
+export function storeStageWeights(weights: StageWeights): void {
+  window.localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+}
@@ -0,0 +1,180 @@
+import type { FinancialData } from '../components/company-search';
+import { MetricId, MetricJudgment, METRICS } from './metrics';
+import { isSecuritiesCode } from './securities-code';
+import type { ThresholdTable } from './threshold-profiles';
+
+/**
+ * Stock screener model
+ * Conditions are evaluated with the metric registry, so numeric thresholds
+ * and judgment titles (割安, 優良, ...) filter the same way the calculators judge
+ */
+
+export type ConditionOperator = 'lt' | 'lte' | 'gte' | 'gt' | 'judgment';
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'gte', label: '≥' },
+  { value: 'gt', label: '>' },
+  { value: 'judgment', label: '判定が' },
+];
+
+/**
+ * One filter condition; value is a number for comparisons and a judgment level for 'judgment'
+ */
+export interface ScreenerCondition {
+  id: number;
+  metric: MetricId;
+  operator: ConditionOperator;
+  value: string;
+}
+
+/**
+ * Company fetched for screening with its computed metrics
+ */
+export interface ScreenedCompany {
+  code: string;
+  companyName: string;
+  metrics: Partial<Record<MetricId, { value: number; judgment: MetricJudgment }>>;
+}
+
+/**
+ * Compute every registered metric for a company
+ * @param thresholds Cut-offs of the active profile (standard cut-offs when omitted)
+ */
+export function computeMetrics(
+  financialData: FinancialData,
+  thresholds?: Partial<ThresholdTable>
+): ScreenedCompany['metrics'] {
+  const metrics: ScreenedCompany['metrics'] = {};
+  for (const metric of METRICS) {
+    const value = metric.compute(financialData);
+    if (value !== null && Number.isFinite(value)) {
+      metrics[metric.id] = { value, judgment: metric.judge(value, thresholds?.[metric.id]) };
+    }
+  }
+  return metrics;
+}
+
+/**
+ * Check one condition; companies without the metric never match
+ */
+export function matchesCondition(company: ScreenedCompany, condition: ScreenerCondition): boolean {
+  const result = company.metrics[condition.metric];
+  if (!result) return false;
+
+  if (condition.operator === 'judgment') {
+    return result.judgment.level === condition.value;
+  }
+
+  if (condition.value.trim() === '') return true;
+  const threshold = Number(condition.value);
+  if (Number.isNaN(threshold)) return true;
+
+  switch (condition.operator) {
+    case 'lt':
+      return result.value < threshold;
+    case 'lte':
+      return result.value <= threshold;
+    case 'gte':
+      return result.value >= threshold;
+    case 'gt':
+      return result.value > threshold;
+  }
+}
+
+/**
+ * Filter companies matching every condition and sort them by a metric
+ * Companies without the sort metric are listed last
+ */
+export function screenCompanies(
+  companies: ScreenedCompany[],
+  conditions: ScreenerCondition[],
+  sort: { metric: MetricId; direction: 'asc' | 'desc' }
+): ScreenedCompany[] {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  return companies
+    .filter((company) => conditions.every((condition) => matchesCondition(company, condition)))
+    .sort((a, b) => {
+      const aValue = a.metrics[sort.metric]?.value;
+      const bValue = b.metrics[sort.metric]?.value;
+      if (aValue === undefined) return bValue === undefined ? 0 : 1;
+      if (bValue === undefined) return -1;
+      return (aValue - bValue) * sign;
+    });
+}
+
+/**
+ * Header names of the code column in an uploaded list
+ */
+const CODE_COLUMN_HEADERS = ['CODE', 'コード', '証券コード', '銘柄コード'];
+
+// CSV/TSV cell delimiters
+const CELL_DELIMITER = /[,\t;、]/;
+
+// Split a line into cells: CSV/TSV delimiters, or whitespace when the line has none
+const splitCells = (line: string): string[] => {
+  const cells = line.split(CELL_DELIMITER);
+  return (cells.length > 1 ? cells : line.trim().split(/\s+/))
+    .map((cell) => cell.trim().replace(/^"(.*)"$/, '$1').trim().toUpperCase());
+};
+
+// A cell holding a code, allowing the Yahoo Finance form (7203.T)
+const codeOfCell = (cell: string): string | null => {
+  const code = cell.replace(/\.T$/, '');
+  return isSecuritiesCode(code) ? code : null;
+};
+
+/**
+ * Extract securities codes from pasted text or an uploaded list (CSV, one per line, ...)
+ * With a header row, only the code column (code, 証券コード, ...) is read. Without one,
+ * every line contributes its first cell, so dates, prices and share counts in other
+ * columns are never taken for codes; only a single line without delimiters is read as a
+ * whitespace-separated list of codes.
+ * Accepts 4-character TSE codes such as 7203 or 130A, in order and without duplicates
+ */
+export function parseCodeList(text: string): string[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '');
+  const rows = lines.map(splitCells);
+  if (rows.length === 0) return [];
+
+  const codeColumn = rows[0].findIndex((cell) => CODE_COLUMN_HEADERS.includes(cell));
+  const cells = codeColumn >= 0
+    ? rows.slice(1).map((row) => row[codeColumn] ?? '')
+    : rows.length === 1 && !CELL_DELIMITER.test(lines[0])
+      ? rows[0]
+      : rows.map((row) => row[0]);
+
+  const codes = cells.map(codeOfCell).filter((code): code is string => code !== null);
+  return [...new Set(codes)];
+}
+
+/**
+ * Named list of codes saved in the browser
+ */
+export interface SavedUniverse {
+  name: string;
+  codes: string[];
+}
+
+const UNIVERSES_STORAGE_KEY = 'screener-universes';
+
+/**
+ * Load saved universes from localStorage
+ */
+export function loadSavedUniverses(): SavedUniverse[] {
+  try {
+    const stored = window.localStorage.getItem(UNIVERSES_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as SavedUniverse[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persist saved universes to localStorage
+ */
+export function storeSavedUniverses(universes: SavedUniverse[]): void {
+  window.localStorage.setItem(UNIVERSES_STORAGE_KEY, JSON.stringify(universes));
+}
@@ -0,0 +1,244 @@
+import { DEFAULT_THRESHOLDS, JudgmentMetric, JudgmentThresholds } from '../utils/financial';
+
+/**
+ * TSE 33-sector classification and per-sector judgment thresholds
+ * Sectors only override the metrics where their typical level differs from the
+ * market as a whole; other metrics fall back to the market-wide cut-offs
+ */
+
+export const TSE_SECTORS = [
+  { code: '0050', name: '水産・農林業' },
+  { code: '1050', name: '鉱業' },
+  { code: '2050', name: '建設業' },
+  { code: '3050', name: '食料品' },
+  { code: '3100', name: '繊維製品' },
+  { code: '3150', name: 'パルプ・紙' },
+  { code: '3200', name: '化学' },
+  { code: '3250', name: '医薬品' },
+  { code: '3300', name: '石油・石炭製品' },
+  { code: '3350', name: 'ゴム製品' },
+  { code: '3400', name: 'ガラス・土石製品' },
+  { code: '3450', name: '鉄鋼' },
+  { code: '3500', name: '非鉄金属' },
+  { code: '3550', name: '金属製品' },
+  { code: '3600', name: '機械' },
+  { code: '3650', name: '電気機器' },
+  { code: '3700', name: '輸送用機器' },
+  { code: '3750', name: '精密機器' },
+  { code: '3800', name: 'その他製品' },
+  { code: '4050', name: '電気・ガス業' },
+  { code: '5050', name: '陸運業' },
+  { code: '5100', name: '海運業' },
+  { code: '5150', name: '空運業' },
+  { code: '5200', name: '倉庫・運輸関連業' },
+  { code: '5250', name: '情報・通信業' },
+  { code: '6050', name: '卸売業' },
+  { code: '6100', name: '小売業' },
+  { code: '7050', name: '銀行業' },
+  { code: '7100', name: '証券、商品先物取引業' },
+  { code: '7150', name: '保険業' },
+  { code: '7200', name: 'その他金融業' },
+  { code: '8050', name: '不動産業' },
+  { code: '9050', name: 'サービス業' },
+] as const;
+
+/**
+ * TSE 33-sector code (e.g. 3700 = 輸送用機器)
+ */
+export type SectorCode = (typeof TSE_SECTORS)[number]['code'];
+
+/**
+ * Sector-specific cut-offs, in the same order as DEFAULT_THRESHOLDS
+ */
+export const SECTOR_THRESHOLDS: Partial<Record<SectorCode, Partial<Record<JudgmentMetric, JudgmentThresholds>>>> = {
+  // 建設業: thin margins, large receivables
+  '2050': { operatingMargin: [8, 5, 3], psr: [0.4, 0.8, 1.5] },
+  // 医薬品: high margins, R&D-heavy valuations
+  '3250': { operatingMargin: [25, 15, 8], per: [15, 25, 35], pbr: [1.5, 2.5, 4], equityRatio: [65, 50, 35] },
+  // 鉄鋼: cyclical, priced at low multiples
+  '3450': { operatingMargin: [10, 6, 3], per: [6, 10, 15], pbr: [0.6, 1, 1.5] },
+  // 輸送用機器: finance subsidiaries inflate the balance sheet
+  '3700': { operatingMargin: [10, 7, 4], per: [8, 12, 18], equityRatio: [40, 30, 20], roa: [6, 3, 1.5] },
+  // 電気・ガス業: regulated, capital-intensive and leveraged
+  '4050': {
+    operatingMargin: [8, 5, 3],
+    equityRatio: [30, 20, 10],
+    currentRatio: [100, 70, 50],
+    roa: [3, 1.5, 0.5],
+    pbr: [0.6, 1, 1.5],
+    dividendYield: [4, 3, 2],
+    debtToEquity: [1.5, 2.5, 4],
+  },
+  // 陸運業: railways carry long-term debt against fixed assets
+  '5050': { equityRatio: [40, 30, 20], currentRatio: [100, 70, 50], roa: [4, 2, 1], debtToEquity: [1, 1.5, 2.5] },
+  // 情報・通信業: asset-light growth, including SaaS
+  '5250': { operatingMargin: [25, 15, 8], per: [15, 25, 40], pbr: [2, 4, 6], psr: [2, 4, 8], roe: [20, 12, 6] },
+  // 卸売業: trading companies with very thin margins on large revenue
+  '6050': { operatingMargin: [4, 2, 1], psr: [0.3, 0.6, 1.2], roa: [5, 3, 1.5], equityRatio: [40, 30, 20] },
+  // 小売業: low margins, inventory financed by payables
+  '6100': { operatingMargin: [8, 5, 3], currentRatio: [150, 100, 70], psr: [0.5, 1, 2] },
+  // 銀行業: deposits are liabilities, so equity ratio and ROA run far lower
+  '7050': { equityRatio: [8, 5, 3], roa: [0.5, 0.3, 0.1], roe: [8, 5, 3], per: [8, 12, 18], pbr: [0.5, 0.8, 1.2] },
+  // 証券、商品先物取引業
+  '7100': { equityRatio: [15, 8, 4], roa: [1.5, 0.8, 0.3] },
+  // 保険業: policy reserves dominate the balance sheet
+  '7150': { equityRatio: [10, 6, 3], roa: [1, 0.5, 0.2] },
+  // その他金融業: leasing and consumer credit are debt-funded
+  '7200': { equityRatio: [20, 12, 6], roa: [2, 1, 0.5] },
+  // 不動産業: inventories of property held in current assets, leveraged
+  '8050': { equityRatio: [35, 25, 15], per: [8, 12, 18], pbr: [0.8, 1.2, 2], debtToEquity: [1, 2, 3] },
+  // サービス業
+  '9050': { operatingMargin: [15, 10, 5] },
+};
+
+/**
+ * Benchmark a judgment was made against
+ */
+export interface Benchmark {
+  kind: 'sector' | 'market';
+  label: string;
+  thresholds: JudgmentThresholds;
+}
+
+/**
+ * Look up a sector by code or name
+ */
+export function findSector(value: string | null | undefined): (typeof TSE_SECTORS)[number] | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  return TSE_SECTORS.find((sector) => sector.code === trimmed || sector.name === trimmed) || null;
+}
+
+/**
+ * Thresholds for a metric within a sector
+ * @param sector Sector code, or null when unknown
+ * @param marketThresholds Cut-offs used when the sector has no table for the metric
+ * @returns Sector table when the sector overrides the metric, otherwise the market cut-offs
+ */
+export function getSectorBenchmark(
+  metric: JudgmentMetric,
+  sector: SectorCode | null,
+  marketThresholds: JudgmentThresholds = DEFAULT_THRESHOLDS[metric]
+): Benchmark {
+  const sectorName = findSector(sector)?.name;
+  const thresholds = sector ? SECTOR_THRESHOLDS[sector]?.[metric] : undefined;
+
+  if (sectorName && thresholds) {
+    return { kind: 'sector', label: `${sectorName}の業種基準`, thresholds };
+  }
+
+  return {
+    kind: 'market',
+    label: sectorName ? `${sectorName}の業種別基準なし（全体の判定基準を使用）` : '業種未設定（全体の判定基準を使用）',
+    thresholds: marketThresholds,
+  };
+}
+
+/**
+ * Yahoo Finance industries mapped to the TSE 33-sector classification
+ */
+const YAHOO_INDUSTRY_SECTORS: Record<string, SectorCode> = {
+  'Farm Products': '0050',
+  'Oil & Gas E&P': '1050',
+  'Engineering & Construction': '2050',
+  'Residential Construction': '2050',
+  'Packaged Foods': '3050',
+  'Beverages - Brewers': '3050',
+  'Beverages - Non-Alcoholic': '3050',
+  'Confectioners': '3050',
+  'Tobacco': '3050',
+  'Textile Manufacturing': '3100',
+  'Apparel Manufacturing': '3100',
+  'Paper & Paper Products': '3150',
+  'Chemicals': '3200',
+  'Specialty Chemicals': '3200',
+  'Household & Personal Products': '3200',
+  'Drug Manufacturers - General': '3250',
+  'Drug Manufacturers - Specialty & Generic': '3250',
+  'Biotechnology': '3250',
+  'Oil & Gas Refining & Marketing': '3300',
+  'Rubber & Plastics': '3350',
+  'Building Materials': '3400',
+  'Steel': '3450',
+  'Other Industrial Metals & Mining': '3500',
+  'Aluminum': '3500',
+  'Copper': '3500',
+  'Metal Fabrication': '3550',
+  'Specialty Industrial Machinery': '3600',
+  'Farm & Heavy Construction Machinery': '3600',
+  'Tools & Accessories': '3600',
+  'Electronic Components': '3650',
+  'Consumer Electronics': '3650',
+  'Semiconductors': '3650',
+  'Semiconductor Equipment & Materials': '3650',
+  'Electrical Equipment & Parts': '3650',
+  'Computer Hardware': '3650',
+  'Communication Equipment': '3650',
+  'Scientific & Technical Instruments': '3650',
+  'Auto Manufacturers': '3700',
+  'Auto Parts': '3700',
+  'Aerospace & Defense': '3700',
+  'Medical Instruments & Supplies': '3750',
+  'Medical Devices': '3750',
+  'Leisure': '3800',
+  'Electronic Gaming & Multimedia': '3800',
+  'Furnishings, Fixtures & Appliances': '3800',
+  'Utilities - Regulated Electric': '4050',
+  'Utilities - Regulated Gas': '4050',
+  'Utilities - Renewable': '4050',
+  'Railroads': '5050',
+  'Trucking': '5050',
+  'Integrated Freight & Logistics': '5050',
+  'Marine Shipping': '5100',
+  'Airlines': '5150',
+  'Airports & Air Services': '5200',
+  'Software - Application': '5250',
+  'Software - Infrastructure': '5250',
+  'Information Technology Services': '5250',
+  'Telecom Services': '5250',
+  'Internet Content & Information': '5250',
+  'Entertainment': '5250',
+  'Broadcasting': '5250',
+  'Publishing': '5250',
+  'Conglomerates': '6050',
+  'Industrial Distribution': '6050',
+  'Food Distribution': '6050',
+  'Electronics & Computer Distribution': '6050',
+  'Medical Distribution': '6050',
+  'Specialty Retail': '6100',
+  'Department Stores': '6100',
+  'Grocery Stores': '6100',
+  'Discount Stores': '6100',
+  'Apparel Retail': '6100',
+  'Home Improvement Retail': '6100',
+  'Internet Retail': '6100',
+  'Restaurants': '6100',
+  'Pharmaceutical Retailers': '6100',
+  'Banks - Regional': '7050',
+  'Banks - Diversified': '7050',
+  'Capital Markets': '7100',
+  'Insurance - Life': '7150',
+  'Insurance - Property & Casualty': '7150',
+  'Insurance - Diversified': '7150',
+  'Credit Services': '7200',
+  'Financial Conglomerates': '7200',
+  'Real Estate - Development': '8050',
+  'Real Estate - Diversified': '8050',
+  'Real Estate Services': '8050',
+  'Staffing & Employment Services': '9050',
+  'Consulting Services': '9050',
+  'Specialty Business Services': '9050',
+  'Advertising Agencies': '9050',
+  'Lodging': '9050',
+  'Education & Training Services': '9050',
+  'Medical Care Facilities': '9050',
+  'Personal Services': '9050',
+};
+
+/**
+ * Map a Yahoo Finance industry to a TSE sector
+ * @returns Sector code, or null when the industry has no clear TSE counterpart
+ */
+export function sectorFromYahooIndustry(industry: string | undefined): SectorCode | null {
+  return (industry && YAHOO_INDUSTRY_SECTORS[industry]) || null;
+}
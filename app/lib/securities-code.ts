@@ -0,0 +1,19 @@
+/**
+ * Securities codes
+ * TSE codes are four characters: three digits followed by a digit or, for codes
+ * issued since 2024, a capital letter (e.g. 7203, 130A)
+ */
+
+export const SECURITIES_CODE_PATTERN = /^\d{3}[0-9A-Z]$/;
+
+/**
+ * Whether a value is a well-formed securities code
+ * Codes are checked before they reach a provider, since providers build file paths from them
+ */
+export const isSecuritiesCode = (code: string) => SECURITIES_CODE_PATTERN.test(code);
+
+/**
+ * Error message for a malformed code
+ */
+export const invalidSecuritiesCodeMessage = (code: string) =>
+  `証券コード ${code} の形式が不正です（数字4桁、または数字3桁と英大文字1文字）`;
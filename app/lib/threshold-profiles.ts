@@ -0,0 +1,121 @@
+import { DEFAULT_THRESHOLDS, JudgmentMetric, JudgmentThresholds } from '../utils/financial';
+
+/**
+ * Judgment threshold profiles
+ * A profile overrides the market-wide cut-offs for some metrics; the rest keep
+ * DEFAULT_THRESHOLDS. Presets are built in, custom profiles live in localStorage
+ */
+
+export type ThresholdTable = Record<JudgmentMetric, JudgmentThresholds>;
+
+export interface ThresholdProfile {
+  id: string;
+  name: string;
+  description: string;
+  builtIn: boolean;
+  thresholds: Partial<ThresholdTable>;
+}
+
+export const PRESET_PROFILES: ThresholdProfile[] = [
+  {
+    id: 'standard',
+    name: '標準',
+    description: '全市場共通の基準',
+    builtIn: true,
+    thresholds: {},
+  },
+  {
+    id: 'value',
+    name: 'バリュー',
+    description: '低い倍率と厚い財務基盤を重視',
+    builtIn: true,
+    thresholds: {
+      psr: [0.5, 1, 2],
+      per: [8, 12, 15],
+      pbr: [0.7, 1, 1.5],
+      dividendYield: [4, 3, 2],
+      currentRatio: [250, 200, 150],
+      equityRatio: [60, 50, 30],
+      debtToEquity: [0.3, 0.6, 1],
+      evEbitda: [4, 6, 10],
+      netCashRatio: [70, 40, 10],
+    },
+  },
+  {
+    id: 'growth',
+    name: 'グロース',
+    description: '成長率と収益性を重視し、高めの倍率を許容',
+    builtIn: true,
+    thresholds: {
+      psr: [3, 6, 12],
+      revenueGrowth: [15, 8, 5],
+      operatingIncomeGrowth: [20, 12, 5],
+      epsGrowth: [20, 12, 5],
+      capexRatio: [2, 1.5, 1],
+      roe: [20, 15, 10],
+      operatingMargin: [25, 15, 8],
+      per: [20, 35, 50],
+      pbr: [3, 6, 10],
+      evEbitda: [12, 20, 30],
+      evSales: [3, 6, 12],
+    },
+  },
+  {
+    id: 'high-dividend',
+    name: '高配当',
+    description: '配当利回りと配当を支える財務の安定性を重視',
+    builtIn: true,
+    thresholds: {
+      dividendYield: [5, 4, 3],
+      per: [10, 15, 20],
+      pbr: [1, 1.5, 2],
+      equityRatio: [50, 40, 30],
+      interestCoverage: [15, 8, 4],
+    },
+  },
+];
+
+export const DEFAULT_PROFILE_ID = 'standard';
+
+/**
+ * Full threshold table of a profile, falling back to the market-wide cut-offs
+ */
+export function resolveThresholds(profile: ThresholdProfile | undefined): ThresholdTable {
+  return { ...DEFAULT_THRESHOLDS, ...profile?.thresholds };
+}
+
+/**
+ * Whether boundaries run from the best band to the worst for the metric's direction
+ * @param lowerIsBetter true for PSR, PER and PBR
+ */
+export function isValidThresholds(thresholds: JudgmentThresholds, lowerIsBetter: boolean): boolean {
+  if (thresholds.some((value) => !Number.isFinite(value))) return false;
+  const [first, second, third] = thresholds;
+  return lowerIsBetter ? first <= second && second <= third : first >= second && second >= third;
+}
+
+const PROFILES_STORAGE_KEY = 'threshold-profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'threshold-profile-active';
+
+/**
+ * Load custom profiles and the active profile id from localStorage
+ */
+export function loadStoredProfiles(): { profiles: ThresholdProfile[]; activeId: string } {
+  try {
+    const stored = window.localStorage.getItem(PROFILES_STORAGE_KEY);
+    return {
+      profiles: stored ? (JSON.parse(stored) as ThresholdProfile[]) : [],
+      activeId: window.localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_PROFILE_ID,
+    };
+  } catch {
+    return { profiles: [], activeId: DEFAULT_PROFILE_ID };
+  }
+}
+
+/**
+ * Persist custom profiles and the active profile id to localStorage
+ */
+export function storeProfiles(profiles: ThresholdProfile[], activeId: string): void {
+  window.localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles.filter((p) => !p.builtIn)));
+  window.localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, activeId);
+}
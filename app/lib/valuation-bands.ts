@@ -0,0 +1,204 @@
+import type { HistorySeries } from './history';
+import type { PriceBar, StockSplit } from './price-history';
+import { calculatePBR, calculatePER } from '../utils/financial';
+
+/**
+ * Historical valuation bands
+ * Past PER / PBR are rebuilt from split-adjusted prices and the per-share earnings and
+ * book value of the fiscal year last announced at each date
+ */
+
+export type BandMetric = 'per' | 'pbr';
+
+/**
+ * Multiples drawn as price bands
+ */
+export const BAND_MULTIPLES: Record<BandMetric, number[]> = {
+  per: [10, 15, 20],
+  pbr: [0.5, 1, 2],
+};
+
+/**
+ * Windows (in years) the current value is ranked in
+ */
+export const PERCENTILE_WINDOWS = [5, 10];
+
+/**
+ * Valuation at one price bar
+ */
+export interface ValuationPoint {
+  date: string;
+  price: number; // JPY
+  /**
+   * Null before the first fiscal year on record, or when the denominator is not positive
+   */
+  per: number | null;
+  pbr: number | null;
+  /**
+   * Prices implied by each of BAND_MULTIPLES (JPY), in the same order
+   */
+  bands: Record<BandMetric, number[] | null>;
+}
+
+/**
+ * Days after the fiscal year end until its results are assumed public
+ * (the TSE asks for 決算短信 within 45 days of the period end)
+ */
+export const ANNOUNCEMENT_LAG_DAYS = 45;
+
+/**
+ * Per-share values of one fiscal year, in post-split shares as of today
+ */
+export interface FiscalYearPerShare {
+  endDate: string;
+  /**
+   * First date the year's results are used (endDate + ANNOUNCEMENT_LAG_DAYS)
+   */
+  announcedOn: string;
+  eps: number | null; // JPY
+  bps: number | null; // JPY
+}
+
+const addDays = (date: string, days: number) => {
+  const shifted = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * Per-share earnings and book value of each fiscal year
+ * The share count of a year is implied by its net income and EPS, so buybacks and issuance are
+ * reflected. Sources differ in whether past EPS is restated for later splits; the reading whose
+ * share count is closer to today's is taken. Years without EPS fall back to today's share count
+ * @param series Per-fiscal-year history (net income and equity in million JPY, EPS in JPY)
+ * @param sharesOutstanding Current number of shares
+ * @param splits Splits, used to put each year's shares in post-split terms
+ */
+export function perShareByFiscalYear(
+  series: HistorySeries,
+  sharesOutstanding: number,
+  splits: StockSplit[] = []
+): FiscalYearPerShare[] {
+  const endDates = [...new Set(
+    [...series.netIncome, ...series.equity, ...series.eps].map((point) => point.endDate.slice(0, 10))
+  )].sort();
+  const valueOn = (points: { endDate: string; value: number }[], endDate: string) =>
+    points.find((point) => point.endDate.slice(0, 10) === endDate)?.value ?? null;
+  const current = sharesOutstanding > 0 ? sharesOutstanding : null;
+
+  return endDates.map((endDate) => {
+    const netIncome = valueOn(series.netIncome, endDate);
+    const equity = valueOn(series.equity, endDate);
+    const reportedEps = valueOn(series.eps, endDate);
+
+    let shares = current;
+    if (netIncome !== null && reportedEps !== null && netIncome * reportedEps > 0) {
+      const implied = (netIncome * 1000000) / reportedEps;
+      const splitFactor = splits
+        .filter((split) => split.ratio > 0 && split.date > endDate)
+        .reduce((product, split) => product * split.ratio, 1);
+      const distance = (count: number) => (current ? Math.abs(Math.log(count / current)) : 0);
+      shares = distance(implied * splitFactor) < distance(implied) ? implied * splitFactor : implied;
+    }
+
+    return {
+      endDate,
+      announcedOn: addDays(endDate, ANNOUNCEMENT_LAG_DAYS),
+      eps: netIncome !== null && shares ? (netIncome * 1000000) / shares : null,
+      bps: equity !== null && shares ? (equity * 1000000) / shares : null,
+    };
+  });
+}
+
+/**
+ * Rebuild PER / PBR and the band prices at each bar
+ * Each bar uses the latest fiscal year announced by its date
+ * @param bars Split-adjusted bars sorted from oldest to newest
+ * @param series Per-fiscal-year history (net income and equity in million JPY, EPS in JPY)
+ * @param sharesOutstanding Current number of shares
+ * @param splits Splits behind the adjusted prices
+ */
+export function buildValuationSeries(
+  bars: PriceBar[],
+  series: HistorySeries,
+  sharesOutstanding: number,
+  splits: StockSplit[] = []
+): ValuationPoint[] {
+  const years = perShareByFiscalYear(series, sharesOutstanding, splits);
+
+  return bars.map((bar) => {
+    const year = years.filter((candidate) => candidate.announcedOn <= bar.date).pop();
+    const eps = year?.eps ?? null;
+    const bps = year?.bps ?? null;
+
+    return {
+      date: bar.date,
+      price: bar.close,
+      per: eps !== null && eps > 0 ? calculatePER(bar.close, eps) : null,
+      pbr: bps !== null && bps > 0 ? calculatePBR(bar.close, bps) : null,
+      bands: {
+        per: eps !== null && eps > 0 ? BAND_MULTIPLES.per.map((multiple) => multiple * eps) : null,
+        pbr: bps !== null && bps > 0 ? BAND_MULTIPLES.pbr.map((multiple) => multiple * bps) : null,
+      },
+    };
+  });
+}
+
+/**
+ * Where the current value sits among past values of the same metric
+ */
+export interface ValuationRange {
+  years: number;
+  min: number;
+  median: number;
+  max: number;
+  /**
+   * Share of past values at or below the current value (0-100)
+   */
+  percentile: number;
+  /**
+   * Years actually covered by the values (shorter than `years` when history is short)
+   */
+  coveredYears: number;
+}
+
+/**
+ * Percentile rank: share of values at or below `current`
+ */
+export function percentileRank(values: number[], current: number): number {
+  return (values.filter((value) => value <= current).length / values.length) * 100;
+}
+
+/**
+ * Rank the current value within the last `years` of the series
+ * @returns The range, or null when the window has no values
+ */
+export function rankInRange(
+  points: ValuationPoint[],
+  metric: BandMetric,
+  current: number,
+  years: number
+): ValuationRange | null {
+  if (points.length === 0) return null;
+
+  const latest = new Date(`${points[points.length - 1].date}T00:00:00Z`);
+  const start = new Date(latest);
+  start.setUTCFullYear(start.getUTCFullYear() - years);
+  const from = start.toISOString().slice(0, 10);
+
+  const window = points.filter((point) => point.date >= from && point[metric] !== null);
+  if (window.length === 0) return null;
+
+  const values = window.map((point) => point[metric]!).sort((a, b) => a - b);
+  const mid = Math.floor(values.length / 2);
+  const coveredDays = (latest.getTime() - new Date(`${window[0].date}T00:00:00Z`).getTime()) / (1000 * 60 * 60 * 24);
+
+  return {
+    years,
+    min: values[0],
+    median: values.length % 2 ? values[mid] : (values[mid - 1] + values[mid]) / 2,
+    max: values[values.length - 1],
+    percentile: percentileRank(values, current),
+    coveredYears: coveredDays / 365.25,
+  };
+}
@@ -0,0 +1,45 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isWatchlistEntry, WatchlistEntry } from './watchlist';
+
+/**
+ * Server-side watchlist storage
+ * Optional: enabled when WATCHLIST_FILE points to a JSON file, which then holds the whole list
+ */
+
+/**
+ * Path of the watchlist file, null when server-side storage is disabled
+ */
+export const WATCHLIST_FILE = process.env.WATCHLIST_FILE || null;
+
+/**
+ * Read the stored watchlist
+ * @returns The entries, empty when the file does not exist yet
+ */
+export async function readStoredWatchlist(file: string): Promise<WatchlistEntry[]> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(file, 'utf-8'));
+    return Array.isArray(parsed) ? parsed.filter(isWatchlistEntry) : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Replace the stored watchlist
+ * The list is written to a temporary file that is then renamed over the old one, so concurrent
+ * writes leave one complete list instead of a mix of both
+ */
+export async function writeStoredWatchlist(file: string, entries: WatchlistEntry[]): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporaryFile = `${file}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(temporaryFile, JSON.stringify(entries));
+    await fs.rename(temporaryFile, file);
+  } catch (error) {
+    await fs.rm(temporaryFile, { force: true });
+    throw error;
+  }
+}
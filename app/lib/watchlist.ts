@@ -0,0 +1,165 @@
+import type { FinancialData } from '../components/company-search';
+import type { CompanyResponse } from './company-response';
+import { isFinancialData } from './financial-data-fields';
+import type { MetricId } from './metrics';
+import type { ProviderId } from './providers/types';
+import type { SectorCode } from './sectors';
+import { isSecuritiesCode } from './securities-code';
+
+/**
+ * Watchlist model
+ * Each entry keeps the snapshot it was last fetched with, so the list shows
+ * metrics without refetching. The list lives in localStorage and, when the
+ * server sets WATCHLIST_FILE, is mirrored to /api/watchlist
+ */
+
+export interface WatchlistEntry {
+  code: string;
+  companyName: string;
+  dataSource: string;
+  /**
+   * Provider that answered, reused when the entry is refreshed
+   */
+  provider: ProviderId | null;
+  sector: SectorCode | null;
+  financialData: FinancialData;
+  /**
+   * When the snapshot was fetched (ISO 8601)
+   */
+  fetchedAt: string;
+}
+
+/**
+ * Metrics shown per entry, one or two per analysis stage
+ */
+export const WATCHLIST_METRICS: MetricId[] = [
+  'revenueGrowth',
+  'roe',
+  'operatingMargin',
+  'equityRatio',
+  'per',
+  'pbr',
+  'dividendYield',
+  'fcfYield',
+];
+
+/**
+ * Entries a watchlist can hold (refreshing them fits one batch request)
+ */
+export const MAX_WATCHLIST_ENTRIES = 100;
+
+/**
+ * Largest watchlist body PUT /api/watchlist accepts; a full list is well under this
+ */
+export const MAX_WATCHLIST_BYTES = 1024 * 1024;
+
+// Longest company name, data source or timestamp an entry may carry
+const MAX_TEXT_LENGTH = 200;
+
+/**
+ * Build an entry from a company API response
+ * @returns The entry, or null when the response has no securities code (e.g. an uploaded file)
+ */
+export function toWatchlistEntry(data: CompanyResponse): WatchlistEntry | null {
+  const code = data.symbol.replace('.T', '');
+  if (!isSecuritiesCode(code)) return null;
+
+  return {
+    code,
+    companyName: data.companyName,
+    dataSource: data.dataSource,
+    provider: data.provider,
+    sector: data.sector,
+    financialData: data.financialData,
+    fetchedAt: data.fetchedAt,
+  };
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.length <= MAX_TEXT_LENGTH;
+
+/**
+ * Whether a stored or uploaded value is a valid entry
+ * The code must be a securities code and financialData may only hold known fields
+ */
+export function isWatchlistEntry(value: unknown): value is WatchlistEntry {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<WatchlistEntry>;
+  return (
+    typeof entry.code === 'string' &&
+    isSecuritiesCode(entry.code) &&
+    isText(entry.companyName) &&
+    isText(entry.fetchedAt) &&
+    (entry.dataSource === undefined || isText(entry.dataSource)) &&
+    (entry.provider == null || isText(entry.provider)) &&
+    (entry.sector == null || isText(entry.sector)) &&
+    isFinancialData(entry.financialData)
+  );
+}
+
+/**
+ * Merge two lists, keeping the more recently fetched entry of each code
+ * Order follows `primary`, then codes only `secondary` has
+ */
+export function mergeWatchlists(primary: WatchlistEntry[], secondary: WatchlistEntry[]): WatchlistEntry[] {
+  const byCode = new Map(secondary.map((entry) => [entry.code, entry]));
+  const merged = primary.map((entry) => {
+    const other = byCode.get(entry.code);
+    byCode.delete(entry.code);
+    return other && other.fetchedAt > entry.fetchedAt ? other : entry;
+  });
+  return [...merged, ...byCode.values()].slice(0, MAX_WATCHLIST_ENTRIES);
+}
+
+const WATCHLIST_STORAGE_KEY = 'watchlist';
+
+/**
+ * Load the watchlist from localStorage
+ */
+export function loadWatchlist(): WatchlistEntry[] {
+  try {
+    const stored = window.localStorage.getItem(WATCHLIST_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isWatchlistEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persist the watchlist to localStorage
+ */
+export function storeWatchlist(entries: WatchlistEntry[]): void {
+  window.localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(entries));
+}
+
+/**
+ * Load the server copy of the watchlist
+ * @returns The entries, or null when server-side storage is disabled or unreachable
+ */
+export async function fetchServerWatchlist(): Promise<WatchlistEntry[] | null> {
+  try {
+    const response = await fetch('/api/watchlist');
+    if (!response.ok) return null;
+    const data = await response.json();
+    return Array.isArray(data.entries) ? data.entries.filter(isWatchlistEntry) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the server copy of the watchlist
+ * @throws Error with the API message when the server rejects the list
+ */
+export async function saveServerWatchlist(entries: WatchlistEntry[]): Promise<void> {
+  const response = await fetch('/api/watchlist', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ entries }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'ウォッチリストの保存に失敗しました');
+  }
+}
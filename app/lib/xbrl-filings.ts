@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { mapXbrlToFinancialData, mergeXbrl, parseXbrl, XbrlFiling, XbrlInstance } from './xbrl';
+
+/**
+ * EDINET filing package loader
+ * Reads zipped filing packages or bare XBRL documents, either uploaded or
+ * stored in a local directory, so filings can be analyzed offline
+ */
+
+/**
+ * Directory scanned for filings when looking up a securities code
+ * Set EDINET_XBRL_DIR to point at a folder of downloaded EDINET packages
+ */
+export const XBRL_DIRECTORY = process.env.EDINET_XBRL_DIR || path.join(process.cwd(), 'data', 'edinet');
+
+const FILING_EXTENSIONS = ['.zip', '.xbrl', '.htm', '.html', '.xhtml'];
+
+/**
+ * Largest filing accepted for upload (EDINET packages are a few MB)
+ */
+export const MAX_FILING_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Largest total size of the documents inflated from one package
+ */
+export const MAX_FILING_UNCOMPRESSED_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Thrown when a filing or the documents inflated from it exceed the size limits
+ */
+export class FilingTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Filing exceeds ${limit} bytes`);
+    this.name = 'FilingTooLargeError';
+  }
+}
+
+// ZIP local file header signature "PK\x03\x04"
+const isZip = (data: Uint8Array) =>
+  data.length > 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+
+/**
+ * Pick the documents that carry the financial facts of a filing package
+ * EDINET packages keep the instance in XBRL/PublicDoc; 決算短信 packages from
+ * TDnet only contain inline XBRL (XBRLData/Summary and XBRLData/Attachment)
+ */
+function selectFilingDocuments(fileNames: string[]): string[] {
+  const candidates = fileNames.filter((name) => !name.includes('AuditDoc'));
+  const instances = candidates.filter((name) => name.endsWith('.xbrl'));
+  if (instances.length > 0) return instances;
+  return candidates.filter((name) => /ixbrl\.x?html?$/i.test(name));
+}
+
+/**
+ * Inflate one package entry, stopping as soon as the package's size budget runs out
+ * @param budget Bytes still allowed for the package, reduced as the entry is read
+ */
+function inflateEntry(entry: JSZip.JSZipObject, budget: { remaining: number }): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = entry.nodeStream('nodebuffer');
+
+    stream.on('data', (chunk: Buffer) => {
+      budget.remaining -= chunk.length;
+      if (budget.remaining < 0) {
+        stream.pause();
+        stream.removeAllListeners();
+        reject(new FilingTooLargeError(MAX_FILING_UNCOMPRESSED_BYTES));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Parse a filing package or a single XBRL document
+ * @param data Raw file content
+ * @returns Parsed XBRL instance covering every document in the package
+ * @throws FilingTooLargeError when the inflated documents exceed MAX_FILING_UNCOMPRESSED_BYTES
+ */
+export async function readFilingPackage(data: Uint8Array): Promise<XbrlInstance> {
+  if (!isZip(data)) {
+    return parseXbrl(new TextDecoder('utf-8').decode(data));
+  }
+
+  const zip = await JSZip.loadAsync(data);
+  const documents = selectFilingDocuments(Object.keys(zip.files));
+  if (documents.length === 0) {
+    throw new Error('XBRL instance not found in filing package');
+  }
+
+  // Entries are inflated one at a time so the budget bounds memory, not just the result
+  const budget = { remaining: MAX_FILING_UNCOMPRESSED_BYTES };
+  const instances: XbrlInstance[] = [];
+  for (const name of documents) {
+    instances.push(parseXbrl(await inflateEntry(zip.files[name], budget)));
+  }
+  return mergeXbrl(instances);
+}
+
+/**
+ * Read a filing and map it into the FinancialData shape
+ * @param data Raw file content of a package or XBRL document
+ * @returns Mapped filing
+ */
+export async function loadFiling(data: Uint8Array): Promise<XbrlFiling> {
+  const instance = await readFilingPackage(data);
+  if (instance.facts.length === 0) {
+    throw new Error('No XBRL facts found in filing');
+  }
+  return mapXbrlToFinancialData(instance);
+}
+
+/**
+ * Parsed filing of a stored file, kept while the file's mtime and size are unchanged
+ * (null when the file could not be read as a filing)
+ */
+interface IndexedFiling {
+  mtimeMs: number;
+  size: number;
+  filing: XbrlFiling | null;
+}
+
+// Filing index by absolute file path, shared by every lookup in this process
+const filingIndex = new Map<string, IndexedFiling>();
+
+/**
+ * Parse the filings of a directory, reusing the index for files that have not changed
+ * @returns Readable filings of the directory
+ */
+async function indexDirectory(directory: string): Promise<XbrlFiling[]> {
+  const entries = await fs.readdir(directory);
+  const filePaths = entries
+    .filter((entry) => FILING_EXTENSIONS.includes(path.extname(entry).toLowerCase()))
+    .map((entry) => path.resolve(directory, entry));
+
+  const filings: XbrlFiling[] = [];
+  for (const filePath of filePaths) {
+    try {
+      const stat = await fs.stat(filePath);
+      let indexed = filingIndex.get(filePath);
+      if (!indexed || indexed.mtimeMs !== stat.mtimeMs || indexed.size !== stat.size) {
+        let filing: XbrlFiling | null = null;
+        try {
+          filing = await loadFiling(await fs.readFile(filePath));
+        } catch (error) {
+          console.warn('Skipping unreadable filing:', filePath, error);
+        }
+        indexed = { mtimeMs: stat.mtimeMs, size: stat.size, filing };
+        filingIndex.set(filePath, indexed);
+      }
+      if (indexed.filing) filings.push(indexed.filing);
+    } catch (error) {
+      console.warn('Skipping missing filing:', filePath, error);
+    }
+  }
+
+  // Forget files removed from the directory
+  const directoryPath = path.resolve(directory);
+  for (const filePath of filingIndex.keys()) {
+    if (path.dirname(filePath) === directoryPath && !filePaths.includes(filePath)) {
+      filingIndex.delete(filePath);
+    }
+  }
+
+  return filings;
+}
+
+/**
+ * Find the latest filing for a securities code in the local filing directory
+ * Files are parsed once and re-read only when their mtime or size changes
+ * @param securitiesCode 4-digit securities code
+ * @param directory Directory to scan (defaults to XBRL_DIRECTORY)
+ * @returns Latest matching filing, or null when none is stored
+ */
+export async function findLocalFiling(
+  securitiesCode: string,
+  directory: string = XBRL_DIRECTORY
+): Promise<XbrlFiling | null> {
+  let filings: XbrlFiling[];
+  try {
+    filings = await indexDirectory(directory);
+  } catch {
+    console.warn('XBRL directory not readable:', directory);
+    return null;
+  }
+
+  const matches = filings.filter((filing) => filing.securitiesCode === securitiesCode);
+
+  // Prefer the filing with the most recent period end
+  matches.sort((a, b) => (b.fiscalPeriodEnd || '').localeCompare(a.fiscalPeriodEnd || ''));
+  return matches[0] || null;
+}
@@ -0,0 +1,646 @@
+import type { FinancialData, FinancialDataProvenance } from '../components/company-search';
+import { buildHistorySeries, HistorySeries } from './history';
+
+/**
+ * EDINET XBRL parsing utilities
+ * Extracts facts from XBRL instances (.xbrl) and inline XBRL (.htm) and maps
+ * the jppfs/jpcrp/jpigp taxonomy elements into the FinancialData shape
+ */
+
+/**
+ * A single fact reported in an XBRL instance
+ */
+export interface XbrlFact {
+  name: string;
+  contextRef: string;
+  value: string;
+}
+
+/**
+ * Period of an XBRL context
+ */
+export interface XbrlContext {
+  id: string;
+  startDate?: string;
+  endDate?: string;
+  instant?: string;
+}
+
+/**
+ * Parsed XBRL instance
+ */
+export interface XbrlInstance {
+  facts: XbrlFact[];
+  contexts: Record<string, XbrlContext>;
+}
+
+/**
+ * Filing mapped into the FinancialData shape
+ */
+export interface XbrlFiling {
+  companyName: string | null;
+  securitiesCode: string | null;
+  documentType: string | null;
+  fiscalPeriodEnd: string | null;
+  financialData: FinancialData;
+  provenance: FinancialDataProvenance;
+  history: HistorySeries;
+}
+
+// Read attributes of a start tag into a map
+const parseAttributes = (attributeText: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(attributeText)) !== null) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+};
+
+// Strip nested markup and decode the few entities used in numeric facts
+const textContent = (value: string): string =>
+  value
+    .replace(/<[^>]*>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .trim();
+
+/**
+ * Parse contexts (id → period) from an XBRL or inline XBRL document
+ */
+function parseContexts(document: string): Record<string, XbrlContext> {
+  const contexts: Record<string, XbrlContext> = {};
+  const pattern = /<xbrli:context\b[^>]*\bid="([^"]+)"[^>]*>([\s\S]*?)<\/xbrli:context>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(document)) !== null) {
+    const [, id, body] = match;
+    const startDate = body.match(/<xbrli:startDate>([^<]+)<\/xbrli:startDate>/)?.[1];
+    const endDate = body.match(/<xbrli:endDate>([^<]+)<\/xbrli:endDate>/)?.[1];
+    const instant = body.match(/<xbrli:instant>([^<]+)<\/xbrli:instant>/)?.[1];
+    contexts[id] = { id, startDate, endDate, instant };
+  }
+
+  return contexts;
+}
+
+/**
+ * Parse facts from a traditional XBRL instance (.xbrl)
+ */
+function parseInstanceFacts(document: string): XbrlFact[] {
+  const facts: XbrlFact[] = [];
+  const pattern = /<((?:jppfs_cor|jpcrp_cor|jpigp_cor|jpdei_cor):\w+)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(document)) !== null) {
+    const [, name, attributeText, content] = match;
+    const attributes = parseAttributes(attributeText);
+    if (!attributes.contextRef || attributes['xsi:nil'] === 'true' || content == null) continue;
+    facts.push({ name, contextRef: attributes.contextRef, value: textContent(content) });
+  }
+
+  return facts;
+}
+
+// Read the displayed text of an ix:nonFraction fact according to its ixt format
+// Returns NaN for text that is not a number (e.g. a dash without a zero format), so the fact is skipped
+const parseInlineNumber = (text: string, format: string | undefined): number => {
+  const formatName = format?.split(':').pop()?.toLowerCase() || '';
+  // Dashes displayed for zero (ixt:zerodash, ixt:fixed-zero)
+  if (formatName === 'zerodash' || formatName === 'fixed-zero') return 0;
+  const digits = formatName === 'numcommadecimal' || formatName === 'num-comma-decimal'
+    ? text.replace(/[.\s]/g, '').replace(',', '.')
+    : text.replace(/[,\s]/g, '');
+  return digits === '' ? NaN : Number(digits);
+};
+
+/**
+ * Parse facts from an inline XBRL document (.htm)
+ * Numeric facts are read in their own pass, since statements are usually wrapped in
+ * ix:nonNumeric text blocks that contain them
+ * Applies the format, scale and sign attributes so values are stored in raw units
+ */
+function parseInlineFacts(document: string): XbrlFact[] {
+  const facts: XbrlFact[] = [];
+  const numericPattern = /<ix:nonFraction\b([^>]*)>([\s\S]*?)<\/ix:nonFraction>/g;
+  const textPattern = /<ix:nonNumeric\b([^>]*)>([\s\S]*?)<\/ix:nonNumeric>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = numericPattern.exec(document)) !== null) {
+    const [, attributeText, content] = match;
+    const attributes = parseAttributes(attributeText);
+    if (!attributes.name || !attributes.contextRef || attributes['xsi:nil'] === 'true') continue;
+
+    const number = parseInlineNumber(textContent(content), attributes.format);
+    if (Number.isNaN(number)) continue;
+    const scaled = number * Math.pow(10, Number(attributes.scale || 0));
+    facts.push({
+      name: attributes.name,
+      contextRef: attributes.contextRef,
+      value: String(attributes.sign === '-' ? -scaled : scaled),
+    });
+  }
+
+  while ((match = textPattern.exec(document)) !== null) {
+    const [, attributeText, content] = match;
+    const attributes = parseAttributes(attributeText);
+    if (!attributes.name || !attributes.contextRef || attributes['xsi:nil'] === 'true') continue;
+    facts.push({ name: attributes.name, contextRef: attributes.contextRef, value: textContent(content) });
+  }
+
+  return facts;
+}
+
+/**
+ * Parse an XBRL instance or inline XBRL document
+ * @param document XML or XHTML text of the document
+ * @returns Facts and contexts found in the document
+ */
+export function parseXbrl(document: string): XbrlInstance {
+  const isInline = /<ix:(nonFraction|nonNumeric|header)\b/.test(document);
+  return {
+    facts: isInline ? parseInlineFacts(document) : parseInstanceFacts(document),
+    contexts: parseContexts(document),
+  };
+}
+
+/**
+ * Merge several parsed documents of one filing into a single instance
+ */
+export function mergeXbrl(instances: XbrlInstance[]): XbrlInstance {
+  return instances.reduce<XbrlInstance>(
+    (merged, instance) => ({
+      facts: [...merged.facts, ...instance.facts],
+      contexts: { ...merged.contexts, ...instance.contexts },
+    }),
+    { facts: [], contexts: {} }
+  );
+}
+
+/**
+ * Taxonomy elements for each FinancialData item, in order of preference
+ * Covers Japanese GAAP (jppfs), IFRS (jpigp) and the 主要な経営指標等の推移 summary (jpcrp)
+ */
+export const XBRL_ELEMENTS = {
+  revenue: [
+    'jppfs_cor:NetSales',
+    'jppfs_cor:Revenue',
+    'jppfs_cor:OperatingRevenue1',
+    'jppfs_cor:OperatingRevenue2',
+    'jpigp_cor:RevenueIFRS',
+    'jpigp_cor:NetSalesIFRS',
+    'jpcrp_cor:NetSalesSummaryOfBusinessResults',
+    'jpcrp_cor:RevenueIFRSSummaryOfBusinessResults',
+    'jpcrp_cor:OperatingRevenue1SummaryOfBusinessResults',
+  ],
+  operatingIncome: [
+    'jppfs_cor:OperatingIncome',
+    'jpigp_cor:OperatingProfitLossIFRS',
+  ],
+  grossProfit: [
+    'jppfs_cor:GrossProfit',
+    'jpigp_cor:GrossProfitIFRS',
+  ],
+  pretaxIncome: [
+    'jppfs_cor:IncomeBeforeIncomeTaxes',
+    'jpigp_cor:ProfitLossBeforeTaxIFRS',
+    'jpcrp_cor:ProfitLossBeforeTaxIFRSSummaryOfBusinessResults',
+  ],
+  eps: [
+    'jpcrp_cor:BasicEarningsLossPerShareSummaryOfBusinessResults',
+    'jpcrp_cor:BasicEarningsLossPerShareIFRSSummaryOfBusinessResults',
+    'jppfs_cor:BasicEarningsLossPerShare',
+  ],
+  netIncome: [
+    'jppfs_cor:ProfitLossAttributableToOwnersOfParent',
+    'jppfs_cor:NetIncome',
+    'jppfs_cor:ProfitLoss',
+    'jpigp_cor:ProfitLossAttributableToOwnersOfParentIFRS',
+    'jpcrp_cor:ProfitLossAttributableToOwnersOfParentSummaryOfBusinessResults',
+    'jpcrp_cor:NetIncomeLossSummaryOfBusinessResults',
+    'jpcrp_cor:ProfitLossAttributableToOwnersOfParentIFRSSummaryOfBusinessResults',
+  ],
+  totalAssets: [
+    'jppfs_cor:Assets',
+    'jpigp_cor:AssetsIFRS',
+    'jpcrp_cor:TotalAssetsSummaryOfBusinessResults',
+    'jpcrp_cor:TotalAssetsIFRSSummaryOfBusinessResults',
+  ],
+  currentAssets: [
+    'jppfs_cor:CurrentAssets',
+    'jpigp_cor:CurrentAssetsIFRS',
+  ],
+  currentLiabilities: [
+    'jppfs_cor:CurrentLiabilities',
+    'jpigp_cor:TotalCurrentLiabilitiesIFRS',
+  ],
+  // 当座資産 is not reported; cash, trade receivables and securities are added up
+  quickAssetsCash: [
+    'jppfs_cor:CashAndDeposits',
+    'jpigp_cor:CashAndCashEquivalentsIFRS',
+  ],
+  // Alternative taggings of the same receivables: only the first one reported is used
+  quickAssetsReceivables: [
+    'jppfs_cor:NotesAndAccountsReceivableTradeAndContractAssets',
+    'jppfs_cor:NotesAndAccountsReceivableTrade',
+    'jpigp_cor:TradeAndOtherReceivablesCAIFRS',
+  ],
+  // Notes and accounts receivable as separate lines, summed when no combined line is reported
+  quickAssetsSplitReceivables: [
+    'jppfs_cor:NotesReceivableTrade',
+    'jppfs_cor:AccountsReceivableTrade',
+  ],
+  quickAssetsSecurities: [
+    'jppfs_cor:ShortTermInvestmentSecurities',
+  ],
+  totalLiabilities: [
+    'jppfs_cor:Liabilities',
+    'jpigp_cor:LiabilitiesIFRS',
+  ],
+  retainedEarnings: [
+    'jppfs_cor:RetainedEarnings',
+    'jpigp_cor:RetainedEarningsIFRS',
+  ],
+  interestExpense: [
+    'jppfs_cor:InterestExpensesNOE',
+    'jpigp_cor:FinanceCostsIFRS',
+  ],
+  equity: [
+    'jpigp_cor:EquityAttributableToOwnersOfParentIFRS',
+    'jpcrp_cor:EquityAttributableToOwnersOfParentIFRSSummaryOfBusinessResults',
+    'jppfs_cor:NetAssets',
+    'jpcrp_cor:NetAssetsSummaryOfBusinessResults',
+  ],
+  totalCash: [
+    'jppfs_cor:CashAndDeposits',
+    'jpigp_cor:CashAndCashEquivalentsIFRS',
+    'jpcrp_cor:CashAndCashEquivalentsSummaryOfBusinessResults',
+  ],
+  // Interest-bearing debt is reported as separate items that are summed
+  totalDebt: [
+    'jppfs_cor:ShortTermLoansPayable',
+    'jppfs_cor:CommercialPapersLiabilities',
+    'jppfs_cor:CurrentPortionOfBonds',
+    'jppfs_cor:CurrentPortionOfLongTermLoansPayable',
+    'jppfs_cor:BondsPayable',
+    'jppfs_cor:LongTermLoansPayable',
+    'jpigp_cor:BondsAndBorrowingsCLIFRS',
+    'jpigp_cor:BondsAndBorrowingsNCLIFRS',
+  ],
+  // Non-current part of interest-bearing debt, summed like totalDebt
+  longTermDebt: [
+    'jppfs_cor:BondsPayable',
+    'jppfs_cor:LongTermLoansPayable',
+    'jpigp_cor:BondsAndBorrowingsNCLIFRS',
+  ],
+  sharesOutstanding: [
+    'jpcrp_cor:TotalNumberOfIssuedSharesSummaryOfBusinessResults',
+  ],
+  nonControllingInterests: [
+    'jppfs_cor:NonControllingInterests',
+  ],
+  depreciation: [
+    'jppfs_cor:DepreciationAndAmortizationOpeCF',
+    'jppfs_cor:DepreciationOpeCF',
+    'jpigp_cor:DepreciationAndAmortizationOpeCFIFRS',
+  ],
+  capex: [
+    'jppfs_cor:PurchaseOfPropertyPlantAndEquipmentInvCF',
+    'jppfs_cor:PurchaseOfPropertyPlantAndEquipmentAndIntangibleAssetsInvCF',
+    'jpigp_cor:PurchaseOfPropertyPlantAndEquipmentInvCFIFRS',
+  ],
+  annualDividend: [
+    'jpcrp_cor:DividendPaidPerShareSummaryOfBusinessResults',
+  ],
+  operatingCashflow: [
+    'jppfs_cor:NetCashProvidedByUsedInOperatingActivities',
+    'jpigp_cor:NetCashProvidedByUsedInOperatingActivitiesIFRS',
+    'jpcrp_cor:NetCashProvidedByUsedInOperatingActivitiesSummaryOfBusinessResults',
+    'jpcrp_cor:CashFlowsFromUsedInOperatingActivitiesIFRSSummaryOfBusinessResults',
+  ],
+  investingCashflow: [
+    'jppfs_cor:NetCashProvidedByUsedInInvestmentActivities',
+    'jpigp_cor:NetCashProvidedByUsedInInvestingActivitiesIFRS',
+    'jpcrp_cor:NetCashProvidedByUsedInInvestingActivitiesSummaryOfBusinessResults',
+    'jpcrp_cor:CashFlowsFromUsedInInvestingActivitiesIFRSSummaryOfBusinessResults',
+  ],
+  financingCashflow: [
+    'jppfs_cor:NetCashProvidedByUsedInFinancingActivities',
+    'jpigp_cor:NetCashProvidedByUsedInFinancingActivitiesIFRS',
+    'jpcrp_cor:NetCashProvidedByUsedInFinancingActivitiesSummaryOfBusinessResults',
+    'jpcrp_cor:CashFlowsFromUsedInFinancingActivitiesIFRSSummaryOfBusinessResults',
+  ],
+  stockIssuance: [
+    'jppfs_cor:ProceedsFromIssuanceOfCommonStockFinCF',
+    'jpigp_cor:ProceedsFromIssuanceOfSharesFinCFIFRS',
+  ],
+} as const;
+
+/**
+ * Context prefixes for the fiscal years a 有価証券報告書 reports (主要な経営指標等の推移 covers five)
+ */
+const FISCAL_YEAR_CONTEXTS = ['Current', 'Prior1', 'Prior2', 'Prior3', 'Prior4'];
+
+/**
+ * Context suffix used for non-consolidated figures
+ */
+const NON_CONSOLIDATED = '_NonConsolidatedMember';
+
+/**
+ * Numeric fact matched for a FinancialData item
+ */
+export interface XbrlMatch {
+  element: string;
+  contextRef: string;
+  value: number;
+}
+
+/**
+ * Find a numeric fact for the given elements and context
+ * Consolidated figures are preferred; non-consolidated ones are used as a fallback
+ * @param instance Parsed XBRL instance
+ * @param elements Candidate element names in order of preference
+ * @param contextRef Base context id such as CurrentYearDuration or Prior4YearDuration
+ * @returns Matched element, context and value in raw units, or null when not reported
+ */
+export function findXbrlFact(
+  instance: XbrlInstance,
+  elements: readonly string[],
+  contextRef: string
+): XbrlMatch | null {
+  for (const context of [contextRef, `${contextRef}${NON_CONSOLIDATED}`]) {
+    for (const element of elements) {
+      const fact = instance.facts.find((f) => f.name === element && f.contextRef === context);
+      if (fact && fact.value !== '' && !Number.isNaN(Number(fact.value))) {
+        return { element, contextRef: context, value: Number(fact.value) };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Find a numeric fact value for the given elements and context
+ * @returns Value in raw units, or null when not reported
+ */
+export function findXbrlValue(
+  instance: XbrlInstance,
+  elements: readonly string[],
+  contextRef: string
+): number | null {
+  return findXbrlFact(instance, elements, contextRef)?.value ?? null;
+}
+
+/**
+ * Find a DEI (document and entity information) text value
+ */
+function findDeiValue(instance: XbrlInstance, element: string): string | null {
+  return instance.facts.find((f) => f.name === `jpdei_cor:${element}`)?.value || null;
+}
+
+/**
+ * Map a parsed filing into per-fiscal-year series
+ * @param instance Parsed XBRL instance
+ * @returns Series for every fiscal year the filing reports
+ */
+export function mapXbrlToHistory(instance: XbrlInstance): HistorySeries {
+  const records = FISCAL_YEAR_CONTEXTS.flatMap((prefix) => {
+    const duration = `${prefix}YearDuration`;
+    const instant = `${prefix}YearInstant`;
+    const context = instance.contexts[duration] || instance.contexts[`${duration}${NON_CONSOLIDATED}`];
+    const endDate = context?.endDate;
+    if (!endDate) return [];
+
+    const value = (item: keyof typeof XBRL_ELEMENTS, contextRef: string) =>
+      findXbrlValue(instance, XBRL_ELEMENTS[item], contextRef);
+
+    const netAssets = value('equity', instant);
+    const operatingCashflow = value('operatingCashflow', duration);
+    const capex = value('capex', duration);
+    const investingCashflow = value('investingCashflow', duration);
+
+    // FCF: operating CF less capex, or operating + investing CF when capex is not itemized
+    let freeCashflow: number | null = null;
+    if (operatingCashflow != null && capex != null) {
+      freeCashflow = operatingCashflow - Math.abs(capex);
+    } else if (operatingCashflow != null && investingCashflow != null) {
+      freeCashflow = operatingCashflow + investingCashflow;
+    }
+
+    return [{
+      endDate,
+      values: {
+        revenue: value('revenue', duration),
+        operatingIncome: value('operatingIncome', duration),
+        netIncome: value('netIncome', duration),
+        equity: netAssets == null ? null : netAssets - (value('nonControllingInterests', instant) || 0),
+        totalAssets: value('totalAssets', instant),
+        operatingCashflow,
+        freeCashflow,
+        eps: value('eps', duration),
+      },
+    }];
+  });
+
+  return buildHistorySeries(records);
+}
+
+/**
+ * Map a parsed filing into the FinancialData shape
+ * Market data (stock price, market cap) is not part of a filing and is left empty
+ * @param instance Parsed XBRL instance of a 有価証券報告書 or 決算短信
+ * @returns Filing metadata and financial data in million JPY
+ */
+export function mapXbrlToFinancialData(instance: XbrlInstance): XbrlFiling {
+  const toMillions = (value: number | null) =>
+    value == null ? undefined : String(Math.round(value / 1000000));
+
+  const provenance: FinancialDataProvenance = {};
+
+  // Look up an item and record the element it was reported under
+  const take = (field: keyof FinancialData, item: keyof typeof XBRL_ELEMENTS, context: string) => {
+    const match = findXbrlFact(instance, XBRL_ELEMENTS[item], context);
+    if (match) {
+      provenance[field] = { kind: 'reported', source: `EDINET XBRL ${match.element}（${match.contextRef}）` };
+    }
+    return match?.value ?? null;
+  };
+
+  const revenue = take('revenue', 'revenue', 'CurrentYearDuration');
+  take('revenueCurrentYear', 'revenue', 'CurrentYearDuration');
+  const revenueFourYearsAgo = take('revenueFourYearsAgo', 'revenue', 'Prior4YearDuration');
+  const epsCurrentYear = take('epsCurrentYear', 'eps', 'CurrentYearDuration');
+  const epsFourYearsAgo = take('epsFourYearsAgo', 'eps', 'Prior4YearDuration');
+
+  // 自己資本: IFRS reports it directly, Japanese GAAP nets non-controlling interests out of net assets
+  const netAssets = take('equity', 'equity', 'CurrentYearInstant');
+  const nonControllingInterests = findXbrlValue(instance, XBRL_ELEMENTS.nonControllingInterests, 'CurrentYearInstant');
+  const equity = netAssets == null ? null : netAssets - (nonControllingInterests || 0);
+  if (netAssets != null && nonControllingInterests) {
+    provenance.equity = {
+      kind: 'derived',
+      source: provenance.equity?.source || 'EDINET XBRL',
+      formula: '純資産 − 非支配株主持分',
+    };
+  }
+
+  // Filings do not report EBIT; operating income stands in for it
+  const operatingIncome = take('operatingIncome', 'operatingIncome', 'CurrentYearDuration');
+  take('operatingIncomeCurrentYear', 'operatingIncome', 'CurrentYearDuration');
+  const operatingIncomeFourYearsAgo = take('operatingIncomeFourYearsAgo', 'operatingIncome', 'Prior4YearDuration');
+  if (operatingIncome != null) {
+    provenance.ebit = { kind: 'proxy', source: provenance.operatingIncome!.source, formula: '営業利益で代用' };
+  }
+
+  // Sum every element of an item the filing reports (for items filings split into several lines)
+  const sumOf = (field: keyof FinancialData, item: keyof typeof XBRL_ELEMENTS, context = 'CurrentYearInstant') => {
+    const matches = XBRL_ELEMENTS[item].flatMap((element) => {
+      const match = findXbrlFact(instance, [element], context);
+      return match ? [match] : [];
+    });
+    if (matches.length === 0) return null;
+    provenance[field] = {
+      kind: 'derived',
+      source: 'EDINET XBRL',
+      formula: matches.map((match) => match.element.split(':')[1]).join(' + '),
+    };
+    return matches.reduce((sum, match) => sum + match.value, 0);
+  };
+
+  // Interest-bearing debt: sum of every borrowing item the filing reports
+  const totalDebt = sumOf('totalDebt', 'totalDebt');
+
+  // Quick assets: cash + one receivables figure + securities, so receivables tagged twice are counted once
+  const quickAssetItems = (['quickAssetsCash', 'quickAssetsReceivables', 'quickAssetsSecurities'] as const)
+    .map((item) => findXbrlFact(instance, XBRL_ELEMENTS[item], 'CurrentYearInstant'));
+  if (!quickAssetItems[1]) {
+    quickAssetItems.push(...XBRL_ELEMENTS.quickAssetsSplitReceivables.map(
+      (element) => findXbrlFact(instance, [element], 'CurrentYearInstant')
+    ));
+  }
+  const quickAssetMatches = quickAssetItems.filter((match) => match != null);
+  const quickAssets = quickAssetMatches.length > 0
+    ? quickAssetMatches.reduce((sum, match) => sum + match.value, 0)
+    : null;
+  if (quickAssets != null) {
+    provenance.quickAssets = {
+      kind: 'derived',
+      source: 'EDINET XBRL',
+      formula: quickAssetMatches.map((match) => match.element.split(':')[1]).join(' + '),
+    };
+  }
+
+  // EBITDA is not reported; operating income plus depreciation approximates it
+  const depreciation = take('depreciation', 'depreciation', 'CurrentYearDuration');
+  const ebitda = operatingIncome != null && depreciation != null ? operatingIncome + depreciation : null;
+  if (ebitda != null) {
+    provenance.ebitda = { kind: 'derived', source: 'EDINET XBRL', formula: '営業利益 + 減価償却費' };
+  }
+
+  const capex = take('capex', 'capex', 'CurrentYearDuration');
+  const annualDividend = take('annualDividend', 'annualDividend', 'CurrentYearDuration');
+
+  // FCF: operating CF less capex, as in the history series
+  const operatingCashflow = take('operatingCashflow', 'operatingCashflow', 'CurrentYearDuration');
+  const freeCashflow = operatingCashflow != null && capex != null ? operatingCashflow - Math.abs(capex) : null;
+  if (freeCashflow != null) {
+    provenance.freeCashflow = { kind: 'derived', source: 'EDINET XBRL', formula: '営業CF − 設備投資' };
+  }
+  const sharesOutstanding = take('sharesOutstanding', 'sharesOutstanding', 'CurrentYearInstant');
+
+  // Long-term debt: a balance sheet without bonds or long-term loans carries none
+  const longTermDebtOf = (field: keyof FinancialData, context: string) => {
+    const debt = sumOf(field, 'longTermDebt', context);
+    if (debt != null || findXbrlValue(instance, XBRL_ELEMENTS.totalAssets, context) == null) return debt;
+    provenance[field] = { kind: 'derived', source: 'EDINET XBRL', formula: '社債・長期借入金の記載なし（0）' };
+    return 0;
+  };
+
+  // Share issuance: a cash flow statement without the line means no shares were issued
+  const financingCashflow = take('financingCashflow', 'financingCashflow', 'CurrentYearDuration');
+  let stockIssuance = take('stockIssuance', 'stockIssuance', 'CurrentYearDuration');
+  if (stockIssuance == null && financingCashflow != null) {
+    stockIssuance = 0;
+    provenance.stockIssuance = { kind: 'derived', source: 'EDINET XBRL', formula: '株式の発行による収入の記載なし（0）' };
+  }
+
+  // End date of a fiscal-year context, consolidated or not
+  const periodEnd = (contextRef: string) =>
+    (instance.contexts[contextRef] || instance.contexts[`${contextRef}${NON_CONSOLIDATED}`])?.endDate;
+
+  // SecurityCodeDEI is the 5-digit code (e.g. 72030); the dashboard uses the 4-digit form
+  const securityCode = findDeiValue(instance, 'SecurityCodeDEI');
+
+  return {
+    companyName: findDeiValue(instance, 'FilerNameInJapaneseDEI'),
+    securitiesCode: securityCode ? securityCode.slice(0, 4) : null,
+    documentType: findDeiValue(instance, 'DocumentTypeDEI'),
+    fiscalPeriodEnd:
+      findDeiValue(instance, 'CurrentPeriodEndDateDEI') ||
+      findDeiValue(instance, 'CurrentFiscalYearEndDateDEI'),
+    financialData: {
+      revenue: toMillions(revenue),
+      capex: toMillions(capex == null ? null : Math.abs(capex)),
+      depreciation: toMillions(depreciation),
+      revenueCurrentYear: toMillions(revenue),
+      revenueFourYearsAgo: toMillions(revenueFourYearsAgo),
+      operatingIncomeCurrentYear: toMillions(operatingIncome),
+      operatingIncomeFourYearsAgo: toMillions(operatingIncomeFourYearsAgo),
+      epsCurrentYear: epsCurrentYear == null ? undefined : String(epsCurrentYear),
+      epsFourYearsAgo: epsFourYearsAgo == null ? undefined : String(epsFourYearsAgo),
+      currentYearEnd: periodEnd('CurrentYearDuration'),
+      pastYearEnd: revenueFourYearsAgo != null || operatingIncomeFourYearsAgo != null ? periodEnd('Prior4YearDuration') : undefined,
+
+      netIncome: toMillions(take('netIncome', 'netIncome', 'CurrentYearDuration')),
+      equity: toMillions(equity),
+      totalAssets: toMillions(take('totalAssets', 'totalAssets', 'CurrentYearInstant')),
+      operatingIncome: toMillions(operatingIncome),
+      pretaxIncome: toMillions(take('pretaxIncome', 'pretaxIncome', 'CurrentYearDuration')),
+      ebit: toMillions(operatingIncome),
+      grossProfit: toMillions(take('grossProfit', 'grossProfit', 'CurrentYearDuration')),
+
+      currentAssets: toMillions(take('currentAssets', 'currentAssets', 'CurrentYearInstant')),
+      currentLiabilities: toMillions(take('currentLiabilities', 'currentLiabilities', 'CurrentYearInstant')),
+      quickAssets: toMillions(quickAssets),
+      totalLiabilities: toMillions(take('totalLiabilities', 'totalLiabilities', 'CurrentYearInstant')),
+      retainedEarnings: toMillions(take('retainedEarnings', 'retainedEarnings', 'CurrentYearInstant')),
+      interestExpense: toMillions(take('interestExpense', 'interestExpense', 'CurrentYearDuration')),
+      longTermDebt: toMillions(longTermDebtOf('longTermDebt', 'CurrentYearInstant')),
+
+      annualDividend: annualDividend == null ? undefined : String(annualDividend),
+      totalCash: toMillions(take('totalCash', 'totalCash', 'CurrentYearInstant')),
+      totalDebt: toMillions(totalDebt),
+      ebitda: toMillions(ebitda),
+      freeCashflow: toMillions(freeCashflow),
+      sharesOutstanding: sharesOutstanding == null ? undefined : String(sharesOutstanding),
+
+      operatingCashflow: toMillions(operatingCashflow),
+      investingCashflow: toMillions(take('investingCashflow', 'investingCashflow', 'CurrentYearDuration')),
+      financingCashflow: toMillions(financingCashflow),
+      stockIssuance: toMillions(stockIssuance),
+
+      // The filing's own fiscal year, under the fields the Piotroski F-score compares
+      grossProfitCurrentYear: toMillions(take('grossProfitCurrentYear', 'grossProfit', 'CurrentYearDuration')),
+      netIncomeCurrentYear: toMillions(take('netIncomeCurrentYear', 'netIncome', 'CurrentYearDuration')),
+      operatingCashflowCurrentYear: toMillions(take('operatingCashflowCurrentYear', 'operatingCashflow', 'CurrentYearDuration')),
+      totalAssetsCurrentYear: toMillions(take('totalAssetsCurrentYear', 'totalAssets', 'CurrentYearInstant')),
+      longTermDebtCurrentYear: toMillions(longTermDebtOf('longTermDebtCurrentYear', 'CurrentYearInstant')),
+      currentAssetsCurrentYear: toMillions(take('currentAssetsCurrentYear', 'currentAssets', 'CurrentYearInstant')),
+      currentLiabilitiesCurrentYear: toMillions(take('currentLiabilitiesCurrentYear', 'currentLiabilities', 'CurrentYearInstant')),
+
+      // 有価証券報告書 carry the prior year alongside the current one
+      revenuePriorYear: toMillions(take('revenuePriorYear', 'revenue', 'Prior1YearDuration')),
+      grossProfitPriorYear: toMillions(take('grossProfitPriorYear', 'grossProfit', 'Prior1YearDuration')),
+      netIncomePriorYear: toMillions(take('netIncomePriorYear', 'netIncome', 'Prior1YearDuration')),
+      operatingCashflowPriorYear: toMillions(take('operatingCashflowPriorYear', 'operatingCashflow', 'Prior1YearDuration')),
+      totalAssetsPriorYear: toMillions(take('totalAssetsPriorYear', 'totalAssets', 'Prior1YearInstant')),
+      longTermDebtPriorYear: toMillions(longTermDebtOf('longTermDebtPriorYear', 'Prior1YearInstant')),
+      currentAssetsPriorYear: toMillions(take('currentAssetsPriorYear', 'currentAssets', 'Prior1YearInstant')),
+      currentLiabilitiesPriorYear: toMillions(take('currentLiabilitiesPriorYear', 'currentLiabilities', 'Prior1YearInstant')),
+    },
+    provenance,
+    history: mapXbrlToHistory(instance),
+  };
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import Link from 'next/link';
+import StockScreener from '../components/stock-screener';
+
+export default function ScreenerPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
+              スクリーニング
+            </h1>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              分析ダッシュボードと同じ指標・判定で銘柄を絞り込み
+            </p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            分析ダッシュボード
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        <StockScreener />
+      </main>
+    </div>
+  );
+}
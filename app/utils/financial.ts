@@ -2,6 +2,97 @@
  * Financial calculation utilities for investment analysis
  */
 
+/**
+ * Metrics that have a judgment
+ */
+export type JudgmentMetric =
+  | 'psr'
+  | 'capexRatio'
+  | 'revenueGrowth'
+  | 'operatingIncomeGrowth'
+  | 'epsGrowth'
+  | 'roe'
+  | 'roa'
+  | 'operatingMargin'
+  | 'piotroskiScore'
+  | 'currentRatio'
+  | 'equityRatio'
+  | 'quickRatio'
+  | 'debtToEquity'
+  | 'netDebtToEquity'
+  | 'interestCoverage'
+  | 'altmanZ'
+  | 'per'
+  | 'pbr'
+  | 'dividendYield'
+  | 'evEbitda'
+  | 'evSales'
+  | 'netCashRatio'
+  | 'operatingCfMargin'
+  | 'fcfMargin'
+  | 'fcfYield'
+  | 'accrualRatio';
+
+/**
+ * Boundaries between the four judgment bands, from the best band to the worst
+ * Higher-is-better metrics compare with >=, lower-is-better metrics (PSR, PER, PBR, EV multiples, D/E) with <
+ */
+export type JudgmentThresholds = [number, number, number];
+
+/**
+ * Market-wide cut-offs used when no other benchmark applies
+ */
+export const DEFAULT_THRESHOLDS: Record<JudgmentMetric, JudgmentThresholds> = {
+  psr: [1, 2, 5],
+  capexRatio: [1.5, 1.0, 0.7],
+  revenueGrowth: [10, 5, 0],
+  operatingIncomeGrowth: [15, 7, 0],
+  epsGrowth: [15, 7, 0],
+  roe: [15, 10, 5],
+  roa: [10, 5, 2],
+  operatingMargin: [20, 10, 5],
+  piotroskiScore: [8, 6, 3],
+  currentRatio: [200, 150, 100],
+  equityRatio: [50, 40, 20],
+  quickRatio: [150, 100, 70],
+  debtToEquity: [0.5, 1, 2],
+  netDebtToEquity: [0, 0.5, 1],
+  interestCoverage: [10, 5, 2],
+  altmanZ: [2.99, 2.675, 1.81],
+  per: [10, 20, 30],
+  pbr: [1, 2, 3],
+  dividendYield: [4, 2, 1],
+  evEbitda: [6, 10, 15],
+  evSales: [1, 2, 4],
+  netCashRatio: [50, 20, 0],
+  operatingCfMargin: [15, 10, 5],
+  fcfMargin: [10, 5, 0],
+  fcfYield: [8, 5, 2],
+  accrualRatio: [1.2, 1, 0.8],
+};
+
+/**
+ * Range of one judgment band as text, e.g. 流動比率 150%以上200%未満
+ * Descriptions end with it so they state the cut-offs in use (sector and profile thresholds move them)
+ * @param band Band index from the best (0) to the worst (3)
+ * @param lowerIsBetter True for metrics whose best band lies below thresholds[0] (PER, D/E, ...)
+ */
+function bandRange(
+  thresholds: JudgmentThresholds,
+  band: number,
+  label: string,
+  unit: string,
+  lowerIsBetter = false
+): string {
+  const format = (value: number) => `${value.toLocaleString('ja-JP', { maximumFractionDigits: 3 })}${unit}`;
+  const min = lowerIsBetter ? thresholds[band - 1] : thresholds[band];
+  const max = lowerIsBetter ? thresholds[band] : thresholds[band - 1];
+
+  if (min !== undefined && max !== undefined) return `${label} ${format(min)}以上${format(max)}未満`;
+  if (min !== undefined) return `${label} ${format(min)}以上`;
+  return `${label} ${format(max)}未満`;
+}
+
 /**
  * Calculate PSR (Price-to-Sales Ratio)
  * @param marketCap Market capitalization in million JPY
@@ -31,10 +122,14 @@ export interface PSRJudgment {
 /**
  * Get PSR judgment based on ratio value
  * @param psr PSR ratio value
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
  * @returns Judgment object with styling and messages
  */
-export function getPSRJudgment(psr: number): PSRJudgment {
-  if (psr < 1) {
+export function getPSRJudgment(
+  psr: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.psr
+): PSRJudgment {
+  if (psr < thresholds[0]) {
     return {
       level: 'undervalued',
       color: 'green',
@@ -42,11 +137,11 @@ export function getPSRJudgment(psr: number): PSRJudgment {
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
       title: '割安',
-      description: '時価総額が売上高を下回っており、市場の期待値は控えめ'
+      description: `売上高に対して時価総額が小さく、市場の期待値は控えめ（${bandRange(thresholds, 0, 'PSR', '倍', true)}）`
     };
   }
 
-  if (psr < 2) {
+  if (psr < thresholds[1]) {
     return {
       level: 'fair',
       color: 'yellow',
@@ -54,11 +149,11 @@ export function getPSRJudgment(psr: number): PSRJudgment {
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
       title: '適正〜やや高め',
-      description: '時価総額は売上高と同程度、標準的な評価'
+      description: `売上高に対する時価総額は標準的な水準（${bandRange(thresholds, 1, 'PSR', '倍', true)}）`
     };
   }
 
-  if (psr < 5) {
+  if (psr < thresholds[2]) {
     return {
       level: 'high',
       color: 'orange',
@@ -66,7 +161,7 @@ export function getPSRJudgment(psr: number): PSRJudgment {
       textColor: 'text-orange-700',
       darkTextColor: 'dark:text-orange-400',
       title: '高成長期待',
-      description: '市場は将来の成長を見込んでいる'
+      description: `市場は将来の成長を見込んでいる（${bandRange(thresholds, 2, 'PSR', '倍', true)}）`
     };
   }
 
@@ -77,7 +172,7 @@ export function getPSRJudgment(psr: number): PSRJudgment {
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
     title: '非常に高い期待値',
-    description: '高成長企業またはバブル的評価の可能性'
+    description: `高成長企業またはバブル的評価の可能性（${bandRange(thresholds, 3, 'PSR', '倍', true)}）`
   };
 }
 
@@ -126,37 +221,41 @@ export interface SafetyJudgment {
 /**
  * Get Current Ratio judgment
  * @param ratio Current ratio percentage
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
  * @returns Judgment object
  */
-export function getCurrentRatioJudgment(ratio: number): SafetyJudgment {
-  if (ratio >= 200) {
+export function getCurrentRatioJudgment(
+  ratio: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.currentRatio
+): SafetyJudgment {
+  if (ratio >= thresholds[0]) {
     return {
       level: 'excellent',
       borderColor: 'border-green-500',
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
       title: '優良',
-      description: '短期的な財務安定性が非常に高い'
+      description: `短期的な財務安定性が非常に高い（${bandRange(thresholds, 0, '流動比率', '%')}）`
     };
   }
-  if (ratio >= 150) {
+  if (ratio >= thresholds[1]) {
     return {
       level: 'good',
       borderColor: 'border-blue-500',
       textColor: 'text-blue-700',
       darkTextColor: 'dark:text-blue-400',
       title: '良好',
-      description: '事業運営に十分な流動性がある'
+      description: `事業運営に十分な流動性がある（${bandRange(thresholds, 1, '流動比率', '%')}）`
     };
   }
-  if (ratio >= 100) {
+  if (ratio >= thresholds[2]) {
     return {
       level: 'fair',
       borderColor: 'border-yellow-500',
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
       title: '普通',
-      description: '最低限の流動性バッファーあり'
+      description: `最低限の流動性バッファーあり（${bandRange(thresholds, 2, '流動比率', '%')}）`
     };
   }
   return {
@@ -165,44 +264,48 @@ export function getCurrentRatioJudgment(ratio: number): SafetyJudgment {
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
     title: '要注意',
-    description: '流動負債が流動資産を上回っており、流動性に懸念'
+    description: `流動資産に対して流動負債が多く、流動性に懸念（${bandRange(thresholds, 3, '流動比率', '%')}）`
   };
 }
 
 /**
  * Get Equity Ratio judgment
  * @param ratio Equity ratio percentage
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
  * @returns Judgment object
  */
-export function getEquityRatioJudgment(ratio: number): SafetyJudgment {
-  if (ratio >= 50) {
+export function getEquityRatioJudgment(
+  ratio: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.equityRatio
+): SafetyJudgment {
+  if (ratio >= thresholds[0]) {
     return {
       level: 'excellent',
       borderColor: 'border-green-500',
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
       title: '優良',
-      description: '財務的自立性が非常に高い'
+      description: `財務的自立性が非常に高い（${bandRange(thresholds, 0, '自己資本比率', '%')}）`
     };
   }
-  if (ratio >= 40) {
+  if (ratio >= thresholds[1]) {
     return {
       level: 'good',
       borderColor: 'border-blue-500',
       textColor: 'text-blue-700',
       darkTextColor: 'dark:text-blue-400',
       title: '良好',
-      description: '強固な財務基盤を持つ'
+      description: `強固な財務基盤を持つ（${bandRange(thresholds, 1, '自己資本比率', '%')}）`
     };
   }
-  if (ratio >= 20) {
+  if (ratio >= thresholds[2]) {
     return {
       level: 'fair',
       borderColor: 'border-yellow-500',
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
       title: '普通',
-      description: '中程度の財務安定性'
+      description: `中程度の財務安定性（${bandRange(thresholds, 2, '自己資本比率', '%')}）`
     };
   }
   return {
@@ -211,441 +314,1593 @@ export function getEquityRatioJudgment(ratio: number): SafetyJudgment {
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
     title: '要注意',
-    description: '借入金への依存度が高い'
+    description: `借入金への依存度が高い（${bandRange(thresholds, 3, '自己資本比率', '%')}）`
   };
 }
 
 /**
- * GROWTH METRICS
- */
-
-/**
- * Calculate Capital Expenditure Ratio (設備投資比率)
- * @param capex Capital expenditure in million JPY
- * @param depreciation Depreciation in million JPY
- * @returns CapEx to Depreciation ratio
- */
-export function calculateCapExRatio(capex: number, depreciation: number): number {
-  if (depreciation <= 0) {
-    throw new Error('Depreciation must be greater than 0');
-  }
-  return capex / depreciation;
-}
-
-/**
- * Calculate Revenue Growth Rate (売上高成長率)
- * @param currentRevenue Current year revenue in million JPY
- * @param pastRevenue Revenue 4 years ago in million JPY
- * @returns Growth rate in percentage
+ * Calculate Quick Ratio (当座比率)
+ * @param quickAssets Quick assets (cash, receivables, securities) in million JPY
+ * @param currentLiabilities Current liabilities in million JPY
+ * @returns Quick ratio in percentage
  */
-export function calculateRevenueGrowth(currentRevenue: number, pastRevenue: number): number {
-  if (pastRevenue <= 0) {
-    throw new Error('Past revenue must be greater than 0');
+export function calculateQuickRatio(quickAssets: number, currentLiabilities: number): number {
+  if (currentLiabilities <= 0) {
+    throw new Error('Current liabilities must be greater than 0');
   }
-  return ((currentRevenue - pastRevenue) / pastRevenue) * 100;
-}
-
-/**
- * Growth judgment result type
- */
-export interface GrowthJudgment {
-  level: 'strong' | 'moderate' | 'stable' | 'declining';
-  borderColor: string;
-  textColor: string;
-  darkTextColor: string;
-  title: string;
-  description: string;
+  return (quickAssets / currentLiabilities) * 100;
 }
 
 /**
- * Get CapEx Ratio judgment
- * @param ratio CapEx to Depreciation ratio
+ * Get Quick Ratio judgment
+ * @param ratio Quick ratio percentage
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
  * @returns Judgment object
  */
-export function getCapExRatioJudgment(ratio: number): GrowthJudgment {
-  if (ratio >= 1.5) {
+export function getQuickRatioJudgment(
+  ratio: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.quickRatio
+): SafetyJudgment {
+  if (ratio >= thresholds[0]) {
     return {
-      level: 'strong',
+      level: 'excellent',
       borderColor: 'border-green-500',
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
-      title: '積極投資',
-      description: '成長と資産更新に積極的に投資している'
+      title: '優良',
+      description: `在庫を売らなくても短期債務を返済できる余力が大きい（${bandRange(thresholds, 0, '当座比率', '%')}）`
     };
   }
-  if (ratio >= 1.0) {
+  if (ratio >= thresholds[1]) {
     return {
-      level: 'moderate',
+      level: 'good',
       borderColor: 'border-blue-500',
       textColor: 'text-blue-700',
       darkTextColor: 'dark:text-blue-400',
-      title: '適正投資',
-      description: '資産を現状レベルで維持している'
+      title: '良好',
+      description: `当座資産で流動負債の多くをまかなえる（${bandRange(thresholds, 1, '当座比率', '%')}）`
     };
   }
-  if (ratio >= 0.7) {
+  if (ratio >= thresholds[2]) {
     return {
-      level: 'stable',
+      level: 'fair',
       borderColor: 'border-yellow-500',
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
-      title: '保守的',
-      description: '新規投資が限定的、資産ベースが縮小傾向の可能性'
+      title: '普通',
+      description: `短期債務の返済に在庫の換金が必要になる場合がある（${bandRange(thresholds, 2, '当座比率', '%')}）`
     };
   }
   return {
-    level: 'declining',
+    level: 'warning',
     borderColor: 'border-red-500',
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
-    title: '投資不足',
-    description: '資産ベースを維持するには投資が不十分'
+    title: '要注意',
+    description: `即座に換金できる資産が流動負債に対して少ない（${bandRange(thresholds, 3, '当座比率', '%')}）`
   };
 }
 
 /**
- * Get Revenue Growth judgment
- * @param growthRate Growth rate percentage
+ * Calculate D/E Ratio (D/Eレシオ)
+ * @param totalDebt Interest-bearing debt in million JPY
+ * @param equity Equity in million JPY
+ * @returns Debt to equity multiple
+ */
+export function calculateDERatio(totalDebt: number, equity: number): number {
+  if (equity <= 0) {
+    throw new Error('Equity must be greater than 0');
+  }
+  return totalDebt / equity;
+}
+
+/**
+ * Get D/E Ratio judgment
+ * @param ratio Debt to equity multiple
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
  * @returns Judgment object
  */
-export function getRevenueGrowthJudgment(growthRate: number): GrowthJudgment {
-  if (growthRate >= 50) {
+export function getDERatioJudgment(
+  ratio: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.debtToEquity
+): SafetyJudgment {
+  if (ratio < thresholds[0]) {
     return {
-      level: 'strong',
+      level: 'excellent',
       borderColor: 'border-green-500',
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
-      title: '高成長',
-      description: '4年間で顕著な売上高拡大'
+      title: '優良',
+      description: `有利子負債が少なく、財務の自由度が高い（${bandRange(thresholds, 0, 'D/Eレシオ', '倍', true)}）`
     };
   }
-  if (growthRate >= 20) {
+  if (ratio < thresholds[1]) {
     return {
-      level: 'moderate',
+      level: 'good',
       borderColor: 'border-blue-500',
       textColor: 'text-blue-700',
       darkTextColor: 'dark:text-blue-400',
-      title: '堅実な成長',
-      description: '健全な売上高成長軌道'
+      title: '良好',
+      description: `有利子負債は自己資本に比べて標準的な水準（${bandRange(thresholds, 1, 'D/Eレシオ', '倍', true)}）`
     };
   }
-  if (growthRate >= 0) {
+  if (ratio < thresholds[2]) {
     return {
-      level: 'stable',
+      level: 'fair',
       borderColor: 'border-yellow-500',
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
-      title: '安定',
-      description: '売上高を維持または微増'
+      title: '普通',
+      description: `有利子負債が自己資本に比べてやや多い（${bandRange(thresholds, 2, 'D/Eレシオ', '倍', true)}）`
     };
   }
   return {
-    level: 'declining',
+    level: 'warning',
     borderColor: 'border-red-500',
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
-    title: '減少傾向',
-    description: '期間内に売上高が減少'
+    title: '要注意',
+    description: `借入への依存度が高く、金利上昇や業績悪化に弱い（${bandRange(thresholds, 3, 'D/Eレシオ', '倍', true)}）`
   };
 }
 
 /**
- * Profitability Judgment type
- */
-export interface ProfitabilityJudgment {
-  level: 'excellent' | 'good' | 'fair' | 'poor';
-  borderColor: string;
-  textColor: string;
-  darkTextColor: string;
-  title: string;
-  description: string;
-}
-
-/**
- * Calculate ROE (Return on Equity)
- * @param netIncome Net income in million JPY
+ * Calculate Net D/E Ratio (ネットD/Eレシオ)
+ * @param totalDebt Interest-bearing debt in million JPY
+ * @param totalCash Cash and equivalents in million JPY
  * @param equity Equity in million JPY
- * @returns ROE percentage
+ * @returns Net debt to equity multiple (negative when cash exceeds debt)
  */
-export function calculateROE(netIncome: number, equity: number): number {
+export function calculateNetDERatio(totalDebt: number, totalCash: number, equity: number): number {
   if (equity <= 0) {
     throw new Error('Equity must be greater than 0');
   }
-  return (netIncome / equity) * 100;
+  return (totalDebt - totalCash) / equity;
 }
 
 /**
- * Get ROE judgment based on percentage
+ * Get Net D/E Ratio judgment
+ * @param ratio Net debt to equity multiple
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
+ * @returns Judgment object
  */
-export function getROEJudgment(roe: number): ProfitabilityJudgment {
-  if (roe >= 15) {
+export function getNetDERatioJudgment(
+  ratio: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.netDebtToEquity
+): SafetyJudgment {
+  if (ratio < thresholds[0]) {
     return {
       level: 'excellent',
       borderColor: 'border-green-500',
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
-      title: '優良',
-      description: '株主資本を非常に効率的に活用'
+      title: '実質無借金',
+      description: `手元の現金に比べて有利子負債が少ない（${bandRange(thresholds, 0, 'ネットD/Eレシオ', '倍', true)}）`
     };
   }
-  if (roe >= 10) {
+  if (ratio < thresholds[1]) {
     return {
       level: 'good',
       borderColor: 'border-blue-500',
       textColor: 'text-blue-700',
       darkTextColor: 'dark:text-blue-400',
       title: '良好',
-      description: '株主資本を効率的に活用'
+      description: `現金を差し引いた借入は自己資本に比べて小さい（${bandRange(thresholds, 1, 'ネットD/Eレシオ', '倍', true)}）`
     };
   }
-  if (roe >= 5) {
+  if (ratio < thresholds[2]) {
     return {
       level: 'fair',
       borderColor: 'border-yellow-500',
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
       title: '普通',
-      description: '改善の余地あり'
+      description: `現金を差し引いても一定の借入が残る（${bandRange(thresholds, 2, 'ネットD/Eレシオ', '倍', true)}）`
     };
   }
   return {
-    level: 'poor',
+    level: 'warning',
     borderColor: 'border-red-500',
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
-    title: '要改善',
-    description: '資本効率が低い、または赤字'
+    title: '要注意',
+    description: `現金を差し引いた借入が自己資本に比べて多い（${bandRange(thresholds, 3, 'ネットD/Eレシオ', '倍', true)}）`
   };
 }
 
 /**
- * Calculate ROA (Return on Assets)
- * @param netIncome Net income in million JPY
- * @param totalAssets Total assets in million JPY
- * @returns ROA percentage
+ * Calculate Interest Coverage Ratio (インタレスト・カバレッジ・レシオ)
+ * @param ebit EBIT in million JPY
+ * @param interestExpense Interest expense in million JPY
+ * @returns Times interest earned
  */
-export function calculateROA(netIncome: number, totalAssets: number): number {
-  if (totalAssets <= 0) {
-    throw new Error('Total assets must be greater than 0');
+export function calculateInterestCoverage(ebit: number, interestExpense: number): number {
+  if (interestExpense <= 0) {
+    throw new Error('Interest expense must be greater than 0');
   }
-  return (netIncome / totalAssets) * 100;
+  return ebit / interestExpense;
 }
 
 /**
- * Get ROA judgment based on percentage
+ * Get Interest Coverage Ratio judgment
+ * @param ratio Times interest earned
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
+ * @returns Judgment object
  */
-export function getROAJudgment(roa: number): ProfitabilityJudgment {
-  if (roa >= 10) {
+export function getInterestCoverageJudgment(
+  ratio: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.interestCoverage
+): SafetyJudgment {
+  if (ratio >= thresholds[0]) {
     return {
       level: 'excellent',
       borderColor: 'border-green-500',
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
       title: '優良',
-      description: '総資産を非常に効率的に活用'
+      description: `利息の支払いに対して本業の利益に大きな余裕がある（${bandRange(thresholds, 0, 'インタレスト・カバレッジ', '倍')}）`
     };
   }
-  if (roa >= 5) {
+  if (ratio >= thresholds[1]) {
     return {
       level: 'good',
       borderColor: 'border-blue-500',
       textColor: 'text-blue-700',
       darkTextColor: 'dark:text-blue-400',
       title: '良好',
-      description: '総資産を効率的に活用'
+      description: `利息を十分に支払える利益がある（${bandRange(thresholds, 1, 'インタレスト・カバレッジ', '倍')}）`
     };
   }
-  if (roa >= 2) {
+  if (ratio >= thresholds[2]) {
     return {
       level: 'fair',
       borderColor: 'border-yellow-500',
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
       title: '普通',
-      description: '改善の余地あり'
+      description: `減益時には利払い負担が重くなる（${bandRange(thresholds, 2, 'インタレスト・カバレッジ', '倍')}）`
     };
   }
   return {
-    level: 'poor',
+    level: 'warning',
     borderColor: 'border-red-500',
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
-    title: '要改善',
-    description: '資産効率が低い、または赤字'
+    title: '要注意',
+    description: `利益で利息をまかなう余裕がほとんどない（${bandRange(thresholds, 3, 'インタレスト・カバレッジ', '倍')}）`
   };
 }
 
 /**
- * Calculate Operating Margin
- * @param operatingIncome Operating income in million JPY
- * @param revenue Revenue in million JPY
- * @returns Operating margin percentage
+ * Coefficients of the original Altman Z-score (public manufacturers)
  */
-export function calculateOperatingMargin(operatingIncome: number, revenue: number): number {
-  if (revenue <= 0) {
-    throw new Error('Revenue must be greater than 0');
+export const ALTMAN_Z_COEFFICIENTS = {
+  workingCapital: 1.2,
+  retainedEarnings: 1.4,
+  ebit: 3.3,
+  marketValue: 0.6,
+  sales: 1.0,
+};
+
+export type AltmanZTerm = keyof typeof ALTMAN_Z_COEFFICIENTS;
+
+/**
+ * Inputs of the Altman Z-score (all in million JPY)
+ */
+export interface AltmanZInputs {
+  workingCapital: number;
+  retainedEarnings: number;
+  ebit: number;
+  marketCap: number;
+  totalLiabilities: number;
+  revenue: number;
+  totalAssets: number;
+}
+
+/**
+ * Altman Z-score with each weighted term
+ */
+export interface AltmanZResult {
+  score: number;
+  /**
+   * Coefficient × ratio for each term; the terms add up to the score
+   */
+  terms: Record<AltmanZTerm, number>;
+}
+
+/**
+ * Calculate the Altman Z-score (アルトマンのZスコア)
+ * Z = 1.2 × 運転資本/総資産 + 1.4 × 利益剰余金/総資産 + 3.3 × EBIT/総資産
+ *   + 0.6 × 時価総額/負債合計 + 1.0 × 売上高/総資産
+ */
+export function calculateAltmanZ(inputs: AltmanZInputs): AltmanZResult {
+  if (inputs.totalAssets <= 0) {
+    throw new Error('Total assets must be greater than 0');
   }
-  return (operatingIncome / revenue) * 100;
+  if (inputs.totalLiabilities <= 0) {
+    throw new Error('Total liabilities must be greater than 0');
+  }
+
+  const terms: Record<AltmanZTerm, number> = {
+    workingCapital: ALTMAN_Z_COEFFICIENTS.workingCapital * (inputs.workingCapital / inputs.totalAssets),
+    retainedEarnings: ALTMAN_Z_COEFFICIENTS.retainedEarnings * (inputs.retainedEarnings / inputs.totalAssets),
+    ebit: ALTMAN_Z_COEFFICIENTS.ebit * (inputs.ebit / inputs.totalAssets),
+    marketValue: ALTMAN_Z_COEFFICIENTS.marketValue * (inputs.marketCap / inputs.totalLiabilities),
+    sales: ALTMAN_Z_COEFFICIENTS.sales * (inputs.revenue / inputs.totalAssets),
+  };
+  const score = Object.values(terms).reduce((sum, term) => sum + term, 0);
+
+  return { score, terms };
 }
 
 /**
- * Get Operating Margin judgment based on percentage
+ * Altman Z-score judgment with the zone it falls in
+ */
+export interface AltmanZJudgment extends SafetyJudgment {
+  zone: 'safe' | 'grey' | 'distress';
+}
+
+/**
+ * Get Altman Z-score judgment
+ * The default cut-offs are Altman's 2.99 (safe) and 1.81 (distress); the grey zone
+ * between them is split at 2.675, the single cut-off that best separated the original sample
+ * @param score Z-score
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
+ * @returns Judgment object
  */
-export function getOperatingMarginJudgment(margin: number): ProfitabilityJudgment {
-  if (margin >= 20) {
+export function getAltmanZJudgment(
+  score: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.altmanZ
+): AltmanZJudgment {
+  if (score >= thresholds[0]) {
     return {
       level: 'excellent',
+      zone: 'safe',
       borderColor: 'border-green-500',
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
-      title: '優良',
-      description: '非常に高い収益性'
+      title: '安全圏',
+      description: `経営破綻の可能性は低い（${bandRange(thresholds, 0, 'Zスコア', '')}）`
     };
   }
-  if (margin >= 10) {
+  if (score >= thresholds[1]) {
     return {
       level: 'good',
+      zone: 'grey',
       borderColor: 'border-blue-500',
       textColor: 'text-blue-700',
       darkTextColor: 'dark:text-blue-400',
-      title: '良好',
-      description: '健全な収益性'
+      title: 'グレーゾーン（安全寄り）',
+      description: `判別が難しい領域だが、健全な企業に近い（${bandRange(thresholds, 1, 'Zスコア', '')}）`
     };
   }
-  if (margin >= 5) {
+  if (score >= thresholds[2]) {
     return {
       level: 'fair',
+      zone: 'grey',
       borderColor: 'border-yellow-500',
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
-      title: '普通',
-      description: '改善の余地あり'
+      title: 'グレーゾーン（警戒）',
+      description: `判別が難しい領域で、破綻企業の水準に近い（${bandRange(thresholds, 2, 'Zスコア', '')}）`
     };
   }
   return {
-    level: 'poor',
+    level: 'warning',
+    zone: 'distress',
     borderColor: 'border-red-500',
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
-    title: '要改善',
-    description: '収益性が低い、または赤字'
+    title: '危険圏',
+    description: `財務が悪化しており、経営破綻の可能性が高い水準（${bandRange(thresholds, 3, 'Zスコア', '')}）`
   };
 }
 
 /**
- * Valuation Judgment type
+ * GROWTH METRICS
  */
-export interface ValuationJudgment {
-  level: 'undervalued' | 'fair' | 'overvalued' | 'very-overvalued';
-  borderColor: string;
-  textColor: string;
-  darkTextColor: string;
-  title: string;
-  description: string;
+
+/**
+ * Calculate Capital Expenditure Ratio (設備投資比率)
+ * @param capex Capital expenditure in million JPY
+ * @param depreciation Depreciation in million JPY
+ * @returns CapEx to Depreciation ratio
+ */
+export function calculateCapExRatio(capex: number, depreciation: number): number {
+  if (depreciation <= 0) {
+    throw new Error('Depreciation must be greater than 0');
+  }
+  return capex / depreciation;
 }
 
 /**
- * Calculate PER (Price-to-Earnings Ratio)
- * @param marketCap Market capitalization in million JPY
- * @param netIncome Net income in million JPY
- * @returns PER ratio
+ * Calculate Revenue Growth Rate (売上高成長率)
+ * @param currentRevenue Current year revenue in million JPY
+ * @param pastRevenue Revenue at the start of the period in million JPY
+ * @returns Cumulative growth rate in percentage
  */
-export function calculatePER(marketCap: number, netIncome: number): number {
-  if (netIncome <= 0) {
-    throw new Error('Net income must be greater than 0');
+export function calculateRevenueGrowth(currentRevenue: number, pastRevenue: number): number {
+  if (pastRevenue <= 0) {
+    throw new Error('Past revenue must be greater than 0');
   }
-  return marketCap / netIncome;
+  return ((currentRevenue - pastRevenue) / pastRevenue) * 100;
 }
 
 /**
- * Get PER judgment based on ratio
+ * Growth periods selectable in the growth analysis, in years
+ */
+export const GROWTH_PERIODS = [1, 3, 5, 10];
+
+/**
+ * Calculate CAGR (年平均成長率)
+ * Growth judgments use CAGR so they are comparable across periods
+ * @param currentValue Value in the latest year
+ * @param pastValue Value at the start of the period
+ * @param years Length of the period in years
+ * @returns Compound annual growth rate in percentage
+ */
+export function calculateCAGR(currentValue: number, pastValue: number, years: number): number {
+  if (pastValue <= 0 || currentValue <= 0) {
+    throw new Error('Values must be greater than 0');
+  }
+  if (years <= 0) {
+    throw new Error('Years must be greater than 0');
+  }
+  return (Math.pow(currentValue / pastValue, 1 / years) - 1) * 100;
+}
+
+/**
+ * Growth judgment result type
+ */
+export interface GrowthJudgment {
+  level: 'strong' | 'moderate' | 'stable' | 'declining';
+  borderColor: string;
+  textColor: string;
+  darkTextColor: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * Get CapEx Ratio judgment
+ * @param ratio CapEx to Depreciation ratio
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
+ * @returns Judgment object
  */
-export function getPERJudgment(per: number): ValuationJudgment {
-  if (per < 10) {
+export function getCapExRatioJudgment(
+  ratio: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.capexRatio
+): GrowthJudgment {
+  if (ratio >= thresholds[0]) {
     return {
-      level: 'undervalued',
+      level: 'strong',
       borderColor: 'border-green-500',
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
-      title: '割安',
-      description: '利益に対して株価が低い'
+      title: '積極投資',
+      description: `成長と資産更新に積極的に投資している（${bandRange(thresholds, 0, '設備投資比率', '倍')}）`
     };
   }
-  if (per < 20) {
+  if (ratio >= thresholds[1]) {
     return {
-      level: 'fair',
+      level: 'moderate',
       borderColor: 'border-blue-500',
       textColor: 'text-blue-700',
       darkTextColor: 'dark:text-blue-400',
-      title: '適正',
-      description: '標準的な株価水準'
+      title: '適正投資',
+      description: `資産の維持に見合った投資をしている（${bandRange(thresholds, 1, '設備投資比率', '倍')}）`
     };
   }
-  if (per < 30) {
+  if (ratio >= thresholds[2]) {
     return {
-      level: 'overvalued',
+      level: 'stable',
       borderColor: 'border-yellow-500',
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
-      title: 'やや割高',
-      description: '成長期待が織り込まれている'
+      title: '保守的',
+      description: `新規投資が限定的、資産ベースが縮小傾向の可能性（${bandRange(thresholds, 2, '設備投資比率', '倍')}）`
     };
   }
   return {
-    level: 'very-overvalued',
+    level: 'declining',
     borderColor: 'border-red-500',
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
-    title: '割高',
-    description: '高い成長期待、またはバブル的'
+    title: '投資不足',
+    description: `資産ベースを維持するには投資が不十分（${bandRange(thresholds, 3, '設備投資比率', '倍')}）`
   };
 }
 
 /**
- * Calculate PBR (Price-to-Book Ratio)
- * @param marketCap Market capitalization in million JPY
- * @param equity Equity in million JPY
- * @returns PBR ratio
+ * Get Revenue Growth judgment
+ * @param growthRate Compound annual growth rate percentage
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
+ * @returns Judgment object
  */
-export function calculatePBR(marketCap: number, equity: number): number {
-  if (equity <= 0) {
-    throw new Error('Equity must be greater than 0');
-  }
+export function getRevenueGrowthJudgment(
+  growthRate: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.revenueGrowth
+): GrowthJudgment {
+  if (growthRate >= thresholds[0]) {
+    return {
+      level: 'strong',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '高成長',
+      description: `年率で顕著な売上高拡大（${bandRange(thresholds, 0, '年平均成長率', '%')}）`
+    };
+  }
+  if (growthRate >= thresholds[1]) {
+    return {
+      level: 'moderate',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '堅実な成長',
+      description: `健全な売上高成長軌道（${bandRange(thresholds, 1, '年平均成長率', '%')}）`
+    };
+  }
+  if (growthRate >= thresholds[2]) {
+    return {
+      level: 'stable',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '安定',
+      description: `売上高の伸びは小さい（${bandRange(thresholds, 2, '年平均成長率', '%')}）`
+    };
+  }
+  return {
+    level: 'declining',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '減少傾向',
+    description: `売上高が伸び悩んでいる、または減少（${bandRange(thresholds, 3, '年平均成長率', '%')}）`
+  };
+}
+
+/**
+ * Get Operating Income Growth judgment
+ * @param growthRate Compound annual growth rate percentage
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
+ * @returns Judgment object
+ */
+export function getOperatingIncomeGrowthJudgment(
+  growthRate: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.operatingIncomeGrowth
+): GrowthJudgment {
+  if (growthRate >= thresholds[0]) {
+    return {
+      level: 'strong',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '高成長',
+      description: `本業の利益が年率で大きく拡大（${bandRange(thresholds, 0, '年平均成長率', '%')}）`
+    };
+  }
+  if (growthRate >= thresholds[1]) {
+    return {
+      level: 'moderate',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '堅実な成長',
+      description: `本業の利益が着実に増加（${bandRange(thresholds, 1, '年平均成長率', '%')}）`
+    };
+  }
+  if (growthRate >= thresholds[2]) {
+    return {
+      level: 'stable',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '安定',
+      description: `営業利益の伸びは小さい（${bandRange(thresholds, 2, '年平均成長率', '%')}）`
+    };
+  }
+  return {
+    level: 'declining',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '減益傾向',
+    description: `営業利益が伸び悩んでいる、または減少（${bandRange(thresholds, 3, '年平均成長率', '%')}）`
+  };
+}
+
+/**
+ * Get EPS Growth judgment
+ * @param growthRate Compound annual growth rate percentage
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
+ * @returns Judgment object
+ */
+export function getEPSGrowthJudgment(
+  growthRate: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.epsGrowth
+): GrowthJudgment {
+  if (growthRate >= thresholds[0]) {
+    return {
+      level: 'strong',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '高成長',
+      description: `1株あたり利益が年率で大きく拡大（${bandRange(thresholds, 0, '年平均成長率', '%')}）`
+    };
+  }
+  if (growthRate >= thresholds[1]) {
+    return {
+      level: 'moderate',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '堅実な成長',
+      description: `株主の取り分が着実に増加（${bandRange(thresholds, 1, '年平均成長率', '%')}）`
+    };
+  }
+  if (growthRate >= thresholds[2]) {
+    return {
+      level: 'stable',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '安定',
+      description: `EPSの伸びは小さい（${bandRange(thresholds, 2, '年平均成長率', '%')}）`
+    };
+  }
+  return {
+    level: 'declining',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '減益傾向',
+    description: `EPSが伸び悩んでいる、または減少（${bandRange(thresholds, 3, '年平均成長率', '%')}）`
+  };
+}
+
+/**
+ * Profitability Judgment type
+ */
+export interface ProfitabilityJudgment {
+  level: 'excellent' | 'good' | 'fair' | 'poor';
+  borderColor: string;
+  textColor: string;
+  darkTextColor: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * Calculate ROE (Return on Equity)
+ * @param netIncome Net income in million JPY
+ * @param equity Equity in million JPY
+ * @returns ROE percentage
+ */
+export function calculateROE(netIncome: number, equity: number): number {
+  if (equity <= 0) {
+    throw new Error('Equity must be greater than 0');
+  }
+  return (netIncome / equity) * 100;
+}
+
+/**
+ * Get ROE judgment based on percentage
+ */
+export function getROEJudgment(
+  roe: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.roe
+): ProfitabilityJudgment {
+  if (roe >= thresholds[0]) {
+    return {
+      level: 'excellent',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '優良',
+      description: `株主資本を非常に効率的に活用（${bandRange(thresholds, 0, 'ROE', '%')}）`
+    };
+  }
+  if (roe >= thresholds[1]) {
+    return {
+      level: 'good',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '良好',
+      description: `株主資本を効率的に活用（${bandRange(thresholds, 1, 'ROE', '%')}）`
+    };
+  }
+  if (roe >= thresholds[2]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '普通',
+      description: `改善の余地あり（${bandRange(thresholds, 2, 'ROE', '%')}）`
+    };
+  }
+  return {
+    level: 'poor',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '要改善',
+    description: `資本効率が低い、または赤字（${bandRange(thresholds, 3, 'ROE', '%')}）`
+  };
+}
+
+/**
+ * Calculate ROA (Return on Assets)
+ * @param netIncome Net income in million JPY
+ * @param totalAssets Total assets in million JPY
+ * @returns ROA percentage
+ */
+export function calculateROA(netIncome: number, totalAssets: number): number {
+  if (totalAssets <= 0) {
+    throw new Error('Total assets must be greater than 0');
+  }
+  return (netIncome / totalAssets) * 100;
+}
+
+/**
+ * Get ROA judgment based on percentage
+ */
+export function getROAJudgment(
+  roa: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.roa
+): ProfitabilityJudgment {
+  if (roa >= thresholds[0]) {
+    return {
+      level: 'excellent',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '優良',
+      description: `総資産を非常に効率的に活用（${bandRange(thresholds, 0, 'ROA', '%')}）`
+    };
+  }
+  if (roa >= thresholds[1]) {
+    return {
+      level: 'good',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '良好',
+      description: `総資産を効率的に活用（${bandRange(thresholds, 1, 'ROA', '%')}）`
+    };
+  }
+  if (roa >= thresholds[2]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '普通',
+      description: `改善の余地あり（${bandRange(thresholds, 2, 'ROA', '%')}）`
+    };
+  }
+  return {
+    level: 'poor',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '要改善',
+    description: `資産効率が低い、または赤字（${bandRange(thresholds, 3, 'ROA', '%')}）`
+  };
+}
+
+/**
+ * Calculate Operating Margin
+ * @param operatingIncome Operating income in million JPY
+ * @param revenue Revenue in million JPY
+ * @returns Operating margin percentage
+ */
+export function calculateOperatingMargin(operatingIncome: number, revenue: number): number {
+  if (revenue <= 0) {
+    throw new Error('Revenue must be greater than 0');
+  }
+  return (operatingIncome / revenue) * 100;
+}
+
+/**
+ * Get Operating Margin judgment based on percentage
+ */
+export function getOperatingMarginJudgment(
+  margin: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.operatingMargin
+): ProfitabilityJudgment {
+  if (margin >= thresholds[0]) {
+    return {
+      level: 'excellent',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '優良',
+      description: `非常に高い収益性（${bandRange(thresholds, 0, '営業利益率', '%')}）`
+    };
+  }
+  if (margin >= thresholds[1]) {
+    return {
+      level: 'good',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '良好',
+      description: `健全な収益性（${bandRange(thresholds, 1, '営業利益率', '%')}）`
+    };
+  }
+  if (margin >= thresholds[2]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '普通',
+      description: `改善の余地あり（${bandRange(thresholds, 2, '営業利益率', '%')}）`
+    };
+  }
+  return {
+    level: 'poor',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '要改善',
+    description: `収益性が低い、または赤字（${bandRange(thresholds, 3, '営業利益率', '%')}）`
+  };
+}
+
+/**
+ * Calculate Net Margin (純利益率)
+ * @param netIncome Net income in million JPY
+ * @param revenue Revenue in million JPY
+ * @returns Net margin percentage
+ */
+export function calculateNetMargin(netIncome: number, revenue: number): number {
+  if (revenue <= 0) {
+    throw new Error('Revenue must be greater than 0');
+  }
+  return (netIncome / revenue) * 100;
+}
+
+/**
+ * Calculate Asset Turnover (総資産回転率)
+ * @param revenue Revenue in million JPY
+ * @param totalAssets Total assets in million JPY
+ * @returns Turnover in times per year
+ */
+export function calculateAssetTurnover(revenue: number, totalAssets: number): number {
+  if (totalAssets <= 0) {
+    throw new Error('Total assets must be greater than 0');
+  }
+  return revenue / totalAssets;
+}
+
+/**
+ * Calculate Financial Leverage (財務レバレッジ)
+ * @param totalAssets Total assets in million JPY
+ * @param equity Equity in million JPY
+ * @returns Total assets as a multiple of equity
+ */
+export function calculateFinancialLeverage(totalAssets: number, equity: number): number {
+  if (equity <= 0) {
+    throw new Error('Equity must be greater than 0');
+  }
+  return totalAssets / equity;
+}
+
+/**
+ * Calculate Tax Burden (税負担率: share of pretax income kept after tax)
+ * @param netIncome Net income in million JPY
+ * @param pretaxIncome Income before tax in million JPY
+ * @returns Ratio (1 = no tax)
+ */
+export function calculateTaxBurden(netIncome: number, pretaxIncome: number): number {
+  if (pretaxIncome <= 0) {
+    throw new Error('Pretax income must be greater than 0');
+  }
+  return netIncome / pretaxIncome;
+}
+
+/**
+ * Calculate Interest Burden (金利負担率: share of EBIT kept after interest)
+ * @param pretaxIncome Income before tax in million JPY
+ * @param ebit EBIT in million JPY
+ * @returns Ratio (1 = no interest expense)
+ */
+export function calculateInterestBurden(pretaxIncome: number, ebit: number): number {
+  if (ebit <= 0) {
+    throw new Error('EBIT must be greater than 0');
+  }
+  return pretaxIncome / ebit;
+}
+
+/**
+ * DuPont breakdown of ROE
+ * Three-step: ROE = 純利益率 × 総資産回転率 × 財務レバレッジ
+ * Five-step splits 純利益率 into 税負担率 × 金利負担率 × EBITマージン
+ */
+export interface DuPontAnalysis {
+  roe: number; // %
+  netMargin: number; // %
+  assetTurnover: number; // times
+  financialLeverage: number; // times
+  fiveStep: {
+    taxBurden: number;
+    interestBurden: number;
+    ebitMargin: number; // %
+  } | null;
+}
+
+/**
+ * Factor levels of a company earning ROE 10% with an unremarkable structure
+ * Each factor's contribution is measured against these
+ */
+export const DUPONT_REFERENCE = {
+  netMargin: 5,
+  assetTurnover: 1,
+  financialLeverage: 2,
+};
+
+export type DuPontFactor = keyof typeof DUPONT_REFERENCE;
+
+/**
+ * Calculate the DuPont breakdown
+ * @param pretaxIncome Income before tax (optional, enables the five-step variant)
+ * @param ebit EBIT (optional, enables the five-step variant)
+ * @returns Breakdown whose factors multiply back to ROE
+ */
+export function calculateDuPont(
+  netIncome: number,
+  revenue: number,
+  totalAssets: number,
+  equity: number,
+  pretaxIncome?: number,
+  ebit?: number
+): DuPontAnalysis {
+  const netMargin = calculateNetMargin(netIncome, revenue);
+  const assetTurnover = calculateAssetTurnover(revenue, totalAssets);
+  const financialLeverage = calculateFinancialLeverage(totalAssets, equity);
+
+  const fiveStep = pretaxIncome && pretaxIncome > 0 && ebit && ebit > 0
+    ? {
+        taxBurden: calculateTaxBurden(netIncome, pretaxIncome),
+        interestBurden: calculateInterestBurden(pretaxIncome, ebit),
+        ebitMargin: (ebit / revenue) * 100,
+      }
+    : null;
+
+  return {
+    roe: netMargin * assetTurnover * financialLeverage,
+    netMargin,
+    assetTurnover,
+    financialLeverage,
+    fiveStep,
+  };
+}
+
+/**
+ * Contribution of each factor to ROE relative to DUPONT_REFERENCE
+ * Log ratios, so the contributions add up to log(ROE / 10%)
+ */
+export function getDuPontContributions(dupont: DuPontAnalysis): Record<DuPontFactor, number> {
+  const contribution = (factor: DuPontFactor) =>
+    dupont[factor] > 0 ? Math.log(dupont[factor] / DUPONT_REFERENCE[factor]) : -Infinity;
+  return {
+    netMargin: contribution('netMargin'),
+    assetTurnover: contribution('assetTurnover'),
+    financialLeverage: contribution('financialLeverage'),
+  };
+}
+
+/**
+ * DuPont Judgment type
+ */
+export interface DuPontJudgment {
+  level: 'margin-driven' | 'turnover-driven' | 'leverage-driven' | 'weak';
+  driver: DuPontFactor;
+  borderColor: string;
+  textColor: string;
+  darkTextColor: string;
+  title: string;
+  description: string;
+}
+
+const DUPONT_FACTOR_LABELS: Record<DuPontFactor, string> = {
+  netMargin: '純利益率',
+  assetTurnover: '総資産回転率',
+  financialLeverage: '財務レバレッジ',
+};
+
+/**
+ * Get DuPont judgment: which factor drives ROE
+ * Leverage-driven ROE is flagged separately from margin- or turnover-driven ROE
+ * @param dupont DuPont breakdown
+ * @param thresholds ROE band boundaries; below the third one ROE is judged weak
+ * @returns Judgment object with the driving (or, for weak ROE, the weakest) factor
+ */
+export function getDuPontJudgment(
+  dupont: DuPontAnalysis,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.roe
+): DuPontJudgment {
+  const contributions = Object.entries(getDuPontContributions(dupont)) as [DuPontFactor, number][];
+
+  if (dupont.roe < thresholds[2]) {
+    const [weakest] = contributions.reduce((min, entry) => (entry[1] < min[1] ? entry : min));
+    return {
+      level: 'weak',
+      driver: weakest,
+      borderColor: 'border-red-500',
+      textColor: 'text-red-700',
+      darkTextColor: 'dark:text-red-400',
+      title: '低ROE',
+      description: `${DUPONT_FACTOR_LABELS[weakest]}の低さがROEを押し下げている（${bandRange(thresholds, 3, 'ROE', '%')}）`
+    };
+  }
+
+  const [driver] = contributions.reduce((max, entry) => (entry[1] > max[1] ? entry : max));
+  if (driver === 'financialLeverage') {
+    return {
+      level: 'leverage-driven',
+      driver,
+      borderColor: 'border-orange-500',
+      textColor: 'text-orange-700',
+      darkTextColor: 'dark:text-orange-400',
+      title: 'レバレッジ依存型',
+      description: '負債の活用でROEを押し上げており、財務リスクに注意'
+    };
+  }
+  if (driver === 'assetTurnover') {
+    return {
+      level: 'turnover-driven',
+      driver,
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '高回転型',
+      description: '資産を効率よく回転させてROEを確保'
+    };
+  }
+  return {
+    level: 'margin-driven',
+    driver,
+    borderColor: 'border-green-500',
+    textColor: 'text-green-700',
+    darkTextColor: 'dark:text-green-400',
+    title: '高収益型',
+    description: '利益率の高さがROEを支える質の高い構成'
+  };
+}
+
+/**
+ * Values of one fiscal year used by the Piotroski F-score (all in million JPY)
+ */
+export interface PiotroskiYear {
+  revenue: number;
+  grossProfit: number;
+  netIncome: number;
+  operatingCashflow: number;
+  totalAssets: number;
+  longTermDebt: number;
+  currentAssets: number;
+  currentLiabilities: number;
+}
+
+/**
+ * The nine binary signals of the Piotroski F-score
+ */
+export type PiotroskiSignalId =
+  | 'roa'
+  | 'cfo'
+  | 'deltaRoa'
+  | 'accrual'
+  | 'deltaLeverage'
+  | 'deltaLiquidity'
+  | 'noDilution'
+  | 'deltaGrossMargin'
+  | 'deltaAssetTurnover';
+
+/**
+ * One signal with the numbers it compared
+ */
+export interface PiotroskiSignal {
+  id: PiotroskiSignalId;
+  passed: boolean;
+  /**
+   * Current-year value (ratios in %, asset turnover in times, share issuance in million JPY)
+   */
+  current: number;
+  /**
+   * Value it was compared against: the prior year for Δ signals, otherwise the cut-off
+   */
+  reference: number;
+}
+
+export interface PiotroskiResult {
+  score: number;
+  signals: PiotroskiSignal[];
+}
+
+/**
+ * Calculate the Piotroski F-score from two consecutive fiscal years
+ * Ratios use year-end total assets for both years
+ * @param current Latest fiscal year
+ * @param prior Fiscal year before it
+ * @param stockIssuance Proceeds from issuing shares in the latest year in million JPY
+ * @returns Score (0-9) and each signal
+ */
+export function calculatePiotroskiFScore(
+  current: PiotroskiYear,
+  prior: PiotroskiYear,
+  stockIssuance: number
+): PiotroskiResult {
+  if (current.totalAssets <= 0 || prior.totalAssets <= 0) {
+    throw new Error('Total assets must be greater than 0');
+  }
+  if (current.currentLiabilities <= 0 || prior.currentLiabilities <= 0) {
+    throw new Error('Current liabilities must be greater than 0');
+  }
+  if (current.revenue <= 0 || prior.revenue <= 0) {
+    throw new Error('Revenue must be greater than 0');
+  }
+
+  const ratios = (year: PiotroskiYear) => ({
+    roa: (year.netIncome / year.totalAssets) * 100,
+    cfoToAssets: (year.operatingCashflow / year.totalAssets) * 100,
+    leverage: (year.longTermDebt / year.totalAssets) * 100,
+    currentRatio: (year.currentAssets / year.currentLiabilities) * 100,
+    grossMargin: (year.grossProfit / year.revenue) * 100,
+    assetTurnover: year.revenue / year.totalAssets,
+  });
+  const now = ratios(current);
+  const before = ratios(prior);
+
+  const signals: PiotroskiSignal[] = [
+    { id: 'roa', passed: now.roa > 0, current: now.roa, reference: 0 },
+    { id: 'cfo', passed: current.operatingCashflow > 0, current: current.operatingCashflow, reference: 0 },
+    { id: 'deltaRoa', passed: now.roa > before.roa, current: now.roa, reference: before.roa },
+    { id: 'accrual', passed: now.cfoToAssets > now.roa, current: now.cfoToAssets, reference: now.roa },
+    // Unchanged leverage (including no long-term debt in either year) counts as a pass
+    { id: 'deltaLeverage', passed: now.leverage <= before.leverage, current: now.leverage, reference: before.leverage },
+    { id: 'deltaLiquidity', passed: now.currentRatio > before.currentRatio, current: now.currentRatio, reference: before.currentRatio },
+    { id: 'noDilution', passed: stockIssuance <= 0, current: stockIssuance, reference: 0 },
+    { id: 'deltaGrossMargin', passed: now.grossMargin > before.grossMargin, current: now.grossMargin, reference: before.grossMargin },
+    {
+      id: 'deltaAssetTurnover',
+      passed: now.assetTurnover > before.assetTurnover,
+      current: now.assetTurnover,
+      reference: before.assetTurnover,
+    },
+  ];
+
+  return { score: signals.filter((signal) => signal.passed).length, signals };
+}
+
+/**
+ * Get Piotroski F-score judgment
+ * @param score F-score (0-9)
+ * @param thresholds Band boundaries from best to worst (defaults to market-wide cut-offs)
+ * @returns Judgment object
+ */
+export function getPiotroskiJudgment(
+  score: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.piotroskiScore
+): ProfitabilityJudgment {
+  if (score >= thresholds[0]) {
+    return {
+      level: 'excellent',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '優良',
+      description: `収益性・財務・効率のほぼすべてが前期から改善している（${bandRange(thresholds, 0, 'Fスコア', '点')}）`
+    };
+  }
+  if (score >= thresholds[1]) {
+    return {
+      level: 'good',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '良好',
+      description: `改善している項目が多い（${bandRange(thresholds, 1, 'Fスコア', '点')}）`
+    };
+  }
+  if (score >= thresholds[2]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '普通',
+      description: `改善と悪化が混在している（${bandRange(thresholds, 2, 'Fスコア', '点')}）`
+    };
+  }
+  return {
+    level: 'poor',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '要注意',
+    description: `多くの項目で財務の質が悪化している（${bandRange(thresholds, 3, 'Fスコア', '点')}）`
+  };
+}
+
+/**
+ * Valuation Judgment type
+ */
+export interface ValuationJudgment {
+  level: 'undervalued' | 'fair' | 'overvalued' | 'very-overvalued';
+  borderColor: string;
+  textColor: string;
+  darkTextColor: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * Calculate PER (Price-to-Earnings Ratio)
+ * @param marketCap Market capitalization in million JPY
+ * @param netIncome Net income in million JPY
+ * @returns PER ratio
+ */
+export function calculatePER(marketCap: number, netIncome: number): number {
+  if (netIncome <= 0) {
+    throw new Error('Net income must be greater than 0');
+  }
+  return marketCap / netIncome;
+}
+
+/**
+ * Get PER judgment based on ratio
+ */
+export function getPERJudgment(
+  per: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.per
+): ValuationJudgment {
+  if (per < thresholds[0]) {
+    return {
+      level: 'undervalued',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '割安',
+      description: `利益に対して株価が低い（${bandRange(thresholds, 0, 'PER', '倍', true)}）`
+    };
+  }
+  if (per < thresholds[1]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '適正',
+      description: `標準的な株価水準（${bandRange(thresholds, 1, 'PER', '倍', true)}）`
+    };
+  }
+  if (per < thresholds[2]) {
+    return {
+      level: 'overvalued',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: 'やや割高',
+      description: `成長期待が織り込まれている（${bandRange(thresholds, 2, 'PER', '倍', true)}）`
+    };
+  }
+  return {
+    level: 'very-overvalued',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '割高',
+    description: `高い成長期待、またはバブル的（${bandRange(thresholds, 3, 'PER', '倍', true)}）`
+  };
+}
+
+/**
+ * Calculate PBR (Price-to-Book Ratio)
+ * @param marketCap Market capitalization in million JPY
+ * @param equity Equity in million JPY
+ * @returns PBR ratio
+ */
+export function calculatePBR(marketCap: number, equity: number): number {
+  if (equity <= 0) {
+    throw new Error('Equity must be greater than 0');
+  }
   return marketCap / equity;
 }
 
 /**
- * Get PBR judgment based on ratio
+ * Get PBR judgment based on ratio
+ */
+export function getPBRJudgment(
+  pbr: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.pbr
+): ValuationJudgment {
+  if (pbr < thresholds[0]) {
+    return {
+      level: 'undervalued',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '割安',
+      description: `純資産に対して株価が低い（${bandRange(thresholds, 0, 'PBR', '倍', true)}）`
+    };
+  }
+  if (pbr < thresholds[1]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '適正',
+      description: `標準的な株価水準（${bandRange(thresholds, 1, 'PBR', '倍', true)}）`
+    };
+  }
+  if (pbr < thresholds[2]) {
+    return {
+      level: 'overvalued',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: 'やや割高',
+      description: `成長期待が織り込まれている（${bandRange(thresholds, 2, 'PBR', '倍', true)}）`
+    };
+  }
+  return {
+    level: 'very-overvalued',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '割高',
+    description: `高い成長期待、またはバブル的（${bandRange(thresholds, 3, 'PBR', '倍', true)}）`
+  };
+}
+
+/**
+ * Calculate Dividend Yield
+ * @param annualDividend Annual dividend per share in JPY
+ * @param stockPrice Current stock price in JPY
+ * @returns Dividend yield percentage
+ */
+export function calculateDividendYield(annualDividend: number, stockPrice: number): number {
+  if (stockPrice <= 0) {
+    throw new Error('Stock price must be greater than 0');
+  }
+  return (annualDividend / stockPrice) * 100;
+}
+
+/**
+ * Get Dividend Yield judgment based on percentage
+ */
+export function getDividendYieldJudgment(
+  yieldPercent: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.dividendYield
+): ValuationJudgment {
+  if (yieldPercent >= thresholds[0]) {
+    return {
+      level: 'undervalued',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '高配当',
+      description: `インカムゲイン重視の投資家向け（${bandRange(thresholds, 0, '配当利回り', '%')}）`
+    };
+  }
+  if (yieldPercent >= thresholds[1]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '標準的',
+      description: `平均的な配当水準（${bandRange(thresholds, 1, '配当利回り', '%')}）`
+    };
+  }
+  if (yieldPercent >= thresholds[2]) {
+    return {
+      level: 'overvalued',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '低配当',
+      description: `成長への再投資重視（${bandRange(thresholds, 2, '配当利回り', '%')}）`
+    };
+  }
+  return {
+    level: 'very-overvalued',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '無配当的',
+    description: `配当水準が低い（${bandRange(thresholds, 3, '配当利回り', '%')}）`
+  };
+}
+
+/**
+ * Calculate Enterprise Value (EV)
+ * @param marketCap Market capitalization in million JPY
+ * @param totalDebt Interest-bearing debt in million JPY
+ * @param totalCash Cash and equivalents in million JPY
+ * @returns EV in million JPY (negative when cash exceeds market cap plus debt)
+ */
+export function calculateEnterpriseValue(marketCap: number, totalDebt: number, totalCash: number): number {
+  return marketCap + totalDebt - totalCash;
+}
+
+/**
+ * Calculate EV/EBITDA
+ * @param enterpriseValue EV in million JPY
+ * @param ebitda EBITDA in million JPY
+ * @returns EV/EBITDA multiple
+ */
+export function calculateEVEBITDA(enterpriseValue: number, ebitda: number): number {
+  if (ebitda <= 0) {
+    throw new Error('EBITDA must be greater than 0');
+  }
+  return enterpriseValue / ebitda;
+}
+
+/**
+ * Get EV/EBITDA judgment based on multiple
+ */
+export function getEVEBITDAJudgment(
+  evEbitda: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.evEbitda
+): ValuationJudgment {
+  if (evEbitda < thresholds[0]) {
+    return {
+      level: 'undervalued',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '割安',
+      description: `数年分のEBITDAで買収できる水準（${bandRange(thresholds, 0, 'EV/EBITDA', '倍', true)}）`
+    };
+  }
+  if (evEbitda < thresholds[1]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '適正',
+      description: `標準的な企業価値の水準（${bandRange(thresholds, 1, 'EV/EBITDA', '倍', true)}）`
+    };
+  }
+  if (evEbitda < thresholds[2]) {
+    return {
+      level: 'overvalued',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: 'やや割高',
+      description: `成長期待が織り込まれている（${bandRange(thresholds, 2, 'EV/EBITDA', '倍', true)}）`
+    };
+  }
+  return {
+    level: 'very-overvalued',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '割高',
+    description: `稼ぐ力に比べて企業価値が高い（${bandRange(thresholds, 3, 'EV/EBITDA', '倍', true)}）`
+  };
+}
+
+/**
+ * Calculate EV/Sales
+ * @param enterpriseValue EV in million JPY
+ * @param revenue Revenue in million JPY
+ * @returns EV/Sales multiple
+ */
+export function calculateEVSales(enterpriseValue: number, revenue: number): number {
+  if (revenue <= 0) {
+    throw new Error('Revenue must be greater than 0');
+  }
+  return enterpriseValue / revenue;
+}
+
+/**
+ * Get EV/Sales judgment based on multiple
+ */
+export function getEVSalesJudgment(
+  evSales: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.evSales
+): ValuationJudgment {
+  if (evSales < thresholds[0]) {
+    return {
+      level: 'undervalued',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '割安',
+      description: `売上高に対して企業価値が小さい（${bandRange(thresholds, 0, 'EV/売上高', '倍', true)}）`
+    };
+  }
+  if (evSales < thresholds[1]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '適正',
+      description: `標準的な企業価値の水準（${bandRange(thresholds, 1, 'EV/売上高', '倍', true)}）`
+    };
+  }
+  if (evSales < thresholds[2]) {
+    return {
+      level: 'overvalued',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: 'やや割高',
+      description: `高い利益率か成長が前提（${bandRange(thresholds, 2, 'EV/売上高', '倍', true)}）`
+    };
+  }
+  return {
+    level: 'very-overvalued',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '割高',
+    description: `売上高に比べて企業価値が非常に高い（${bandRange(thresholds, 3, 'EV/売上高', '倍', true)}）`
+  };
+}
+
+/**
+ * Calculate Net Cash Ratio (ネットキャッシュ比率)
+ * @param totalCash Cash and equivalents in million JPY
+ * @param totalDebt Interest-bearing debt in million JPY
+ * @param marketCap Market capitalization in million JPY
+ * @returns Net cash as a percentage of market cap (negative for net debt)
  */
-export function getPBRJudgment(pbr: number): ValuationJudgment {
-  if (pbr < 1) {
+export function calculateNetCashRatio(totalCash: number, totalDebt: number, marketCap: number): number {
+  if (marketCap <= 0) {
+    throw new Error('Market cap must be greater than 0');
+  }
+  return ((totalCash - totalDebt) / marketCap) * 100;
+}
+
+/**
+ * Get Net Cash Ratio judgment based on percentage
+ */
+export function getNetCashRatioJudgment(
+  ratio: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.netCashRatio
+): ValuationJudgment {
+  if (ratio >= thresholds[0]) {
     return {
       level: 'undervalued',
       borderColor: 'border-green-500',
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
-      title: '割安',
-      description: '解散価値を下回る株価'
+      title: 'ネットキャッシュ豊富',
+      description: `時価総額の多くを手元の現金が占め、事業価値が低く評価されている（${bandRange(thresholds, 0, 'ネットキャッシュ比率', '%')}）`
     };
   }
-  if (pbr < 2) {
+  if (ratio >= thresholds[1]) {
     return {
       level: 'fair',
       borderColor: 'border-blue-500',
       textColor: 'text-blue-700',
       darkTextColor: 'dark:text-blue-400',
-      title: '適正',
-      description: '標準的な株価水準'
+      title: '現金が厚い',
+      description: `時価総額に比べて手元の現金が多い（${bandRange(thresholds, 1, 'ネットキャッシュ比率', '%')}）`
     };
   }
-  if (pbr < 3) {
+  if (ratio >= thresholds[2]) {
     return {
       level: 'overvalued',
       borderColor: 'border-yellow-500',
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
-      title: 'やや割高',
-      description: '成長期待が織り込まれている'
+      title: '実質無借金',
+      description: `手元の現金の余裕は小さい（${bandRange(thresholds, 2, 'ネットキャッシュ比率', '%')}）`
     };
   }
   return {
@@ -653,56 +1908,146 @@ export function getPBRJudgment(pbr: number): ValuationJudgment {
     borderColor: 'border-red-500',
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
-    title: '割高',
-    description: '高い成長期待、またはバブル的'
+    title: 'ネット有利子負債',
+    description: `現金に比べて有利子負債が多い（${bandRange(thresholds, 3, 'ネットキャッシュ比率', '%')}）`
   };
 }
 
 /**
- * Calculate Dividend Yield
- * @param annualDividend Annual dividend per share in JPY
- * @param stockPrice Current stock price in JPY
- * @returns Dividend yield percentage
+ * Projection years of each DCF growth stage (stage 1, then stage 2)
  */
-export function calculateDividendYield(annualDividend: number, stockPrice: number): number {
+export const DCF_STAGE_YEARS = [5, 5];
+
+/**
+ * DCF model inputs
+ * Rates are percentages; cash amounts are in million JPY
+ */
+export interface DCFInputs {
+  freeCashflow: number; // Starting (latest) free cash flow
+  stageGrowthRates: number[]; // Growth rate of each stage in DCF_STAGE_YEARS
+  discountRate: number; // WACC
+  terminalGrowth: number;
+  netCash: number; // Cash less interest-bearing debt
+  sharesOutstanding: number; // Count of shares
+}
+
+export interface DCFProjection {
+  year: number;
+  freeCashflow: number;
+  presentValue: number;
+}
+
+export interface DCFResult {
+  projections: DCFProjection[];
+  terminalValue: number;
+  presentTerminalValue: number;
+  enterpriseValue: number; // Million JPY
+  equityValue: number; // Million JPY
+  valuePerShare: number; // JPY
+}
+
+/**
+ * Calculate intrinsic value with a multi-stage DCF model
+ * FCF grows at each stage's rate, then a Gordon growth terminal value is added
+ * @returns Discounted projections and intrinsic value per share
+ */
+export function calculateDCF(inputs: DCFInputs): DCFResult {
+  const { freeCashflow, stageGrowthRates, discountRate, terminalGrowth, netCash, sharesOutstanding } = inputs;
+  if (discountRate <= terminalGrowth) {
+    throw new Error('Discount rate must be greater than terminal growth');
+  }
+  if (sharesOutstanding <= 0) {
+    throw new Error('Shares outstanding must be greater than 0');
+  }
+
+  const r = discountRate / 100;
+  const projections: DCFProjection[] = [];
+  let fcf = freeCashflow;
+  DCF_STAGE_YEARS.forEach((years, stage) => {
+    for (let i = 0; i < years; i++) {
+      fcf *= 1 + (stageGrowthRates[stage] ?? 0) / 100;
+      const year = projections.length + 1;
+      projections.push({ year, freeCashflow: fcf, presentValue: fcf / Math.pow(1 + r, year) });
+    }
+  });
+
+  const terminalValue = (fcf * (1 + terminalGrowth / 100)) / (r - terminalGrowth / 100);
+  const presentTerminalValue = terminalValue / Math.pow(1 + r, projections.length);
+  const enterpriseValue = projections.reduce((sum, p) => sum + p.presentValue, 0) + presentTerminalValue;
+  const equityValue = enterpriseValue + netCash;
+
+  return {
+    projections,
+    terminalValue,
+    presentTerminalValue,
+    enterpriseValue,
+    equityValue,
+    valuePerShare: (equityValue * 1000000) / sharesOutstanding,
+  };
+}
+
+/**
+ * Calculate upside of intrinsic value over the stock price
+ * @returns Percentage the price would have to rise to reach intrinsic value
+ */
+export function calculateUpside(intrinsicValue: number, stockPrice: number): number {
   if (stockPrice <= 0) {
     throw new Error('Stock price must be greater than 0');
   }
-  return (annualDividend / stockPrice) * 100;
+  return ((intrinsicValue - stockPrice) / stockPrice) * 100;
 }
 
 /**
- * Get Dividend Yield judgment based on percentage
+ * Calculate margin of safety (安全域)
+ * @returns Discount of the stock price to intrinsic value as a percentage (negative when above it)
+ */
+export function calculateMarginOfSafety(intrinsicValue: number, stockPrice: number): number {
+  if (intrinsicValue <= 0) {
+    throw new Error('Intrinsic value must be greater than 0');
+  }
+  return ((intrinsicValue - stockPrice) / intrinsicValue) * 100;
+}
+
+/**
+ * Margin of safety boundaries from the best band to the worst
+ */
+export const MARGIN_OF_SAFETY_THRESHOLDS: JudgmentThresholds = [30, 10, 0];
+
+/**
+ * Get margin of safety judgment based on percentage
  */
-export function getDividendYieldJudgment(yieldPercent: number): ValuationJudgment {
-  if (yieldPercent >= 4) {
+export function getMarginOfSafetyJudgment(
+  marginOfSafety: number,
+  thresholds: JudgmentThresholds = MARGIN_OF_SAFETY_THRESHOLDS
+): ValuationJudgment {
+  if (marginOfSafety >= thresholds[0]) {
     return {
       level: 'undervalued',
       borderColor: 'border-green-500',
       textColor: 'text-green-700',
       darkTextColor: 'dark:text-green-400',
-      title: '高配当',
-      description: 'インカムゲイン重視の投資家向け'
+      title: '割安',
+      description: `理論株価に対して十分な安全域がある（${bandRange(thresholds, 0, '安全域', '%')}）`
     };
   }
-  if (yieldPercent >= 2) {
+  if (marginOfSafety >= thresholds[1]) {
     return {
       level: 'fair',
       borderColor: 'border-blue-500',
       textColor: 'text-blue-700',
       darkTextColor: 'dark:text-blue-400',
-      title: '標準的',
-      description: '平均的な配当水準'
+      title: 'やや割安',
+      description: `安全域は小さい（${bandRange(thresholds, 1, '安全域', '%')}）`
     };
   }
-  if (yieldPercent >= 1) {
+  if (marginOfSafety >= thresholds[2]) {
     return {
       level: 'overvalued',
       borderColor: 'border-yellow-500',
       textColor: 'text-yellow-700',
       darkTextColor: 'dark:text-yellow-400',
-      title: '低配当',
-      description: '成長への再投資重視'
+      title: '適正',
+      description: `理論株価に対する安全域はほとんどない（${bandRange(thresholds, 2, '安全域', '%')}）`
     };
   }
   return {
@@ -710,7 +2055,370 @@ export function getDividendYieldJudgment(yieldPercent: number): ValuationJudgmen
     borderColor: 'border-red-500',
     textColor: 'text-red-700',
     darkTextColor: 'dark:text-red-400',
-    title: '無配当的',
-    description: '配当をほぼ出していない'
+    title: '割高',
+    description: `理論株価に対して株価が高い（${bandRange(thresholds, 3, '安全域', '%')}）`
+  };
+}
+
+/**
+ * Cash Flow Judgment type
+ */
+export interface CashFlowJudgment {
+  level: 'excellent' | 'good' | 'fair' | 'poor';
+  borderColor: string;
+  textColor: string;
+  darkTextColor: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * Calculate Operating CF Margin (営業CFマージン)
+ * @param operatingCashflow Operating cash flow in million JPY
+ * @param revenue Revenue in million JPY
+ * @returns Operating CF margin percentage
+ */
+export function calculateOperatingCFMargin(operatingCashflow: number, revenue: number): number {
+  if (revenue <= 0) {
+    throw new Error('Revenue must be greater than 0');
+  }
+  return (operatingCashflow / revenue) * 100;
+}
+
+/**
+ * Get Operating CF Margin judgment based on percentage
+ */
+export function getOperatingCFMarginJudgment(
+  margin: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.operatingCfMargin
+): CashFlowJudgment {
+  if (margin >= thresholds[0]) {
+    return {
+      level: 'excellent',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '優良',
+      description: `本業で非常に多くの現金を稼いでいる（${bandRange(thresholds, 0, '営業CFマージン', '%')}）`
+    };
+  }
+  if (margin >= thresholds[1]) {
+    return {
+      level: 'good',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '良好',
+      description: `本業で安定して現金を稼いでいる（${bandRange(thresholds, 1, '営業CFマージン', '%')}）`
+    };
+  }
+  if (margin >= thresholds[2]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '普通',
+      description: `現金創出力は平均的（${bandRange(thresholds, 2, '営業CFマージン', '%')}）`
+    };
+  }
+  return {
+    level: 'poor',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '要改善',
+    description: `本業で現金をほとんど稼げていない、または流出（${bandRange(thresholds, 3, '営業CFマージン', '%')}）`
+  };
+}
+
+/**
+ * Calculate FCF Margin (FCFマージン)
+ * @param freeCashflow Free cash flow in million JPY
+ * @param revenue Revenue in million JPY
+ * @returns FCF margin percentage
+ */
+export function calculateFCFMargin(freeCashflow: number, revenue: number): number {
+  if (revenue <= 0) {
+    throw new Error('Revenue must be greater than 0');
+  }
+  return (freeCashflow / revenue) * 100;
+}
+
+/**
+ * Get FCF Margin judgment based on percentage
+ */
+export function getFCFMarginJudgment(
+  margin: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.fcfMargin
+): CashFlowJudgment {
+  if (margin >= thresholds[0]) {
+    return {
+      level: 'excellent',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '優良',
+      description: `投資後も売上高の多くが現金として残る（${bandRange(thresholds, 0, 'FCFマージン', '%')}）`
+    };
+  }
+  if (margin >= thresholds[1]) {
+    return {
+      level: 'good',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '良好',
+      description: `投資を賄った上で現金を生み出している（${bandRange(thresholds, 1, 'FCFマージン', '%')}）`
+    };
+  }
+  if (margin >= thresholds[2]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '普通',
+      description: `投資後に残る現金は少ない（${bandRange(thresholds, 2, 'FCFマージン', '%')}）`
+    };
+  }
+  return {
+    level: 'poor',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: 'マイナス',
+    description: `投資後に現金がほとんど残らない、またはマイナス（${bandRange(thresholds, 3, 'FCFマージン', '%')}）`
+  };
+}
+
+/**
+ * Calculate FCF Yield (FCF利回り)
+ * @param freeCashflow Free cash flow in million JPY
+ * @param marketCap Market capitalization in million JPY
+ * @returns FCF yield percentage
+ */
+export function calculateFCFYield(freeCashflow: number, marketCap: number): number {
+  if (marketCap <= 0) {
+    throw new Error('Market cap must be greater than 0');
+  }
+  return (freeCashflow / marketCap) * 100;
+}
+
+/**
+ * Get FCF Yield judgment based on percentage
+ */
+export function getFCFYieldJudgment(
+  yieldPercent: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.fcfYield
+): CashFlowJudgment {
+  if (yieldPercent >= thresholds[0]) {
+    return {
+      level: 'excellent',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '割安',
+      description: `時価総額に比べて生み出す現金が多い（${bandRange(thresholds, 0, 'FCF利回り', '%')}）`
+    };
+  }
+  if (yieldPercent >= thresholds[1]) {
+    return {
+      level: 'good',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '良好',
+      description: `現金創出力に見合った株価水準（${bandRange(thresholds, 1, 'FCF利回り', '%')}）`
+    };
+  }
+  if (yieldPercent >= thresholds[2]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '普通',
+      description: `将来のFCF成長が織り込まれている（${bandRange(thresholds, 2, 'FCF利回り', '%')}）`
+    };
+  }
+  return {
+    level: 'poor',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '低い',
+    description: `FCFが少ない、またはマイナス（${bandRange(thresholds, 3, 'FCF利回り', '%')}）`
+  };
+}
+
+/**
+ * Calculate Accrual Ratio (営業CF ÷ 純利益)
+ * Earnings backed by cash score above 1; profits far ahead of cash suggest accruals
+ * @param operatingCashflow Operating cash flow in million JPY
+ * @param netIncome Net income in million JPY
+ * @returns Operating CF as a multiple of net income
+ */
+export function calculateAccrualRatio(operatingCashflow: number, netIncome: number): number {
+  if (netIncome <= 0) {
+    throw new Error('Net income must be greater than 0');
+  }
+  return operatingCashflow / netIncome;
+}
+
+/**
+ * Get Accrual Ratio (earnings quality) judgment based on multiple
+ */
+export function getAccrualRatioJudgment(
+  ratio: number,
+  thresholds: JudgmentThresholds = DEFAULT_THRESHOLDS.accrualRatio
+): CashFlowJudgment {
+  if (ratio >= thresholds[0]) {
+    return {
+      level: 'excellent',
+      borderColor: 'border-green-500',
+      textColor: 'text-green-700',
+      darkTextColor: 'dark:text-green-400',
+      title: '利益の質が高い',
+      description: `利益に比べて多くの現金を稼いでいる（${bandRange(thresholds, 0, '営業CF/純利益', '倍')}）`
+    };
+  }
+  if (ratio >= thresholds[1]) {
+    return {
+      level: 'good',
+      borderColor: 'border-blue-500',
+      textColor: 'text-blue-700',
+      darkTextColor: 'dark:text-blue-400',
+      title: '良好',
+      description: `利益が現金の裏付けを伴っている（${bandRange(thresholds, 1, '営業CF/純利益', '倍')}）`
+    };
+  }
+  if (ratio >= thresholds[2]) {
+    return {
+      level: 'fair',
+      borderColor: 'border-yellow-500',
+      textColor: 'text-yellow-700',
+      darkTextColor: 'dark:text-yellow-400',
+      title: '普通',
+      description: `利益の一部が現金化されていない（${bandRange(thresholds, 2, '営業CF/純利益', '倍')}）`
+    };
+  }
+  return {
+    level: 'poor',
+    borderColor: 'border-red-500',
+    textColor: 'text-red-700',
+    darkTextColor: 'dark:text-red-400',
+    title: '要注意',
+    description: `利益に比べて現金が少なく、売上債権や在庫の積み上がりに注意（${bandRange(thresholds, 3, '営業CF/純利益', '倍')}）`
   };
 }
+
+/**
+ * Cash Flow Pattern Judgment type
+ */
+export interface CashFlowPatternJudgment extends CashFlowJudgment {
+  /**
+   * Signs of operating, investing and financing CF (e.g. '+--')
+   */
+  signs: string;
+}
+
+/**
+ * Classify the sign pattern of operating, investing and financing CF
+ * @param operatingCashflow Operating CF in million JPY
+ * @param investingCashflow Investing CF in million JPY
+ * @param financingCashflow Financing CF in million JPY
+ * @returns Judgment object for the pattern (zero counts as an outflow)
+ */
+export function getCashFlowPatternJudgment(
+  operatingCashflow: number,
+  investingCashflow: number,
+  financingCashflow: number
+): CashFlowPatternJudgment {
+  const signs = [operatingCashflow, investingCashflow, financingCashflow]
+    .map((value) => (value > 0 ? '+' : '-'))
+    .join('');
+
+  switch (signs) {
+    case '+--':
+      return {
+        signs,
+        level: 'excellent',
+        borderColor: 'border-green-500',
+        textColor: 'text-green-700',
+        darkTextColor: 'dark:text-green-400',
+        title: '優良型',
+        description: '本業で稼いだ現金で投資と借入返済・株主還元を賄っている'
+      };
+    case '+-+':
+      return {
+        signs,
+        level: 'good',
+        borderColor: 'border-blue-500',
+        textColor: 'text-blue-700',
+        darkTextColor: 'dark:text-blue-400',
+        title: '成長投資型',
+        description: '本業の現金に加えて資金調達も行い、積極的に投資している'
+      };
+    case '++-':
+      return {
+        signs,
+        level: 'good',
+        borderColor: 'border-blue-500',
+        textColor: 'text-blue-700',
+        darkTextColor: 'dark:text-blue-400',
+        title: '財務改善型',
+        description: '本業の現金と資産売却で借入を返済している'
+      };
+    case '+++':
+      return {
+        signs,
+        level: 'fair',
+        borderColor: 'border-yellow-500',
+        textColor: 'text-yellow-700',
+        darkTextColor: 'dark:text-yellow-400',
+        title: '資金蓄積型',
+        description: 'すべての活動で現金が増加、大型投資や買収の準備の可能性'
+      };
+    case '--+':
+      return {
+        signs,
+        level: 'fair',
+        borderColor: 'border-yellow-500',
+        textColor: 'text-yellow-700',
+        darkTextColor: 'dark:text-yellow-400',
+        title: '先行投資型',
+        description: '本業は現金流出だが、資金調達して投資を続けている'
+      };
+    case '---':
+      return {
+        signs,
+        level: 'poor',
+        borderColor: 'border-red-500',
+        textColor: 'text-red-700',
+        darkTextColor: 'dark:text-red-400',
+        title: '資金取り崩し型',
+        description: '手元資金を取り崩して本業の赤字・投資・返済を賄っている'
+      };
+    case '-+-':
+      return {
+        signs,
+        level: 'poor',
+        borderColor: 'border-red-500',
+        textColor: 'text-red-700',
+        darkTextColor: 'dark:text-red-400',
+        title: '事業縮小型',
+        description: '資産を売却して本業の赤字と借入返済を賄っている'
+      };
+    default:
+      return {
+        signs,
+        level: 'poor',
+        borderColor: 'border-red-500',
+        textColor: 'text-red-700',
+        darkTextColor: 'dark:text-red-400',
+        title: '危険型',
+        description: '本業の赤字を資産売却と借入で補っている'
+      };
+  }
+}
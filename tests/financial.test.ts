@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateAltmanZ,
+  calculateDCF,
+  calculateDuPont,
+  calculateMarginOfSafety,
+  calculatePiotroskiFScore,
+  calculateUpside,
+  getAltmanZJudgment,
+  getCurrentRatioJudgment,
+  getDuPontContributions,
+  getDuPontJudgment,
+  getPERJudgment,
+} from '../app/utils/financial';
+
+/**
+ * Formulas in app/utils/financial.ts, checked against hand-computed values
+ */
+
+describe('calculateDuPont', () => {
+  // 売上高 120,000 / 純利益 8,000 / 総資産 200,000 / 自己資本 80,000 → ROE 10%
+  const dupont = calculateDuPont(8000, 120000, 200000, 80000, 11500, 12000);
+
+  it('splits ROE into factors that multiply back to it', () => {
+    expect(dupont.netMargin).toBeCloseTo(6.6667, 4);
+    expect(dupont.assetTurnover).toBeCloseTo(0.6, 10);
+    expect(dupont.financialLeverage).toBeCloseTo(2.5, 10);
+    expect(dupont.roe).toBeCloseTo(10, 10);
+  });
+
+  it('splits the net margin in the five-step variant', () => {
+    const { taxBurden, interestBurden, ebitMargin } = dupont.fiveStep!;
+
+    expect(taxBurden).toBeCloseTo(8000 / 11500, 10);
+    expect(interestBurden).toBeCloseTo(11500 / 12000, 10);
+    expect(ebitMargin).toBeCloseTo(10, 10);
+    expect(taxBurden * interestBurden * ebitMargin).toBeCloseTo(dupont.netMargin, 10);
+  });
+
+  it('leaves out the five-step variant without positive pretax income and EBIT', () => {
+    expect(calculateDuPont(8000, 120000, 200000, 80000).fiveStep).toBeNull();
+    expect(calculateDuPont(-500, 120000, 200000, 80000, -400, 300).fiveStep).toBeNull();
+  });
+
+  it('measures contributions as log ratios that add up to log(ROE / 10%)', () => {
+    const contributions = getDuPontContributions(calculateDuPont(12000, 100000, 100000, 40000));
+    const total = contributions.netMargin + contributions.assetTurnover + contributions.financialLeverage;
+
+    // ROE 30% = 純利益率 12% × 回転率 1 × レバレッジ 2.5
+    expect(total).toBeCloseTo(Math.log(30 / 10), 10);
+    expect(contributions.assetTurnover).toBeCloseTo(0, 10);
+  });
+
+  it('names the factor that drives ROE', () => {
+    expect(getDuPontJudgment(calculateDuPont(15000, 100000, 100000, 50000)).level).toBe('margin-driven');
+    expect(getDuPontJudgment(calculateDuPont(6000, 200000, 100000, 40000)).level).toBe('turnover-driven');
+    expect(getDuPontJudgment(calculateDuPont(5000, 100000, 200000, 40000)).level).toBe('leverage-driven');
+  });
+
+  it('names the weakest factor when ROE is below the lowest band', () => {
+    const judgment = getDuPontJudgment(calculateDuPont(1000, 100000, 200000, 100000));
+
+    expect(judgment.level).toBe('weak');
+    expect(judgment.driver).toBe('netMargin');
+  });
+});
+
+describe('calculateDCF', () => {
+  it('values flat cash flows at FCF / discount rate', () => {
+    // 10 years of 100 plus a terminal value of 100 / 10% discount to exactly 1,000
+    const result = calculateDCF({
+      freeCashflow: 100,
+      stageGrowthRates: [0, 0],
+      discountRate: 10,
+      terminalGrowth: 0,
+      netCash: 200,
+      sharesOutstanding: 12000000,
+    });
+
+    expect(result.projections).toHaveLength(10);
+    expect(result.projections[0].presentValue).toBeCloseTo(100 / 1.1, 10);
+    expect(result.terminalValue).toBeCloseTo(1000, 10);
+    expect(result.enterpriseValue).toBeCloseTo(1000, 10);
+    expect(result.equityValue).toBeCloseTo(1200, 10);
+    // 1,200 million JPY over 12 million shares
+    expect(result.valuePerShare).toBeCloseTo(100, 10);
+  });
+
+  it('grows each stage at its own rate and the terminal value at the terminal rate', () => {
+    const result = calculateDCF({
+      freeCashflow: 100,
+      stageGrowthRates: [10, 5],
+      discountRate: 8,
+      terminalGrowth: 2,
+      netCash: 0,
+      sharesOutstanding: 1000000,
+    });
+    const finalCashflow = 100 * Math.pow(1.1, 5) * Math.pow(1.05, 5);
+
+    expect(result.projections[4].freeCashflow).toBeCloseTo(100 * Math.pow(1.1, 5), 10);
+    expect(result.projections[9].freeCashflow).toBeCloseTo(finalCashflow, 10);
+    expect(result.terminalValue).toBeCloseTo((finalCashflow * 1.02) / 0.06, 10);
+    expect(result.presentTerminalValue).toBeCloseTo(result.terminalValue / Math.pow(1.08, 10), 10);
+  });
+
+  it('rejects a discount rate that does not exceed terminal growth', () => {
+    expect(() => calculateDCF({
+      freeCashflow: 100,
+      stageGrowthRates: [5, 3],
+      discountRate: 2,
+      terminalGrowth: 2,
+      netCash: 0,
+      sharesOutstanding: 1000000,
+    })).toThrow();
+  });
+
+  it('compares intrinsic value with the stock price', () => {
+    expect(calculateUpside(1500, 1000)).toBeCloseTo(50, 10);
+    expect(calculateMarginOfSafety(1500, 1000)).toBeCloseTo(33.3333, 4);
+    expect(calculateMarginOfSafety(1000, 1200)).toBeCloseTo(-20, 10);
+  });
+});
+
+describe('calculateAltmanZ', () => {
+  // 運転資本 30,000 / 利益剰余金 50,000 / EBIT 12,000 / 時価総額 150,000 / 負債 110,000 / 売上高 120,000 / 総資産 200,000
+  const result = calculateAltmanZ({
+    workingCapital: 30000,
+    retainedEarnings: 50000,
+    ebit: 12000,
+    marketCap: 150000,
+    totalLiabilities: 110000,
+    revenue: 120000,
+    totalAssets: 200000,
+  });
+
+  it('weights each ratio by its coefficient', () => {
+    expect(result.terms.workingCapital).toBeCloseTo(1.2 * 0.15, 10);
+    expect(result.terms.retainedEarnings).toBeCloseTo(1.4 * 0.25, 10);
+    expect(result.terms.ebit).toBeCloseTo(3.3 * 0.06, 10);
+    expect(result.terms.marketValue).toBeCloseTo(0.6 * (150000 / 110000), 10);
+    expect(result.terms.sales).toBeCloseTo(1.0 * 0.6, 10);
+  });
+
+  it('adds the terms into the score', () => {
+    expect(result.score).toBeCloseTo(0.18 + 0.35 + 0.198 + 0.6 * (150000 / 110000) + 0.6, 10);
+    expect(getAltmanZJudgment(result.score).zone).toBe('grey');
+  });
+
+  it('lets an accumulated deficit pull the score down', () => {
+    const deficit = calculateAltmanZ({
+      workingCapital: -20000,
+      retainedEarnings: -40000,
+      ebit: -5000,
+      marketCap: 20000,
+      totalLiabilities: 150000,
+      revenue: 80000,
+      totalAssets: 200000,
+    });
+
+    expect(deficit.terms.retainedEarnings).toBeLessThan(0);
+    expect(getAltmanZJudgment(deficit.score).zone).toBe('distress');
+  });
+});
+
+describe('calculatePiotroskiFScore', () => {
+  it('passes or fails each signal on the year-over-year change', () => {
+    const result = calculatePiotroskiFScore(
+      // 今期: 赤字・営業CFプラス・長期負債増加・増資あり
+      {
+        revenue: 100000, grossProfit: 25000, netIncome: -2000, operatingCashflow: 3000,
+        totalAssets: 100000, longTermDebt: 30000, currentAssets: 50000, currentLiabilities: 40000,
+      },
+      {
+        revenue: 90000, grossProfit: 27000, netIncome: 1000, operatingCashflow: 4000,
+        totalAssets: 100000, longTermDebt: 20000, currentAssets: 45000, currentLiabilities: 40000,
+      },
+      500
+    );
+    const passed = result.signals.filter((signal) => signal.passed).map((signal) => signal.id);
+
+    expect(passed).toEqual(['cfo', 'accrual', 'deltaLiquidity', 'deltaAssetTurnover']);
+    expect(result.score).toBe(4);
+  });
+});
+
+describe('judgment descriptions', () => {
+  it('state the cut-offs of the band they describe', () => {
+    expect(getCurrentRatioJudgment(250).description).toContain('流動比率 200%以上');
+    expect(getCurrentRatioJudgment(120).description).toContain('流動比率 100%以上150%未満');
+    expect(getPERJudgment(8).description).toContain('PER 10倍未満');
+    expect(getPERJudgment(40).description).toContain('PER 30倍以上');
+  });
+
+  it('follow sector or profile thresholds', () => {
+    const judgment = getCurrentRatioJudgment(90, [120, 100, 80]);
+
+    expect(judgment.level).toBe('fair');
+    expect(judgment.description).toContain('流動比率 80%以上100%未満');
+  });
+});
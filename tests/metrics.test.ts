@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { getMetric, snapshotGrowthYears } from '../app/lib/metrics';
+import { calculateCAGR } from '../app/utils/financial';
+
+/**
+ * Metric registry computations shared by the screener, peer comparison and score
+ */
+
+describe('calculateCAGR', () => {
+  it('annualizes growth over the period', () => {
+    expect(calculateCAGR(121, 100, 2)).toBeCloseTo(10, 10);
+    expect(calculateCAGR(100, 100, 4)).toBeCloseTo(0, 10);
+    expect(calculateCAGR(50, 100, 1)).toBeCloseTo(-50, 10);
+  });
+});
+
+describe('snapshot growth', () => {
+  it('counts the years between the compared fiscal years', () => {
+    expect(snapshotGrowthYears({ currentYearEnd: '2024-03-31', pastYearEnd: '2021-03-31' })).toBe(3);
+    expect(snapshotGrowthYears({ currentYearEnd: '2024-03-31', pastYearEnd: '2020-03-31' })).toBe(4);
+  });
+
+  it('assumes four years when the fiscal years are unknown', () => {
+    expect(snapshotGrowthYears({})).toBe(4);
+    expect(snapshotGrowthYears({ currentYearEnd: '2024-03-31' })).toBe(4);
+  });
+
+  it('divides revenue growth by the actual number of years', () => {
+    const revenueGrowth = getMetric('revenueGrowth').compute({
+      revenueCurrentYear: '133100',
+      revenueFourYearsAgo: '100000',
+      currentYearEnd: '2024-03-31',
+      pastYearEnd: '2021-03-31',
+    });
+
+    // 100,000 → 133,100 over three years is 10% a year
+    expect(revenueGrowth).toBeCloseTo(10, 10);
+  });
+});
+
+describe('altmanZ', () => {
+  const data = {
+    currentAssets: '90000',
+    currentLiabilities: '60000',
+    retainedEarnings: '50000',
+    ebit: '12000',
+    marketCap: '150000',
+    totalLiabilities: '110000',
+    revenue: '120000',
+    totalAssets: '200000',
+  };
+
+  it('scores a company with every input', () => {
+    expect(getMetric('altmanZ').compute(data)).toBeCloseTo(0.18 + 0.35 + 0.198 + 0.6 * (150000 / 110000) + 0.6, 10);
+  });
+
+  it('is not computed when retained earnings are missing rather than read as 0', () => {
+    expect(getMetric('altmanZ').compute({ ...data, retainedEarnings: undefined })).toBeNull();
+  });
+});
+
+describe('piotroskiScore', () => {
+  // 今期・前期とも年次決算の値（テスト工業の有価証券報告書と同じ数値）
+  const data = {
+    revenueCurrentYear: '120000',
+    grossProfitCurrentYear: '36000',
+    netIncomeCurrentYear: '8000',
+    operatingCashflowCurrentYear: '15000',
+    totalAssetsCurrentYear: '200000',
+    longTermDebtCurrentYear: '30000',
+    currentAssetsCurrentYear: '90000',
+    currentLiabilitiesCurrentYear: '60000',
+    revenuePriorYear: '110000',
+    grossProfitPriorYear: '32000',
+    netIncomePriorYear: '7000',
+    operatingCashflowPriorYear: '12000',
+    totalAssetsPriorYear: '190000',
+    longTermDebtPriorYear: '32000',
+    currentAssetsPriorYear: '85000',
+    currentLiabilitiesPriorYear: '58000',
+    stockIssuance: '0',
+  };
+
+  it('compares the two latest fiscal years', () => {
+    expect(getMetric('piotroskiScore').compute(data)).toBe(9);
+  });
+
+  it('ignores trailing twelve-month figures in the plain fields', () => {
+    expect(getMetric('piotroskiScore').compute({ ...data, netIncome: '-50000', revenue: '10000', operatingCashflow: '-1' })).toBe(9);
+  });
+
+  it('is not computed when an item is missing rather than read as 0', () => {
+    expect(getMetric('piotroskiScore').compute({ ...data, longTermDebtCurrentYear: undefined })).toBeNull();
+    expect(getMetric('piotroskiScore').compute({ ...data, stockIssuance: undefined })).toBeNull();
+  });
+});
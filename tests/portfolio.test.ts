@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { FinancialData } from '../app/components/company-search';
+import { Holding, summarizePortfolio, TAXABLE_ACCOUNT_TAX_RATE, valueHolding } from '../app/lib/portfolio';
+
+/**
+ * Holding valuation and portfolio totals of the portfolio tracker
+ */
+
+// PER 10倍・PBR 2倍・配当利回り 3%
+const companyA: FinancialData = {
+  stockPrice: '2000',
+  annualDividend: '60',
+  marketCap: '1000000',
+  netIncome: '100000',
+  equity: '500000',
+};
+
+// PER 30倍・PBR 1倍・配当利回り 1%
+const companyB: FinancialData = {
+  stockPrice: '1000',
+  annualDividend: '10',
+  marketCap: '300000',
+  netIncome: '10000',
+  equity: '300000',
+};
+
+const holding = (id: number, code: string, shares: number, acquisitionPrice: number, account: Holding['account']): Holding => ({
+  id,
+  code,
+  shares,
+  acquisitionPrice,
+  account,
+});
+
+describe('valueHolding', () => {
+  it('withholds tax on dividends in a taxable account', () => {
+    const valuation = valueHolding(holding(1, '1111', 100, 1500, 'tokutei'), companyA);
+
+    expect(valuation.costBasis).toBe(150000);
+    expect(valuation.marketValue).toBe(200000);
+    expect(valuation.unrealizedGain).toBe(50000);
+    expect(valuation.unrealizedGainPercent).toBeCloseTo(33.333, 3);
+    expect(valuation.annualDividend).toBe(6000);
+    expect(valuation.annualDividendAfterTax).toBeCloseTo(6000 * (1 - TAXABLE_ACCOUNT_TAX_RATE), 6);
+    expect(valuation.per).toBeCloseTo(10, 10);
+    expect(valuation.pbr).toBeCloseTo(2, 10);
+    expect(valuation.dividendYield).toBeCloseTo(3, 10);
+  });
+
+  it('keeps NISA dividends tax-free', () => {
+    const valuation = valueHolding(holding(2, '222A', 400, 1200, 'nisa'), companyB);
+
+    expect(valuation.annualDividend).toBe(4000);
+    expect(valuation.annualDividendAfterTax).toBe(4000);
+    expect(valuation.unrealizedGain).toBe(-80000);
+  });
+
+  it('leaves market values empty until the company is fetched', () => {
+    const valuation = valueHolding(holding(3, '3333', 100, 500, 'tokutei'), null);
+
+    expect(valuation.costBasis).toBe(50000);
+    expect(valuation.marketValue).toBeNull();
+    expect(valuation.unrealizedGain).toBeNull();
+    expect(valuation.unrealizedGainPercent).toBeNull();
+    expect(valuation.annualDividend).toBeNull();
+    expect(valuation.per).toBeNull();
+  });
+});
+
+describe('summarizePortfolio', () => {
+  const summary = summarizePortfolio([
+    valueHolding(holding(1, '1111', 100, 1500, 'tokutei'), companyA),
+    valueHolding(holding(2, '222A', 400, 1200, 'nisa'), companyB),
+    valueHolding(holding(3, '3333', 100, 500, 'tokutei'), null),
+  ]);
+
+  it('counts unpriced holdings in the cost basis only', () => {
+    expect(summary.costBasis).toBe(680000);
+    expect(summary.marketValue).toBe(600000);
+    expect(summary.unpricedCount).toBe(1);
+    // 含み損益は時価のある銘柄の取得額（630,000円）に対する割合
+    expect(summary.unrealizedGain).toBe(-30000);
+    expect(summary.unrealizedGainPercent).toBeCloseTo((-30000 / 630000) * 100, 10);
+  });
+
+  it('sums dividends before and after tax', () => {
+    expect(summary.annualDividend).toBe(10000);
+    expect(summary.annualDividendAfterTax).toBeCloseTo(6000 * (1 - TAXABLE_ACCOUNT_TAX_RATE) + 4000, 6);
+  });
+
+  it('weights PER, PBR and dividend yield by market value', () => {
+    // 時価 200,000円 と 400,000円 の加重平均
+    expect(summary.per).toBeCloseTo((10 * 200000 + 30 * 400000) / 600000, 10);
+    expect(summary.pbr).toBeCloseTo((2 * 200000 + 1 * 400000) / 600000, 10);
+    expect(summary.dividendYield).toBeCloseTo((3 * 200000 + 1 * 400000) / 600000, 10);
+  });
+
+  it('has no averages without a priced holding', () => {
+    const unpriced = summarizePortfolio([valueHolding(holding(3, '3333', 100, 500, 'tokutei'), null)]);
+
+    expect(unpriced.marketValue).toBe(0);
+    expect(unpriced.unrealizedGainPercent).toBeNull();
+    expect(unpriced.per).toBeNull();
+    expect(unpriced.dividendYield).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  adjustForSplits,
+  fiscalYearEnds,
+  movingAverage,
+  PriceBar,
+  resampleBars,
+} from '../app/lib/price-history';
+
+/**
+ * Split adjustment and resampling of price bars
+ */
+
+const bar = (date: string, close: number, volume = 100): PriceBar => ({
+  date,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume,
+});
+
+describe('adjustForSplits', () => {
+  it('divides prices before a split by its ratio and multiplies volumes', () => {
+    const adjusted = adjustForSplits(
+      [bar('2024-03-27', 3000), bar('2024-03-28', 3100), bar('2024-04-01', 1040)],
+      [{ date: '2024-04-01', ratio: 3 }]
+    );
+
+    expect(adjusted.map((b) => b.close)).toEqual([1000, 3100 / 3, 1040]);
+    expect(adjusted.map((b) => b.volume)).toEqual([300, 300, 100]);
+  });
+
+  it('compounds every later split', () => {
+    const adjusted = adjustForSplits(
+      [bar('2019-01-04', 8000), bar('2021-06-01', 4000), bar('2024-01-04', 1000)],
+      [{ date: '2020-10-01', ratio: 2 }, { date: '2023-10-01', ratio: 4 }]
+    );
+
+    expect(adjusted.map((b) => b.close)).toEqual([1000, 1000, 1000]);
+  });
+
+  it('ignores splits without a positive ratio', () => {
+    const bars = [bar('2024-01-04', 1000)];
+
+    expect(adjustForSplits(bars, [{ date: '2024-04-01', ratio: 0 }])).toEqual(bars);
+  });
+});
+
+describe('resampleBars', () => {
+  it('combines daily bars into weeks starting on Monday', () => {
+    const weekly = resampleBars(
+      [
+        { date: '2024-04-01', open: 100, high: 110, low: 95, close: 105, volume: 10 },
+        { date: '2024-04-03', open: 105, high: 120, low: 90, close: 115, volume: 20 },
+        { date: '2024-04-08', open: 116, high: 118, low: 112, close: 113, volume: 30 },
+      ],
+      '1wk'
+    );
+
+    expect(weekly).toEqual([
+      { date: '2024-04-01', open: 100, high: 120, low: 90, close: 115, volume: 30 },
+      { date: '2024-04-08', open: 116, high: 118, low: 112, close: 113, volume: 30 },
+    ]);
+  });
+
+  it('combines daily bars into calendar months', () => {
+    const monthly = resampleBars([bar('2024-03-29', 10), bar('2024-04-01', 11), bar('2024-04-30', 12)], '1mo');
+
+    expect(monthly.map((b) => [b.date, b.close])).toEqual([['2024-03-29', 10], ['2024-04-01', 12]]);
+  });
+});
+
+describe('movingAverage', () => {
+  it('averages the last window closes and is null until the window fills', () => {
+    const bars = [1, 2, 3, 4, 5].map((close, i) => bar(`2024-04-0${i + 1}`, close));
+
+    expect(movingAverage(bars, 3)).toEqual([null, null, 2, 3, 4]);
+  });
+});
+
+describe('fiscalYearEnds', () => {
+  it('lists the year-ends inside the range', () => {
+    expect(fiscalYearEnds('2024-03-31', '2021-06-01', '2024-06-01')).toEqual([
+      '2022-03-31',
+      '2023-03-31',
+      '2024-03-31',
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { annualPeriodLabel, parseReportingPeriod, sumTrailingQuarters, ttmPeriodLabel } from '../app/lib/reporting-period';
+
+/**
+ * Trailing-twelve-month sums and period labels
+ */
+
+const quarter = (endDate: string, revenue: number | null, netIncome: number | null = 10) => ({
+  endDate,
+  values: { revenue, operatingIncome: revenue === null ? null : revenue / 10, netIncome },
+});
+
+describe('sumTrailingQuarters', () => {
+  it('sums the latest four quarters in any order', () => {
+    const ttm = sumTrailingQuarters([
+      quarter('2024-12-31', 130),
+      quarter('2024-03-31', 90),
+      quarter('2024-06-30', 100),
+      quarter('2024-09-30', 110),
+      quarter('2025-03-31', 140),
+    ]);
+
+    expect(ttm).toEqual({
+      firstQuarterEnd: '2024-06-30',
+      lastQuarterEnd: '2025-03-31',
+      values: { revenue: 480, operatingIncome: 48, netIncome: 40 },
+    });
+  });
+
+  it('leaves out an item missing from any of the quarters', () => {
+    const ttm = sumTrailingQuarters([
+      quarter('2024-06-30', 100, null),
+      quarter('2024-09-30', 110),
+      quarter('2024-12-31', 130),
+      quarter('2025-03-31', 140),
+    ]);
+
+    expect(ttm?.values).toEqual({ revenue: 480, operatingIncome: 48 });
+  });
+
+  it('needs four consecutive quarters', () => {
+    expect(sumTrailingQuarters([quarter('2024-09-30', 110), quarter('2024-12-31', 130), quarter('2025-03-31', 140)])).toBeNull();
+    // A missing quarter stretches the span to a year
+    expect(sumTrailingQuarters([
+      quarter('2024-03-31', 90),
+      quarter('2024-06-30', 100),
+      quarter('2024-12-31', 130),
+      quarter('2025-03-31', 140),
+    ])).toBeNull();
+  });
+});
+
+describe('period labels', () => {
+  it('names the fiscal year or the quarters summed', () => {
+    expect(annualPeriodLabel('2025-03-31')).toBe('通期（2025年3月期）');
+    expect(annualPeriodLabel(null)).toBe('通期');
+    expect(ttmPeriodLabel({ firstQuarterEnd: '2024-06-30', lastQuarterEnd: '2025-03-31', values: {} }))
+      .toBe('TTM（2024年6月〜2025年3月に終わる4四半期）');
+  });
+
+  it('parses the period parameter', () => {
+    expect(parseReportingPeriod(null)).toBe('annual');
+    expect(parseReportingPeriod('ttm')).toBe('ttm');
+    expect(parseReportingPeriod('quarterly')).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { FinancialData } from '../app/components/company-search';
+import { getMetric, MetricId } from '../app/lib/metrics';
+import { DEFAULT_STAGE_WEIGHTS, scoreInvestment } from '../app/lib/scoring';
+
+/**
+ * Composite score: losses must lower it, missing data must mark it incomplete
+ */
+
+const profitabilityValues = (data: FinancialData) => {
+  const values: Partial<Record<MetricId, number>> = {};
+  for (const id of ['roe', 'roa', 'operatingMargin'] as const) {
+    const value = getMetric(id).compute(data);
+    if (value !== null) values[id] = value;
+  }
+  return values;
+};
+
+describe('scoreInvestment', () => {
+  const strongSafety = { currentRatio: 250, equityRatio: 60, quickRatio: 180 };
+
+  it('judges a loss in the lowest band instead of dropping the stage', () => {
+    const loss = profitabilityValues({
+      netIncome: '-5000',
+      equity: '80000',
+      totalAssets: '200000',
+      operatingIncome: '-2000',
+      revenue: '100000',
+    });
+
+    expect(loss.roe).toBeCloseTo(-6.25, 10);
+    expect(loss.operatingMargin).toBeCloseTo(-2, 10);
+
+    const result = scoreInvestment({ ...loss, ...strongSafety }, DEFAULT_STAGE_WEIGHTS);
+    const profitability = result.stages.find((stage) => stage.stage === 'profitability')!;
+
+    expect(profitability.score).toBe(0);
+    expect(profitability.passed).toBe(false);
+    // Strong safety (100) and a loss (0) average to 50
+    expect(result.score).toBe(50);
+    expect(result.grade).toBe('C');
+  });
+
+  it('marks the grade incomplete when weighted stages have no data', () => {
+    const result = scoreInvestment(strongSafety, DEFAULT_STAGE_WEIGHTS);
+
+    expect(result.grade).toBe('S');
+    expect(result.unscoredStages.map((stage) => stage.stage)).toEqual(['growth', 'profitability', 'valuation', 'cashflow']);
+  });
+
+  it('does not count stages weighted 0 as missing', () => {
+    const result = scoreInvestment(strongSafety, {
+      growth: 0,
+      profitability: 0,
+      safety: 1,
+      valuation: 0,
+      cashflow: 0,
+    });
+
+    expect(result.unscoredStages).toEqual([]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseCodeList } from '../app/lib/screener';
+
+/**
+ * Reading code lists pasted into or uploaded to the screener and the peer comparison
+ */
+
+describe('parseCodeList', () => {
+  it('reads one code per line', () => {
+    expect(parseCodeList('7203\n6758\r\n130a\n\n7203.T')).toEqual(['7203', '6758', '130A']);
+  });
+
+  it('reads a single line of space-separated codes', () => {
+    expect(parseCodeList('7203 6758')).toEqual(['7203', '6758']);
+    expect(parseCodeList(' 7203  130a\n')).toEqual(['7203', '130A']);
+  });
+
+  it('reads only the first cell of a one-row CSV', () => {
+    expect(parseCodeList('7203,2850,1000')).toEqual(['7203']);
+    expect(parseCodeList('7203\t2850\t1000\r\n')).toEqual(['7203']);
+  });
+
+  it('reads only the code column when a header row is present', () => {
+    const csv = [
+      '﻿決算期,"証券コード",株価,発行済株式数',
+      '2024,7203,2850,1634',
+      '2023,"6758",13000,1261',
+      '2024,xxxx,100,1000',
+    ].join('\n');
+
+    expect(parseCodeList(csv)).toEqual(['7203', '6758']);
+  });
+
+  it('takes the first cell of each row without a header', () => {
+    expect(parseCodeList('7203,トヨタ自動車,2024\n6758,ソニーグループ,1000')).toEqual(['7203', '6758']);
+  });
+
+  it('does not pick codes out of free text', () => {
+    expect(parseCodeList('2024年3月期の決算\n株価は2850円でした')).toEqual([]);
+    expect(parseCodeList('')).toEqual([]);
+  });
+});
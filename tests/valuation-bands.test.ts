@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { emptyHistorySeries, HistorySeries } from '../app/lib/history';
+import type { PriceBar } from '../app/lib/price-history';
+import {
+  buildValuationSeries,
+  percentileRank,
+  perShareByFiscalYear,
+  rankInRange,
+  ValuationPoint,
+} from '../app/lib/valuation-bands';
+
+/**
+ * Historical PER / PBR, per-share values by fiscal year and percentile ranks
+ */
+
+// 2:1 split on 2023-10-01; 100 million shares today (50 million before the split)
+const SPLITS = [{ date: '2023-10-01', ratio: 2 }];
+
+const history = (eps: [number, number, number]): HistorySeries => ({
+  ...emptyHistorySeries(),
+  netIncome: [
+    { endDate: '2022-03-31', value: 5000 },
+    { endDate: '2023-03-31', value: 6000 },
+    { endDate: '2024-03-31', value: 8000 },
+  ],
+  equity: [
+    { endDate: '2022-03-31', value: 40000 },
+    { endDate: '2023-03-31', value: 45000 },
+    { endDate: '2024-03-31', value: 50000 },
+  ],
+  eps: [
+    { endDate: '2022-03-31', value: eps[0] },
+    { endDate: '2023-03-31', value: eps[1] },
+    { endDate: '2024-03-31', value: eps[2] },
+  ],
+});
+
+const bar = (date: string, close: number): PriceBar => ({ date, open: close, high: close, low: close, close, volume: 0 });
+
+describe('perShareByFiscalYear', () => {
+  it('puts EPS reported before a split in post-split shares', () => {
+    const years = perShareByFiscalYear(history([100, 120, 80]), 100000000, SPLITS);
+
+    expect(years.map((year) => year.eps)).toEqual([50, 60, 80]);
+    expect(years.map((year) => year.bps)).toEqual([400, 450, 500]);
+  });
+
+  it('does not adjust EPS that the source already restated', () => {
+    const years = perShareByFiscalYear(history([50, 60, 80]), 100000000, SPLITS);
+
+    expect(years.map((year) => year.eps)).toEqual([50, 60, 80]);
+  });
+
+  it('uses each year\'s own share count, so a later buyback does not change past values', () => {
+    // 90 million shares today after a buyback; 100 million in every year on record
+    const years = perShareByFiscalYear(history([50, 60, 80]), 90000000);
+
+    expect(years.map((year) => year.eps)).toEqual([50, 60, 80]);
+    expect(years[0].bps).toBe(400);
+  });
+
+  it('starts using a fiscal year 45 days after its end', () => {
+    expect(perShareByFiscalYear(history([50, 60, 80]), 100000000)[2].announcedOn).toBe('2024-05-15');
+  });
+});
+
+describe('buildValuationSeries', () => {
+  it('keeps the previous year until the results are announced', () => {
+    const points = buildValuationSeries(
+      [bar('2024-04-30', 1200), bar('2024-05-31', 1200)],
+      history([100, 120, 80]),
+      100000000,
+      SPLITS
+    );
+
+    expect(points[0].per).toBeCloseTo(20, 10);
+    expect(points[1].per).toBeCloseTo(15, 10);
+    expect(points[1].pbr).toBeCloseTo(2.4, 10);
+    expect(points[1].bands.per).toEqual([800, 1200, 1600]);
+  });
+
+  it('has no values before the first announced year', () => {
+    const [point] = buildValuationSeries([bar('2022-04-30', 1000)], history([100, 120, 80]), 100000000, SPLITS);
+
+    expect(point.per).toBeNull();
+    expect(point.bands.pbr).toBeNull();
+  });
+});
+
+describe('percentiles', () => {
+  it('ranks the share of values at or below the current one', () => {
+    expect(percentileRank([10, 12, 15, 20], 12)).toBe(50);
+    expect(percentileRank([10, 12, 15, 20], 9)).toBe(0);
+    expect(percentileRank([10, 12, 15, 20], 25)).toBe(100);
+  });
+
+  it('ranks within the window and reports the years covered', () => {
+    const point = (date: string, per: number): ValuationPoint => ({
+      date,
+      price: 0,
+      per,
+      pbr: null,
+      bands: { per: null, pbr: null },
+    });
+    const points = [point('2014-06-30', 40), point('2020-06-30', 10), point('2022-06-30', 20), point('2024-06-30', 30)];
+
+    const range = rankInRange(points, 'per', 20, 5)!;
+
+    // The 2014 value is outside the five-year window
+    expect(range).toMatchObject({ min: 10, median: 20, max: 30 });
+    expect(range.percentile).toBeCloseTo(200 / 3, 10);
+    expect(range.coveredYears).toBeCloseTo(4, 1);
+    expect(rankInRange(points, 'pbr', 1, 5)).toBeNull();
+  });
+});
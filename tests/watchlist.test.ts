@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isWatchlistEntry, WatchlistEntry } from '../app/lib/watchlist';
+import { readStoredWatchlist, writeStoredWatchlist } from '../app/lib/watchlist-store';
+
+/**
+ * Watchlist entry validation and the server-side store behind /api/watchlist
+ */
+
+const entry = (code: string): WatchlistEntry => ({
+  code,
+  companyName: 'テスト工業',
+  dataSource: 'Yahoo Finance',
+  provider: 'yahoo',
+  sector: null,
+  financialData: { revenue: '120000', epsCurrentYear: '245.67', currentYearEnd: '2024-03-31' },
+  fetchedAt: '2024-06-20T00:00:00.000Z',
+});
+
+describe('isWatchlistEntry', () => {
+  it('accepts an entry with known fields', () => {
+    expect(isWatchlistEntry(entry('7203'))).toBe(true);
+    expect(isWatchlistEntry(entry('130A'))).toBe(true);
+  });
+
+  it('rejects codes that are not securities codes', () => {
+    expect(isWatchlistEntry(entry('../../package'))).toBe(false);
+    expect(isWatchlistEntry(entry('72030'))).toBe(false);
+  });
+
+  it('rejects unknown fields and values that are not numbers or dates', () => {
+    expect(isWatchlistEntry({ ...entry('7203'), financialData: { note: '1' } })).toBe(false);
+    expect(isWatchlistEntry({ ...entry('7203'), financialData: { revenue: 'abc' } })).toBe(false);
+    expect(isWatchlistEntry({ ...entry('7203'), financialData: { revenue: '0'.repeat(1000) } })).toBe(false);
+    expect(isWatchlistEntry({ ...entry('7203'), financialData: [] })).toBe(false);
+  });
+});
+
+describe('watchlist store and route', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'watchlist-'));
+    file = path.join(directory, 'watchlist.json');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('replaces the list without leaving temporary files', async () => {
+    await Promise.all([
+      writeStoredWatchlist(file, [entry('7203')]),
+      writeStoredWatchlist(file, [entry('6758'), entry('9984')]),
+    ]);
+
+    const stored = await readStoredWatchlist(file);
+    expect([1, 2]).toContain(stored.length);
+    expect(await fs.readdir(directory)).toEqual(['watchlist.json']);
+  });
+
+  const put = async (body: string, headers: Record<string, string> = {}) => {
+    vi.stubEnv('WATCHLIST_FILE', file);
+    const { PUT } = await import('../app/api/watchlist/route');
+    return PUT(new NextRequest('http://localhost:3000/api/watchlist', {
+      method: 'PUT',
+      headers: { host: 'localhost:3000', 'content-type': 'application/json', ...headers },
+      body,
+    }));
+  };
+
+  it('stores a valid list', async () => {
+    const response = await put(JSON.stringify({ entries: [entry('7203')] }));
+
+    expect(response.status).toBe(200);
+    expect(await readStoredWatchlist(file)).toEqual([entry('7203')]);
+  });
+
+  it('answers 400 for bodies that are not a list of valid entries', async () => {
+    expect((await put('null')).status).toBe(400);
+    expect((await put('[]')).status).toBe(400);
+    expect((await put(JSON.stringify({ entries: [entry('../../package')] }))).status).toBe(400);
+    await expect(fs.access(file)).rejects.toThrow();
+  });
+
+  it('refuses oversized bodies and other sites', async () => {
+    expect((await put(JSON.stringify({ entries: [], padding: 'x'.repeat(1024 * 1024) }))).status).toBe(413);
+    expect((await put(JSON.stringify({ entries: [] }), { origin: 'https://example.com' })).status).toBe(403);
+  });
+});
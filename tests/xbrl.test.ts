@@ -0,0 +1,228 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { mapXbrlToFinancialData, parseXbrl } from '../app/lib/xbrl';
+import { findLocalFiling, loadFiling } from '../app/lib/xbrl-filings';
+
+/**
+ * EDINET XBRL mapping against the fixture filings in tests/fixtures/edinet
+ * Fixture amounts are round million JPY figures so the expected values can be read off the files
+ */
+
+const FIXTURE_DIRECTORY = path.join(__dirname, 'fixtures', 'edinet');
+
+const readFixture = async (fileName: string) =>
+  new Uint8Array(await fs.readFile(path.join(FIXTURE_DIRECTORY, fileName)));
+
+describe('Japanese GAAP instance', () => {
+  it('reads the filer from the DEI facts', async () => {
+    const filing = await loadFiling(await readFixture('jgaap-annual.xbrl'));
+
+    expect(filing.companyName).toBe('テスト工業株式会社');
+    expect(filing.securitiesCode).toBe('9999');
+    expect(filing.fiscalPeriodEnd).toBe('2024-03-31');
+  });
+
+  it('maps the current year into FinancialData', async () => {
+    const { financialData } = await loadFiling(await readFixture('jgaap-annual.xbrl'));
+
+    expect(financialData).toMatchObject({
+      revenue: '120000',
+      grossProfit: '36000',
+      operatingIncome: '12000',
+      ebit: '12000',
+      pretaxIncome: '11500',
+      netIncome: '8000',
+      interestExpense: '300',
+      totalAssets: '200000',
+      currentAssets: '90000',
+      currentLiabilities: '60000',
+      totalLiabilities: '110000',
+      retainedEarnings: '50000',
+      totalCash: '30000',
+      sharesOutstanding: '100000000',
+      annualDividend: '30',
+      epsCurrentYear: '80',
+      operatingCashflow: '15000',
+      investingCashflow: '-10000',
+      financingCashflow: '-3000',
+      capex: '9000',
+      depreciation: '6000',
+    });
+  });
+
+  it('derives the items filings do not report directly', async () => {
+    const { financialData, provenance } = await loadFiling(await readFixture('jgaap-annual.xbrl'));
+
+    // 純資産 90,000 − 非支配株主持分 5,000
+    expect(financialData.equity).toBe('85000');
+    expect(provenance.equity?.kind).toBe('derived');
+    // 現金預金 30,000 + 受取手形及び売掛金 25,000 + 有価証券 5,000
+    expect(financialData.quickAssets).toBe('60000');
+    // 短期借入金 10,000 + 社債 10,000 + 長期借入金 20,000
+    expect(financialData.totalDebt).toBe('40000');
+    expect(financialData.longTermDebt).toBe('30000');
+    // 営業利益 12,000 + 減価償却費 6,000
+    expect(financialData.ebitda).toBe('18000');
+    // 営業CF 15,000 − 設備投資 9,000
+    expect(financialData.freeCashflow).toBe('6000');
+    // No share issuance line in the cash flow statement
+    expect(financialData.stockIssuance).toBe('0');
+    expect(provenance.stockIssuance?.kind).toBe('derived');
+  });
+
+  it('counts receivables once when the filing also tags them as separate lines', async () => {
+    const document = await fs.readFile(path.join(FIXTURE_DIRECTORY, 'jgaap-annual.xbrl'), 'utf-8');
+    const receivables = '<jppfs_cor:NotesAndAccountsReceivableTrade contextRef="CurrentYearInstant" unitRef="JPY" decimals="-6">25000000000</jppfs_cor:NotesAndAccountsReceivableTrade>';
+    const splitReceivables =
+      '<jppfs_cor:NotesReceivableTrade contextRef="CurrentYearInstant" unitRef="JPY" decimals="-6">5000000000</jppfs_cor:NotesReceivableTrade>' +
+      '<jppfs_cor:AccountsReceivableTrade contextRef="CurrentYearInstant" unitRef="JPY" decimals="-6">20000000000</jppfs_cor:AccountsReceivableTrade>';
+    expect(document).toContain(receivables);
+
+    const tagged = mapXbrlToFinancialData(parseXbrl(document.replace(receivables, receivables + splitReceivables)));
+    const splitOnly = mapXbrlToFinancialData(parseXbrl(document.replace(receivables, splitReceivables)));
+
+    expect(tagged.financialData.quickAssets).toBe('60000');
+    expect(tagged.provenance.quickAssets?.formula).toBe('CashAndDeposits + NotesAndAccountsReceivableTrade + ShortTermInvestmentSecurities');
+    // Without the combined line, notes and accounts receivable are added up
+    expect(splitOnly.financialData.quickAssets).toBe('60000');
+  });
+
+  it('maps the current, prior and four-years-back fiscal years', async () => {
+    const { financialData } = await loadFiling(await readFixture('jgaap-annual.xbrl'));
+
+    expect(financialData).toMatchObject({
+      revenueCurrentYear: '120000',
+      grossProfitCurrentYear: '36000',
+      netIncomeCurrentYear: '8000',
+      operatingCashflowCurrentYear: '15000',
+      totalAssetsCurrentYear: '200000',
+      longTermDebtCurrentYear: '30000',
+      currentAssetsCurrentYear: '90000',
+      currentLiabilitiesCurrentYear: '60000',
+      revenuePriorYear: '110000',
+      grossProfitPriorYear: '32000',
+      netIncomePriorYear: '7000',
+      operatingCashflowPriorYear: '12000',
+      totalAssetsPriorYear: '190000',
+      currentAssetsPriorYear: '85000',
+      currentLiabilitiesPriorYear: '58000',
+      longTermDebtPriorYear: '32000',
+      revenueFourYearsAgo: '90000',
+      operatingIncomeFourYearsAgo: '8000',
+      epsFourYearsAgo: '50',
+      currentYearEnd: '2024-03-31',
+      pastYearEnd: '2020-03-31',
+    });
+  });
+
+  it('builds the history series from oldest to newest', async () => {
+    const { history } = await loadFiling(await readFixture('jgaap-annual.xbrl'));
+
+    expect(history.revenue).toEqual([
+      { endDate: '2020-03-31', value: 90000 },
+      { endDate: '2023-03-31', value: 110000 },
+      { endDate: '2024-03-31', value: 120000 },
+    ]);
+    expect(history.eps.map((point) => point.value)).toEqual([50, 70, 80]);
+  });
+
+  it('reads the instance out of a filing package', async () => {
+    const zip = new JSZip();
+    zip.file('XBRL/PublicDoc/jpcrp030000-asr-001_E99999-000_2024-03-31_01_2024-06-20.xbrl', await readFixture('jgaap-annual.xbrl'));
+    zip.file('XBRL/AuditDoc/jpaud-aar-cn-001_E99999-000_2024-03-31_01_2024-06-20.xbrl', '<xbrli:xbrl></xbrli:xbrl>');
+    const data = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+
+    const filing = await loadFiling(data);
+
+    expect(filing.securitiesCode).toBe('9999');
+    expect(filing.financialData.revenue).toBe('120000');
+  });
+});
+
+describe('IFRS inline XBRL document', () => {
+  it('applies scale and sign while mapping the current year', async () => {
+    const { financialData } = await loadFiling(await readFixture('ifrs-annual_ixbrl.htm'));
+
+    expect(financialData).toMatchObject({
+      revenue: '250000',
+      grossProfit: '70000',
+      operatingIncome: '20000',
+      pretaxIncome: '19500',
+      netIncome: '13000',
+      interestExpense: '800',
+      totalAssets: '400000',
+      currentAssets: '140000',
+      currentLiabilities: '100000',
+      totalLiabilities: '220000',
+      retainedEarnings: '120000',
+      equity: '170000',
+      totalCash: '40000',
+      sharesOutstanding: '200000000',
+      epsCurrentYear: '65',
+      operatingCashflow: '30000',
+      investingCashflow: '-20000',
+      financingCashflow: '-6000',
+      stockIssuance: '1000',
+      capex: '18000',
+    });
+  });
+
+  it('sums and derives the IFRS line items', async () => {
+    const { financialData, provenance } = await loadFiling(await readFixture('ifrs-annual_ixbrl.htm'));
+
+    // 現金及び現金同等物 40,000 + 営業債権及びその他の債権 50,000
+    expect(financialData.quickAssets).toBe('90000');
+    // 社債及び借入金（流動 15,000 + 非流動 45,000）
+    expect(financialData.totalDebt).toBe('60000');
+    expect(financialData.longTermDebt).toBe('45000');
+    expect(financialData.ebitda).toBe('35000');
+    expect(financialData.freeCashflow).toBe('12000');
+    expect(provenance.equity).toEqual({
+      kind: 'reported',
+      source: 'EDINET XBRL jpigp_cor:EquityAttributableToOwnersOfParentIFRS（CurrentYearInstant）',
+    });
+  });
+
+  it('keeps a prior-year loss negative and leaves unreported years empty', async () => {
+    const { financialData } = await loadFiling(await readFixture('ifrs-annual_ixbrl.htm'));
+
+    expect(financialData.netIncomePriorYear).toBe('-2000');
+    expect(financialData.revenuePriorYear).toBe('230000');
+    expect(financialData.longTermDebtPriorYear).toBe('50000');
+    expect(financialData.revenueFourYearsAgo).toBeUndefined();
+    expect(financialData.epsFourYearsAgo).toBeUndefined();
+    expect(financialData.pastYearEnd).toBeUndefined();
+  });
+
+  it('reads numeric facts nested inside a text block', async () => {
+    const { facts } = parseXbrl(await fs.readFile(path.join(FIXTURE_DIRECTORY, 'ifrs-annual_ixbrl.htm'), 'utf-8'));
+    const names = facts.map((fact) => fact.name);
+
+    expect(names).toContain('jpigp_cor:ConsolidatedStatementOfFinancialPositionIFRSTextBlock');
+    expect(facts).toContainEqual({ name: 'jpigp_cor:AssetsIFRS', contextRef: 'CurrentYearInstant', value: '400000000000' });
+  });
+
+  it('applies the ixt format and skips values that are not numbers', async () => {
+    const { facts } = parseXbrl(await fs.readFile(path.join(FIXTURE_DIRECTORY, 'ifrs-annual_ixbrl.htm'), 'utf-8'));
+    const priorYear = (name: string) => facts.filter((fact) => fact.name === name && fact.contextRef.startsWith('Prior1Year'));
+
+    // ixt:fixed-zero の「－」はゼロ、書式のない「－」は報告値として扱わない
+    expect(priorYear('jpigp_cor:FinanceCostsIFRS').map((fact) => fact.value)).toEqual(['0']);
+    expect(priorYear('jpigp_cor:ProfitLossBeforeTaxIFRS')).toEqual([]);
+    // ixt:numcommadecimal（小数点がカンマ）
+    expect(priorYear('jpigp_cor:RetainedEarningsIFRS').map((fact) => fact.value)).toEqual(['110500500000']);
+  });
+});
+
+describe('findLocalFiling', () => {
+  it('finds each fixture by its securities code', async () => {
+    expect((await findLocalFiling('9999', FIXTURE_DIRECTORY))?.companyName).toBe('テスト工業株式会社');
+    expect((await findLocalFiling('8888', FIXTURE_DIRECTORY))?.companyName).toBe('サンプル電機株式会社');
+  });
+
+  it('returns null for a code without a filing', async () => {
+    expect(await findLocalFiling('1234', FIXTURE_DIRECTORY)).toBeNull();
+  });
+});